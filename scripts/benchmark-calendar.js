@@ -0,0 +1,317 @@
+/**
+ * Render-count benchmark for the program calendar (ProgramCalendarGrid).
+ *
+ * Mounts the grid on a generated 20-week × 7-day program (4 blocks a day) in
+ * a headless DOM, makes the edits the builder makes, and checks how many week
+ * rows and day cells re-render for each one (counted by the grid's Profilers,
+ * see src/utils/renderStats.ts). Then mounts the whole ProgramBuilderForm on
+ * the same program and edits through its UI: typing a week name must not
+ * render the builder, and a saved edit renders the builder once together with
+ * the row or cell it changed (one pass through the editor store). Exits with
+ * 1 when an edit renders more than its budget.
+ *
+ *   npm run bench:calendar
+ */
+import { resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { Window } from 'happy-dom'
+import { createServer } from 'vite'
+
+const __dirname = fileURLToPath(new URL('.', import.meta.url))
+const root = resolve(__dirname, '..')
+
+const WEEKS = 20
+const DAYS = 7
+const BLOCKS_PER_DAY = 4
+
+// Browser globals before React loads; 800px tall so the windowed grid renders
+// the rows a laptop screen would
+const window = new Window({ url: 'http://localhost/', height: 800 })
+for (const key of Object.getOwnPropertyNames(window)) {
+  if (key in globalThis && key !== 'navigator') continue
+  Object.defineProperty(globalThis, key, {
+    value: window[key],
+    configurable: true,
+    writable: true,
+  })
+}
+globalThis.window = window
+globalThis.IS_REACT_ACT_ENVIRONMENT = true
+
+/** Saved program: every week, day and block has an id, as after a load */
+function buildProgram() {
+  let id = 1
+  return {
+    weeks: Array.from({ length: WEEKS }, (_, w) => ({
+      id: id++,
+      weekIndex: w + 1,
+      weekName: `Week ${w + 1}`,
+      days: Array.from({ length: DAYS }, (_, d) => ({
+        id: id++,
+        dayIndex: d + 1,
+        dayName: `Day ${d + 1}`,
+        sections: Array.from({ length: BLOCKS_PER_DAY }, (_, b) => ({
+          id: id++,
+          blockType: 'EXERCISE',
+          blockCategory: b === 0 ? 'Prep' : 'Strength/Power',
+          exercises: [
+            { exerciseId: (b % 12) + 1, sets: 4, reps: 5, weightPercent: 70 },
+          ],
+        })),
+      })),
+    })),
+  }
+}
+
+/** The program as the builder gets it: weeks not saved yet, so a rename stays local */
+function builderProgram(structure) {
+  return {
+    id: 1,
+    name: 'Benchmark',
+    description: '',
+    category: null,
+    subCategory: null,
+    cycleId: 1,
+    isActive: true,
+    programStructure: {
+      weeks: structure.weeks.map(({ id: _id, ...week }) => week),
+    },
+  }
+}
+
+/** Type into a React-controlled input */
+function typeInto(input, value) {
+  const setter = Object.getOwnPropertyDescriptor(
+    Object.getPrototypeOf(input),
+    'value'
+  ).set
+  setter.call(input, value)
+  input.dispatchEvent(new window.Event('input', { bubbles: true }))
+}
+
+/** Copy-on-write update of one day, the way the builder edits a session */
+function updateDay(structure, weekIdx, dayIdx, update) {
+  return {
+    weeks: structure.weeks.map((week, w) =>
+      w !== weekIdx
+        ? week
+        : {
+            ...week,
+            days: week.days.map((day, d) => (d !== dayIdx ? day : update(day))),
+          }
+    ),
+  }
+}
+
+const server = await createServer({
+  root,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false },
+  optimizeDeps: { noDiscovery: true, include: [] },
+})
+
+let failed = false
+try {
+  const React = await import('react')
+  const { createRoot } = await import('react-dom/client')
+  const { ProgramCalendarGrid } = await server.ssrLoadModule(
+    '/src/components/Program/ProgramCalendarGrid.tsx'
+  )
+  const { createProgramEditorStore } = await server.ssrLoadModule(
+    '/src/utils/programEditorStore.ts'
+  )
+  const { getRenderStats, resetRenderStats } = await server.ssrLoadModule(
+    '/src/utils/renderStats.ts'
+  )
+  const { act, createElement } = React
+
+  let structure = buildProgram()
+  const store = createProgramEditorStore(structure)
+  const noop = () => {}
+  const actions = new Proxy({}, { get: () => noop })
+  const exerciseName = id => `Exercise ${id}`
+  const baseProps = {
+    store,
+    program: { isPublished: false },
+    isAmberCycle: false,
+    exerciseName,
+    selectedCells: new Set(),
+    draggedSession: null,
+    draggedWeekIdx: null,
+    editingWeekIdx: null,
+    actions,
+  }
+
+  const container = document.createElement('div')
+  document.body.appendChild(container)
+  const reactRoot = createRoot(container)
+  const render = props =>
+    act(() => reactRoot.render(createElement(ProgramCalendarGrid, props)))
+  // Let the windowed rows settle (they measure in an animation frame)
+  const settle = () =>
+    act(() => new Promise(done => window.setTimeout(done, 50)))
+
+  resetRenderStats()
+  await render(baseProps)
+  await settle()
+  const mounted = getRenderStats()
+  const renderedWeeks = container.querySelectorAll('[data-virtual-row]').length
+  console.log(
+    `${WEEKS} weeks × ${DAYS} days: ${renderedWeeks} week rows on screen, mount rendered ${mounted.CalendarWeekRow ?? 0} rows / ${mounted.CalendarDayCell ?? 0} cells`
+  )
+
+  /** Edits and the most rows / cells each may re-render */
+  const scenarios = [
+    {
+      name: 'Change reps of one exercise (week 2, day 3)',
+      budget: { rows: 0, cells: 1 },
+      run: () => {
+        structure = updateDay(structure, 1, 2, day => ({
+          ...day,
+          sections: day.sections.map((section, s) =>
+            s !== 0
+              ? section
+              : {
+                  ...section,
+                  exercises: [{ ...section.exercises[0], reps: 3 }],
+                }
+          ),
+        }))
+        return act(() => store.load(structure))
+      },
+    },
+    {
+      name: 'Add a block (week 1, day 1)',
+      budget: { rows: 0, cells: 1 },
+      run: () => {
+        structure = updateDay(structure, 0, 0, day => ({
+          ...day,
+          sections: [
+            ...day.sections,
+            { blockType: 'EXERCISE', exercises: [{ exerciseId: 9 }] },
+          ],
+        }))
+        return act(() => store.load(structure))
+      },
+    },
+    {
+      name: 'Rename a week (week 3)',
+      budget: { rows: 1, cells: 0 },
+      run: () => {
+        structure = {
+          weeks: structure.weeks.map((week, w) =>
+            w === 2 ? { ...week, weekName: 'Deload' } : week
+          ),
+        }
+        return act(() => store.load(structure))
+      },
+    },
+    {
+      name: 'Select one session (week 4, day 5)',
+      budget: { rows: 1, cells: 1 },
+      run: () => render({ ...baseProps, selectedCells: new Set(['3-4']) }),
+    },
+  ]
+
+  /** Renders of ProgramBuilderForm itself (not counting its children) */
+  let builderRenders = 0
+  const measure = async list => {
+    for (const { name, budget, run } of list) {
+      resetRenderStats()
+      builderRenders = 0
+      await run()
+      const stats = getRenderStats()
+      const rows = stats.CalendarWeekRow ?? 0
+      const cells = stats.CalendarDayCell ?? 0
+      const ok =
+        rows <= budget.rows &&
+        cells <= budget.cells &&
+        (budget.builder == null || builderRenders <= budget.builder)
+      if (!ok) failed = true
+      const builder =
+        budget.builder == null
+          ? ''
+          : `, ${builderRenders} builder (budget ${budget.builder})`
+      console.log(
+        `${ok ? 'ok  ' : 'FAIL'} ${name}: ${rows} rows, ${cells} cells (budget ${budget.rows} / ${budget.cells})${builder}`
+      )
+    }
+  }
+  await measure(scenarios)
+  await act(() => reactRoot.unmount())
+
+  // The same program in the builder. Its API calls fail here (no server);
+  // it renders from the program it is given.
+  const { ProgramBuilderForm } = await server.ssrLoadModule(
+    '/src/components/Program/ProgramBuilderForm.tsx'
+  )
+  const { SnackbarProvider } = await server.ssrLoadModule(
+    '/src/components/Snackbar/SnackbarProvider.tsx'
+  )
+  const { MemoryRouter } = await import('react-router-dom')
+  // Calling the component from a wrapper runs its hooks in the wrapper, so
+  // every render of the builder (its own state updates too) is counted
+  const CountedBuilder = props => {
+    builderRenders++
+    return ProgramBuilderForm(props)
+  }
+  const builderRoot = createRoot(container)
+  await act(() =>
+    builderRoot.render(
+      createElement(
+        MemoryRouter,
+        null,
+        createElement(
+          SnackbarProvider,
+          null,
+          createElement(CountedBuilder, {
+            program: builderProgram(buildProgram()),
+          })
+        )
+      )
+    )
+  )
+  await settle()
+  const weekRow = idx => container.querySelector(`[data-virtual-row="${idx}"]`)
+  const buttonIn = (el, text) =>
+    [...el.querySelectorAll('button')].find(b => b.textContent.trim() === text)
+  await act(() => buttonIn(weekRow(2), 'Week 3').click())
+  const nameInput = weekRow(2).querySelector('input')
+
+  await measure([
+    {
+      name: 'Builder: type a week name (week 3)',
+      // the row count is its header cell, which holds the typed name
+      budget: { rows: 1, cells: 0, builder: 0 },
+      run: () => act(() => typeInto(nameInput, 'Week 3 deload')),
+    },
+    {
+      name: 'Builder: save the week name (week 3)',
+      budget: { rows: 1, cells: 0, builder: 1 },
+      run: () => act(() => buttonIn(weekRow(2), 'Save').click()),
+    },
+    {
+      name: 'Builder: select one session (week 4, day 5)',
+      budget: { rows: 1, cells: 1, builder: 1 },
+      run: () =>
+        act(() =>
+          weekRow(3)
+            .querySelector('[data-day-idx="4"] button')
+            .dispatchEvent(
+              new window.MouseEvent('mousedown', { bubbles: true })
+            )
+        ),
+    },
+  ])
+  if (!weekRow(2).textContent.includes('Week 3 deload')) {
+    console.log('FAIL Builder: the renamed week does not show its new name')
+    failed = true
+  }
+  await act(() => builderRoot.unmount())
+} finally {
+  await server.close()
+  await window.happyDOM.close()
+}
+
+process.exit(failed ? 1 : 0)
@@ -4,6 +4,7 @@ import type {
   GetCoachesResponse,
   GetMyAthletesResponse,
 } from '@/types/coach'
+import type { SetWorkingMaxDTO, WorkingMaxHistoryEntry } from '@/types/train'
 
 export const coachService = {
   /**
@@ -99,16 +100,22 @@ export const coachService = {
       }
     }>(`coach/athletes/${athleteId}/working-max`),
 
-  /** MASS Phase 3: Set athlete working max manually. POST coach/athletes/:athleteId/working-max */
-  setAthleteWorkingMax: (
-    athleteId: number,
-    body: { exerciseId: number; value: number; unit: 'lb' | 'kg' }
-  ) =>
+  /** MASS Phase 3: Set athlete working max manually (or accept an e1RM suggestion with source: auto). POST coach/athletes/:athleteId/working-max */
+  setAthleteWorkingMax: (athleteId: number, body: SetWorkingMaxDTO) =>
     api.post<{ statusCode: number; data: { workingMax: unknown } }>(
       `coach/athletes/${athleteId}/working-max`,
       body
     ),
 
+  /** e1RM: Accepted working max changes for one athlete exercise. GET coach/athletes/:athleteId/working-max/history?exerciseId= */
+  getAthleteWorkingMaxHistory: (athleteId: number, exerciseId: number) =>
+    api.get<{
+      statusCode: number
+      data: { history: WorkingMaxHistoryEntry[] }
+    }>(`coach/athletes/${athleteId}/working-max/history`, {
+      params: { exerciseId },
+    }),
+
   /** MASS Phase 8: Get athlete detail summary (profile, program, roadmap, tests, recovery). GET coach/athletes/:athleteId/summary */
   getAthleteSummary: (athleteId: number) =>
     api.get<{
@@ -13,6 +13,9 @@ import type {
   EnrollProgramResponse,
   CurrentProgramResponse,
   RecommendedNextResponse,
+  CreateProgramVersionDTO,
+  GetProgramVersionsResponse,
+  GetProgramVersionResponse,
 } from '@/types/program'
 
 export const programService = {
@@ -63,6 +66,32 @@ export const programService = {
   publish: (programId: number) =>
     api.patch<GetProgramResponse>(`admin/program/publish/${programId}`),
 
+  /**
+   * Snapshot the program's current saved state as a new version
+   * POST /api/v1/admin/program/:programId/versions
+   */
+  createVersion: (programId: number, body: CreateProgramVersionDTO) =>
+    api.post<GetProgramVersionResponse>(
+      `admin/program/${programId}/versions`,
+      body
+    ),
+
+  /**
+   * Version history, newest first (without programStructure)
+   * GET /api/v1/admin/program/:programId/versions
+   */
+  getVersions: (programId: number) =>
+    api.get<GetProgramVersionsResponse>(`admin/program/${programId}/versions`),
+
+  /**
+   * One version with its programStructure
+   * GET /api/v1/admin/program/:programId/versions/:versionId
+   */
+  getVersion: (programId: number, versionId: number) =>
+    api.get<GetProgramVersionResponse>(
+      `admin/program/${programId}/versions/${versionId}`
+    ),
+
   // Legacy method (kept for backward compatibility)
   createProgram: (payload: CreateProgramDTO) =>
     api.post<CreateProgramResponse>('admin/program/create', payload),
@@ -6,8 +6,18 @@ import type {
   CreateSessionDTO,
   UpdateSessionDTO,
   LogSetDTO,
+  UpdateSetLogDTO,
+  LogConditioningResultDTO,
+  ReadinessEntry,
+  SetWorkingMaxDTO,
+  SubmitReadinessDTO,
+  WorkingMaxHistoryEntry,
 } from '@/types/train'
 
+/** Offline outbox: replayed writes carry the key so the backend can drop duplicates */
+const withIdempotencyKey = (idempotencyKey?: string) =>
+  idempotencyKey ? { headers: { 'Idempotency-Key': idempotencyKey } } : {}
+
 export const trainService = {
   /**
    * Get today's scheduled workout (or for a given date).
@@ -43,44 +53,48 @@ export const trainService = {
    * Create or get session for a date.
    * POST /athlete/train/sessions
    */
-  createOrGetSession: (body: CreateSessionDTO) =>
-    api.post<WorkoutSessionResponse>('athlete/train/sessions', body),
+  createOrGetSession: (body: CreateSessionDTO, idempotencyKey?: string) =>
+    api.post<WorkoutSessionResponse>(
+      'athlete/train/sessions',
+      body,
+      withIdempotencyKey(idempotencyKey)
+    ),
 
   /**
    * Update session status (complete/skip). MASS Phase 7: intensityRating, sessionComments.
    * PATCH /athlete/train/sessions/:id
    */
-  updateSession: (sessionId: number, body: UpdateSessionDTO) =>
+  updateSession: (
+    sessionId: number,
+    body: UpdateSessionDTO,
+    idempotencyKey?: string
+  ) =>
     api.patch<WorkoutSessionResponse>(
       `athlete/train/sessions/${sessionId}`,
-      body
+      body,
+      withIdempotencyKey(idempotencyKey)
     ),
 
   /**
-   * MASS Phase 7: Submit pre-session readiness survey (1-5 for Sleep, Stress, Energy, Soreness, Mood).
+   * MASS Phase 7: Submit pre-session readiness survey (1-5 for Sleep, Stress, Energy, Soreness, Mood),
+   * with the recommended adjustment and whether the athlete applied it.
    * POST /athlete/train/readiness
    */
-  submitReadiness: (body: {
-    sessionDate: string
-    workoutSessionId?: number
-    sleep: number
-    stress: number
-    energy: number
-    soreness: number
-    mood: number
-  }) =>
-    api.post<{ statusCode: number; data: unknown }>(
+  submitReadiness: (body: SubmitReadinessDTO, idempotencyKey?: string) =>
+    api.post<{ statusCode: number; data: ReadinessEntry }>(
       'athlete/train/readiness',
-      body
+      body,
+      withIdempotencyKey(idempotencyKey)
     ),
 
   /**
    * MASS Phase 7: Get readiness for a date. GET /athlete/train/readiness?date=
    */
   getReadiness: (date: string) =>
-    api.get<{ statusCode: number; data: unknown }>('athlete/train/readiness', {
-      params: { date },
-    }),
+    api.get<{ statusCode: number; data: ReadinessEntry | null }>(
+      'athlete/train/readiness',
+      { params: { date } }
+    ),
 
   /**
    * MASS Phase 7: Record exercise swap for this session only.
@@ -88,11 +102,13 @@ export const trainService = {
    */
   swapExercise: (
     sessionId: number,
-    body: { originalExerciseId: number; newExerciseId: number }
+    body: { originalExerciseId: number; newExerciseId: number },
+    idempotencyKey?: string
   ) =>
     api.post<WorkoutSessionResponse>(
       `athlete/train/sessions/${sessionId}/swap`,
-      body
+      body,
+      withIdempotencyKey(idempotencyKey)
     ),
 
   /**
@@ -191,12 +207,49 @@ export const trainService = {
    * Log a set for a session.
    * POST /athlete/train/sessions/:id/sets
    */
-  logSet: (sessionId: number, body: LogSetDTO) =>
+  logSet: (sessionId: number, body: LogSetDTO, idempotencyKey?: string) =>
     api.post<WorkoutSessionResponse>(
       `athlete/train/sessions/${sessionId}/sets`,
+      body,
+      withIdempotencyKey(idempotencyKey)
+    ),
+
+  /**
+   * Correct a logged set. The backend marks it modified, appends the previous
+   * values to its edit trail and recomputes the session summary.
+   * PATCH /athlete/train/sessions/:id/sets/:setLogId
+   */
+  updateSetLog: (sessionId: number, setLogId: number, body: UpdateSetLogDTO) =>
+    api.patch<WorkoutSessionResponse>(
+      `athlete/train/sessions/${sessionId}/sets/${setLogId}`,
       body
     ),
 
+  /**
+   * Delete a logged set; the session summary is recomputed.
+   * DELETE /athlete/train/sessions/:id/sets/:setLogId
+   */
+  deleteSetLog: (sessionId: number, setLogId: number) =>
+    api.delete<WorkoutSessionResponse>(
+      `athlete/train/sessions/${sessionId}/sets/${setLogId}`
+    ),
+
+  /**
+   * Save a conditioning block result (AMRAP rounds+reps, For Time, EMOM intervals, Tabata reps…).
+   * One result per section; posting again replaces it.
+   * POST /athlete/train/sessions/:id/conditioning-results
+   */
+  logConditioningResult: (
+    sessionId: number,
+    body: LogConditioningResultDTO,
+    idempotencyKey?: string
+  ) =>
+    api.post<WorkoutSessionResponse>(
+      `athlete/train/sessions/${sessionId}/conditioning-results`,
+      body,
+      withIdempotencyKey(idempotencyKey)
+    ),
+
   /**
    * Get working max (MASS Phase 3). With exerciseId: single exercise + lastLogged; without: list all.
    */
@@ -230,15 +283,22 @@ export const trainService = {
   },
 
   /**
-   * Set working max manually (MASS Phase 3). POST /athlete/train/working-max
+   * Set working max manually (MASS Phase 3), or accept an e1RM suggestion (source: auto).
+   * POST /athlete/train/working-max
    */
-  setWorkingMax: (body: {
-    exerciseId: number
-    value: number
-    unit: 'lb' | 'kg'
-  }) =>
+  setWorkingMax: (body: SetWorkingMaxDTO) =>
     api.post<{ statusCode: number; data: { workingMax: unknown } }>(
       'athlete/train/working-max',
       body
     ),
+
+  /**
+   * Accepted working max changes for an exercise, newest first.
+   * GET /athlete/train/working-max/history?exerciseId=
+   */
+  getWorkingMaxHistory: (exerciseId: number) =>
+    api.get<{
+      statusCode: number
+      data: { history: WorkingMaxHistoryEntry[] }
+    }>('athlete/train/working-max/history', { params: { exerciseId } }),
 }
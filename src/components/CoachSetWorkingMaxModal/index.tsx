@@ -4,6 +4,9 @@ import { Text } from '@/components/Text'
 import { Input } from '@/components/Input'
 import { coachService } from '@/api/coach.service'
 import { useSnackbar } from '@/components/Snackbar/useSnackbar'
+import { WorkingMaxHistoryList } from '@/components/WorkingMaxSuggestions'
+import type { WorkingMaxHistoryEntry } from '@/types/train'
+import type { WorkingMaxSuggestion } from '@/utils/e1rm'
 import type { AxiosError } from 'axios'
 
 export interface CoachSetWorkingMaxModalProps {
@@ -15,6 +18,8 @@ export interface CoachSetWorkingMaxModalProps {
   exerciseName: string
   currentValue?: number
   currentUnit?: 'lb' | 'kg'
+  /** e1RM: prefill with a suggested value; saved as source auto when unchanged */
+  suggestion?: WorkingMaxSuggestion
 }
 
 export function CoachSetWorkingMaxModal({
@@ -26,20 +31,49 @@ export function CoachSetWorkingMaxModal({
   exerciseName,
   currentValue,
   currentUnit = 'lb',
+  suggestion,
 }: Readonly<CoachSetWorkingMaxModalProps>) {
   const [value, setValue] = useState<string>(
     currentValue != null ? String(currentValue) : ''
   )
   const [unit, setUnit] = useState<'lb' | 'kg'>(currentUnit ?? 'lb')
   const [saving, setSaving] = useState(false)
+  const [history, setHistory] = useState<WorkingMaxHistoryEntry[]>([])
+  const [historyLoading, setHistoryLoading] = useState(false)
   const { showSuccess, showError } = useSnackbar()
 
   useEffect(() => {
     if (visible) {
-      setValue(currentValue != null ? String(currentValue) : '')
-      setUnit(currentUnit ?? 'lb')
+      const initial = suggestion?.suggestedValue ?? currentValue
+      setValue(initial != null ? String(initial) : '')
+      setUnit(suggestion?.unit ?? currentUnit ?? 'lb')
     }
-  }, [visible, currentValue, currentUnit])
+  }, [visible, currentValue, currentUnit, suggestion])
+
+  useEffect(() => {
+    if (!visible || !exerciseId) return
+    let cancelled = false
+    queueMicrotask(() => {
+      if (cancelled) return
+      setHistoryLoading(true)
+      coachService
+        .getAthleteWorkingMaxHistory(athleteId, exerciseId)
+        .then(res => {
+          if (!cancelled && res.data?.statusCode === 200) {
+            setHistory(res.data.data?.history ?? [])
+          }
+        })
+        .catch(() => {
+          if (!cancelled) setHistory([])
+        })
+        .finally(() => {
+          if (!cancelled) setHistoryLoading(false)
+        })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [visible, athleteId, exerciseId])
 
   const handleSave = async () => {
     const num = value.trim() ? Number(value.trim()) : NaN
@@ -47,12 +81,23 @@ export function CoachSetWorkingMaxModal({
       showError('Enter a valid weight greater than 0.')
       return
     }
+    // Accepting the e1RM suggestion as-is records it as an auto update
+    const autoSource =
+      suggestion &&
+      num === suggestion.suggestedValue &&
+      unit === suggestion.unit
+        ? {
+            source: 'auto' as const,
+            estimate: { method: suggestion.method, ...suggestion.basedOn },
+          }
+        : {}
     setSaving(true)
     try {
       await coachService.setAthleteWorkingMax(athleteId, {
         exerciseId,
         value: num,
         unit,
+        ...autoSource,
       })
       showSuccess('Working max updated.')
       onSuccess?.()
@@ -86,6 +131,13 @@ export function CoachSetWorkingMaxModal({
       }}
     >
       <div className="space-y-4">
+        {suggestion && (
+          <Text variant="secondary" className="text-sm block text-[#2ea8db]">
+            Suggested from est. 1RM ({suggestion.basedOn.reps} reps @{' '}
+            {Math.round(suggestion.basedOn.weight * 10) / 10} {suggestion.unit}
+            ): {suggestion.suggestedValue} {suggestion.unit}
+          </Text>
+        )}
         <Text variant="secondary" className="text-sm block">
           Set this athlete&apos;s working max for the exercise. Manual values
           are not overwritten by auto-calculation.
@@ -120,6 +172,7 @@ export function CoachSetWorkingMaxModal({
             </select>
           </div>
         </div>
+        <WorkingMaxHistoryList history={history} loading={historyLoading} />
       </div>
     </Modal>
   )
@@ -0,0 +1,375 @@
+import { useState } from 'react'
+import { Text } from '@/components/Text'
+import { Button } from '@/components/Button'
+import type {
+  ConditioningResult,
+  ConditioningResultEntry,
+  ConditioningResultKind,
+} from '@/types/train'
+import {
+  formatConditioningResult,
+  formatDuration,
+  parseDuration,
+  type ConditioningTimerSummary,
+} from '@/utils/conditioningResult'
+
+const inputClass =
+  'border border-gray-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-[#3AB8ED]/30 focus:border-[#3AB8ED] outline-none'
+
+type FormValues = {
+  rounds: string
+  reps: string
+  time: string
+  timeCapped: boolean
+  repsAtCap: string
+  intervals: string
+  perRound: string[]
+  amount: string
+  completed: boolean
+  notes: string
+}
+
+function initialValues(
+  kind: ConditioningResultKind,
+  totalIntervals: number | undefined,
+  saved: ConditioningResultEntry | undefined,
+  summary: ConditioningTimerSummary | undefined
+): FormValues {
+  const values: FormValues = {
+    rounds: '',
+    reps: '',
+    time: summary ? formatDuration(summary.elapsedSeconds) : '',
+    timeCapped: summary?.timeCapped ?? false,
+    repsAtCap: '',
+    intervals: summary ? String(summary.completedIntervals) : '',
+    perRound: Array.from({ length: totalIntervals ?? 8 }, () => ''),
+    amount: '',
+    completed: true,
+    notes: saved?.notes ?? '',
+  }
+  const r = saved?.result
+  if (!r || r.kind !== kind) return values
+  switch (r.kind) {
+    case 'rounds_reps':
+      return { ...values, rounds: String(r.rounds), reps: String(r.reps) }
+    case 'time':
+      return {
+        ...values,
+        time: formatDuration(r.elapsedSeconds),
+        timeCapped: r.timeCapped,
+        repsAtCap: r.repsAtCap != null ? String(r.repsAtCap) : '',
+      }
+    case 'intervals':
+      return { ...values, intervals: String(r.completedIntervals) }
+    case 'per_round_reps':
+      return { ...values, perRound: r.repsPerRound.map(String) }
+    case 'calories':
+      return { ...values, amount: String(r.calories) }
+    case 'distance':
+      return { ...values, amount: String(r.meters) }
+    case 'completion':
+      return { ...values, completed: r.completed }
+  }
+}
+
+/** Build a result from the form; returns an error message when a field is missing */
+function buildResult(
+  kind: ConditioningResultKind,
+  v: FormValues,
+  totalIntervals: number | undefined
+): ConditioningResult | string {
+  const num = (s: string) => (s.trim() === '' ? NaN : Number(s))
+  switch (kind) {
+    case 'rounds_reps': {
+      const rounds = num(v.rounds)
+      const reps = v.reps.trim() === '' ? 0 : num(v.reps)
+      if (!Number.isInteger(rounds) || rounds < 0 || !(reps >= 0)) {
+        return 'Enter rounds (and extra reps).'
+      }
+      return { kind, rounds, reps }
+    }
+    case 'time': {
+      const elapsedSeconds = parseDuration(v.time)
+      if (elapsedSeconds == null) return 'Enter a time like 12:41.'
+      const repsAtCap = num(v.repsAtCap)
+      return {
+        kind,
+        elapsedSeconds,
+        timeCapped: v.timeCapped,
+        repsAtCap:
+          v.timeCapped && Number.isFinite(repsAtCap) ? repsAtCap : undefined,
+      }
+    }
+    case 'intervals': {
+      const completedIntervals = num(v.intervals)
+      if (!Number.isInteger(completedIntervals) || completedIntervals < 0) {
+        return 'Enter completed intervals.'
+      }
+      return { kind, completedIntervals, totalIntervals }
+    }
+    case 'per_round_reps': {
+      const repsPerRound = v.perRound.map(num)
+      if (repsPerRound.some(n => !Number.isFinite(n) || n < 0)) {
+        return 'Enter reps for every round.'
+      }
+      return { kind, repsPerRound }
+    }
+    case 'calories': {
+      const calories = num(v.amount)
+      return Number.isFinite(calories) && calories >= 0
+        ? { kind, calories }
+        : 'Enter calories.'
+    }
+    case 'distance': {
+      const meters = num(v.amount)
+      return Number.isFinite(meters) && meters >= 0
+        ? { kind, meters }
+        : 'Enter distance in meters.'
+    }
+    case 'completion':
+      return { kind, completed: v.completed }
+  }
+}
+
+export interface ConditioningResultFormProps {
+  kind: ConditioningResultKind
+  /** EMOM / Tabata / Custom Interval round count from conditioningConfig */
+  totalIntervals?: number
+  /** Result already saved for this block */
+  saved?: ConditioningResultEntry
+  /** Timer values at stop, used to prefill time / intervals */
+  timerSummary?: ConditioningTimerSummary
+  onSave: (result: ConditioningResult, notes?: string) => void
+  saving?: boolean
+  disabled?: boolean
+}
+
+/**
+ * Conditioning: result entry for one block, shaped by its format
+ *
+ * Remount (change `key`) to re-prefill from a new timer summary.
+ */
+export function ConditioningResultForm({
+  kind,
+  totalIntervals,
+  saved,
+  timerSummary,
+  onSave,
+  saving,
+  disabled,
+}: Readonly<ConditioningResultFormProps>) {
+  const [values, setValues] = useState<FormValues>(() =>
+    initialValues(kind, totalIntervals, saved, timerSummary)
+  )
+  const [error, setError] = useState<string | null>(null)
+  const set = (patch: Partial<FormValues>) =>
+    setValues(prev => ({ ...prev, ...patch }))
+
+  const handleSave = () => {
+    const result = buildResult(kind, values, totalIntervals)
+    if (typeof result === 'string') {
+      setError(result)
+      return
+    }
+    setError(null)
+    onSave(result, values.notes.trim() || undefined)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end gap-3">
+        {kind === 'rounds_reps' && (
+          <>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-gray-600">Rounds</span>
+              <input
+                type="number"
+                min={0}
+                className={`${inputClass} w-20`}
+                value={values.rounds}
+                onChange={e => set({ rounds: e.target.value })}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-gray-600">+ Reps</span>
+              <input
+                type="number"
+                min={0}
+                className={`${inputClass} w-20`}
+                value={values.reps}
+                onChange={e => set({ reps: e.target.value })}
+              />
+            </label>
+          </>
+        )}
+        {kind === 'time' && (
+          <>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-gray-600">Time (m:ss)</span>
+              <input
+                type="text"
+                placeholder="e.g. 12:41"
+                className={`${inputClass} w-24`}
+                value={values.time}
+                onChange={e => set({ time: e.target.value })}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+              <input
+                type="checkbox"
+                checked={values.timeCapped}
+                onChange={e => set({ timeCapped: e.target.checked })}
+              />
+              Time capped
+            </label>
+            {values.timeCapped && (
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-gray-600">Reps at cap</span>
+                <input
+                  type="number"
+                  min={0}
+                  className={`${inputClass} w-20`}
+                  value={values.repsAtCap}
+                  onChange={e => set({ repsAtCap: e.target.value })}
+                />
+              </label>
+            )}
+          </>
+        )}
+        {kind === 'intervals' && (
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-600">
+              Completed intervals
+              {totalIntervals != null ? ` (of ${totalIntervals})` : ''}
+            </span>
+            <input
+              type="number"
+              min={0}
+              max={totalIntervals}
+              className={`${inputClass} w-24`}
+              value={values.intervals}
+              onChange={e => set({ intervals: e.target.value })}
+            />
+          </label>
+        )}
+        {kind === 'per_round_reps' && (
+          <div className="flex flex-wrap gap-2">
+            {values.perRound.map((reps, i) => (
+              <label key={i} className="flex flex-col gap-1">
+                <span className="text-xs text-gray-600">R{i + 1}</span>
+                <input
+                  type="number"
+                  min={0}
+                  className={`${inputClass} w-16`}
+                  value={reps}
+                  onChange={e =>
+                    set({
+                      perRound: values.perRound.map((r, j) =>
+                        j === i ? e.target.value : r
+                      ),
+                    })
+                  }
+                />
+              </label>
+            ))}
+          </div>
+        )}
+        {(kind === 'calories' || kind === 'distance') && (
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-600">
+              {kind === 'calories' ? 'Calories' : 'Distance (m)'}
+            </span>
+            <input
+              type="number"
+              min={0}
+              className={`${inputClass} w-28`}
+              value={values.amount}
+              onChange={e => set({ amount: e.target.value })}
+            />
+          </label>
+        )}
+        {kind === 'completion' && (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={values.completed}
+              onChange={e => set({ completed: e.target.checked })}
+            />
+            Completed as prescribed
+          </label>
+        )}
+      </div>
+      <input
+        type="text"
+        placeholder="Notes (optional)"
+        className={`${inputClass} w-full`}
+        value={values.notes}
+        onChange={e => set({ notes: e.target.value })}
+      />
+      {error && (
+        <Text variant="secondary" className="text-xs block text-red-600">
+          {error}
+        </Text>
+      )}
+      <div className="flex flex-wrap items-center gap-3">
+        <Button
+          type="button"
+          variant="primary"
+          size="small"
+          disabled={disabled || saving}
+          onClick={handleSave}
+        >
+          {saving ? 'Saving…' : saved ? 'Update result' : 'Save result'}
+        </Button>
+        {saved && (
+          <Text variant="secondary" className="text-xs">
+            Saved: {formatConditioningResult(saved.result)}
+          </Text>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export interface ConditioningResultListProps {
+  results?: ConditioningResultEntry[]
+}
+
+/** Conditioning: saved block results for session history and the coach view */
+export function ConditioningResultList({
+  results,
+}: Readonly<ConditioningResultListProps>) {
+  if (!results?.length) return null
+  return (
+    <div className="space-y-1">
+      <Text variant="default" className="text-sm font-medium text-gray-700">
+        Conditioning results
+      </Text>
+      <ul className="space-y-1">
+        {results.map((entry, i) => (
+          <li
+            key={entry.id ?? i}
+            className="flex flex-wrap items-center gap-x-3 gap-y-0.5 px-3 py-2 rounded-lg bg-gray-50 text-sm"
+          >
+            <span className="font-medium text-gray-800">
+              {entry.sectionName || entry.conditioningFormat || 'Conditioning'}
+            </span>
+            {entry.conditioningFormat && entry.sectionName && (
+              <span className="text-xs text-gray-500">
+                {entry.conditioningFormat}
+              </span>
+            )}
+            <span className="text-gray-700">
+              {formatConditioningResult(entry.result)}
+            </span>
+            {entry.notes && (
+              <span className="basis-full text-xs text-gray-500">
+                {entry.notes}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -1,10 +1,25 @@
 /**
  * MASS 2.7: Conditioning timers — AMRAP, EMOM, For Time, Tabata, Custom Interval, For Completion.
  * Uses conditioningConfig from program (timeCapSeconds, durationSeconds, intervalLengthSeconds, rounds, workSeconds, restSeconds).
+ * Runs on the wall-clock timer engine, so the clock survives a locked screen or background tab.
  */
-import { useState, useEffect, useRef, useCallback } from 'react'
+import { useEffect, useRef, useCallback } from 'react'
 import { Text } from '@/components/Text'
 import { Button } from '@/components/Button'
+import { TimerCueSettings } from '@/components/TimerCueSettings'
+import { useTimerEngine } from '@/hooks/useTimerEngine'
+import { useTimerCueSettings } from '@/hooks/useTimerCueSettings'
+import {
+  playBeep,
+  primeTimerAudio,
+  speakCue,
+  vibrateCue,
+} from '@/lib/timer-cues'
+import type { ConditioningTimerSummary } from '@/utils/conditioningResult'
+import {
+  getConditioningTimerLimit,
+  getConditioningTimerState,
+} from '@/utils/conditioningTimer'
 
 export type ConditioningFormat =
   | 'AMRAP'
@@ -37,6 +52,8 @@ interface ConditioningTimerProps {
   /** Legacy: countdown/interval duration when config not provided */
   durationSeconds?: number
   onComplete?: () => void
+  /** Called when the athlete stops the timer, with what it measured (prefills the result) */
+  onStop?: (summary: ConditioningTimerSummary) => void
 }
 
 export function ConditioningTimer({
@@ -44,189 +61,90 @@ export function ConditioningTimer({
   config,
   durationSeconds,
   onComplete,
+  onStop,
 }: ConditioningTimerProps) {
-  const [phase, setPhase] = useState<'idle' | 'running'>('idle')
-  const [seconds, setSeconds] = useState(0)
-  const [emomRound, setEmomRound] = useState(0)
-  const [intervalPhase, setIntervalPhase] = useState<'work' | 'rest'>('work')
-  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
-  const customStateRef = useRef({ round: 0, isWork: true })
-  const totalElapsedRef = useRef(0)
-
+  const { settings, update } = useTimerCueSettings()
   const upper = (format as string).toUpperCase()
 
-  const stop = useCallback(() => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current)
-      intervalRef.current = null
-    }
-    setPhase('idle')
-    setSeconds(0)
-    setEmomRound(0)
-    setIntervalPhase('work')
-    customStateRef.current = { round: 0, isWork: true }
-    totalElapsedRef.current = 0
-  }, [])
+  const handleFinish = useCallback(() => {
+    if (settings.beeps) playBeep(true)
+    if (settings.vibration) vibrateCue([200, 100, 200])
+    if (settings.voice) speakCue('time')
+    onComplete?.()
+  }, [settings, onComplete])
 
-  const start = useCallback(() => {
-    if (upper === 'FOR COMPLETION' || upper === '') return
-    if (upper === 'AMRAP') {
-      const cap = config?.timeCapSeconds ?? durationSeconds ?? 600
-      setSeconds(cap)
-    } else if (upper === 'FOR TIME') {
-      setSeconds(0)
-    } else if (upper === 'EMOM') {
-      const intervalLen = config?.intervalLengthSeconds ?? 60
-      setSeconds(intervalLen)
-      setEmomRound(1)
-      totalElapsedRef.current = 0
-    } else if (upper === 'TABATA') {
-      const rounds = config?.rounds ?? 8
-      customStateRef.current = { round: 1, isWork: true }
-      setSeconds(20)
-      setIntervalPhase('work')
-      setEmomRound(1)
-      ;(
-        customStateRef as React.MutableRefObject<{
-          round: number
-          isWork: boolean
-          totalRounds?: number
-        }>
-      ).current.totalRounds = rounds
-    } else if (upper === 'CUSTOM INTERVAL') {
-      const work = config?.workSeconds ?? 30
-      const rounds = config?.rounds ?? 5
-      customStateRef.current = { round: 1, isWork: true }
-      setSeconds(work)
-      setIntervalPhase('work')
-      setEmomRound(1)
-      ;(
-        customStateRef as React.MutableRefObject<{
-          round: number
-          isWork: boolean
-          totalRounds?: number
-          workSeconds?: number
-          restSeconds?: number
-        }>
-      ).current.totalRounds = rounds
-      ;(
-        customStateRef as React.MutableRefObject<{
-          round: number
-          isWork: boolean
-          totalRounds?: number
-          workSeconds?: number
-          restSeconds?: number
-        }>
-      ).current.workSeconds = work
-      ;(
-        customStateRef as React.MutableRefObject<{
-          round: number
-          isWork: boolean
-          totalRounds?: number
-          workSeconds?: number
-          restSeconds?: number
-        }>
-      ).current.restSeconds = config?.restSeconds ?? 15
-    } else {
-      setSeconds(config?.timeCapSeconds ?? durationSeconds ?? 60)
-    }
-    setPhase('running')
-  }, [config, durationSeconds, upper])
+  const engine = useTimerEngine({
+    keepAwake: settings.keepAwake,
+    onFinish: handleFinish,
+  })
+  const elapsed = Math.floor(engine.elapsedMs / 1000)
+  const state = getConditioningTimerState(
+    format,
+    config,
+    durationSeconds,
+    elapsed
+  )
+  const lastCueRef = useRef<{
+    second: number
+    round: number
+    phase: string
+  } | null>(null)
 
+  // Cues fire once per displayed second; phase / round changes win over countdown beeps
   useEffect(() => {
-    if (phase !== 'running') return
-    const c = config
-    intervalRef.current = setInterval(() => {
-      if (upper === 'AMRAP') {
-        setSeconds(prev => {
-          if (prev <= 1) {
-            onComplete?.()
-            return 0
-          }
-          return prev - 1
-        })
-      } else if (upper === 'FOR TIME') {
-        totalElapsedRef.current += 1
-        setSeconds(prev => prev + 1)
-      } else if (upper === 'EMOM') {
-        const intervalLen = c?.intervalLengthSeconds ?? 60
-        const totalDuration = c?.durationSeconds
-        totalElapsedRef.current += 1
-        if (totalDuration != null && totalElapsedRef.current >= totalDuration) {
-          onComplete?.()
-          return
-        }
-        setSeconds(prev => {
-          if (prev <= 1) {
-            setEmomRound(r => r + 1)
-            return intervalLen
-          }
-          return prev - 1
-        })
-      } else if (upper === 'TABATA') {
-        const totalRounds =
-          (customStateRef as React.MutableRefObject<{ totalRounds?: number }>)
-            .current.totalRounds ?? 8
-        setSeconds(prev => {
-          if (prev <= 1) {
-            const { round, isWork } = customStateRef.current
-            if (isWork) {
-              customStateRef.current = {
-                ...customStateRef.current,
-                isWork: false,
-              }
-              setIntervalPhase('rest')
-              return 10
-            }
-            if (round >= totalRounds) {
-              onComplete?.()
-              return 0
-            }
-            customStateRef.current = { round: round + 1, isWork: true }
-            setEmomRound(round + 1)
-            setIntervalPhase('work')
-            return 20
-          }
-          return prev - 1
-        })
-      } else if (upper === 'CUSTOM INTERVAL') {
-        const state = customStateRef as React.MutableRefObject<{
-          round: number
-          isWork: boolean
-          totalRounds?: number
-          workSeconds?: number
-          restSeconds?: number
-        }>
-        const totalRounds = state.current.totalRounds ?? 5
-        const workSec = state.current.workSeconds ?? 30
-        const restSec = state.current.restSeconds ?? 15
-        setSeconds(prev => {
-          if (prev <= 1) {
-            const { round, isWork } = state.current
-            if (isWork) {
-              state.current = { ...state.current, isWork: false }
-              setIntervalPhase('rest')
-              return restSec
-            }
-            if (round >= totalRounds) {
-              onComplete?.()
-              return 0
-            }
-            state.current = { round: round + 1, isWork: true }
-            setEmomRound(round + 1)
-            setIntervalPhase('work')
-            return workSec
-          }
-          return prev - 1
-        })
-      } else {
-        setSeconds(prev => (prev <= 1 ? 0 : prev - 1))
+    if (!engine.running) {
+      lastCueRef.current = null
+      return
+    }
+    if (engine.paused) return
+    const prev = lastCueRef.current
+    if (prev?.second === elapsed) return
+    lastCueRef.current = {
+      second: elapsed,
+      round: state.round,
+      phase: state.phase,
+    }
+    if (!prev) return
+    if (prev.round !== state.round || prev.phase !== state.phase) {
+      if (settings.beeps) playBeep(true)
+      if (settings.vibration) vibrateCue(300)
+      if (settings.voice) {
+        speakCue(state.phase === 'rest' ? 'rest' : `round ${state.round}`)
       }
-    }, 1000)
-    return () => {
-      if (intervalRef.current) clearInterval(intervalRef.current)
+      return
     }
-  }, [phase, format, config, upper, onComplete])
+    const left = state.segmentRemaining
+    if (left == null || left <= 0) return
+    if (settings.voice && left === 10) speakCue('10 seconds')
+    if (settings.beeps && left <= settings.countdownFrom) playBeep()
+  }, [
+    elapsed,
+    engine.running,
+    engine.paused,
+    state.round,
+    state.phase,
+    state.segmentRemaining,
+    settings,
+  ])
+
+  const stop = useCallback(() => {
+    onStop?.({
+      elapsedSeconds: elapsed,
+      completedIntervals: state.round,
+      totalIntervals: state.totalRounds,
+      timeCapped:
+        engine.finished && (upper === 'AMRAP' || upper === 'FOR TIME'),
+    })
+    engine.reset()
+  }, [elapsed, engine, onStop, state.round, state.totalRounds, upper])
+
+  const start = useCallback(() => {
+    if (upper === 'FOR COMPLETION' || upper === '') return
+    primeTimerAudio()
+    if (settings.voice) speakCue('go')
+    const limit = getConditioningTimerLimit(format, config, durationSeconds)
+    engine.start(limit != null ? limit * 1000 : undefined)
+  }, [config, durationSeconds, engine, format, settings.voice, upper])
 
   if (upper === 'FOR COMPLETION' || upper === '') return null
 
@@ -238,6 +156,7 @@ export function ConditioningTimer({
       : upper === 'CUSTOM INTERVAL'
         ? (config?.rounds ?? 5)
         : undefined
+  const idle = !engine.running && !engine.finished
 
   return (
     <div className="rounded-xl border border-gray-200 bg-white p-4">
@@ -247,7 +166,7 @@ export function ConditioningTimer({
       >
         {upper} Timer
       </Text>
-      {phase === 'idle' ? (
+      {idle ? (
         <div className="flex flex-wrap gap-2 items-center">
           <Button type="button" variant="primary" size="small" onClick={start}>
             Start {upper}
@@ -286,15 +205,18 @@ export function ConditioningTimer({
       ) : (
         <div className="flex flex-wrap items-center gap-3">
           <span className="text-2xl font-mono font-semibold text-[#3AB8ED] tabular-nums">
-            {formatTime(seconds)}
+            {formatTime(state.displaySeconds)}
           </span>
           {upper === 'EMOM' && (
-            <span className="text-sm text-gray-600">Round {emomRound}</span>
+            <span className="text-sm text-gray-600">
+              Round {state.round}
+              {state.totalRounds != null && `/${state.totalRounds}`}
+            </span>
           )}
           {(upper === 'TABATA' || upper === 'CUSTOM INTERVAL') &&
             totalRounds != null && (
               <span className="text-sm text-gray-600">
-                Round {emomRound}/{totalRounds} · {intervalPhase}
+                Round {state.round}/{totalRounds} · {state.phase}
               </span>
             )}
           {upper === 'FOR TIME' && timeCap != null && (
@@ -302,11 +224,25 @@ export function ConditioningTimer({
               Cap: {formatTime(timeCap)}
             </span>
           )}
+          {engine.finished && (
+            <span className="text-sm font-medium text-gray-700">Time</span>
+          )}
+          {engine.running && (
+            <Button
+              type="button"
+              variant="outline"
+              size="small"
+              onClick={engine.paused ? engine.resume : engine.pause}
+            >
+              {engine.paused ? 'Resume' : 'Pause'}
+            </Button>
+          )}
           <Button type="button" variant="secondary" size="small" onClick={stop}>
-            Stop
+            {engine.finished ? 'Done' : 'Stop'}
           </Button>
         </div>
       )}
+      <TimerCueSettings settings={settings} onChange={update} />
     </div>
   )
 }
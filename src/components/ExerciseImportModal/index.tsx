@@ -0,0 +1,423 @@
+import { useRef, useState } from 'react'
+import type { ChangeEvent } from 'react'
+import { Modal } from '@/components/Modal'
+import { Text } from '@/components/Text'
+import { Button } from '@/components/Button'
+import { Checkbox } from '@/components/Checkbox'
+import { Spinner } from '@/components/Spinner'
+import { exerciseService } from '@/api/exercise.service'
+import { useSnackbar } from '@/components/Snackbar/useSnackbar'
+import type { Exercise } from '@/types/exercise'
+import {
+  checkExerciseImport,
+  exerciseImportTemplate,
+  importBatches,
+  parseExerciseImport,
+  resolveImportReferences,
+  summarizeExerciseImport,
+  type ExerciseImportRow,
+} from '@/utils/exerciseImport'
+import { downloadTextFile } from '@/utils/programHelpers'
+import type { AxiosError } from 'axios'
+
+export interface ExerciseImportModalProps {
+  visible: boolean
+  onClose: () => void
+  /** Called after an import run with the number of exercises created */
+  onImported: (created: number) => void
+}
+
+/** Outcome of creating one row */
+interface RowResult {
+  ok: boolean
+  message: string
+  /** Created, but not as the file asked */
+  warning?: boolean
+}
+
+/** Whole library for duplicate detection (the list endpoint pages) */
+const loadLibrary = async (): Promise<Exercise[]> => {
+  const rows: Exercise[] = []
+  for (let page = 1; ; page++) {
+    const res = await exerciseService.getAll({ page, limit: 500 })
+    const data = res.data?.data
+    rows.push(...(data?.rows ?? []))
+    if (!data?.rows?.length || page >= (data.meta?.pages ?? 1)) return rows
+  }
+}
+
+const createError = (e: unknown) => {
+  const err = e as AxiosError<{
+    message?: string
+    data?: { message?: string }
+  }>
+  return (
+    err.response?.data?.message ||
+    err.response?.data?.data?.message ||
+    err.message ||
+    'Failed to create'
+  )
+}
+
+/**
+ * Bulk exercise import from CSV
+ *
+ * Parses the file into a dry-run report (ready, likely duplicates, rows with
+ * errors), lets the admin create duplicates anyway, then creates the rows a
+ * few at a time and shows each row's result. Failed rows can be retried.
+ */
+export function ExerciseImportModal({
+  visible,
+  onClose,
+  onImported,
+}: Readonly<ExerciseImportModalProps>) {
+  const { showError } = useSnackbar()
+  const [fileName, setFileName] = useState('')
+  const [fileErrors, setFileErrors] = useState<string[]>([])
+  const [rows, setRows] = useState<ExerciseImportRow[]>([])
+  /** Lines of duplicate rows to create anyway */
+  const [includeDuplicates, setIncludeDuplicates] = useState<Set<number>>(
+    () => new Set()
+  )
+  const [results, setResults] = useState<Map<number, RowResult>>(
+    () => new Map()
+  )
+  const [checking, setChecking] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [progress, setProgress] = useState({ done: 0, total: 0 })
+  /** New exercise id per line, for rows whose reference max is another row */
+  const createdIds = useRef(new Map<number, number>())
+
+  const reset = () => {
+    setFileName('')
+    setFileErrors([])
+    setRows([])
+    setIncludeDuplicates(new Set())
+    setResults(new Map())
+    setProgress({ done: 0, total: 0 })
+    createdIds.current = new Map()
+  }
+
+  const handleClose = () => {
+    if (importing) return
+    reset()
+    onClose()
+  }
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0]
+    e.target.value = ''
+    if (!selected) return
+    reset()
+    setFileName(selected.name)
+    const parsed = parseExerciseImport(await selected.text())
+    if (parsed.errors.length > 0) {
+      setFileErrors(parsed.errors)
+      return
+    }
+    setChecking(true)
+    try {
+      setRows(checkExerciseImport(parsed.rows, await loadLibrary()))
+    } catch (err) {
+      const ax = err as AxiosError<{ message?: string }>
+      showError(
+        ax.response?.data?.message ||
+          ax.message ||
+          'Failed to load the exercise library'
+      )
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  const creating = new Set(
+    rows
+      .filter(
+        row =>
+          row.errors.length === 0 &&
+          (!row.duplicate ||
+            includeDuplicates.has(row.line) ||
+            results.get(row.line)?.ok)
+      )
+      .map(row => row.line)
+  )
+  const checkedRows = resolveImportReferences(rows, creating)
+  const toCreate = checkedRows.filter(
+    row => creating.has(row.line) && !results.get(row.line)?.ok
+  )
+  const summary = summarizeExerciseImport(rows)
+  const created = [...results.values()].filter(r => r.ok).length
+  const failed = [...results.values()].filter(r => !r.ok).length
+
+  const handleImport = async () => {
+    setImporting(true)
+    setProgress({ done: 0, total: toCreate.length })
+    let createdNow = 0
+    for (const batch of importBatches(toCreate)) {
+      // undefined when the referenced row failed (or is in the same batch)
+      const referenceIds = batch.map(row =>
+        row.referenceMaxRowLine == null
+          ? row.payload.referenceMaxExerciseId
+          : createdIds.current.get(row.referenceMaxRowLine)
+      )
+      const settled = await Promise.allSettled(
+        batch.map((row, i) =>
+          exerciseService.create({
+            ...row.payload,
+            referenceMaxExerciseId: referenceIds[i],
+          })
+        )
+      )
+      const batchResults = new Map<number, RowResult>()
+      for (const [i, outcome] of settled.entries()) {
+        const row = batch[i]
+        if (outcome.status === 'fulfilled') {
+          const id = outcome.value.data?.data?.id
+          if (id != null) createdIds.current.set(row.line, id)
+          createdNow++
+          const missingReference =
+            row.referenceMaxRowLine != null && referenceIds[i] == null
+          batchResults.set(
+            row.line,
+            missingReference
+              ? {
+                  ok: true,
+                  warning: true,
+                  message: `Created without reference max: "${row.referenceMaxName}" on line ${row.referenceMaxRowLine} was not created`,
+                }
+              : { ok: true, message: 'Created' }
+          )
+        } else {
+          batchResults.set(row.line, {
+            ok: false,
+            message: createError(outcome.reason),
+          })
+        }
+      }
+      setResults(prev => new Map([...prev, ...batchResults]))
+      setProgress(prev => ({ ...prev, done: prev.done + batch.length }))
+    }
+    setImporting(false)
+    onImported(createdNow)
+  }
+
+  const toggleDuplicate = (line: number, checked: boolean) =>
+    setIncludeDuplicates(prev => {
+      const next = new Set(prev)
+      if (checked) next.add(line)
+      else next.delete(line)
+      return next
+    })
+
+  const rowStatus = (row: ExerciseImportRow) => {
+    const result = results.get(row.line)
+    if (result) {
+      return (
+        <span
+          className={
+            !result.ok
+              ? 'text-red-700'
+              : result.warning
+                ? 'text-amber-800'
+                : 'text-green-700'
+          }
+        >
+          {result.message}
+        </span>
+      )
+    }
+    if (row.errors.length > 0) {
+      return (
+        <ul className="text-red-700 space-y-0.5">
+          {row.errors.map(error => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )
+    }
+    if (row.duplicate) {
+      const where =
+        row.duplicate.line == null
+          ? 'in the library'
+          : `on line ${row.duplicate.line}`
+      return (
+        <div className="space-y-1">
+          <div className="text-amber-800">
+            Looks like “{row.duplicate.name}” {where} (
+            {Math.round(row.duplicate.score * 100)}% match)
+          </div>
+          <Checkbox
+            size="small"
+            label="Create anyway"
+            checked={includeDuplicates.has(row.line)}
+            onValueChange={checked => toggleDuplicate(row.line, checked)}
+            disabled={importing}
+          />
+        </div>
+      )
+    }
+    return <span className="text-gray-700">Ready</span>
+  }
+
+  const importLabel = () => {
+    if (importing) return `Creating ${progress.done} / ${progress.total}...`
+    if (failed > 0 && toCreate.length > 0) return `Retry ${toCreate.length}`
+    return `Create ${toCreate.length} exercise${toCreate.length === 1 ? '' : 's'}`
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      onClose={handleClose}
+      title="Import exercises"
+      size="fullscreen"
+      primaryAction={{
+        label: importLabel(),
+        onPress: () => void handleImport(),
+        loading: importing,
+        disabled: checking || importing || toCreate.length === 0,
+      }}
+      secondaryAction={{
+        label: results.size > 0 ? 'Close' : 'Cancel',
+        onPress: handleClose,
+      }}
+    >
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Exercises file (.csv)
+            </label>
+            <input
+              type="file"
+              accept="text/csv,.csv,text/plain,.txt"
+              onChange={e => void handleFileChange(e)}
+              disabled={importing}
+              className="block text-sm"
+            />
+            {fileName && (
+              <Text variant="secondary" className="text-xs mt-1 block">
+                {fileName}
+              </Text>
+            )}
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="small"
+            onClick={() =>
+              downloadTextFile(
+                'exercise-import-template.csv',
+                exerciseImportTemplate(),
+                'text/csv'
+              )
+            }
+          >
+            Download template
+          </Button>
+        </div>
+        <Text variant="secondary" className="text-xs block">
+          Save the sheet as CSV from Excel or Google Sheets. Columns: Name
+          (required), Video URL, Parameter 1, Parameter 2, Points of
+          Performance, Tags (separated by ; or |) and Reference Max (an exercise
+          name, in the library or in the file). Parameters default to Reps and a
+          single parameter.
+        </Text>
+
+        {fileErrors.length > 0 && (
+          <div className="rounded border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+            <div className="font-medium mb-1">This file can't be imported</div>
+            <ul className="list-disc pl-5 space-y-0.5">
+              {fileErrors.map(err => (
+                <li key={err}>{err}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {checking && (
+          <div className="flex items-center gap-2 py-2">
+            <Spinner size="small" variant="primary" />
+            <Text variant="secondary" className="text-sm">
+              Checking against the exercise library...
+            </Text>
+          </div>
+        )}
+
+        {rows.length > 0 && !checking && (
+          <>
+            <div className="text-sm text-gray-700">
+              {rows.length} row{rows.length === 1 ? '' : 's'}: {summary.ready}{' '}
+              ready · {summary.duplicates} likely duplicate
+              {summary.duplicates === 1 ? '' : 's'} · {summary.invalid} with
+              errors
+              {results.size > 0 && ` — ${created} created, ${failed} failed`}
+            </div>
+            <div className="max-h-[60vh] overflow-auto rounded border border-gray-200">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-gray-50">
+                  <tr className="border-b border-gray-200 text-left">
+                    <th className="py-2 px-3 font-medium text-gray-700">
+                      Line
+                    </th>
+                    <th className="py-2 px-3 font-medium text-gray-700">
+                      Name
+                    </th>
+                    <th className="py-2 px-3 font-medium text-gray-700">
+                      Parameters
+                    </th>
+                    <th className="py-2 px-3 font-medium text-gray-700">
+                      Tags
+                    </th>
+                    <th className="py-2 px-3 font-medium text-gray-700">
+                      Reference max
+                    </th>
+                    <th className="py-2 px-3 font-medium text-gray-700">
+                      Status
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {checkedRows.map(row => (
+                    <tr
+                      key={row.line}
+                      className="border-b border-gray-100 align-top"
+                    >
+                      <td className="py-1.5 px-3 text-gray-500">{row.line}</td>
+                      <td className="py-1.5 px-3 font-medium text-gray-900">
+                        {row.payload.name || '—'}
+                      </td>
+                      <td className="py-1.5 px-3 text-gray-600">
+                        {[
+                          row.payload.defaultParameter1,
+                          row.payload.defaultParameter2,
+                        ]
+                          .filter(p => p && p !== '-')
+                          .join(' + ') || '—'}
+                      </td>
+                      <td className="py-1.5 px-3 text-gray-600">
+                        {row.payload.tags?.join(', ') || '—'}
+                      </td>
+                      <td className="py-1.5 px-3 text-gray-600">
+                        {row.referenceMaxName ?? '—'}
+                        {row.warnings.map(warning => (
+                          <div
+                            key={warning}
+                            className="text-xs text-amber-800 mt-0.5"
+                          >
+                            {warning}
+                          </div>
+                        ))}
+                      </td>
+                      <td className="py-1.5 px-3">{rowStatus(row)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </Modal>
+  )
+}
@@ -0,0 +1,523 @@
+import { useEffect, useState } from 'react'
+import { Modal } from '@/components/Modal'
+import { Text } from '@/components/Text'
+import { Input } from '@/components/Input'
+import { Button } from '@/components/Button'
+import { Dropdown } from '@/components/Dropdown'
+import { Checkbox } from '@/components/Checkbox'
+import { programService } from '@/api/program.service'
+import { libraryService } from '@/api/library.service'
+import { parseTemplateContent } from '@/utils/programTemplates'
+import { blockLetter } from '@/utils/programPrint'
+import {
+  AMBER_PLAN_ACTION_LABELS,
+  expandAmberRecurrence,
+  formatPlanDate,
+  MAX_RECURRENCE_WEEKS,
+  plannedWrites,
+  recurrenceRange,
+  WEEKDAYS,
+  type AmberConflictMode,
+  type AmberExistingSession,
+  type AmberPlanItem,
+  type AmberRecurrenceRule,
+  type AmberSessionSource,
+} from '@/utils/amberRecurrence'
+import type { AxiosError } from 'axios'
+
+export interface AmberRecurrenceModalProps {
+  visible: boolean
+  onClose: () => void
+  programId: number
+  /** Sessions of the program that can be assigned (saved program days) */
+  dayOptions: Array<{ programDayId: number; label: string }>
+  /** Called when the plan has been written (some writes may have failed) */
+  onApplied: (written: number, failed: number) => void
+}
+
+type RuleKind = AmberRecurrenceRule['kind']
+
+const RULE_KINDS: Array<{ value: RuleKind; label: string }> = [
+  { value: 'weekly', label: 'Repeat on weekdays' },
+  { value: 'copy-week', label: 'Copy a week forward' },
+]
+
+const CONFLICT_MODES: Array<{ value: AmberConflictMode; label: string }> = [
+  { value: 'skip', label: 'Keep the existing session' },
+  { value: 'replace', label: 'Replace it' },
+]
+
+const ACTION_CLASS: Record<AmberPlanItem['action'], string> = {
+  create: 'text-green-700',
+  replace: 'text-amber-700',
+  'skip-existing': 'text-gray-500',
+  holiday: 'text-gray-500',
+}
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+const sourceKey = (source: AmberSessionSource) =>
+  source.type === 'day'
+    ? `day:${source.programDayId}`
+    : `library:${source.librarySessionId}`
+
+const parseCount = (raw: string) =>
+  Math.min(MAX_RECURRENCE_WEEKS, Math.max(0, Number.parseInt(raw, 10) || 0))
+
+/**
+ * Recurring Amber sessions: expands a weekday rule or a copied week into
+ * dates, previews every affected date (new, replaced, kept, holiday) and then
+ * writes the sessions one date at a time.
+ */
+export function AmberRecurrenceModal({
+  visible,
+  onClose,
+  programId,
+  dayOptions,
+  onApplied,
+}: Readonly<AmberRecurrenceModalProps>) {
+  const [kind, setKind] = useState<RuleKind>('weekly')
+  const [startDate, setStartDate] = useState(today)
+  const [weeks, setWeeks] = useState('8')
+  const [weekdays, setWeekdays] = useState<number[]>([1, 3, 5])
+  const [sources, setSources] = useState<AmberSessionSource[]>([])
+  const [weekStart, setWeekStart] = useState(today)
+  const [times, setTimes] = useState('4')
+  const [skipFederalHolidays, setSkipFederalHolidays] = useState(true)
+  const [conflictMode, setConflictMode] = useState<AmberConflictMode>('skip')
+  const [librarySessions, setLibrarySessions] = useState<
+    Array<{ librarySessionId: number; label: string }>
+  >([])
+  /** Sessions already on the rule's dates; `error` when they could not be loaded */
+  const [existing, setExisting] = useState<{
+    key: string
+    rows: AmberExistingSession[] | null
+    error?: string
+  } | null>(null)
+  const [reloadCount, setReloadCount] = useState(0)
+  const [applying, setApplying] = useState(false)
+  const [progress, setProgress] = useState(0)
+
+  const rule: AmberRecurrenceRule =
+    kind === 'weekly'
+      ? { kind, startDate, weeks: parseCount(weeks), weekdays, sources }
+      : { kind, weekStart, times: parseCount(times) }
+  const hasStart = rule.kind === 'weekly' ? !!rule.startDate : !!rule.weekStart
+  const ruleValid =
+    hasStart &&
+    (rule.kind === 'weekly'
+      ? rule.weeks > 0 && rule.weekdays.length > 0 && rule.sources.length > 0
+      : rule.times > 0)
+  const { from, to } = hasStart ? recurrenceRange(rule) : { from: '', to: '' }
+  const rangeKey = `${from}:${to}`
+
+  useEffect(() => {
+    if (!visible) return
+    let cancelled = false
+    libraryService
+      .search({ type: 'sessions', limit: 100 })
+      .then(res => {
+        if (cancelled) return
+        const rows = res.data?.data?.sessions?.rows ?? []
+        setLibrarySessions(
+          rows
+            .filter(
+              row =>
+                parseTemplateContent(row.content ?? {}).templateType === 'day'
+            )
+            .map(row => ({ librarySessionId: row.id, label: row.name }))
+        )
+      })
+      .catch(() => {
+        if (!cancelled) setLibrarySessions([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [visible])
+
+  useEffect(() => {
+    if (!visible || !from || !to) return
+    let cancelled = false
+    programService
+      .getAmberSessions(programId, { from, to })
+      .then(res => {
+        if (cancelled) return
+        setExisting({
+          key: `${from}:${to}`,
+          rows: (res.data?.data?.rows ?? []).map(row => ({
+            sessionDate: row.sessionDate,
+            label: row.isRestDay
+              ? 'Rest'
+              : row.dayName || `Day ${row.dayIndex + 1}`,
+            programDayId: row.programDayId,
+          })),
+        })
+      })
+      .catch((err: AxiosError<{ message?: string }>) => {
+        if (cancelled) return
+        setExisting({
+          key: `${from}:${to}`,
+          rows: null,
+          error:
+            err.response?.data?.message ||
+            err.message ||
+            'Failed to load the sessions on these dates',
+        })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [visible, programId, from, to, reloadCount])
+
+  const current = existing?.key === rangeKey ? existing : null
+  const existingRows = current?.rows ?? null
+  const existingError = current?.error
+  const loadingExisting = current == null
+  const plan =
+    ruleValid && existingRows
+      ? expandAmberRecurrence(rule, existingRows, {
+          skipFederalHolidays,
+          conflictMode,
+        })
+      : []
+  const writes = plannedWrites(plan)
+  const counts = plan.reduce<Partial<Record<AmberPlanItem['action'], number>>>(
+    (acc, item) => ({ ...acc, [item.action]: (acc[item.action] ?? 0) + 1 }),
+    {}
+  )
+
+  const sourceOptions = [
+    ...dayOptions.map(d => ({
+      value: `day:${d.programDayId}`,
+      label: d.label,
+    })),
+    ...librarySessions.map(s => ({
+      value: `library:${s.librarySessionId}`,
+      label: `Library: ${s.label}`,
+    })),
+  ]
+
+  const addSource = (value: string) => {
+    const [type, rawId] = value.split(':')
+    const id = Number(rawId)
+    if (type === 'day') {
+      const day = dayOptions.find(d => d.programDayId === id)
+      if (day) setSources(prev => [...prev, { type: 'day', ...day }])
+    } else {
+      const session = librarySessions.find(s => s.librarySessionId === id)
+      if (session)
+        setSources(prev => [...prev, { type: 'library', ...session }])
+    }
+  }
+
+  const toggleWeekday = (weekday: number) =>
+    setWeekdays(prev =>
+      prev.includes(weekday)
+        ? prev.filter(d => d !== weekday)
+        : [...prev, weekday]
+    )
+
+  /** Write one date's session; assigning a program day overwrites (PUT) */
+  const writeSession = (item: AmberPlanItem) => {
+    const { source } = item
+    if (source.type === 'copy') {
+      return programService.copyAmberSession(programId, {
+        fromDate: source.fromDate,
+        toDate: item.date,
+      })
+    }
+    if (source.type === 'day') {
+      return programService.setAmberSession(programId, {
+        date: item.date,
+        programDayId: source.programDayId,
+      })
+    }
+    return programService.setAmberSessionFromLibrary(programId, {
+      date: item.date,
+      librarySessionId: source.librarySessionId,
+    })
+  }
+
+  /**
+   * Replace: write over the existing session first. Copies and library
+   * sessions refuse an occupied date (409); only then is the existing
+   * session removed, and put back when the second write fails too.
+   */
+  const replaceSession = async (item: AmberPlanItem) => {
+    try {
+      await writeSession(item)
+    } catch (e) {
+      if ((e as AxiosError).response?.status !== 409) throw e
+      const previous = existingRows?.find(s => s.sessionDate === item.date)
+      await programService.deleteAmberSession(programId, item.date)
+      try {
+        await writeSession(item)
+      } catch (writeError) {
+        if (previous?.programDayId != null) {
+          await programService
+            .setAmberSession(programId, {
+              date: item.date,
+              programDayId: previous.programDayId,
+            })
+            .catch(() => {})
+        }
+        throw writeError
+      }
+    }
+  }
+
+  const apply = async () => {
+    setApplying(true)
+    setProgress(0)
+    let failed = 0
+    for (const item of writes) {
+      try {
+        if (item.action === 'replace') await replaceSession(item)
+        else await writeSession(item)
+      } catch {
+        failed += 1
+      }
+      setProgress(prev => prev + 1)
+    }
+    setApplying(false)
+    onApplied(writes.length - failed, failed)
+  }
+
+  const summary = (['create', 'replace', 'skip-existing', 'holiday'] as const)
+    .filter(action => counts[action])
+    .map(action => `${AMBER_PLAN_ACTION_LABELS[action]}: ${counts[action]}`)
+    .join(' · ')
+
+  return (
+    <Modal
+      visible={visible}
+      onClose={applying ? () => undefined : onClose}
+      title="Recurring sessions"
+      size="large"
+      primaryAction={{
+        label: applying
+          ? `Applying ${progress}/${writes.length}...`
+          : `Apply to ${writes.length} date${writes.length === 1 ? '' : 's'}`,
+        onPress: () => void apply(),
+        loading: applying,
+        disabled: applying || loadingExisting || writes.length === 0,
+      }}
+      secondaryAction={{
+        label: 'Cancel',
+        onPress: onClose,
+      }}
+    >
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+          <Dropdown
+            label="Pattern"
+            size="small"
+            value={kind}
+            options={RULE_KINDS}
+            onValueChange={v =>
+              setKind(String(Array.isArray(v) ? v[0] : v) as RuleKind)
+            }
+          />
+          {kind === 'weekly' ? (
+            <>
+              <Input
+                type="date"
+                size="small"
+                label="Start date"
+                value={startDate}
+                onChange={e => setStartDate(e.target.value)}
+              />
+              <Input
+                type="number"
+                size="small"
+                label="Number of weeks"
+                min={1}
+                max={MAX_RECURRENCE_WEEKS}
+                value={weeks}
+                onChange={e => setWeeks(e.target.value)}
+              />
+            </>
+          ) : (
+            <>
+              <Input
+                type="date"
+                size="small"
+                label="Copy the 7 days from"
+                value={weekStart}
+                onChange={e => setWeekStart(e.target.value)}
+              />
+              <Input
+                type="number"
+                size="small"
+                label="Copies (weeks forward)"
+                min={1}
+                max={MAX_RECURRENCE_WEEKS}
+                value={times}
+                onChange={e => setTimes(e.target.value)}
+              />
+            </>
+          )}
+        </div>
+
+        {kind === 'weekly' && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAYS.map(d => (
+                <Button
+                  key={d.value}
+                  type="button"
+                  size="small"
+                  variant={weekdays.includes(d.value) ? 'primary' : 'ghost'}
+                  onClick={() => toggleWeekday(d.value)}
+                >
+                  {d.label}
+                </Button>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Dropdown
+                label="Add a session to the rotation"
+                size="small"
+                placeholder="Select session"
+                value=""
+                options={sourceOptions}
+                onValueChange={v =>
+                  addSource(String(Array.isArray(v) ? v[0] : v))
+                }
+              />
+              {sources.length === 0 ? (
+                <Text variant="secondary" className="text-xs block">
+                  Add one session to repeat it, or several to rotate them (A, B,
+                  C, A, …) over the dates.
+                </Text>
+              ) : (
+                <ul className="flex flex-wrap gap-2">
+                  {sources.map((source, i) => (
+                    <li
+                      key={`${sourceKey(source)}:${i}`}
+                      className="flex items-center gap-2 rounded border border-amber-200 bg-amber-50 px-2 py-1 text-sm"
+                    >
+                      <span className="font-semibold text-amber-900">
+                        {blockLetter(i)}
+                      </span>
+                      {source.label}
+                      <button
+                        type="button"
+                        className="text-gray-500 hover:text-red-600"
+                        aria-label={`Remove ${source.label}`}
+                        onClick={() =>
+                          setSources(prev => prev.filter((_, j) => j !== i))
+                        }
+                      >
+                        ×
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-4">
+          <Checkbox
+            checked={skipFederalHolidays}
+            onValueChange={setSkipFederalHolidays}
+            label="Skip US federal holidays"
+            size="small"
+          />
+          <Dropdown
+            label="Dates that already have a session"
+            size="small"
+            value={conflictMode}
+            options={CONFLICT_MODES}
+            onValueChange={v =>
+              setConflictMode(
+                String(Array.isArray(v) ? v[0] : v) as AmberConflictMode
+              )
+            }
+          />
+        </div>
+
+        {existingError && ruleValid && (
+          <div className="flex flex-wrap items-center gap-3 rounded border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+            <span>
+              Couldn't check which dates already have a session ({existingError}
+              ). Nothing can be applied until they load.
+            </span>
+            <Button
+              type="button"
+              size="small"
+              variant="secondary"
+              onClick={() => {
+                setExisting(null)
+                setReloadCount(n => n + 1)
+              }}
+            >
+              Retry
+            </Button>
+          </div>
+        )}
+        {loadingExisting && ruleValid && (
+          <Text variant="secondary" className="text-sm block">
+            Loading sessions already on these dates...
+          </Text>
+        )}
+        {existingRows && ruleValid && plan.length === 0 && (
+          <Text variant="secondary" className="text-sm block">
+            {kind === 'copy-week'
+              ? 'The chosen week has no sessions to copy.'
+              : 'No dates match this pattern.'}
+          </Text>
+        )}
+        {plan.length > 0 && (
+          <div className="space-y-2">
+            <Text variant="default" className="text-sm font-medium block">
+              {summary}
+            </Text>
+            <div className="max-h-72 overflow-auto rounded border border-gray-200">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 bg-gray-50 text-left">
+                    <th className="py-2 px-3 font-medium text-gray-700">
+                      Date
+                    </th>
+                    <th className="py-2 px-3 font-medium text-gray-700">
+                      Session
+                    </th>
+                    <th className="py-2 px-3 font-medium text-gray-700">
+                      Status
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.map(item => (
+                    <tr key={item.date} className="border-b border-gray-100">
+                      <td className="py-1.5 px-3 whitespace-nowrap">
+                        {formatPlanDate(item.date)}
+                      </td>
+                      <td className="py-1.5 px-3">
+                        {item.source.type === 'copy'
+                          ? `${item.source.label} (from ${formatPlanDate(item.source.fromDate)})`
+                          : item.source.label}
+                      </td>
+                      <td
+                        className={`py-1.5 px-3 ${ACTION_CLASS[item.action]}`}
+                      >
+                        {AMBER_PLAN_ACTION_LABELS[item.action]}
+                        {item.existingLabel != null &&
+                          ` "${item.existingLabel}"`}
+                        {item.holidayName && ` (${item.holidayName})`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </Modal>
+  )
+}
@@ -0,0 +1,267 @@
+import { useState } from 'react'
+import { Modal } from '@/components/Modal'
+import { Text } from '@/components/Text'
+import { Card } from '@/components/Card'
+import { Dropdown } from '@/components/Dropdown'
+import { SanitizedHtml } from '@/components/SanitizedHtml'
+import { SetPrescriptionTable } from '@/components/SetPrescriptionTable'
+import { CircuitPlayer } from '@/pages/train/CircuitPlayer'
+import type { ProgramStructure } from '@/types/program'
+import {
+  previewDayBlocks,
+  SAMPLE_MAX_PROFILES,
+  sampleWorkingMax,
+} from '@/utils/athletePreview'
+import {
+  resolveSetsRows,
+  type PrescriptionContext,
+} from '@/utils/setPrescription'
+
+export interface AthletePreviewModalProps {
+  visible: boolean
+  onClose: () => void
+  programName: string
+  structure: ProgramStructure
+  exerciseName?: (exerciseId: number) => string | undefined
+}
+
+/** Previews never log: circuit blocks get no session to log against */
+const noSession = async () => null
+
+/**
+ * "Preview as athlete": any week and session of a program rendered with the
+ * athlete workout components, loads resolved against a sample working-max
+ * profile. Creates no session or enrollment.
+ */
+export function AthletePreviewModal({
+  visible,
+  onClose,
+  programName,
+  structure,
+  exerciseName,
+}: Readonly<AthletePreviewModalProps>) {
+  const [weekIdx, setWeekIdx] = useState(0)
+  const [dayIdx, setDayIdx] = useState(0)
+  const [profileId, setProfileId] = useState(SAMPLE_MAX_PROFILES[1].id)
+
+  const profile =
+    SAMPLE_MAX_PROFILES.find(p => p.id === profileId) ?? SAMPLE_MAX_PROFILES[0]
+  const savedNames = new Map(
+    structure.weeks.flatMap(w =>
+      w.days.flatMap(d =>
+        (d.sections ?? []).flatMap(s =>
+          (s.exercises ?? []).flatMap(ex =>
+            ex.exercise?.name
+              ? [[ex.exerciseId, ex.exercise.name] as const]
+              : []
+          )
+        )
+      )
+    )
+  )
+  const nameOf = (exerciseId: number) =>
+    exerciseName?.(exerciseId) ??
+    savedNames.get(exerciseId) ??
+    `Exercise ${exerciseId}`
+  const contextFor = (exerciseId: number): PrescriptionContext => ({
+    workingMax: sampleWorkingMax(profile, nameOf(exerciseId)),
+    unit: profile.unit,
+    displayUnit: profile.unit,
+  })
+
+  const week = structure.weeks[weekIdx]
+  const days = week?.days ?? []
+  const day = days[dayIdx]
+  const weekLabel = week?.weekName || `Week ${weekIdx + 1}`
+  const dayLabel = (i: number) => days[i]?.dayName || `Day ${i + 1}`
+  const blocks = day && !day.isRestDay ? previewDayBlocks(day, nameOf) : []
+  const circuitBlocks = blocks.filter(block => block.circuit)
+  const exerciseBlocks = blocks.filter(block => !block.circuit)
+
+  return (
+    <Modal
+      visible={visible}
+      onClose={onClose}
+      title={`Preview as athlete: ${programName}`}
+      size="fullscreen"
+      secondaryAction={{ label: 'Close', onPress: onClose }}
+    >
+      <div className="space-y-4">
+        <div className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+          This is what an athlete sees. Loads use the sample working maxes
+          below; nothing is logged and no session or enrollment is created.
+        </div>
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+          <Dropdown
+            label="Week"
+            size="small"
+            value={String(weekIdx)}
+            options={structure.weeks.map((w, i) => ({
+              value: String(i),
+              label: w.weekName || `Week ${i + 1}`,
+            }))}
+            onValueChange={v => {
+              setWeekIdx(Number(Array.isArray(v) ? v[0] : v))
+              setDayIdx(0)
+            }}
+          />
+          <Dropdown
+            label="Session"
+            size="small"
+            value={String(dayIdx)}
+            options={days.map((d, i) => ({
+              value: String(i),
+              label: `${dayLabel(i)}${d.isRestDay ? ' (rest)' : ''}`,
+            }))}
+            onValueChange={v => setDayIdx(Number(Array.isArray(v) ? v[0] : v))}
+          />
+          <Dropdown
+            label="Sample athlete"
+            size="small"
+            value={profile.id}
+            options={SAMPLE_MAX_PROFILES.map(p => ({
+              value: p.id,
+              label: p.label,
+            }))}
+            onValueChange={v =>
+              setProfileId(String(Array.isArray(v) ? v[0] : v))
+            }
+          />
+        </div>
+
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-[280px_1fr]">
+          <Card className="p-4 h-fit">
+            <Text variant="default" className="font-semibold block mb-2">
+              {weekLabel}
+            </Text>
+            {days.length === 0 ? (
+              <Text variant="secondary" className="text-sm">
+                No sessions in this week.
+              </Text>
+            ) : (
+              <ul className="space-y-1">
+                {days.map((d, i) => {
+                  const names = previewDayBlocks(d, nameOf).flatMap(b =>
+                    b.section.exercises.map(ex => ex.exercise.name)
+                  )
+                  const more =
+                    names.length > 3 ? ` +${names.length - 3} more` : ''
+                  return (
+                    <li key={d.id ?? `day-${i}`}>
+                      <button
+                        type="button"
+                        className={`w-full rounded px-2 py-1 text-left text-sm ${i === dayIdx ? 'bg-[#3AB8ED]/10 text-gray-900' : 'hover:bg-gray-50 text-gray-700'}`}
+                        onClick={() => setDayIdx(i)}
+                      >
+                        <span className="font-medium">{dayLabel(i)}</span>
+                        <span className="text-gray-600 ml-1">
+                          {d.isRestDay
+                            ? '– Rest day'
+                            : names.length > 0 &&
+                              `– ${names.slice(0, 3).join(', ')}${more}`}
+                        </span>
+                      </button>
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </Card>
+
+          <div className="space-y-6 max-w-4xl">
+            <Card className="p-6">
+              <Text variant="primary" className="text-xl font-semibold mb-1">
+                {day ? dayLabel(dayIdx) : 'No workout set'}
+              </Text>
+              <Text variant="secondary" className="text-sm">
+                {weekLabel}
+                {day?.estimatedDurationMinutes != null &&
+                  ` • ~${day.estimatedDurationMinutes} min`}
+              </Text>
+              {(!day || day.isRestDay || blocks.length === 0) && (
+                <Text variant="secondary" className="text-sm mt-2 block">
+                  {day?.isRestDay
+                    ? 'Rest day. No workout set for this day.'
+                    : 'No workout set for this day.'}
+                </Text>
+              )}
+              {day?.sessionNotes && !day.isRestDay && (
+                <div className="text-sm text-gray-700 mt-3">
+                  <SanitizedHtml html={day.sessionNotes} />
+                </div>
+              )}
+            </Card>
+
+            {circuitBlocks.length > 0 && (
+              <div className="space-y-4">
+                <Text variant="default" className="font-semibold">
+                  Supersets & circuits
+                </Text>
+                {circuitBlocks.map(block => {
+                  const storageKey = `preview:${programName}:${weekIdx}:${dayIdx}:${block.key}`
+                  return (
+                    <div key={storageKey} className="space-y-2">
+                      {block.instructions && (
+                        <div className="text-sm text-gray-700">
+                          <SanitizedHtml html={block.instructions} />
+                        </div>
+                      )}
+                      <CircuitPlayer
+                        section={block.section}
+                        letter={block.letter}
+                        storageKey={storageKey}
+                        ensureSessionId={noSession}
+                        contextFor={contextFor}
+                        disabled
+                      />
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+
+            {exerciseBlocks.length > 0 && (
+              <div className="space-y-4">
+                <Text variant="default" className="font-semibold">
+                  Exercises
+                </Text>
+                {exerciseBlocks.flatMap(block =>
+                  block.section.exercises.map((ex, i) => {
+                    const context = contextFor(ex.exerciseId)
+                    return (
+                      <Card key={`${block.key}-${i}`} className="p-4">
+                        <Text variant="default" className="font-medium">
+                          {block.letter}. {ex.exercise.name}
+                        </Text>
+                        {ex.coachingNotes && (
+                          <Text
+                            variant="secondary"
+                            className="text-sm mt-1 whitespace-pre-wrap"
+                          >
+                            {ex.coachingNotes}
+                          </Text>
+                        )}
+                        {context.workingMax && (
+                          <Text
+                            variant="secondary"
+                            className="text-sm mt-1 text-gray-500"
+                          >
+                            {context.workingMax.value} {context.workingMax.unit}{' '}
+                            1RM (sample)
+                          </Text>
+                        )}
+                        <SetPrescriptionTable
+                          rows={resolveSetsRows(ex.setsRows, context)}
+                        />
+                      </Card>
+                    )
+                  })
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </Modal>
+  )
+}
@@ -0,0 +1,324 @@
+import { useState } from 'react'
+import { Modal } from '@/components/Modal'
+import { Text } from '@/components/Text'
+import { Input } from '@/components/Input'
+import { Button } from '@/components/Button'
+import { Dropdown } from '@/components/Dropdown'
+import { Checkbox } from '@/components/Checkbox'
+import type { ProgramStructure } from '@/types/program'
+import { formatPrescription } from '@/utils/programProgression'
+import {
+  applyBulkEditToExercise,
+  hasBulkChanges,
+  listBulkEditEntries,
+  parseBulkAdjustment,
+  parseRestAdjustment,
+  type BulkAdjustment,
+  type BulkEdit,
+} from '@/utils/programBulkEdit'
+
+export interface BulkEditModalProps {
+  visible: boolean
+  onClose: () => void
+  structure: ProgramStructure
+  exerciseName: (exerciseId: number) => string
+  /** Apply the edit to the prescriptions with these keys */
+  onApply: (keys: Set<string>, edit: BulkEdit) => void
+}
+
+type NumericField = 'sets' | 'reps' | 'weightPercent' | 'rpe' | 'rest'
+
+const NUMERIC_FIELDS: Array<{
+  field: NumericField
+  label: string
+  placeholder: string
+}> = [
+  { field: 'sets', label: 'Sets', placeholder: 'e.g. 4 or -1' },
+  { field: 'reps', label: 'Reps', placeholder: 'e.g. 5 or +2' },
+  { field: 'weightPercent', label: '% load', placeholder: 'e.g. 75 or +2.5' },
+  { field: 'rpe', label: 'RPE', placeholder: 'e.g. 8 or -0.5' },
+  { field: 'rest', label: 'Rest', placeholder: 'e.g. 2:00 or +30s' },
+]
+
+const EMPTY_INPUTS: Record<NumericField, string> = {
+  sets: '',
+  reps: '',
+  weightPercent: '',
+  rpe: '',
+  rest: '',
+}
+
+/**
+ * Bulk prescription editing: select exercises across weeks (one by one, by
+ * exercise or by block category) and set or adjust their prescriptions in one
+ * step, with a before / after preview of every selected row
+ */
+export function BulkEditModal({
+  visible,
+  onClose,
+  structure,
+  exerciseName,
+  onApply,
+}: Readonly<BulkEditModalProps>) {
+  const [weekIdxs, setWeekIdxs] = useState<number[]>(() =>
+    structure.weeks.map((_, i) => i)
+  )
+  const [selected, setSelected] = useState<Set<string>>(() => new Set())
+  const [inputs, setInputs] = useState(EMPTY_INPUTS)
+  const [tempo, setTempo] = useState('')
+  const [coachingNotes, setCoachingNotes] = useState('')
+
+  const entries = listBulkEditEntries(structure).filter(entry =>
+    weekIdxs.includes(entry.weekIdx)
+  )
+  const selectedEntries = entries.filter(entry => selected.has(entry.key))
+
+  const adjustments: Partial<
+    Record<NumericField, BulkAdjustment | null | undefined>
+  > = {}
+  for (const { field } of NUMERIC_FIELDS) {
+    adjustments[field] =
+      field === 'rest'
+        ? parseRestAdjustment(inputs[field])
+        : parseBulkAdjustment(inputs[field])
+  }
+  const invalid = NUMERIC_FIELDS.some(
+    ({ field }) => adjustments[field] === null
+  )
+  const edit: BulkEdit = {
+    sets: adjustments.sets ?? undefined,
+    reps: adjustments.reps ?? undefined,
+    weightPercent: adjustments.weightPercent ?? undefined,
+    rpe: adjustments.rpe ?? undefined,
+    rest: adjustments.rest ?? undefined,
+    tempo: tempo.trim() || undefined,
+    coachingNotes: coachingNotes.trim() || undefined,
+  }
+  const changed = hasBulkChanges(edit)
+
+  const exerciseOptions = [
+    ...new Map(
+      entries.map(entry => [entry.exerciseId, exerciseName(entry.exerciseId)])
+    ),
+  ]
+    .sort((a, b) => a[1].localeCompare(b[1]))
+    .map(([id, label]) => ({ value: String(id), label }))
+  const categoryOptions = [
+    ...new Set(entries.map(entry => entry.blockCategory)),
+  ]
+    .sort((a, b) => a.localeCompare(b))
+    .map(category => ({ value: category, label: category }))
+
+  const selectWhere = (match: (entry: (typeof entries)[number]) => boolean) =>
+    setSelected(
+      prev =>
+        new Set([...prev, ...entries.filter(match).map(entry => entry.key)])
+    )
+
+  const toggle = (key: string, checked: boolean) =>
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (checked) next.add(key)
+      else next.delete(key)
+      return next
+    })
+
+  const toggleWeek = (weekIdx: number) =>
+    setWeekIdxs(prev =>
+      prev.includes(weekIdx)
+        ? prev.filter(w => w !== weekIdx)
+        : [...prev, weekIdx]
+    )
+
+  return (
+    <Modal
+      visible={visible}
+      onClose={onClose}
+      title="Bulk edit prescriptions"
+      size="fullscreen"
+      primaryAction={{
+        label: `Apply to ${selectedEntries.length} exercise${selectedEntries.length === 1 ? '' : 's'}`,
+        onPress: () =>
+          onApply(new Set(selectedEntries.map(entry => entry.key)), edit),
+        disabled: selectedEntries.length === 0 || !changed || invalid,
+      }}
+      secondaryAction={{ label: 'Cancel', onPress: onClose }}
+    >
+      <div className="space-y-4">
+        <div className="space-y-1">
+          <Text variant="default" className="text-sm font-medium block">
+            Weeks
+          </Text>
+          <div className="flex flex-wrap gap-1">
+            {structure.weeks.map((week, i) => (
+              <Button
+                key={week.id ?? `week-${i}`}
+                type="button"
+                size="small"
+                variant={weekIdxs.includes(i) ? 'primary' : 'ghost'}
+                onClick={() => toggleWeek(i)}
+              >
+                {week.weekName || `Week ${i + 1}`}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <Dropdown
+            label="Select every"
+            size="small"
+            placeholder="Exercise"
+            value=""
+            options={exerciseOptions}
+            onValueChange={v => {
+              const id = Number(Array.isArray(v) ? v[0] : v)
+              selectWhere(entry => entry.exerciseId === id)
+            }}
+            className="min-w-[200px]"
+          />
+          <Dropdown
+            label="Select block category"
+            size="small"
+            placeholder="Category"
+            value=""
+            options={categoryOptions}
+            onValueChange={v => {
+              const category = String(Array.isArray(v) ? v[0] : v)
+              selectWhere(entry => entry.blockCategory === category)
+            }}
+            className="min-w-[200px]"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="small"
+            onClick={() => selectWhere(() => true)}
+          >
+            Select all
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="small"
+            disabled={selected.size === 0}
+            onClick={() => setSelected(new Set())}
+          >
+            Clear selection
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 md:grid-cols-4 lg:grid-cols-7">
+          {NUMERIC_FIELDS.map(({ field, label, placeholder }) => (
+            <Input
+              key={field}
+              label={label}
+              size="small"
+              placeholder={placeholder}
+              value={inputs[field]}
+              onChange={e =>
+                setInputs(prev => ({ ...prev, [field]: e.target.value }))
+              }
+              error={adjustments[field] === null ? 'Not a value' : undefined}
+            />
+          ))}
+          <Input
+            label="Tempo"
+            size="small"
+            placeholder="e.g. 3-1-1-0"
+            value={tempo}
+            onChange={e => setTempo(e.target.value)}
+          />
+          <Input
+            label="Coaching notes"
+            size="small"
+            placeholder="Replaces the notes"
+            value={coachingNotes}
+            onChange={e => setCoachingNotes(e.target.value)}
+          />
+        </div>
+        <Text variant="secondary" className="text-xs block">
+          Leave a field empty to keep it. A number sets the value, a signed
+          number adjusts it (+1, −2.5) and a signed percentage scales it (+5%).
+          Per-set rows change with the exercise; extra sets copy the last set.
+        </Text>
+
+        {entries.length === 0 ? (
+          <Text variant="secondary" className="text-sm block">
+            No exercises in the selected weeks.
+          </Text>
+        ) : (
+          <div className="max-h-96 overflow-auto rounded border border-gray-200">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-gray-50">
+                <tr className="border-b border-gray-200 text-left">
+                  <th className="py-2 px-3 w-10">
+                    <span className="sr-only">Selected</span>
+                  </th>
+                  <th className="py-2 px-3 font-medium text-gray-700">Where</th>
+                  <th className="py-2 px-3 font-medium text-gray-700">
+                    Exercise
+                  </th>
+                  <th className="py-2 px-3 font-medium text-gray-700">
+                    Category
+                  </th>
+                  <th className="py-2 px-3 font-medium text-gray-700">
+                    Prescription
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => {
+                  const isSelected = selected.has(entry.key)
+                  const before = formatPrescription(entry.exercise)
+                  const after =
+                    isSelected && changed && !invalid
+                      ? formatPrescription(
+                          applyBulkEditToExercise(entry.exercise, edit)
+                        )
+                      : before
+                  return (
+                    <tr
+                      key={entry.key}
+                      className={`border-b border-gray-100 ${isSelected ? 'bg-amber-50' : ''}`}
+                    >
+                      <td className="py-1.5 px-3">
+                        <Checkbox
+                          checked={isSelected}
+                          onValueChange={checked => toggle(entry.key, checked)}
+                          size="small"
+                        />
+                      </td>
+                      <td className="py-1.5 px-3 whitespace-nowrap text-gray-600">
+                        {entry.weekLabel} · {entry.dayLabel} ·{' '}
+                        {entry.blockLabel}
+                      </td>
+                      <td className="py-1.5 px-3">
+                        {exerciseName(entry.exerciseId)}
+                      </td>
+                      <td className="py-1.5 px-3 text-gray-600">
+                        {entry.blockCategory}
+                      </td>
+                      <td className="py-1.5 px-3">
+                        {after === before ? (
+                          before
+                        ) : (
+                          <>
+                            <span className="text-gray-400 line-through">
+                              {before}
+                            </span>{' '}
+                            → <span className="font-medium">{after}</span>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </Modal>
+  )
+}
@@ -8,11 +8,18 @@ import {
   type LibraryItemType,
   type LibrarySearchResult,
 } from '@/api/library.service'
+import {
+  parseTemplateContent,
+  PROGRAM_TEMPLATE_TYPE_LABELS,
+  templateSummary,
+  type ProgramTemplate,
+  type ProgramTemplateType,
+} from '@/utils/programTemplates'
 
 const TABS: { value: LibraryItemType; label: string }[] = [
   { value: 'exercises', label: 'Exercises' },
   { value: 'circuits', label: 'Circuits' },
-  { value: 'sessions', label: 'Sessions' },
+  { value: 'sessions', label: 'Templates' },
   { value: 'programs', label: 'Programs' },
 ]
 
@@ -32,8 +39,8 @@ export interface LibraryDrawerProps {
     conditioningConfig?: unknown
     videoUrls?: unknown
   }) => void
-  /** Add session as day (content = day structure) */
-  onAddSession?: (content: Record<string, unknown>) => void
+  /** Insert a week / day / block template (library session) */
+  onAddTemplate?: (template: ProgramTemplate) => void
   /** Use library program (open/copy – programId) */
   onAddProgram?: (programId: number) => void
   /** Create new exercise (e.g. navigate to exercises page or open create modal). MASS 2.9 */
@@ -45,7 +52,7 @@ export function LibraryDrawer({
   onClose,
   onAddExercise,
   onAddCircuit,
-  onAddSession,
+  onAddTemplate,
   onAddProgram,
   onCreateExercise,
 }: LibraryDrawerProps) {
@@ -57,12 +64,16 @@ export function LibraryDrawer({
   const [loading, setLoading] = useState(false)
   const [result, setResult] = useState<LibrarySearchResult | null>(null)
   const [addingId, setAddingId] = useState<number | null>(null)
+  const [templateType, setTemplateType] = useState<ProgramTemplateType | ''>('')
+  /** Tags filter the exercise search on the server, templates here */
+  const tagsFilterActive = activeTab === 'exercises' || activeTab === 'sessions'
 
   const runSearch = useCallback(() => {
     if (!visible) return
     setLoading(true)
     setResult(null)
-    const tags = tagsApplied.length ? tagsApplied : undefined
+    const tags =
+      activeTab === 'exercises' && tagsApplied.length ? tagsApplied : undefined
     libraryService
       .search({
         type: activeTab,
@@ -105,13 +116,13 @@ export function LibraryDrawer({
     onClose()
   }
 
-  const handleAddSession = async (id: number) => {
-    if (!onAddSession) return
+  const handleAddTemplate = async (id: number) => {
+    if (!onAddTemplate) return
     setAddingId(id)
     try {
       const res = await libraryService.getSession(id)
       if (res.data?.statusCode === 200 && res.data?.data?.content) {
-        onAddSession(res.data.data.content)
+        onAddTemplate(parseTemplateContent(res.data.data.content))
         onClose()
       }
     } finally {
@@ -119,6 +130,16 @@ export function LibraryDrawer({
     }
   }
 
+  const templateRows = (result?.sessions?.rows ?? [])
+    .map(row => ({ ...row, template: parseTemplateContent(row.content ?? {}) }))
+    .filter(
+      ({ template }) =>
+        (!templateType || template.templateType === templateType) &&
+        tagsApplied.every(tag =>
+          template.tags.some(t => t.toLowerCase() === tag.toLowerCase())
+        )
+    )
+
   const handleAddProgram = (programId: number) => {
     if (!onAddProgram) return
     onAddProgram(programId)
@@ -176,7 +197,7 @@ export function LibraryDrawer({
                 onKeyDown={e => {
                   if (e.key === 'Enter') {
                     setSearchQ(q.trim())
-                    if (activeTab === 'exercises') {
+                    if (tagsFilterActive) {
                       setTagsApplied(
                         tagsStr
                           .split(',')
@@ -188,7 +209,7 @@ export function LibraryDrawer({
                 }}
               />
             </div>
-            {activeTab === 'exercises' && (
+            {tagsFilterActive && (
               <div className="flex-1 min-w-[140px] space-y-1">
                 <label htmlFor="library-tags" className="sr-only">
                   Filter by tags
@@ -218,7 +239,7 @@ export function LibraryDrawer({
               size="small"
               onClick={() => {
                 setSearchQ(q.trim())
-                if (activeTab === 'exercises') {
+                if (tagsFilterActive) {
                   setTagsApplied(
                     tagsStr
                       .split(',')
@@ -231,8 +252,23 @@ export function LibraryDrawer({
               Search
             </Button>
           </div>
+          {activeTab === 'sessions' && (
+            <div className="flex flex-wrap gap-1">
+              {(['', 'week', 'day', 'block'] as const).map(type => (
+                <Button
+                  key={type || 'all'}
+                  type="button"
+                  size="small"
+                  variant={templateType === type ? 'primary' : 'ghost'}
+                  onClick={() => setTemplateType(type)}
+                >
+                  {type ? `${PROGRAM_TEMPLATE_TYPE_LABELS[type]}s` : 'All'}
+                </Button>
+              ))}
+            </div>
+          )}
           <p className="text-xs text-gray-500">
-            {activeTab === 'exercises'
+            {tagsFilterActive
               ? 'Search and optional tags apply together. Press Enter or click Search.'
               : 'Press Enter or click Search to run.'}
           </p>
@@ -311,27 +347,53 @@ export function LibraryDrawer({
                 </div>
               ))}
 
+            {activeTab === 'sessions' && templateRows.length === 0 && (
+              <Text variant="default" className="text-gray-500">
+                No templates found. Save a week, day or block from the builder
+                as a template.
+              </Text>
+            )}
             {activeTab === 'sessions' &&
-              result.sessions?.rows?.length === 0 && (
-                <Text variant="default" className="text-gray-500">
-                  No sessions found.
-                </Text>
-              )}
-            {activeTab === 'sessions' &&
-              result.sessions?.rows?.map(row => (
+              templateRows.map(row => (
                 <div
                   key={row.id}
-                  className="flex items-center justify-between rounded-lg border border-gray-200 px-3 py-2"
+                  className="flex items-center justify-between gap-2 rounded-lg border border-gray-200 px-3 py-2"
                 >
-                  <span className="text-sm font-medium">{row.name}</span>
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm font-medium">{row.name}</span>
+                      <span className="rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-600">
+                        {
+                          PROGRAM_TEMPLATE_TYPE_LABELS[
+                            row.template.templateType
+                          ]
+                        }
+                      </span>
+                      <span className="text-xs text-gray-500">
+                        {templateSummary(row.template)}
+                      </span>
+                    </div>
+                    {row.template.tags.length > 0 && (
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {row.template.tags.map(tag => (
+                          <span
+                            key={tag}
+                            className="rounded-full bg-sky-50 px-2 py-0.5 text-xs text-sky-700"
+                          >
+                            {tag}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
                   <Button
                     type="button"
                     variant="secondary"
                     size="small"
                     disabled={addingId === row.id}
-                    onClick={() => handleAddSession(row.id)}
+                    onClick={() => handleAddTemplate(row.id)}
                   >
-                    {addingId === row.id ? 'Adding...' : 'Add'}
+                    {addingId === row.id ? 'Adding...' : 'Insert'}
                   </Button>
                 </div>
               ))}
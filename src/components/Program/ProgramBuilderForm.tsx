@@ -1,5 +1,12 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
-import type { MouseEvent, DragEvent, Dispatch, SetStateAction } from 'react'
+import {
+  useState,
+  useEffect,
+  useSyncExternalStore,
+  useCallback,
+  useMemo,
+  useRef,
+} from 'react'
+import type { Dispatch, SetStateAction } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { Text } from '@/components/Text'
 import { Button } from '@/components/Button'
@@ -14,15 +21,33 @@ import { programService } from '@/api/program.service'
 import { exerciseService } from '@/api/exercise.service'
 import { libraryService } from '@/api/library.service'
 import { LibraryDrawer } from '@/components/Program/LibraryDrawer'
+import { SpreadsheetPasteModal } from '@/components/Program/SpreadsheetPasteModal'
+import { ProgramConflictModal } from '@/components/Program/ProgramConflictModal'
+import { ProgressionGeneratorModal } from '@/components/Program/ProgressionGeneratorModal'
+import { ProgramLintPanel } from '@/components/Program/ProgramLintPanel'
+import { TrainingLoadDrawer } from '@/components/Program/TrainingLoadDrawer'
+import { ProgramPrintModal } from '@/components/Program/ProgramPrintModal'
+import { SaveTemplateModal } from '@/components/Program/SaveTemplateModal'
+import { AmberRecurrenceModal } from '@/components/Program/AmberRecurrenceModal'
+import { BulkEditModal } from '@/components/Program/BulkEditModal'
+import { AthletePreviewModal } from '@/components/Program/AthletePreviewModal'
+import {
+  ProgramCalendarGrid,
+  type ProgramCalendarActions,
+  type ProgramCalendarGridHandle,
+} from '@/components/Program/ProgramCalendarGrid'
 import { RichTextEditor } from '@/components/RichTextEditor'
 import { SanitizedHtml } from '@/components/SanitizedHtml'
 import { useSnackbar } from '@/components/Snackbar/useSnackbar'
+import { useUndoHistory } from '@/hooks/useUndoHistory'
+import { useStableHandlers } from '@/hooks/useStableHandlers'
 import type {
   Program,
   ProgramStructure,
   ProgramStructureDay,
   ProgramStructureSection,
   ProgramStructureSetRow,
+  ProgramStructureWeek,
 } from '@/types/program'
 import type { Cycle } from '@/types/cycle'
 import type { GoalType, Category } from '@/types/goal-type'
@@ -32,6 +57,68 @@ import {
   DEFAULT_PARAMETER_OPTIONS,
   PARAMETER_2_OPTIONS,
 } from '@/types/exercise'
+import {
+  downloadTextFile,
+  getCycleTypeFromName,
+  getDisplayWeekName,
+} from '@/utils/programHelpers'
+import {
+  buildProgramExport,
+  programExportFilename,
+} from '@/utils/programTransfer'
+import {
+  appendPastedRows,
+  groupPastedRowsByDay,
+  type PastedRow,
+} from '@/utils/programPaste'
+import {
+  collectStructureIds,
+  findDayById,
+  groupDayBlocks,
+  moveIdTo,
+  newIds,
+  toCreateBlockBody,
+  toUpdateDayBody,
+  topLevelBlockIds,
+} from '@/utils/builderHistory'
+import {
+  applyProgramMerge,
+  buildProgramMergeItems,
+  clearProgramDraft,
+  isEmptySnapshot,
+  isSameSnapshot,
+  loadProgramDraft,
+  programDraftKey,
+  programToSnapshot,
+  saveProgramDraft,
+  type MergeSource,
+  type ProgramDraft,
+  type ProgramSnapshot,
+} from '@/utils/programDraft'
+import { recordProgramVersion } from '@/utils/programVersions'
+import { progressedBlockUpdates } from '@/utils/programProgression'
+import { applyBulkEdit } from '@/utils/programBulkEdit'
+import {
+  calendarCellKey,
+  createProgramEditorStore,
+  getCellSummary,
+} from '@/utils/programEditorStore'
+import {
+  buildProgramTemplate,
+  insertableBlock,
+  insertableDay,
+  insertableWeek,
+  PROGRAM_TEMPLATE_TYPE_LABELS,
+  templateDefaultName,
+  toTemplateContent,
+  type ProgramTemplate,
+  type ProgramTemplateSource,
+} from '@/utils/programTemplates'
+import {
+  confirmLintForPublish,
+  lintProgramStructure,
+  type ProgramLintTarget,
+} from '@/utils/programLint'
 import { AxiosError } from 'axios'
 
 /** MASS 2.5.1 / 2.6: Block category options (organizational label); custom text allowed via Other */
@@ -84,33 +171,6 @@ const SUSTAINMENT_CONSTRAINTS = [
   'Deployed',
 ] as const
 
-/** Map cycle name to API cycle type (reduces nested ternary). */
-function getCycleTypeFromName(
-  cycleName: string | undefined
-): 'RED' | 'AMBER' | 'GREEN' | 'SUSTAINMENT' | 'CUSTOM' {
-  switch (cycleName) {
-    case 'Red':
-      return 'RED'
-    case 'Amber':
-      return 'AMBER'
-    case 'Green':
-      return 'GREEN'
-    case 'Sustainment':
-      return 'SUSTAINMENT'
-    case 'Custom':
-      return 'CUSTOM'
-    default:
-      return 'RED'
-  }
-}
-
-/** Format set×reps for display (reduces nested ternary). */
-function formatSetReps(ex: { sets?: number; reps?: number }): string | null {
-  if (ex.sets != null && ex.reps != null) return `${ex.sets}×${ex.reps}`
-  if (ex.sets != null) return `${ex.sets} sets`
-  return null
-}
-
 /** Block display name for session summary (reduces nested ternary). */
 function getBlockDisplayName(
   section: ProgramStructureSection,
@@ -505,6 +565,13 @@ function structureHasContent(structure: ProgramStructure): boolean {
 }
 
 /** Returns true if any non-rest day has a block with empty name (for submit validation). */
+/** Builder toolbar text for the autosave state */
+const AUTOSAVE_STATUS_LABELS = {
+  saving: 'Saving…',
+  saved: 'All changes saved',
+  failed: 'Not saved — kept as a draft on this device',
+} as const
+
 /** Strip heavy embedded exercise details from ProgramStructure before saving.
  * We keep exerciseId and prescription fields, but drop the nested `exercise`
  * object so the payload stays small; exercise details are fetched separately.
@@ -528,244 +595,22 @@ function getStructureForSave(structure: ProgramStructure): ProgramStructure {
   }
 }
 
-/** Compute calendar cell summary (exercise names, set counts, block categories) to reduce complexity in map. */
-function getCellSummary(
-  sections: ProgramStructureSection[],
-  getExerciseName: (id: number) => string
-): { exerciseNames: string[]; setCounts: string[]; blockCategories: string[] } {
-  const exerciseNames = sections
-    .flatMap(sec =>
-      (sec.exercises ?? []).map(ex => getExerciseName(ex.exerciseId))
-    )
-    .slice(0, 3)
-  const setCounts = sections
-    .flatMap(sec =>
-      (sec.exercises ?? [])
-        .map(ex => formatSetReps({ sets: ex.sets, reps: ex.reps }))
-        .filter((x): x is string => x != null)
-    )
-    .slice(0, 3)
-  const blockCategories = [
-    ...new Set(sections.map(s => s.blockCategory).filter(Boolean)),
-  ] as string[]
-  return { exerciseNames, setCounts, blockCategories }
-}
-
-/** Session card CSS class for calendar day cell (2.8 Level 1). */
-function getCalendarDaySessionCardClass(
-  program: ProgramBuilderFormProps['program'],
-  isSelected: boolean,
-  isDragging: boolean,
-  hasDay: boolean
-): string {
-  const borderStyle =
-    program && !program.isPublished
-      ? 'border-dashed border-gray-300 bg-gray-50/30'
-      : 'border-solid border-gray-300'
-  const selectedStyle = isSelected
-    ? 'border-[#3AB8ED] bg-blue-100 ring-2 ring-[#3AB8ED] ring-offset-1'
-    : 'hover:border-[#3AB8ED] hover:bg-blue-50/50'
-  const dragStyle = isDragging ? 'opacity-50 ring-2 ring-primary-400' : ''
-  const emptyCellSelectedStyle = isSelected
-    ? 'border-[#3AB8ED] bg-blue-100 ring-2 ring-[#3AB8ED] ring-offset-1 text-[#3AB8ED]'
-    : 'border-dashed border-gray-300 text-gray-500 hover:border-[#3AB8ED] hover:text-[#3AB8ED]'
-  if (hasDay) {
-    return `w-full min-h-[88px] rounded-lg border-2 p-2.5 text-left transition-colors shadow-sm bg-white ${dragStyle} ${borderStyle} ${selectedStyle}`
-  }
-  return `relative w-full min-h-[88px] rounded-lg border-2 flex items-center justify-center text-sm transition-colors group ${emptyCellSelectedStyle}`
-}
-
-/** Session card body: name, badge, exercise list, set counts (reduces CalendarDayCell complexity). */
-function CalendarDayCellContentBody(
-  props: Readonly<{
-    dayIdx: number
-    day: ProgramStructureDay | undefined
-    program: ProgramBuilderFormProps['program']
-    exerciseNames: string[]
-    setCounts: string[]
-    blockCategories: string[]
-    blockCount: number
-  }>
-) {
-  const {
-    dayIdx,
-    day,
-    program,
-    exerciseNames,
-    setCounts,
-    blockCategories,
-    blockCount,
-  } = props
-  const dayName = day?.dayName || `Day ${dayIdx + 1}`
-  const hasProgramBadge = Boolean(program)
-  const publishedClass =
-    'text-[10px] px-1.5 py-0.5 rounded bg-green-100 text-green-700 shrink-0'
-  const draftClass =
-    'text-[10px] px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 shrink-0'
-  const badgeClass = program?.isPublished ? publishedClass : draftClass
-  const hasExerciseInfo =
-    exerciseNames.length > 0 ||
-    setCounts.length > 0 ||
-    blockCategories.length > 0
-  return (
-    <>
-      <div className="flex items-center gap-1.5 flex-wrap">
-        <span className="text-xs font-semibold text-gray-900 truncate">
-          {dayName}
-        </span>
-        {hasProgramBadge && (
-          <span
-            className={badgeClass}
-            aria-label={program?.isPublished ? 'Published' : 'Draft'}
-          >
-            {program?.isPublished ? 'Published' : 'Draft'}
-          </span>
-        )}
-      </div>
-      {exerciseNames.length > 0 && (
-        <div
-          className="text-[11px] text-gray-600 mt-1 truncate"
-          title={exerciseNames.join(', ')}
-        >
-          {exerciseNames.join(', ')}
-        </div>
-      )}
-      {(setCounts.length > 0 || blockCategories.length > 0) && (
-        <div className="text-[11px] text-gray-500 mt-0.5">
-          {setCounts.length > 0 && setCounts.join(', ')}
-          {setCounts.length > 0 && blockCategories.length > 0 && ' · '}
-          {blockCategories.length > 0 && blockCategories.join(', ')}
-        </div>
-      )}
-      {!hasExerciseInfo && (
-        <div className="text-xs text-gray-500 mt-1">{blockCount} block(s)</div>
-      )}
-    </>
-  )
-}
-
-/** Calendar day cell (extracted to reduce cognitive complexity of parent map). */
-function CalendarDayCell(
-  props: Readonly<{
-    weekIdx: number
-    dayIdx: number
-    day: ProgramStructureDay | undefined
-    week: ProgramStructure['weeks'][number]
-    isSelected: boolean
-    isDragging: boolean
-    program: ProgramBuilderFormProps['program']
-    exerciseNames: string[]
-    setCounts: string[]
-    blockCategories: string[]
-    blockCount: number
-    onMouseEnter: (e: MouseEvent<HTMLTableCellElement>) => void
-    onMouseLeave: () => void
-    onDragOver: (e: DragEvent<HTMLTableCellElement>) => void
-    onDrop: (e: DragEvent<HTMLTableCellElement>) => void
-    onDragStart: (e: DragEvent<HTMLButtonElement>) => void
-    onDragEnd: () => void
-    onMouseDown: () => void
-    onClick: () => void
-    onDoubleClick: () => void
-    onContextMenu: (e: MouseEvent<HTMLElement>) => void
-    onAddDay: () => void
-  }>
-) {
-  const {
-    weekIdx,
-    dayIdx,
-    day,
-    week,
-    isSelected,
-    isDragging,
-    program,
-    exerciseNames,
-    setCounts,
-    blockCategories,
-    blockCount,
-    onMouseEnter,
-    onMouseLeave,
-    onDragOver,
-    onDrop,
-    onDragStart,
-    onDragEnd,
-    onMouseDown,
-    onClick,
-    onDoubleClick,
-    onContextMenu,
-    onAddDay,
-  } = props
-  const isRest = day?.isRestDay ?? false
-  const canMoveSession = day?.id != null && week.id != null
-  const sessionCardClass = getCalendarDaySessionCardClass(
-    program,
-    isSelected,
-    isDragging,
-    Boolean(day)
-  )
-  const dayCellContent = isRest ? (
-    <span className="text-sm text-gray-400 font-medium" aria-label="Rest day">
-      Rest
-    </span>
-  ) : (
-    <CalendarDayCellContentBody
-      dayIdx={dayIdx}
-      day={day}
-      program={program}
-      exerciseNames={exerciseNames}
-      setCounts={setCounts}
-      blockCategories={blockCategories}
-      blockCount={blockCount}
-    />
-  )
-  const dayNameForAria = day?.dayName || `Day ${dayIdx + 1}`
-  const sessionAriaLabel = `Session: ${dayNameForAria}${isRest ? ', Rest day' : ''}`
-
-  return (
-    <td
-      className="border border-gray-200 p-1.5 align-top"
-      data-week-idx={weekIdx}
-      data-day-idx={dayIdx}
-      onMouseEnter={onMouseEnter}
-      onMouseLeave={onMouseLeave}
-      onDragOver={onDragOver}
-      onDrop={onDrop}
-    >
-      {day ? (
-        <button
-          type="button"
-          draggable={canMoveSession}
-          onDragStart={onDragStart}
-          onDragEnd={onDragEnd}
-          onMouseDown={onMouseDown}
-          onClick={onClick}
-          onDoubleClick={onDoubleClick}
-          onContextMenu={onContextMenu}
-          className={sessionCardClass}
-          aria-label={sessionAriaLabel}
-          title="Single-click to select. Double-click to open session."
-        >
-          {dayCellContent}
-        </button>
-      ) : (
-        <button
-          type="button"
-          onMouseDown={onMouseDown}
-          onClick={onAddDay}
-          onContextMenu={onContextMenu}
-          className={sessionCardClass}
-          aria-label="Add session"
-          title="Single-click to select. Double-click to add session."
-        >
-          <span className="opacity-40 group-hover:opacity-0 transition-opacity">
-            +
-          </span>
-          <span className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
-            + Add Session
-          </span>
-        </button>
-      )}
-    </td>
+/** Saved program days that can be assigned to Amber dates */
+function getAmberDayOptions(
+  structure: ProgramStructure
+): Array<{ programDayId: number; label: string }> {
+  return structure.weeks.flatMap(w =>
+    (w.days ?? []).flatMap(d => {
+      const id = (d as { id?: number }).id
+      if (id == null) return []
+      const dayOrSessionName =
+        d.dayName ??
+        (d.isRestDay ? `Day ${d.dayIndex + 1}` : `Session ${d.dayIndex + 1}`)
+      const label = d.isRestDay
+        ? `Rest - ${dayOrSessionName}`
+        : dayOrSessionName
+      return [{ programDayId: id, label }]
+    })
   )
 }
 
@@ -821,7 +666,7 @@ interface SessionBlocksProps {
   weekIdx: number
   dayIdx: number
   structure: ProgramStructure
-  setStructure: (s: ProgramStructure) => void
+  setStructure: (s: ProgramStructure, label?: string) => void
   draggedBlock: {
     weekIdx: number
     dayIdx: number
@@ -861,6 +706,8 @@ interface SessionBlocksProps {
   ) => Promise<void>
   removeSection: (w: number, d: number, idx: number) => void
   onSaveCircuitToLibrary: (section: ProgramStructureSection) => Promise<void>
+  /** Open "save as template" for a week, day or block */
+  onSaveAsTemplate: (source: ProgramTemplateSource) => void
 }
 
 /** Single session block row (extracted to reduce nesting and cognitive complexity). */
@@ -899,6 +746,7 @@ function SessionBlockRow(
     moveBlockToIndex,
     removeSection,
     onSaveCircuitToLibrary,
+    onSaveAsTemplate,
   } = props
   const isSuperset =
     section.blockType === 'SUPERSET' || section.sectionType === 'superset'
@@ -1041,7 +889,7 @@ function SessionBlockRow(
                 b.parentSectionIndex = sectionIdx
                 secs.splice(sectionIdx, 2, parent, a, b)
                 weeks[w].days[d] = { ...day, sections: secs }
-                setStructure({ weeks })
+                setStructure({ weeks }, 'Link as superset')
               }}
             >
               <Icon name="link" family="solid" size={16} />
@@ -1141,7 +989,7 @@ function SessionBlockRow(
                     }
                     secs.splice(sectionIdx + 1, 0, copy)
                     weeks[w].days[d] = { ...day, sections: secs }
-                    setStructure({ weeks })
+                    setStructure({ weeks }, 'Duplicate block')
                     setBlockMenuOpen(null)
                   }}
                 >
@@ -1165,6 +1013,21 @@ function SessionBlockRow(
                     Save to library
                   </button>
                 )}
+                <button
+                  type="button"
+                  className="w-full px-3 py-1.5 text-left text-sm hover:bg-gray-100"
+                  onClick={() => {
+                    onSaveAsTemplate({
+                      templateType: 'block',
+                      weekIdx: w,
+                      dayIdx: d,
+                      sectionIdx,
+                    })
+                    setBlockMenuOpen(null)
+                  }}
+                >
+                  Save as template
+                </button>
                 <button
                   type="button"
                   className="w-full px-3 py-1.5 text-left text-sm hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
@@ -1790,9 +1653,8 @@ function SessionDesignerPanel(
       ) => void
       setPreviewSessionOpen: (b: boolean) => void
       setLibraryDrawerOpen: (b: boolean) => void
-      setSaveSessionToLibraryName: (s: string) => void
-      setSaveSessionToLibraryOpen: (b: boolean) => void
       setAddBlockModalOpen: (b: boolean) => void
+      onPasteFromSpreadsheet: () => void
     }
   >
 ) {
@@ -1805,9 +1667,8 @@ function SessionDesignerPanel(
     setSessionDesignerCell,
     setPreviewSessionOpen,
     setLibraryDrawerOpen,
-    setSaveSessionToLibraryName,
-    setSaveSessionToLibraryOpen,
     setAddBlockModalOpen,
+    onPasteFromSpreadsheet,
     draggedBlock,
     setDraggedBlock,
     getExerciseName,
@@ -1819,6 +1680,7 @@ function SessionDesignerPanel(
     moveBlockToIndex,
     removeSection,
     onSaveCircuitToLibrary,
+    onSaveAsTemplate,
   } = props
   return (
     <div className="rounded-xl border border-gray-200 bg-white p-6 space-y-4">
@@ -1895,7 +1757,7 @@ function SessionDesignerPanel(
                 isRestDay: isRest,
                 sections: isRest ? [] : defaultSections,
               }
-              setStructure({ weeks })
+              setStructure({ weeks }, 'Toggle rest day')
             }}
             className="rounded border-gray-300"
           />
@@ -1951,13 +1813,21 @@ function SessionDesignerPanel(
               type="button"
               variant="secondary"
               size="small"
-              onClick={() => {
-                setSaveSessionToLibraryName(day.dayName || 'Session')
-                setSaveSessionToLibraryOpen(true)
-              }}
+              onClick={onPasteFromSpreadsheet}
               disabled={day.isRestDay}
             >
-              Save session to library
+              Paste from spreadsheet
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              size="small"
+              onClick={() =>
+                onSaveAsTemplate({ templateType: 'day', weekIdx: w, dayIdx: d })
+              }
+              disabled={day.isRestDay}
+            >
+              Save day as template
             </Button>
           </div>
         </div>
@@ -1979,6 +1849,7 @@ function SessionDesignerPanel(
             moveBlockToIndex={moveBlockToIndex}
             removeSection={removeSection}
             onSaveCircuitToLibrary={onSaveCircuitToLibrary}
+            onSaveAsTemplate={onSaveAsTemplate}
           />
           {(day.sections ?? []).length === 0 && (
             <p className="text-sm text-gray-500 py-2">
@@ -2021,13 +1892,15 @@ export interface ProgramBuilderFormProps {
     durationWeeks?: number | null
     sessionsPerWeek?: number | null
     programStructure?: ProgramStructure | null
+    /** Server version of the program; saves check it to detect concurrent edits */
+    updatedAt?: string
   }
   /** Called after save. When creating, receives the created program so parent can open edit (Calendar). */
   onSuccess?: (createdProgram?: Program | null) => void
   onCancel?: () => void
 }
 
-/** Main program builder: metadata, calendar grid, session designer, modals. Complexity is inherent to the single-form UX; sub-views are extracted where possible (e.g. CalendarDayCell). */
+/** Main program builder: metadata, calendar grid, session designer, modals. Complexity is inherent to the single-form UX; sub-views are extracted where possible (e.g. ProgramCalendarGrid). */
 export function ProgramBuilderForm({
   initialCycleId,
   program,
@@ -2191,6 +2064,7 @@ export function ProgramBuilderForm({
   >([])
   const [amberLibrarySessionsLoading, setAmberLibrarySessionsLoading] =
     useState(false)
+  const [amberRecurrenceOpen, setAmberRecurrenceOpen] = useState(false)
   /** 3.2 Amber: Calendar view — month grid for assigning sessions to dates */
   const [amberCalendarMonth, setAmberCalendarMonth] = useState(() => {
     const d = new Date()
@@ -2212,11 +2086,27 @@ export function ProgramBuilderForm({
   const [saveAsProgramModalOpen, setSaveAsProgramModalOpen] = useState(false)
   const [saveAsProgramName, setSaveAsProgramName] = useState('')
   const [saveAsProgramSaving, setSaveAsProgramSaving] = useState(false)
+  /** Paste from spreadsheet: one session (dayIdx set) or a whole week */
+  const [spreadsheetPasteTarget, setSpreadsheetPasteTarget] = useState<{
+    weekIdx: number
+    dayIdx?: number
+  } | null>(null)
   /** Confirm remove week: weekIdx to remove, or null when modal closed */
   const [removeWeekConfirmIdx, setRemoveWeekConfirmIdx] = useState<
     number | null
   >(null)
   const [removeWeekLoading, setRemoveWeekLoading] = useState(false)
+  /** Progression generator: build the weeks after a template week */
+  const [progressionOpen, setProgressionOpen] = useState(false)
+  const [generatingProgression, setGeneratingProgression] = useState(false)
+  /** Training load side panel */
+  const [trainingLoadOpen, setTrainingLoadOpen] = useState(false)
+  /** Print / PDF sheets for the program, a week or a session */
+  const [printOpen, setPrintOpen] = useState(false)
+  /** Bulk edit of prescriptions across weeks */
+  const [bulkEditOpen, setBulkEditOpen] = useState(false)
+  /** Preview a week / session the way an athlete sees it */
+  const [athletePreviewOpen, setAthletePreviewOpen] = useState(false)
   /** Custom confirm modal for "Delete selected sessions" (replaces native confirm) */
   const [deleteSelectedConfirmOpen, setDeleteSelectedConfirmOpen] =
     useState(false)
@@ -2235,7 +2125,6 @@ export function ProgramBuilderForm({
   const [editingWeekNameIdx, setEditingWeekNameIdx] = useState<number | null>(
     null
   )
-  const [editingWeekNameValue, setEditingWeekNameValue] = useState('')
   /** MASS 2.8: Hover preview — show session summary in tooltip */
   const [hoveredCell, setHoveredCell] = useState<{
     weekIdx: number
@@ -2262,24 +2151,133 @@ export function ProgramBuilderForm({
   const [blockMenuOpen, setBlockMenuOpen] = useState<string | null>(null)
   /** MASS 2.9: Library drawer (Add from Library) */
   const [libraryDrawerOpen, setLibraryDrawerOpen] = useState(false)
-  /** MASS 2.9: Save session to library modal */
-  const [saveSessionToLibraryOpen, setSaveSessionToLibraryOpen] =
-    useState(false)
-  const [saveSessionToLibraryName, setSaveSessionToLibraryName] = useState('')
-  const [saveSessionToLibrarySaving, setSaveSessionToLibrarySaving] =
-    useState(false)
+  /** Week / day / block being saved as a library template */
+  const [templateSource, setTemplateSource] =
+    useState<ProgramTemplateSource | null>(null)
+  const [savingTemplate, setSavingTemplate] = useState(false)
   /** MASS 2.9: Save program to library modal */
   const [saveProgramToLibraryOpen, setSaveProgramToLibraryOpen] =
     useState(false)
   const [saveProgramToLibraryName, setSaveProgramToLibraryName] = useState('')
   const [saveProgramToLibrarySaving, setSaveProgramToLibrarySaving] =
     useState(false)
-  /** MASS 2.1/2.8: When editing, use program structure; when creating, start with empty weeks (synced from numberOfWeeks). */
-  const [structure, setStructure] = useState<ProgramStructure>(() =>
-    program?.id
-      ? { weeks: program?.programStructure?.weeks ?? [] }
-      : { weeks: [] }
+  /** MASS 2.1/2.8: When editing, use program structure; when creating, start with empty weeks (synced from numberOfWeeks).
+   * The structure lives in the editor store: the builder subscribes to all of
+   * it, calendar rows and cells to their own week / day, so an edit renders
+   * them together in one pass.
+   */
+  const [editorStore] = useState(() =>
+    createProgramEditorStore(
+      program?.id
+        ? { weeks: program?.programStructure?.weeks ?? [] }
+        : { weeks: [] }
+    )
+  )
+  const structure = useSyncExternalStore(
+    editorStore.subscribe,
+    editorStore.getStructure
+  )
+  const setStructureState = useCallback(
+    (next: SetStateAction<ProgramStructure>) =>
+      editorStore.load(
+        typeof next === 'function' ? next(editorStore.getStructure()) : next
+      ),
+    [editorStore]
+  )
+  /** Latest structure for history commands and updates that run after an await */
+  const structureRef = useRef(structure)
+  useEffect(() => {
+    structureRef.current = structure
+  }, [structure])
+  const calendarGridRef = useRef<ProgramCalendarGridHandle>(null)
+
+  /** Replace the structure without recording history (server sync, undo/redo). */
+  const replaceStructure = useCallback(
+    (next: ProgramStructure) => {
+      structureRef.current = next
+      setStructureState(next)
+    },
+    [setStructureState]
+  )
+
+  const onHistoryError = useCallback(
+    (label: string, e: unknown) => {
+      const err = e as AxiosError<{ message?: string }>
+      showError(
+        `${err.response?.data?.message ?? `Failed to undo "${label}"`}. Undo history cleared.`
+      )
+    },
+    [showError]
+  )
+  const {
+    record: recordHistory,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+    busy: historyBusy,
+  } = useUndoHistory(onHistoryError)
+
+  /** Local structure edit, recorded for undo. Unlabelled edits (typing, prescription fields) made in quick succession merge into one step. */
+  const setStructure = useCallback(
+    (next: SetStateAction<ProgramStructure>, label?: string) => {
+      const before = structureRef.current
+      const after = typeof next === 'function' ? next(before) : next
+      replaceStructure(after)
+      recordHistory({
+        label: label ?? 'Edit',
+        coalesceKey: label ? undefined : 'edit',
+        undo: () => replaceStructure(before),
+        redo: () => replaceStructure(after),
+      })
+    },
+    [replaceStructure, recordHistory]
+  )
+
+  /** Last server version this editor knows about (common base for merging) */
+  const serverBaseRef = useRef<{
+    updatedAt: string | null
+    snapshot: ProgramSnapshot
+  } | null>(null)
+  /** Newer server version found on save; autosave pauses until it is merged */
+  const [conflict, setConflict] = useState<{
+    base: ProgramSnapshot
+    theirs: ProgramSnapshot
+    updatedAt: string
+  } | null>(null)
+  const [conflictModalOpen, setConflictModalOpen] = useState(false)
+  const [resolvingConflict, setResolvingConflict] = useState(false)
+  const [autosaveStatus, setAutosaveStatus] = useState<
+    'idle' | 'saving' | 'saved' | 'failed'
+  >('idle')
+  /** Local draft key: per program, or per cycle for a new program */
+  const draftKey = programDraftKey(
+    program?.id,
+    program?.cycleId ?? initialCycleId
   )
+  /** Draft left from an earlier session that differs from the server; offered for restore */
+  const [pendingDraft, setPendingDraft] = useState<ProgramDraft | null>(() => {
+    const draft = loadProgramDraft(draftKey)
+    if (!draft) return null
+    const unchanged = program?.id
+      ? isSameSnapshot(
+          draft.snapshot,
+          programToSnapshot({
+            ...program,
+            constraintCategory: (
+              program as { constraintCategory?: string | null }
+            ).constraintCategory,
+          })
+        )
+      : isEmptySnapshot(draft.snapshot)
+    if (unchanged) {
+      clearProgramDraft(draftKey)
+      return null
+    }
+    return draft
+  })
 
   const programStructure = program?.programStructure
   const programDurationWeeks = (
@@ -2292,9 +2290,22 @@ export function ProgramBuilderForm({
   /** Sync structure from program when program prop loads/updates (preserve week names, days, blocks from API). MASS 2.8: support empty weeks. */
   useEffect(() => {
     if (program?.id != null && programStructure) {
-      setStructure({ weeks: programStructure.weeks ?? [] })
+      replaceStructure({ weeks: programStructure.weeks ?? [] })
+      serverBaseRef.current = {
+        updatedAt: program.updatedAt ?? null,
+        snapshot: programToSnapshot({
+          ...program,
+          constraintCategory: programConstraintCategory,
+        }),
+      }
     }
-  }, [program, program?.id, programStructure])
+  }, [
+    program,
+    program?.id,
+    programStructure,
+    programConstraintCategory,
+    replaceStructure,
+  ])
 
   /** When opening for edit, if program was passed without programStructure (e.g. from list), refetch once to populate calendar and all fields. */
   const hasRefetchedForEdit = useRef(false)
@@ -2311,11 +2322,17 @@ export function ProgramBuilderForm({
             }
           )?.data
           const weeks = data?.programStructure?.weeks ?? []
-          setStructure({ weeks })
+          replaceStructure({ weeks })
+          if (data) {
+            serverBaseRef.current = {
+              updatedAt: data.updatedAt ?? null,
+              snapshot: programToSnapshot(data),
+            }
+          }
         })
         .catch(() => {})
     }
-  }, [program?.id, programStructure?.weeks])
+  }, [program?.id, programStructure?.weeks, replaceStructure])
 
   /** 3.3 Green: Sync durationWeeks from program when editing a Green program; when creating Green, default to numberOfWeeks. */
   useEffect(() => {
@@ -2365,7 +2382,7 @@ export function ProgramBuilderForm({
   useEffect(() => {
     if (program?.id) return
     const N = Math.max(1, numberOfWeeks)
-    setStructure(prev => {
+    setStructureState(prev => {
       const W = prev.weeks ?? []
       if (W.length === N) return prev
       if (N > W.length) {
@@ -2381,7 +2398,7 @@ export function ProgramBuilderForm({
       }
       return { weeks: W.slice(0, N) }
     })
-  }, [program?.id, numberOfWeeks])
+  }, [program?.id, numberOfWeeks, setStructureState])
 
   /** MASS 2.8: Refetch program and sync structure. Returns new structure when successful. Populates all fields (weeks, week names, days, blocks). */
   const refetchProgram =
@@ -2389,17 +2406,68 @@ export function ProgramBuilderForm({
       if (!program?.id) return null
       try {
         const res = await programService.getById(program.id)
-        const data = (
-          res.data as { data?: { programStructure?: ProgramStructure } }
-        )?.data
+        const data = (res.data as { data?: Program })?.data
         const weeks = data?.programStructure?.weeks ?? []
-        setStructure({ weeks })
+        replaceStructure({ weeks })
+        if (data) {
+          serverBaseRef.current = {
+            updatedAt: data.updatedAt ?? null,
+            snapshot: programToSnapshot(data),
+          }
+        }
         return { weeks }
       } catch {
         showError('Failed to refresh program')
       }
       return null
-    }, [program?.id, showError])
+    }, [program?.id, showError, replaceStructure])
+
+  /** Undo/redo: refetch after compensating calls; a failed refresh fails the command. */
+  const refetchForHistory = useCallback(async (): Promise<ProgramStructure> => {
+    const next = await refetchProgram()
+    if (!next) throw new Error('Failed to refresh program')
+    return next
+  }, [refetchProgram])
+
+  /** Undo: re-create a deleted day (name, notes, blocks) in a week. Returns the new day id. */
+  const restoreDayOnServer = useCallback(
+    async (weekId: number, day: ProgramStructureDay): Promise<number> => {
+      const res = await programService.addDay(weekId, {
+        dayName: day.dayName,
+        dayIndex: day.dayIndex,
+      })
+      const dayId = res.data.data.id
+      await programService.updateDay(dayId, toUpdateDayBody(day))
+      for (const [i, group] of groupDayBlocks(day.sections ?? []).entries()) {
+        await programService.createBlockByDayId(
+          dayId,
+          toCreateBlockBody(group, i)
+        )
+      }
+      return dayId
+    },
+    []
+  )
+
+  /** Undo: re-create a deleted week (name, days, blocks) at the end of the program. Returns the new week id. */
+  const restoreWeekOnServer = useCallback(
+    async (programId: number, week: ProgramStructureWeek): Promise<number> => {
+      const res = await programService.addWeek(programId, {
+        weekName: week.weekName,
+      })
+      const weekId = res.data.data.id
+      const created = await refetchForHistory()
+      const defaultDays = created.weeks.find(w => w.id === weekId)?.days ?? []
+      for (const day of week.days ?? []) {
+        await restoreDayOnServer(weekId, day)
+      }
+      for (const day of defaultDays) {
+        if (day.id != null) await programService.deleteDay(day.id)
+      }
+      return weekId
+    },
+    [refetchForHistory, restoreDayOnServer]
+  )
 
   const fetchCycles = useCallback(async () => {
     try {
@@ -2476,12 +2544,30 @@ export function ProgramBuilderForm({
       if (copiedDays.length === 0 || !program?.id) return
       const week = structure.weeks[targetWeekIdx]
       if (!week?.id) return
-      try {
-        for (const { dayId } of copiedDays) {
-          await programService.duplicateDay(week.id, { sourceDayId: dayId })
+      const weekId = week.id
+      const sources = [...copiedDays]
+      const paste = async () => {
+        const before = collectStructureIds(structureRef.current).dayIds
+        for (const { dayId } of sources) {
+          await programService.duplicateDay(weekId, { sourceDayId: dayId })
         }
-        await refetchProgram()
-        showSuccess(`Pasted ${copiedDays.length} session(s)`)
+        const next = await refetchForHistory()
+        return newIds(before, collectStructureIds(next).dayIds)
+      }
+      try {
+        let created = await paste()
+        showSuccess(`Pasted ${sources.length} session(s)`)
+        recordHistory({
+          label: `Paste ${sources.length} session(s)`,
+          redoRecreates: true,
+          undo: async () => {
+            for (const id of created) await programService.deleteDay(id)
+            await refetchForHistory()
+          },
+          redo: async () => {
+            created = await paste()
+          },
+        })
       } catch (e) {
         const err = e as AxiosError<{ message?: string }>
         showError(err.response?.data?.message ?? 'Failed to paste')
@@ -2491,7 +2577,8 @@ export function ProgramBuilderForm({
       copiedDays,
       program?.id,
       structure.weeks,
-      refetchProgram,
+      refetchForHistory,
+      recordHistory,
       showSuccess,
       showError,
     ]
@@ -2526,11 +2613,35 @@ export function ProgramBuilderForm({
     return () => document.removeEventListener('keydown', onKeyDown)
   }, [copiedDays.length, selectedCells, handlePasteAt])
 
+  /** Ctrl+Z undo, Ctrl+Shift+Z / Ctrl+Y redo (text fields keep their own undo) */
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement
+      const inInput =
+        target.tagName === 'INPUT' ||
+        target.tagName === 'TEXTAREA' ||
+        target.tagName === 'SELECT' ||
+        target.isContentEditable
+      if (inInput || !(e.ctrlKey || e.metaKey)) return
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        void undo()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        void redo()
+      }
+    }
+    document.addEventListener('keydown', onKeyDown)
+    return () => document.removeEventListener('keydown', onKeyDown)
+  }, [undo, redo])
+
   const cycle = cycles.find(c => c.id === cycleId)
   const isSustainmentCycle = cycle?.name === 'Sustainment'
   /** MASS 2.10: Debounced auto-save when editing an existing program.
    * Uses the same payload as manual Update and strips embedded exercise
-   * details via getStructureForSave. Skips the first run on modal open.
+   * details via getStructureForSave. Skips the first run on modal open,
+   * and pauses while a concurrent-edit conflict is waiting to be merged.
    */
   const autoSaveInitializedRef = useRef(false)
   useEffect(() => {
@@ -2539,14 +2650,18 @@ export function ProgramBuilderForm({
       autoSaveInitializedRef.current = true
       return
     }
+    if (conflict) return
     if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current)
     saveTimeoutRef.current = setTimeout(() => {
       saveTimeoutRef.current = null
       void (async () => {
+        setAutosaveStatus('saving')
         try {
-          await programService.update(program.id, buildUpdatePayload())
+          const saved = await saveProgramChecked(getCurrentSnapshot())
+          setAutosaveStatus(saved ? 'saved' : 'idle')
         } catch {
-          // silent; user can still click Update explicitly
+          // user can still click Update explicitly; the local draft is kept
+          setAutosaveStatus('failed')
         }
       })()
     }, 1500)
@@ -2569,6 +2684,76 @@ export function ProgramBuilderForm({
     constraintCategory,
   ])
 
+  /** Keep a local draft of unsaved work so a closed tab or failed save loses nothing. Not written while an older draft is still offered for restore.
+   * Debounced: serializing a large program on every keystroke is slow. The
+   * pending write is flushed on unmount and when the tab closes.
+   */
+  const draftInitializedRef = useRef(false)
+  const draftTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const pendingDraftWriteRef = useRef<(() => void) | null>(null)
+  const flushDraftWrite = useCallback(() => {
+    if (draftTimeoutRef.current) clearTimeout(draftTimeoutRef.current)
+    draftTimeoutRef.current = null
+    const write = pendingDraftWriteRef.current
+    pendingDraftWriteRef.current = null
+    write?.()
+  }, [])
+  /** Drop a scheduled draft write (the work was just saved) */
+  const cancelDraftWrite = () => {
+    if (draftTimeoutRef.current) clearTimeout(draftTimeoutRef.current)
+    draftTimeoutRef.current = null
+    pendingDraftWriteRef.current = null
+  }
+  useEffect(() => {
+    if (!draftInitializedRef.current) {
+      draftInitializedRef.current = true
+      return
+    }
+    if (draftTimeoutRef.current) clearTimeout(draftTimeoutRef.current)
+    if (pendingDraft) {
+      pendingDraftWriteRef.current = null
+      return
+    }
+    pendingDraftWriteRef.current = () => {
+      const snapshot = getCurrentSnapshot()
+      const base = serverBaseRef.current
+      if (
+        base
+          ? isSameSnapshot(base.snapshot, snapshot)
+          : isEmptySnapshot(snapshot)
+      ) {
+        clearProgramDraft(draftKey)
+        return
+      }
+      saveProgramDraft(draftKey, {
+        baseUpdatedAt: base?.updatedAt ?? null,
+        base: base?.snapshot ?? null,
+        snapshot,
+      })
+    }
+    draftTimeoutRef.current = setTimeout(flushDraftWrite, 750)
+    // getCurrentSnapshot reads the values listed below
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [
+    draftKey,
+    pendingDraft,
+    structure,
+    name,
+    description,
+    category,
+    subCategory,
+    isActive,
+    constraintCategory,
+  ])
+
+  useEffect(() => {
+    globalThis.addEventListener('beforeunload', flushDraftWrite)
+    return () => {
+      globalThis.removeEventListener('beforeunload', flushDraftWrite)
+      flushDraftWrite()
+    }
+  }, [flushDraftWrite])
+
   const showCategory =
     cycle?.name === 'Red' || cycle?.name === 'Green' || cycle?.name === 'Amber'
   /** 3.1 Red Cycle (Foundations): Fixed-length sequential; athlete starts Week 1 Day 1, progresses linearly. */
@@ -2587,11 +2772,27 @@ export function ProgramBuilderForm({
 
   const addWeek = async () => {
     if (program?.id) {
+      const programId = program.id
+      const weekName = `Week ${structure.weeks.length + 1}`
       try {
-        await programService.addWeek(program.id, {
-          weekName: `Week ${structure.weeks.length + 1}`,
-        })
+        const res = await programService.addWeek(programId, { weekName })
         await refetchProgram()
+        let weekId = res.data.data.id
+        recordHistory({
+          label: 'Add week',
+          redoRecreates: true,
+          undo: async () => {
+            await programService.deleteWeek(weekId)
+            await refetchForHistory()
+          },
+          redo: async () => {
+            const again = await programService.addWeek(programId, {
+              weekName,
+            })
+            weekId = again.data.data.id
+            await refetchForHistory()
+          },
+        })
       } catch (e) {
         const err = e as AxiosError<{ message?: string }>
         showError(err.response?.data?.message ?? 'Failed to add week')
@@ -2600,22 +2801,25 @@ export function ProgramBuilderForm({
     }
     const nextWeek = structure.weeks.length + 1
     const defaultFirstDayName = cycle?.name === 'Amber' ? '' : 'Day 1'
-    setStructure({
-      weeks: [
-        ...structure.weeks,
-        {
-          weekIndex: nextWeek,
-          weekName: `Week ${nextWeek}`,
-          days: [
-            {
-              dayIndex: 0,
-              dayName: defaultFirstDayName,
-              sections: [],
-            },
-          ],
-        },
-      ],
-    })
+    setStructure(
+      {
+        weeks: [
+          ...structure.weeks,
+          {
+            weekIndex: nextWeek,
+            weekName: `Week ${nextWeek}`,
+            days: [
+              {
+                dayIndex: 0,
+                dayName: defaultFirstDayName,
+                sections: [],
+              },
+            ],
+          },
+        ],
+      },
+      'Add week'
+    )
     if (!program?.id) setNumberOfWeeks(prev => prev + 1)
   }
 
@@ -2644,11 +2848,27 @@ export function ProgramBuilderForm({
           }
         }
         if (weekId) {
+          /** Add the day and record it for undo (delete it again) */
           const tryAddDay = async (id: number) => {
             const dayCount = structure.weeks[weekIdx]?.days?.length ?? 0
-            await programService.addDay(id, {
+            const body = {
               dayName:
                 cycle?.name === 'Amber' ? undefined : `Day ${dayCount + 1}`,
+            }
+            const res = await programService.addDay(id, body)
+            let dayId = res.data.data.id
+            recordHistory({
+              label: 'Add session',
+              redoRecreates: true,
+              undo: async () => {
+                await programService.deleteDay(dayId)
+                await refetchForHistory()
+              },
+              redo: async () => {
+                const again = await programService.addDay(id, body)
+                dayId = again.data.data.id
+                await refetchForHistory()
+              },
             })
           }
           try {
@@ -2699,9 +2919,18 @@ export function ProgramBuilderForm({
         sections: [],
       })
       weeks[weekIdx] = w
-      setStructure({ weeks })
+      setStructure({ weeks }, 'Add session')
     },
-    [structure.weeks, program?.id, cycle?.name, refetchProgram, showError]
+    [
+      structure.weeks,
+      program?.id,
+      cycle?.name,
+      refetchProgram,
+      refetchForHistory,
+      recordHistory,
+      setStructure,
+      showError,
+    ]
   )
 
   /** MASS 2.5.1: Update one exercise block section (category, exercise, setsRows, coachingNotes). */
@@ -2756,7 +2985,48 @@ export function ProgramBuilderForm({
     })
     week.days[dayIdx] = day
     weeks[weekIdx] = week
-    setStructure({ weeks })
+    setStructure({ weeks }, 'Add block')
+  }
+
+  /** Paste from spreadsheet: add the reviewed rows to the target session, or to each day of the target week (creating missing days). */
+  const handleSpreadsheetPaste = (
+    rows: PastedRow[],
+    mapping: Record<string, number | null>
+  ) => {
+    const target = spreadsheetPasteTarget
+    if (!target) return
+    const weeks = [...structure.weeks]
+    const week = { ...weeks[target.weekIdx] }
+    const days = [...(week.days ?? [])]
+    const countBlocks = () =>
+      days.reduce((sum, d) => sum + (d.sections?.length ?? 0), 0)
+    const before = countBlocks()
+    if (target.dayIdx != null) {
+      days[target.dayIdx] = appendPastedRows(days[target.dayIdx], rows, mapping)
+    } else {
+      for (const [dayNumber, dayRows] of groupPastedRowsByDay(rows)) {
+        for (let i = days.length; i < dayNumber; i++) {
+          days.push({
+            dayIndex: i,
+            dayName: cycle?.name === 'Amber' ? '' : `Day ${i + 1}`,
+            sections: [],
+          })
+        }
+        days[dayNumber - 1] = appendPastedRows(
+          days[dayNumber - 1],
+          dayRows,
+          mapping
+        )
+      }
+    }
+    week.days = days
+    weeks[target.weekIdx] = week
+    setStructure({ weeks }, 'Paste from spreadsheet')
+    setSpreadsheetPasteTarget(null)
+    const added = countBlocks() - before
+    showSuccess(
+      `Added ${added} block${added !== 1 ? 's' : ''} from spreadsheet`
+    )
   }
 
   /** MASS 2.5.2: Update one circuit block section (name, instructions, resultTrackingType, etc.). */
@@ -2834,7 +3104,7 @@ export function ProgramBuilderForm({
     })
     week.days[dayIdx] = day
     weeks[weekIdx] = week
-    setStructure({ weeks })
+    setStructure({ weeks }, 'Add circuit')
   }
 
   /** MASS 2.5.3: Add superset block (parent + 2+ child EXERCISE sections). */
@@ -2895,7 +3165,7 @@ export function ProgramBuilderForm({
     })
     week.days[dayIdx] = day
     weeks[weekIdx] = week
-    setStructure({ weeks })
+    setStructure({ weeks }, 'Add superset')
   }
 
   /** Add Block modal: submit superset block (validates, adds, closes, resets). */
@@ -3017,30 +3287,96 @@ export function ProgramBuilderForm({
     })
     week.days[dayIdx] = day
     weeks[weekIdx] = week
-    setStructure({ weeks })
+    setStructure({ weeks }, 'Add circuit')
   }
 
-  /** MASS 2.9: Add session from library as a new day in the current week. */
-  const addDayFromLibrarySession = (
-    weekIdx: number,
-    content: Record<string, unknown>
-  ) => {
+  /**
+   * Insert a library template: a week after the last week, a day into the
+   * open (or first non-full) week unless it has 7 days, a block into the open session. Inserted
+   * records get no ids, so saving creates them as new.
+   */
+  const insertTemplate = (template: ProgramTemplate) => {
     const weeks = [...structure.weeks]
-    const week = { ...weeks[weekIdx], days: [...(weeks[weekIdx].days ?? [])] }
-    const dayIndex = week.days.length
-    const dayContent = content as Partial<ProgramStructureDay>
-    week.days.push({
-      dayIndex,
-      dayName: dayContent.dayName ?? `Day ${dayIndex + 1}`,
-      sessionNotes: dayContent.sessionNotes,
-      isRestDay: dayContent.isRestDay,
-      estimatedDurationMinutes: dayContent.estimatedDurationMinutes,
-      sections: dayContent.sections ?? [
-        { sectionType: 'normal', exercises: [] },
+    if (template.templateType === 'week') {
+      weeks.push(insertableWeek(template.week, weeks.length + 1))
+      setStructure({ weeks }, 'Add week from template')
+      if (!program?.id) {
+        setNumberOfWeeks(prev =>
+          Number.isFinite(prev) && prev > 0
+            ? Math.max(prev, weeks.length)
+            : weeks.length
+        )
+      }
+      return
+    }
+    if (template.templateType === 'day') {
+      if (weeks.length === 0) {
+        showError(
+          'Add a week to the program first, then add a day from a template.'
+        )
+        return
+      }
+      const openWeekIdx =
+        sessionDesignerCell?.weekIdx ??
+        weeks.findIndex(w => (w.days?.length ?? 0) < 7)
+      const weekIdx = openWeekIdx >= 0 ? openWeekIdx : weeks.length - 1
+      // same cap as addDay
+      if ((weeks[weekIdx].days?.length ?? 0) >= 7) {
+        showError(
+          `${weeks[weekIdx].weekName || `Week ${weekIdx + 1}`} is full (7 days). Add a week first, then add the day.`
+        )
+        return
+      }
+      const week = { ...weeks[weekIdx], days: [...(weeks[weekIdx].days ?? [])] }
+      const dayIndex = week.days.length
+      const day = insertableDay(template.day, dayIndex)
+      week.days.push({ ...day, dayName: day.dayName ?? `Day ${dayIndex + 1}` })
+      weeks[weekIdx] = week
+      setStructure({ weeks }, 'Add day from template')
+      return
+    }
+    const weekIdx = sessionDesignerCell?.weekIdx
+    const dayIdx = sessionDesignerCell?.dayIdx ?? 0
+    if (weekIdx == null || !weeks[weekIdx]?.days?.[dayIdx]) {
+      showError('Open a session first to add a block from a template.')
+      return
+    }
+    const week = { ...weeks[weekIdx], days: [...weeks[weekIdx].days] }
+    const sections = week.days[dayIdx].sections ?? []
+    week.days[dayIdx] = {
+      ...week.days[dayIdx],
+      sections: [
+        ...sections,
+        ...insertableBlock(template.sections, sections.length),
       ],
-    })
+    }
     weeks[weekIdx] = week
-    setStructure({ weeks })
+    setStructure({ weeks }, 'Add block from template')
+  }
+
+  const handleSaveTemplate = async (name: string, tags: string[]) => {
+    if (!templateSource) return
+    const template = buildProgramTemplate(structure, templateSource, tags)
+    if (!template) {
+      setTemplateSource(null)
+      return
+    }
+    setSavingTemplate(true)
+    try {
+      await libraryService.createSession({
+        name,
+        content: toTemplateContent(template),
+      })
+      showSuccess(
+        `${PROGRAM_TEMPLATE_TYPE_LABELS[template.templateType]} template saved to library`
+      )
+      setTemplateSource(null)
+    } catch (e) {
+      const err = e as AxiosError<{ message?: string }>
+      showError(err.response?.data?.message ?? 'Failed to save template')
+    } finally {
+      setSavingTemplate(false)
+    }
   }
 
   const removeSection = async (
@@ -3065,6 +3401,9 @@ export function ProgramBuilderForm({
           .filter((id: number | undefined): id is number => id != null)
       : []
     if (program?.id && sectionId != null) {
+      const dayId = structure.weeks[weekIdx]?.days?.[dayIdx]?.id
+      const groups = groupDayBlocks(daySections)
+      const position = groups.findIndex(g => g.parent.id === sectionId)
       try {
         for (const childId of childIds) {
           await programService.deleteBlock(childId)
@@ -3072,6 +3411,38 @@ export function ProgramBuilderForm({
         await programService.deleteBlock(sectionId)
         await refetchProgram()
         setBlockMenuOpen(null)
+        if (dayId != null && position >= 0) {
+          let blockId = sectionId
+          recordHistory({
+            label: 'Delete block',
+            undoRecreates: true,
+            undo: async () => {
+              const res = await programService.createBlockByDayId(
+                dayId,
+                toCreateBlockBody(groups[position], position)
+              )
+              blockId = res.data.data.id
+              const next = await refetchForHistory()
+              const restored = findDayById(next, dayId)?.day
+              const ids = topLevelBlockIds(restored?.sections ?? [])
+              const wanted = ids && moveIdTo(ids, blockId, position)
+              if (wanted && wanted.join() !== ids.join()) {
+                await programService.reorderBlocks(dayId, { blockIds: wanted })
+                await refetchForHistory()
+              }
+            },
+            redo: async () => {
+              const current = findDayById(structureRef.current, dayId)?.day
+              for (const child of current?.sections ?? []) {
+                if (child.parentSectionId === blockId && child.id != null) {
+                  await programService.deleteBlock(child.id)
+                }
+              }
+              await programService.deleteBlock(blockId)
+              await refetchForHistory()
+            },
+          })
+        }
       } catch (e) {
         const err = e as AxiosError<{ message?: string }>
         showError(err.response?.data?.message ?? 'Failed to delete block')
@@ -3097,7 +3468,7 @@ export function ProgramBuilderForm({
     }
     week.days[dayIdx] = day
     weeks[weekIdx] = week
-    setStructure({ weeks })
+    setStructure({ weeks }, 'Delete block')
   }
 
   const handleSaveCircuitToLibrary = async (
@@ -3146,9 +3517,29 @@ export function ProgramBuilderForm({
           })
           return next
         })
+        const programId = program.id
+        let weekId = week.id
+        recordHistory({
+          label: 'Remove week',
+          undoRecreates: true,
+          undo: async () => {
+            weekId = await restoreWeekOnServer(programId, week)
+            const ids = structureRef.current.weeks
+              .map(w => w.id)
+              .filter((id): id is number => id != null)
+            await programService.reorderWeeks(programId, {
+              weekIds: moveIdTo(ids, weekId, weekIdx),
+            })
+            await refetchForHistory()
+          },
+          redo: async () => {
+            await programService.deleteWeek(weekId)
+            await refetchForHistory()
+          },
+        })
       } else {
         const nextWeeks = structure.weeks.filter((_, i) => i !== weekIdx)
-        setStructure({ weeks: nextWeeks })
+        setStructure({ weeks: nextWeeks }, 'Remove week')
         if (!program?.id) setNumberOfWeeks(nextWeeks.length)
       }
       setRemoveWeekConfirmIdx(null)
@@ -3164,12 +3555,28 @@ export function ProgramBuilderForm({
   const duplicateWeek = async (weekIdx: number) => {
     const week = structure.weeks[weekIdx]
     if (program?.id && week?.id) {
+      const programId = program.id
+      const sourceWeekId = week.id
+      const duplicate = async () => {
+        const before = collectStructureIds(structureRef.current).weekIds
+        await programService.duplicateWeek(programId, { sourceWeekId })
+        const next = await refetchForHistory()
+        return newIds(before, collectStructureIds(next).weekIds)
+      }
       try {
-        await programService.duplicateWeek(program.id, {
-          sourceWeekId: week.id,
-        })
-        await refetchProgram()
+        let created = await duplicate()
         showSuccess('Week duplicated')
+        recordHistory({
+          label: 'Copy week',
+          redoRecreates: true,
+          undo: async () => {
+            for (const id of created) await programService.deleteWeek(id)
+            await refetchForHistory()
+          },
+          redo: async () => {
+            created = await duplicate()
+          },
+        })
       } catch (e) {
         const err = e as AxiosError<{ message?: string }>
         showError(err.response?.data?.message ?? 'Failed to duplicate week')
@@ -3187,7 +3594,119 @@ export function ProgramBuilderForm({
       id: undefined,
       dayIndex: i,
     }))
-    setStructure({ weeks: [...structure.weeks, copy] })
+    setStructure({ weeks: [...structure.weeks, copy] }, 'Copy week')
+  }
+
+  /** Progression generator: put the generated weeks after the template week, replacing the weeks in that range. Saved programs copy the template with duplicateWeek, then write each block's progressed prescription. */
+  const generateProgression = async (
+    templateIdx: number,
+    generated: ProgramStructureWeek[]
+  ) => {
+    const template = structure.weeks[templateIdx]
+    if (!template || generated.length === 0) return
+    const replaced = structure.weeks.slice(
+      templateIdx + 1,
+      templateIdx + 1 + generated.length
+    )
+    if (
+      program?.id &&
+      template.id != null &&
+      replaced.every(w => w.id != null)
+    ) {
+      const programId = program.id
+      const sourceWeekId = template.id
+      let replacedIds = replaced.map(w => w.id!)
+      /** Ids of the saved weeks in order, with `weekIds` placed after the template */
+      const orderAfterTemplate = (weekIds: number[]) => {
+        const rest = structureRef.current.weeks
+          .map(w => w.id)
+          .filter((id): id is number => id != null && !weekIds.includes(id))
+        return [
+          ...rest.slice(0, templateIdx + 1),
+          ...weekIds,
+          ...rest.slice(templateIdx + 1),
+        ]
+      }
+      /** New weeks are written in full before the replaced ones are deleted, so a failed copy leaves the program as it was */
+      const write = async () => {
+        const created: number[] = []
+        try {
+          for (const week of generated) {
+            const before = collectStructureIds(structureRef.current).weekIds
+            await programService.duplicateWeek(programId, { sourceWeekId })
+            const next = await refetchForHistory()
+            const [weekId] = newIds(before, collectStructureIds(next).weekIds)
+            const copy = next.weeks.find(w => w.id === weekId)
+            if (!copy) throw new Error('Failed to copy the template week')
+            created.push(weekId)
+            await programService.updateWeek(weekId, {
+              weekName: week.weekName,
+            })
+            await Promise.all(
+              progressedBlockUpdates(copy, week).map(({ blockId, ...body }) =>
+                programService.updateBlock(blockId, body)
+              )
+            )
+          }
+        } catch (e) {
+          for (const id of created) {
+            await programService.deleteWeek(id).catch(() => {})
+          }
+          throw e
+        }
+        for (const id of replacedIds) await programService.deleteWeek(id)
+        await programService.reorderWeeks(programId, {
+          weekIds: orderAfterTemplate(created),
+        })
+        await refetchForHistory()
+        return created
+      }
+      setGeneratingProgression(true)
+      try {
+        let created = await write()
+        showSuccess(
+          `Generated ${created.length} week${created.length === 1 ? '' : 's'}`
+        )
+        setProgressionOpen(false)
+        recordHistory({
+          label: 'Generate progression',
+          undoRecreates: true,
+          redoRecreates: true,
+          undo: async () => {
+            for (const id of created) await programService.deleteWeek(id)
+            const restored: number[] = []
+            for (const week of replaced) {
+              restored.push(await restoreWeekOnServer(programId, week))
+            }
+            if (restored.length > 0) {
+              await programService.reorderWeeks(programId, {
+                weekIds: orderAfterTemplate(restored),
+              })
+            }
+            replacedIds = restored
+            await refetchForHistory()
+          },
+          redo: async () => {
+            created = await write()
+          },
+        })
+      } catch (e) {
+        const err = e as AxiosError<{ message?: string }>
+        showError(err.response?.data?.message ?? 'Failed to generate weeks')
+        await refetchProgram()
+      } finally {
+        setGeneratingProgression(false)
+      }
+      return
+    }
+    const weeks = [
+      ...structure.weeks.slice(0, templateIdx + 1),
+      ...generated,
+      ...structure.weeks.slice(templateIdx + 1 + generated.length),
+    ].map((w, i) => ({ ...w, weekIndex: i + 1 }))
+    setStructure({ weeks }, 'Generate progression')
+    if (!program?.id) setNumberOfWeeks(weeks.length)
+    setProgressionOpen(false)
   }
 
   /** MASS 2.3: Reorder weeks (API when program exists, else local). direction: up/down for buttons. */
@@ -3202,13 +3721,28 @@ export function ProgramBuilderForm({
     if (fromIdx === toIdx) return
     if (toIdx < 0 || toIdx >= structure.weeks.length) return
     if (program?.id && structure.weeks.every(w => w.id != null)) {
-      const weekIds = structure.weeks.map(w => w.id!)
+      const programId = program.id
+      const previousIds = structure.weeks.map(w => w.id!)
+      const weekIds = [...previousIds]
       const [removed] = weekIds.splice(fromIdx, 1)
       weekIds.splice(toIdx, 0, removed)
       try {
-        await programService.reorderWeeks(program.id, { weekIds })
+        await programService.reorderWeeks(programId, { weekIds })
         await refetchProgram()
         showSuccess('Weeks reordered')
+        recordHistory({
+          label: 'Move week',
+          undo: async () => {
+            await programService.reorderWeeks(programId, {
+              weekIds: previousIds,
+            })
+            await refetchForHistory()
+          },
+          redo: async () => {
+            await programService.reorderWeeks(programId, { weekIds })
+            await refetchForHistory()
+          },
+        })
       } catch (e) {
         const err = e as AxiosError<{ message?: string }>
         showError(err.response?.data?.message ?? 'Failed to reorder weeks')
@@ -3218,20 +3752,19 @@ export function ProgramBuilderForm({
     const weeks = [...structure.weeks]
     const [removed] = weeks.splice(fromIdx, 1)
     weeks.splice(toIdx, 0, removed)
-    setStructure({ weeks })
+    setStructure({ weeks }, 'Move week')
   }
 
   /** MASS 2.3: Save week name (inline edit) */
-  const saveWeekName = (weekIdx: number) => {
+  const saveWeekName = (weekIdx: number, typed: string) => {
     const week = structure.weeks[weekIdx]
-    const name = editingWeekNameValue.trim() || `Week ${weekIdx + 1}`
+    const name = typed.trim() || `Week ${weekIdx + 1}`
     if (program?.id && week?.id) {
       programService
         .updateWeek(week.id, { weekName: name })
         .then(() => refetchProgram())
         .then(() => {
           setEditingWeekNameIdx(null)
-          setEditingWeekNameValue('')
           showSuccess('Week name updated')
         })
         .catch((e: AxiosError<{ message?: string }>) => {
@@ -3241,24 +3774,74 @@ export function ProgramBuilderForm({
     }
     const weeks = [...structure.weeks]
     weeks[weekIdx] = { ...week, weekName: name }
-    setStructure({ weeks })
+    setStructure({ weeks }, 'Rename week')
     setEditingWeekNameIdx(null)
-    setEditingWeekNameValue('')
   }
 
-  const getExerciseName = (exerciseId: number) =>
-    exerciseList.find(e => e.id === exerciseId)?.name ??
-    `Exercise #${exerciseId}`
+  const getExerciseName = useCallback(
+    (exerciseId: number) =>
+      exerciseList.find(e => e.id === exerciseId)?.name ??
+      `Exercise #${exerciseId}`,
+    [exerciseList]
+  )
 
-  /** Display label for a week: auto-renumber "Week N" by position; keep user-renamed names (e.g. "Ws") as-is. */
-  const getDisplayWeekName = (
-    week: { weekName?: string | null },
-    weekIdx: number
-  ): string => {
-    const name = week.weekName?.trim()
-    if (!name) return `Week ${weekIdx + 1}`
-    if (/^Week \d+$/.test(name)) return `Week ${weekIdx + 1}` // renumber after add/delete
-    return name // custom name, keep as-is
+  /** Program lint: live issues for the check panel and the publish gate (walks the whole program, so only when it changes) */
+  const lintIssues = useMemo(
+    () =>
+      lintProgramStructure(structure, {
+        exerciseName: getExerciseName,
+        referenceMaxExerciseId: exerciseId =>
+          exerciseList.find(e => e.id === exerciseId)?.referenceMaxExerciseId,
+        checkVolumeJumps: !isAmberCycle,
+      }),
+    [structure, exerciseList, getExerciseName, isAmberCycle]
+  )
+
+  /** Program lint: open the week, day or block an issue points at */
+  const goToLintIssue = ({
+    weekIdx,
+    dayIdx,
+    sectionIdx,
+  }: ProgramLintTarget) => {
+    if (dayIdx == null) {
+      setSessionDesignerCell(null)
+      setTimeout(() => calendarGridRef.current?.scrollToWeek(weekIdx))
+      return
+    }
+    setSessionDesignerCell({ weekIdx, dayIdx })
+    const section =
+      sectionIdx == null
+        ? undefined
+        : structure.weeks[weekIdx]?.days?.[dayIdx]?.sections?.[sectionIdx]
+    if (!section || sectionIdx == null) return
+    const block = { weekIdx, dayIdx, sectionIdx }
+    if (section.blockType === 'EXERCISE') setEditingExerciseBlock(block)
+    else if (section.blockType === 'CIRCUIT') setEditingCircuitBlock(block)
+    else if (
+      section.blockType === 'SUPERSET' ||
+      section.sectionType === 'superset'
+    )
+      setEditingSupersetBlock(block)
+    else
+      setTimeout(() =>
+        document
+          .getElementById(`session-block-${weekIdx}-${dayIdx}-${sectionIdx}`)
+          ?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+      )
+  }
+
+  /** Program lint before publishing: errors block it, warnings need a confirmation */
+  const confirmPublishable = () => confirmLintForPublish(lintIssues, showError)
+
+  /** Paste from spreadsheet modal title: "Week 2 · Day 3" or "Week 2". */
+  const getSpreadsheetPasteLabel = (): string => {
+    if (!spreadsheetPasteTarget) return ''
+    const { weekIdx, dayIdx } = spreadsheetPasteTarget
+    const week = structure.weeks[weekIdx]
+    const weekLabel = week ? getDisplayWeekName(week, weekIdx) : ''
+    if (dayIdx == null) return weekLabel
+    const dayName = week?.days?.[dayIdx]?.dayName || `Day ${dayIdx + 1}`
+    return `${weekLabel} · ${dayName}`
   }
 
   /** MASS 2.6: Move one logical block within a day (preserves superset parent+children). Optionally calls reorderBlocks API when program/day/sections have ids. */
@@ -3293,29 +3876,45 @@ export function ProgramBuilderForm({
       ...day,
       sections: newSections,
     }
-    setStructure({ weeks })
+    const dayId = day?.id
     if (
-      program?.id &&
-      day?.id != null &&
-      newSections.every(s => s.id != null)
+      !program?.id ||
+      dayId == null ||
+      !newSections.every(s => s.id != null)
     ) {
-      const topLevelIds = blocks
-        .map(b => b[0].id)
-        .filter((id): id is number => id != null)
-      try {
-        await programService.reorderBlocks(day.id, { blockIds: topLevelIds })
-        await refetchProgram()
-        showSuccess('Blocks reordered')
-      } catch (e) {
-        const err = e as AxiosError<{ message?: string }>
-        showError(err.response?.data?.message ?? 'Failed to reorder blocks')
-      }
+      setStructure({ weeks }, 'Move block')
+      return
+    }
+    replaceStructure({ weeks })
+    const previousIds = topLevelBlockIds(sections) ?? []
+    const topLevelIds = blocks
+      .map(b => b[0].id)
+      .filter((id): id is number => id != null)
+    try {
+      await programService.reorderBlocks(dayId, { blockIds: topLevelIds })
+      await refetchProgram()
+      showSuccess('Blocks reordered')
+      recordHistory({
+        label: 'Move block',
+        undo: async () => {
+          await programService.reorderBlocks(dayId, {
+            blockIds: previousIds,
+          })
+          await refetchForHistory()
+        },
+        redo: async () => {
+          await programService.reorderBlocks(dayId, {
+            blockIds: topLevelIds,
+          })
+          await refetchForHistory()
+        },
+      })
+    } catch (e) {
+      const err = e as AxiosError<{ message?: string }>
+      showError(err.response?.data?.message ?? 'Failed to reorder blocks')
     }
   }
 
-  /** MASS 2.8: Cell key for selection */
-  const cellKey = (weekIdx: number, dayIdx: number) => `${weekIdx}-${dayIdx}`
-
   /** Extend selection to rectangle from anchor to (weekIdx, dayIdx) */
   const extendSelection = useCallback(
     (weekIdx: number, dayIdx: number) => {
@@ -3400,10 +3999,52 @@ export function ProgramBuilderForm({
     }
     try {
       if (toDeleteIds.length > 0 && program?.id) {
+        const before = structure
         for (const dayId of toDeleteIds) {
           await programService.deleteDay(dayId)
         }
         await refetchProgram()
+        /** Deleted day id → current id (changes each time undo re-creates it) */
+        const currentIds = new Map(toDeleteIds.map(id => [id, id]))
+        recordHistory({
+          label: `Delete ${toDeleteIds.length} session(s)`,
+          undoRecreates: true,
+          undo: async () => {
+            const weekIds = new Set<number>()
+            for (const dayId of toDeleteIds) {
+              const found = findDayById(before, dayId)
+              if (found?.week.id == null) continue
+              weekIds.add(found.week.id)
+              currentIds.set(
+                dayId,
+                await restoreDayOnServer(found.week.id, found.day)
+              )
+            }
+            const next = await refetchForHistory()
+            for (const weekId of weekIds) {
+              const wanted = (
+                before.weeks.find(w => w.id === weekId)?.days ?? []
+              )
+                .map(d =>
+                  d.id != null ? (currentIds.get(d.id) ?? d.id) : null
+                )
+                .filter((id): id is number => id != null)
+              const current = (
+                next.weeks.find(w => w.id === weekId)?.days ?? []
+              ).map(d => d.id)
+              if (wanted.join() !== current.join()) {
+                await programService.reorderDays(weekId, { dayIds: wanted })
+              }
+            }
+            await refetchForHistory()
+          },
+          redo: async () => {
+            for (const id of currentIds.values()) {
+              await programService.deleteDay(id)
+            }
+            await refetchForHistory()
+          },
+        })
       }
       if (toRemoveLocal.length > 0) {
         const sortedRemovals = [...toRemoveLocal].sort(
@@ -3418,7 +4059,7 @@ export function ProgramBuilderForm({
             weeks[weekIdx] = { ...week, days: newDays }
           })
           return { weeks }
-        })
+        }, 'Delete sessions')
       }
       setSelectedCells(new Set())
       const total = toDeleteIds.length + toRemoveLocal.length
@@ -3430,8 +4071,12 @@ export function ProgramBuilderForm({
   }, [
     program?.id,
     selectedCells,
-    structure.weeks,
+    structure,
     refetchProgram,
+    refetchForHistory,
+    restoreDayOnServer,
+    recordHistory,
+    setStructure,
     showError,
     showSuccess,
   ])
@@ -3532,6 +4177,7 @@ export function ProgramBuilderForm({
       }
       if (sw === tw && sd === tdi) return
       const targetWeekId = structure.weeks[tw]?.id
+      const sourceWeekId = structure.weeks[sw]?.id
       if (!dayId || !targetWeekId) return
       programService
         .moveDay(dayId, { targetWeekId, targetDayIndex: tdi + 1 })
@@ -3539,99 +4185,119 @@ export function ProgramBuilderForm({
           refetchProgram()
           setDraggedSession(null)
           showSuccess('Session moved')
+          if (sourceWeekId == null) return
+          recordHistory({
+            label: 'Move session',
+            undo: async () => {
+              await programService.moveDay(dayId, {
+                targetWeekId: sourceWeekId,
+                targetDayIndex: sd + 1,
+              })
+              await refetchForHistory()
+            },
+            redo: async () => {
+              await programService.moveDay(dayId, {
+                targetWeekId,
+                targetDayIndex: tdi + 1,
+              })
+              await refetchForHistory()
+            },
+          })
         })
         .catch(err => {
           const e = err as AxiosError<{ message?: string }>
           showError(e.response?.data?.message ?? 'Failed to move session')
         })
     },
-    [structure.weeks, refetchProgram, showSuccess, showError]
-  )
-
-  /** Calendar day cell event handlers (extracted to satisfy Sonar nest-functions rule). */
-  const getCalendarDayCellHandlers = useCallback(
-    (p: {
-      weekIdx: number
-      dayIdx: number
-      week: { id?: number; days?: Array<{ id?: number }> }
-      day: { id?: number } | undefined
-      key: string
-    }) => ({
-      onMouseEnter: (e: React.MouseEvent) => {
-        if (isSelectingRef.current) extendSelection(p.weekIdx, p.dayIdx)
-        else if (p.day)
-          setHoveredCell({
-            weekIdx: p.weekIdx,
-            dayIdx: p.dayIdx,
-            x: e.clientX,
-            y: e.clientY + 12,
-          })
-      },
-      onMouseLeave: () => setHoveredCell(null),
-      onDragOver: (e: React.DragEvent) => {
-        e.preventDefault()
-        e.dataTransfer.dropEffect = 'move'
-      },
-      onDragStart: (e: React.DragEvent<HTMLButtonElement>) => {
-        if (p.day?.id == null || p.week.id == null) return
-        handleCellDragStart(e, {
-          dayId: p.day.id,
-          sourceWeekId: p.week.id,
-          weekIdx: p.weekIdx,
-          dayIdx: p.dayIdx,
-        })
-      },
-      onDragEnd: () => setDraggedSession(null),
-      onMouseDown: () => {
-        const isAlreadySingleSelected =
-          selectedCells.size === 1 && selectedCells.has(p.key)
-        if (isAlreadySingleSelected) {
-          selectionAnchorRef.current = null
-          isSelectingRef.current = false
-          setSelectedCells(new Set())
-          setSessionDesignerCell(null)
-          return
-        }
-        selectionAnchorRef.current = { weekIdx: p.weekIdx, dayIdx: p.dayIdx }
-        isSelectingRef.current = true
-        setSelectedCells(new Set([p.key]))
-      },
-      onClick: () => {
-        // Single-click: select cell (handled in onMouseDown). No-op here to avoid
-        // accidentally opening the session on single click.
-      },
-      onDoubleClick: () => {
-        setSessionDesignerCell({ weekIdx: p.weekIdx, dayIdx: p.dayIdx })
-      },
-      onContextMenu: (e: React.MouseEvent) => {
-        e.preventDefault()
-        e.stopPropagation()
-        setContextMenu({
-          x: e.clientX,
-          y: e.clientY,
-          weekIdx: p.weekIdx,
-          dayIdx: p.dayIdx,
-        })
-      },
-      onAddDay: () => {
-        if (selectedCells.size === 1 && selectedCells.has(p.key)) {
-          addDay(p.weekIdx)
-          setSessionDesignerCell({
-            weekIdx: p.weekIdx,
-            dayIdx: p.week.days?.length ?? 0,
-          })
-        }
-      },
-    }),
     [
-      extendSelection,
-      handleCellDragStart,
-      addDay,
-      selectedCells,
-      setSessionDesignerCell,
+      structure.weeks,
+      refetchProgram,
+      refetchForHistory,
+      recordHistory,
+      showSuccess,
+      showError,
     ]
   )
 
+  /** Calendar grid event handlers; stable identity so unchanged weeks and cells skip rendering */
+  const calendarActions = useStableHandlers<ProgramCalendarActions>({
+    onCellMouseEnter: (weekIdx, dayIdx, e) => {
+      if (isSelectingRef.current) extendSelection(weekIdx, dayIdx)
+      else if (structure.weeks[weekIdx]?.days?.[dayIdx])
+        setHoveredCell({ weekIdx, dayIdx, x: e.clientX, y: e.clientY + 12 })
+    },
+    onCellMouseLeave: () => setHoveredCell(null),
+    onCellDrop: handleCalendarCellDrop,
+    onCellDragStart: (weekIdx, dayIdx, e) => {
+      const week = structure.weeks[weekIdx]
+      const dayId = week?.days?.[dayIdx]?.id
+      if (dayId == null || week.id == null) return
+      handleCellDragStart(e, {
+        dayId,
+        sourceWeekId: week.id,
+        weekIdx,
+        dayIdx,
+      })
+    },
+    onCellDragEnd: () => setDraggedSession(null),
+    onCellMouseDown: (weekIdx, dayIdx) => {
+      const key = calendarCellKey(weekIdx, dayIdx)
+      const isAlreadySingleSelected =
+        selectedCells.size === 1 && selectedCells.has(key)
+      if (isAlreadySingleSelected) {
+        selectionAnchorRef.current = null
+        isSelectingRef.current = false
+        setSelectedCells(new Set())
+        setSessionDesignerCell(null)
+        return
+      }
+      selectionAnchorRef.current = { weekIdx, dayIdx }
+      isSelectingRef.current = true
+      setSelectedCells(new Set([key]))
+    },
+    onCellDoubleClick: (weekIdx, dayIdx) => {
+      setSessionDesignerCell({ weekIdx, dayIdx })
+    },
+    onCellContextMenu: (weekIdx, dayIdx, e) => {
+      e.preventDefault()
+      e.stopPropagation()
+      setContextMenu({ x: e.clientX, y: e.clientY, weekIdx, dayIdx })
+    },
+    onAddDay: (weekIdx, dayIdx) => {
+      const key = calendarCellKey(weekIdx, dayIdx)
+      if (selectedCells.size === 1 && selectedCells.has(key)) {
+        addDay(weekIdx)
+        setSessionDesignerCell({
+          weekIdx,
+          dayIdx: structure.weeks[weekIdx]?.days?.length ?? 0,
+        })
+      }
+    },
+    onWeekDragStart: (weekIdx, e) => {
+      setDraggedWeekIdx(weekIdx)
+      e.dataTransfer.setData('text/plain', String(weekIdx))
+      e.dataTransfer.effectAllowed = 'move'
+    },
+    onWeekDragEnd: () => setDraggedWeekIdx(null),
+    onWeekDrop: weekIdx => {
+      if (draggedWeekIdx == null) return
+      moveWeekToIndex(draggedWeekIdx, weekIdx)
+      setDraggedWeekIdx(null)
+    },
+    onWeekNameEdit: weekIdx => {
+      if (!structure.weeks[weekIdx]) return
+      setEditingWeekNameIdx(weekIdx)
+    },
+    onWeekNameSave: (weekIdx, name) => saveWeekName(weekIdx, name),
+    onWeekNameCancel: () => setEditingWeekNameIdx(null),
+    onMoveWeek: (weekIdx, direction) => reorderWeeks(weekIdx, direction),
+    onCopyWeek: weekIdx => void duplicateWeek(weekIdx),
+    onPasteWeek: weekIdx => setSpreadsheetPasteTarget({ weekIdx }),
+    onSaveWeekTemplate: weekIdx =>
+      setTemplateSource({ templateType: 'week', weekIdx }),
+    onRemoveWeek: weekIdx => removeWeek(weekIdx),
+  })
+
   /** Repeat: duplicate selected days into the next N weeks (weeks after selection) */
   const handleRepeatConfirm = useCallback(async () => {
     if (!program?.id) {
@@ -3765,6 +4431,7 @@ export function ProgramBuilderForm({
     try {
       const res = await programService.create(payload)
       const created = res.data?.data ?? null
+      if (created) await recordProgramVersion(created.id, 'save')
       setSaveAsProgramModalOpen(false)
       setSaveAsProgramName('')
       setSelectedCells(new Set())
@@ -3810,34 +4477,169 @@ export function ProgramBuilderForm({
     return null
   }
 
-  const getResolvedGoalType = (): GoalType | undefined => {
-    const cycleType = getCycleTypeFromName(cycle?.name)
-    if (cycleType !== 'GREEN' || !category || !subCategory) return undefined
-    return goalTypes.find(
-      g => g.category === category && g.subCategory === subCategory
+  const getResolvedGoalType = (): GoalType | undefined => {
+    const cycleType = getCycleTypeFromName(cycle?.name)
+    if (cycleType !== 'GREEN' || !category || !subCategory) return undefined
+    return goalTypes.find(
+      g => g.category === category && g.subCategory === subCategory
+    )
+  }
+
+  /** Editor contents in the shape used for drafts and conflict merging */
+  const getCurrentSnapshot = (): ProgramSnapshot => ({
+    fields: {
+      name: name.trim(),
+      description: description.trim(),
+      category,
+      subCategory,
+      isActive,
+      constraintCategory: constraintCategory.trim(),
+    },
+    structure,
+  })
+
+  /** Load a snapshot (restored draft or merge result) into the editor */
+  const applySnapshot = ({ fields, structure: next }: ProgramSnapshot) => {
+    setName(fields.name)
+    setDescription(fields.description)
+    setCategory(fields.category)
+    setSubCategory(fields.subCategory)
+    setIsActive(fields.isActive)
+    setConstraintCategory(fields.constraintCategory)
+    replaceStructure(next)
+  }
+
+  const buildUpdatePayload = (
+    {
+      fields,
+      structure: snapshotStructure,
+    }: ProgramSnapshot = getCurrentSnapshot()
+  ) => {
+    const cycleType = getCycleTypeFromName(cycle?.name)
+    const goalType = getResolvedGoalType()
+    const programWeeks = (program as { numberOfWeeks?: number })?.numberOfWeeks
+    const greenDuration =
+      durationWeeks >= 1 ? durationWeeks : (programWeeks ?? null)
+    return {
+      program_name: fields.name,
+      program_description: fields.description,
+      cycleId,
+      category: fields.category || null,
+      subCategory: fields.subCategory || null,
+      isActive: fields.isActive,
+      programStructure: getStructureForSave(snapshotStructure),
+      ...(goalType && { goalTypeId: goalType.id }),
+      ...(cycleType === 'GREEN' && { durationWeeks: greenDuration }),
+      ...(cycleType === 'SUSTAINMENT' && {
+        constraintCategory: fields.constraintCategory || null,
+      }),
+    }
+  }
+
+  /** Open the merge dialog against a newer server version */
+  const openConflict = (remote: Program) => {
+    setConflict({
+      base: serverBaseRef.current?.snapshot ?? programToSnapshot(remote),
+      theirs: programToSnapshot(remote),
+      updatedAt: remote.updatedAt,
+    })
+    setConflictModalOpen(true)
+  }
+
+  /**
+   * Save with optimistic concurrency on updatedAt: the update carries the
+   * updatedAt this editor loaded, and the server rejects it with 409 when the
+   * program was saved elsewhere since. A newer version with the same content
+   * (a publish toggle) is adopted and the save retried; otherwise the merge
+   * dialog opens instead of overwriting. Returns whether the save went through.
+   */
+  const saveProgramChecked = async (
+    snapshot: ProgramSnapshot,
+    retried = false
+  ): Promise<boolean> => {
+    if (!program?.id) return false
+    const base = serverBaseRef.current
+    try {
+      const res = await programService.update(program.id, {
+        ...buildUpdatePayload(snapshot),
+        ...(base?.updatedAt && { expectedUpdatedAt: base.updatedAt }),
+      })
+      serverBaseRef.current = {
+        updatedAt: res.data?.data?.updatedAt ?? null,
+        snapshot,
+      }
+      clearProgramDraft(draftKey)
+      return true
+    } catch (e) {
+      const err = e as AxiosError<{ message?: string }>
+      if (err.response?.status !== 409) throw e
+      const res = await programService.getById(program.id)
+      const remote = res.data.data
+      if (
+        !retried &&
+        base &&
+        remote.updatedAt !== base.updatedAt &&
+        isSameSnapshot(base.snapshot, programToSnapshot(remote))
+      ) {
+        serverBaseRef.current = { ...base, updatedAt: remote.updatedAt }
+        return saveProgramChecked(snapshot, true)
+      }
+      openConflict(remote)
+      return false
+    }
+  }
+
+  /** Merge dialog: save the chosen mix of this editor's and the saved version */
+  const handleResolveConflict = async (
+    choices: Record<string, MergeSource>
+  ) => {
+    if (!conflict || !program) return
+    const merged = applyProgramMerge(
+      getCurrentSnapshot(),
+      conflict.theirs,
+      choices
     )
+    applySnapshot(merged)
+    serverBaseRef.current = {
+      updatedAt: conflict.updatedAt,
+      snapshot: conflict.theirs,
+    }
+    setResolvingConflict(true)
+    try {
+      setConflictModalOpen(false)
+      setConflict(null)
+      if (await saveProgramChecked(merged)) {
+        await recordProgramVersion(program.id, 'save', 'Merged changes')
+        setAutosaveStatus('saved')
+        showSuccess('Merged program saved')
+      }
+    } catch (e) {
+      const err = e as AxiosError<{ message?: string }>
+      showError(err.response?.data?.message ?? 'Failed to save program')
+    } finally {
+      setResolvingConflict(false)
+    }
   }
 
-  const buildUpdatePayload = () => {
-    const cycleType = getCycleTypeFromName(cycle?.name)
-    const goalType = getResolvedGoalType()
-    const programWeeks = (program as { numberOfWeeks?: number })?.numberOfWeeks
-    const greenDuration =
-      durationWeeks >= 1 ? durationWeeks : (programWeeks ?? null)
-    return {
-      program_name: name.trim(),
-      program_description: description.trim(),
-      cycleId,
-      category: category || null,
-      subCategory: subCategory || null,
-      isActive,
-      programStructure: getStructureForSave(structure),
-      ...(goalType && { goalTypeId: goalType.id }),
-      ...(cycleType === 'GREEN' && { durationWeeks: greenDuration }),
-      ...(cycleType === 'SUSTAINMENT' && {
-        constraintCategory: constraintCategory.trim() || null,
-      }),
+  const handleRestoreDraft = () => {
+    if (!pendingDraft) return
+    applySnapshot(pendingDraft.snapshot)
+    // Merge against the version the draft was based on, so a save made by
+    // someone else since then comes up as a conflict instead of being lost
+    if (program?.id && pendingDraft.base) {
+      serverBaseRef.current = {
+        updatedAt: pendingDraft.baseUpdatedAt,
+        snapshot: pendingDraft.base,
+      }
     }
+    setPendingDraft(null)
+    showSuccess('Draft restored')
+  }
+
+  const handleDiscardDraft = () => {
+    cancelDraftWrite()
+    clearProgramDraft(draftKey)
+    setPendingDraft(null)
   }
 
   const getResolvedWeeksForCreate = (): number => {
@@ -3883,15 +4685,20 @@ export function ProgramBuilderForm({
       showError(validationError)
       return
     }
+    if (!program && isPublished && !confirmPublishable()) return
     setSaving(true)
     try {
       if (program) {
-        await programService.update(program.id, buildUpdatePayload())
+        if (!(await saveProgramChecked(getCurrentSnapshot()))) return
+        await recordProgramVersion(program.id, 'save')
         showSuccess('Program updated')
       } else {
         const res = await programService.create(buildCreatePayload())
-        showSuccess('Program created')
+        cancelDraftWrite()
+        clearProgramDraft(draftKey)
         const created = res.data?.data ?? null
+        if (created) await recordProgramVersion(created.id, 'save')
+        showSuccess('Program created')
         onSuccess?.(created)
         return
       }
@@ -3904,6 +4711,28 @@ export function ProgramBuilderForm({
     }
   }
 
+  /** Program transfer: download the program (as currently edited) as versioned JSON */
+  const handleExportJson = () => {
+    const file = buildProgramExport(
+      {
+        name: name.trim() || 'Program',
+        description: description.trim(),
+        cycleType: getCycleTypeFromName(cycle?.name),
+        category: category || null,
+        subCategory: subCategory || null,
+        durationWeeks: isGreenCycle ? durationWeeks : null,
+        constraintCategory: constraintCategory.trim() || null,
+      },
+      structure,
+      getExerciseName
+    )
+    downloadTextFile(
+      programExportFilename(file.program.name),
+      JSON.stringify(file, null, 2),
+      'application/json'
+    )
+  }
+
   /** Calendar vs session designer (nested to reduce ProgramBuilderForm cognitive complexity). */
   function renderCalendarOrDesigner() {
     if (sessionDesignerCell == null) return renderCalendarView()
@@ -3922,9 +4751,10 @@ export function ProgramBuilderForm({
         setSessionDesignerCell={setSessionDesignerCell}
         setPreviewSessionOpen={setPreviewSessionOpen}
         setLibraryDrawerOpen={setLibraryDrawerOpen}
-        setSaveSessionToLibraryName={setSaveSessionToLibraryName}
-        setSaveSessionToLibraryOpen={setSaveSessionToLibraryOpen}
         setAddBlockModalOpen={setAddBlockModalOpen}
+        onPasteFromSpreadsheet={() =>
+          setSpreadsheetPasteTarget({ weekIdx: w, dayIdx: d })
+        }
         draggedBlock={draggedBlock}
         setDraggedBlock={setDraggedBlock}
         getExerciseName={getExerciseName}
@@ -3936,6 +4766,7 @@ export function ProgramBuilderForm({
         moveBlockToIndex={moveBlockToIndex}
         removeSection={removeSection}
         onSaveCircuitToLibrary={handleSaveCircuitToLibrary}
+        onSaveAsTemplate={setTemplateSource}
       />
     )
   }
@@ -4007,9 +4838,11 @@ export function ProgramBuilderForm({
                 size="small"
                 disabled={publishingToggle}
                 onClick={async () => {
+                  if (!confirmPublishable()) return
                   setPublishingToggle(true)
                   try {
                     await programService.publish(program.id)
+                    await recordProgramVersion(program.id, 'publish')
                     showSuccess('Program published')
                     onSuccess?.()
                   } catch (e) {
@@ -4095,9 +4928,11 @@ export function ProgramBuilderForm({
                   selectedCells.size === 0
                 }
                 onClick={async () => {
+                  if (!confirmPublishable()) return
                   setPublishingToggle(true)
                   try {
                     await programService.publish(program.id)
+                    await recordProgramVersion(program.id, 'publish')
                     showSuccess('Program published')
                     onSuccess?.()
                   } catch (e) {
@@ -4165,212 +5000,18 @@ export function ProgramBuilderForm({
           Ctrl+C to copy, Ctrl+V to paste (with a cell selected).
         </p>
         <div className="overflow-x-auto">
-          <table className="w-full border-collapse border border-gray-200 rounded-lg overflow-hidden bg-white">
-            <thead>
-              <tr className="bg-gray-50">
-                <th className="border border-gray-200 px-3 py-2 text-left text-sm font-medium text-gray-700 w-24">
-                  {isAmberCycle ? 'Session templates' : 'Week'}
-                </th>
-                {[1, 2, 3, 4, 5, 6, 7].map(d => (
-                  <th
-                    key={d}
-                    className="border border-gray-200 px-2 py-2 text-center text-xs font-medium text-gray-600 min-w-[100px]"
-                  >
-                    Day {d}
-                  </th>
-                ))}
-              </tr>
-            </thead>
-            <tbody>
-              {structure.weeks.map((week, weekIdx) => (
-                <tr
-                  key={week.id ?? weekIdx}
-                  className={
-                    draggedWeekIdx === weekIdx
-                      ? 'opacity-60 bg-gray-100'
-                      : undefined
-                  }
-                >
-                  <td
-                    className="border border-gray-200 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-50 align-top"
-                    title={
-                      structure.weeks.length > 1 &&
-                      editingWeekNameIdx !== weekIdx
-                        ? 'Drag to reorder weeks'
-                        : undefined
-                    }
-                    draggable={
-                      structure.weeks.length > 1 &&
-                      editingWeekNameIdx !== weekIdx
-                    }
-                    onDragStart={e => {
-                      if (editingWeekNameIdx === weekIdx) return
-                      setDraggedWeekIdx(weekIdx)
-                      e.dataTransfer.setData('text/plain', String(weekIdx))
-                      e.dataTransfer.effectAllowed = 'move'
-                    }}
-                    onDragEnd={() => setDraggedWeekIdx(null)}
-                    onDragOver={e => {
-                      e.preventDefault()
-                      e.dataTransfer.dropEffect = 'move'
-                    }}
-                    onDrop={e => {
-                      e.preventDefault()
-                      if (draggedWeekIdx == null) return
-                      moveWeekToIndex(draggedWeekIdx, weekIdx)
-                      setDraggedWeekIdx(null)
-                    }}
-                  >
-                    <div className="flex flex-col gap-1">
-                      <div className="flex items-center gap-1 flex-wrap">
-                        {editingWeekNameIdx === weekIdx ? (
-                          <>
-                            <input
-                              type="text"
-                              value={editingWeekNameValue}
-                              onChange={e =>
-                                setEditingWeekNameValue(e.target.value)
-                              }
-                              onKeyDown={e => {
-                                if (e.key === 'Enter') saveWeekName(weekIdx)
-                                if (e.key === 'Escape') {
-                                  setEditingWeekNameIdx(null)
-                                  setEditingWeekNameValue('')
-                                }
-                              }}
-                              className="w-24 rounded border border-gray-300 px-2 py-0.5 text-xs"
-                              autoFocus
-                            />
-                            <Button
-                              type="button"
-                              variant="ghost"
-                              size="small"
-                              className="text-xs"
-                              onClick={() => saveWeekName(weekIdx)}
-                            >
-                              Save
-                            </Button>
-                            <Button
-                              type="button"
-                              variant="ghost"
-                              size="small"
-                              className="text-xs"
-                              onClick={() => {
-                                setEditingWeekNameIdx(null)
-                                setEditingWeekNameValue('')
-                              }}
-                            >
-                              Cancel
-                            </Button>
-                          </>
-                        ) : (
-                          <>
-                            <button
-                              type="button"
-                              className="cursor-pointer hover:underline bg-transparent border-0 p-0 text-left font-inherit min-w-18"
-                              onClick={() => {
-                                setEditingWeekNameIdx(weekIdx)
-                                setEditingWeekNameValue(
-                                  getDisplayWeekName(week, weekIdx)
-                                )
-                              }}
-                              title="Click to edit name"
-                            >
-                              {getDisplayWeekName(week, weekIdx)}
-                            </button>
-                            {!isAmberCycle && (
-                              <>
-                                <Button
-                                  type="button"
-                                  variant="ghost"
-                                  size="small"
-                                  className="text-xs"
-                                  title="Move up"
-                                  disabled={weekIdx === 0}
-                                  onClick={() => reorderWeeks(weekIdx, 'up')}
-                                >
-                                  ↑
-                                </Button>
-                                <Button
-                                  type="button"
-                                  variant="ghost"
-                                  size="small"
-                                  className="text-xs"
-                                  title="Move down"
-                                  disabled={
-                                    weekIdx === structure.weeks.length - 1
-                                  }
-                                  onClick={() => reorderWeeks(weekIdx, 'down')}
-                                >
-                                  ↓
-                                </Button>
-                                <Button
-                                  type="button"
-                                  variant="ghost"
-                                  size="small"
-                                  className="text-xs"
-                                  title="Copy week"
-                                  onClick={() => void duplicateWeek(weekIdx)}
-                                >
-                                  Copy
-                                </Button>
-                                <Button
-                                  type="button"
-                                  variant="ghost"
-                                  size="small"
-                                  className="text-red-600 hover:text-red-700 hover:bg-red-50 text-xs"
-                                  onClick={() => removeWeek(weekIdx)}
-                                  title="Remove week"
-                                >
-                                  ×
-                                </Button>
-                              </>
-                            )}
-                          </>
-                        )}
-                      </div>
-                    </div>
-                  </td>
-                  {[0, 1, 2, 3, 4, 5, 6].map(dayIdx => {
-                    const day = week.days?.[dayIdx]
-                    const sections = day?.sections ?? []
-                    const blockCount = sections.length
-                    const { exerciseNames, setCounts, blockCategories } =
-                      getCellSummary(sections, getExerciseName)
-                    const key = cellKey(weekIdx, dayIdx)
-                    const isSelected = selectedCells.has(key)
-                    const isDragging =
-                      draggedSession?.weekIdx === weekIdx &&
-                      draggedSession?.dayIdx === dayIdx
-                    return (
-                      <CalendarDayCell
-                        key={dayIdx}
-                        weekIdx={weekIdx}
-                        dayIdx={dayIdx}
-                        day={day}
-                        week={week}
-                        isSelected={isSelected}
-                        isDragging={isDragging}
-                        program={program}
-                        exerciseNames={exerciseNames}
-                        setCounts={setCounts}
-                        blockCategories={blockCategories}
-                        blockCount={blockCount}
-                        {...getCalendarDayCellHandlers({
-                          weekIdx,
-                          dayIdx,
-                          week,
-                          day,
-                          key,
-                        })}
-                        onDrop={handleCalendarCellDrop}
-                      />
-                    )
-                  })}
-                </tr>
-              ))}
-            </tbody>
-          </table>
+          <ProgramCalendarGrid
+            ref={calendarGridRef}
+            store={editorStore}
+            program={program}
+            isAmberCycle={isAmberCycle}
+            exerciseName={getExerciseName}
+            selectedCells={selectedCells}
+            draggedSession={draggedSession}
+            draggedWeekIdx={draggedWeekIdx}
+            editingWeekIdx={editingWeekNameIdx}
+            actions={calendarActions}
+          />
           {/* 3.2 Amber: No multi-week; only session templates. Red/Green: Add Week. */}
           {!isAmberCycle && (
             <div className="mt-2">
@@ -4484,8 +5125,127 @@ export function ProgramBuilderForm({
     )
   }
 
+  const conflictItems =
+    conflict && conflictModalOpen
+      ? buildProgramMergeItems(
+          conflict.base,
+          getCurrentSnapshot(),
+          conflict.theirs,
+          getExerciseName
+        )
+      : []
+
   return (
     <div className="space-y-6 max-w-5xl">
+      {pendingDraft && (
+        <div className="flex flex-wrap items-center gap-3 rounded border border-blue-200 bg-blue-50 px-4 py-3">
+          <Text variant="default" className="flex-1 text-sm text-blue-900">
+            You have unsaved changes from{' '}
+            {new Date(pendingDraft.savedAt).toLocaleString()} on this device.
+            {program?.id &&
+              pendingDraft.baseUpdatedAt !== (program.updatedAt ?? null) &&
+              ' The program has been saved since; restoring will ask you to merge.'}
+          </Text>
+          <Button
+            type="button"
+            variant="primary"
+            size="small"
+            onClick={handleRestoreDraft}
+          >
+            Restore draft
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="small"
+            onClick={handleDiscardDraft}
+          >
+            Discard
+          </Button>
+        </div>
+      )}
+      {conflict && !conflictModalOpen && (
+        <div className="flex flex-wrap items-center gap-3 rounded border border-amber-200 bg-amber-50 px-4 py-3">
+          <Text variant="default" className="flex-1 text-sm text-amber-900">
+            Someone else saved this program while you were editing. Autosave is
+            paused until you review and merge the changes.
+          </Text>
+          <Button
+            type="button"
+            variant="primary"
+            size="small"
+            onClick={() => setConflictModalOpen(true)}
+          >
+            Review changes
+          </Button>
+        </div>
+      )}
+      {conflict && conflictModalOpen && (
+        <ProgramConflictModal
+          key={conflict.updatedAt}
+          visible
+          items={conflictItems}
+          theirsUpdatedAt={conflict.updatedAt}
+          saving={resolvingConflict}
+          onResolve={choices => void handleResolveConflict(choices)}
+          onClose={() => setConflictModalOpen(false)}
+        />
+      )}
+      {trainingLoadOpen && (
+        <TrainingLoadDrawer
+          visible
+          onClose={() => setTrainingLoadOpen(false)}
+          structure={structure}
+        />
+      )}
+      {printOpen && (
+        <ProgramPrintModal
+          visible
+          onClose={() => setPrintOpen(false)}
+          programName={name || 'Untitled program'}
+          structure={structure}
+          exerciseName={getExerciseName}
+        />
+      )}
+      {athletePreviewOpen && (
+        <AthletePreviewModal
+          visible
+          onClose={() => setAthletePreviewOpen(false)}
+          programName={name || 'Untitled program'}
+          structure={structure}
+          exerciseName={getExerciseName}
+        />
+      )}
+      {bulkEditOpen && (
+        <BulkEditModal
+          visible
+          onClose={() => setBulkEditOpen(false)}
+          structure={structure}
+          exerciseName={getExerciseName}
+          onApply={(keys, edit) => {
+            setStructure(applyBulkEdit(structure, keys, edit), 'Bulk edit')
+            setBulkEditOpen(false)
+            showSuccess(
+              `Updated ${keys.size} prescription${keys.size === 1 ? '' : 's'}`
+            )
+          }}
+        />
+      )}
+      {progressionOpen && (
+        <ProgressionGeneratorModal
+          visible
+          onClose={() => {
+            if (!generatingProgression) setProgressionOpen(false)
+          }}
+          weeks={structure.weeks}
+          numberOfWeeks={numberOfWeeks}
+          exerciseName={getExerciseName}
+          generating={generatingProgression}
+          onGenerate={(templateIdx, weeks) =>
+            void generateProgression(templateIdx, weeks)
+          }
+        />
+      )}
       <ProgramMetadataSection
         program={program}
         isRedCycle={isRedCycle}
@@ -4849,28 +5609,10 @@ export function ProgramBuilderForm({
                               Array.isArray(v) ? (v[0] ?? '') : (v ?? '')
                             )
                           }
-                          options={structure.weeks.flatMap(w =>
-                            (w.days ?? [])
-                              .map(d => ({
-                                id: (d as { id?: number }).id,
-                                dayName: d.dayName,
-                                weekIndex: w.weekIndex,
-                                dayIndex: d.dayIndex,
-                                isRestDay: d.isRestDay,
-                              }))
-                              .filter(d => d.id != null)
-                              .map(d => {
-                                const dayOrSessionName =
-                                  d.dayName ??
-                                  (d.isRestDay
-                                    ? `Day ${d.dayIndex + 1}`
-                                    : `Session ${d.dayIndex + 1}`)
-                                const label = d.isRestDay
-                                  ? `Rest - ${dayOrSessionName}`
-                                  : dayOrSessionName
-                                return { value: String(d.id!), label }
-                              })
-                          )}
+                          options={getAmberDayOptions(structure).map(d => ({
+                            value: String(d.programDayId),
+                            label: d.label,
+                          }))}
                           size="small"
                           className="min-w-[180px]"
                         />
@@ -4952,6 +5694,15 @@ export function ProgramBuilderForm({
                     >
                       Copy
                     </Button>
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      size="small"
+                      disabled={amberLoading}
+                      onClick={() => setAmberRecurrenceOpen(true)}
+                    >
+                      Recurring sessions…
+                    </Button>
                   </div>
                   {/* 3.2 Amber: Assign from library — one session per date; visible to all athletes on this program */}
                   <div className="flex flex-wrap items-end gap-2 pt-2 border-t border-amber-200 mt-2">
@@ -5064,9 +5815,103 @@ export function ProgramBuilderForm({
         )
       })()}
 
+      {structure.weeks.some(w => (w.days ?? []).length > 0) && (
+        <ProgramLintPanel issues={lintIssues} onNavigate={goToLintIssue} />
+      )}
+
       {/* MASS 2.8: Calendar grid view (Level 1) — Red/Green only. 3.2 Amber: do NOT show Week→Day grid; Amber uses calendar-date view only (see Amber Calendar above). */}
       {structure.weeks.length > 0 && !isAmberCycle && (
         <div className="space-y-4">
+          <div className="flex items-center justify-end gap-2">
+            {program?.id && autosaveStatus !== 'idle' && (
+              <Text
+                variant="secondary"
+                className={`mr-auto text-xs ${autosaveStatus === 'failed' ? 'text-red-700' : ''}`}
+              >
+                {AUTOSAVE_STATUS_LABELS[autosaveStatus]}
+              </Text>
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              size="small"
+              leftIcon={<Icon name="arrow-trend-up" family="solid" size={12} />}
+              onClick={() => setProgressionOpen(true)}
+              disabled={historyBusy || generatingProgression}
+              title="Generate the following weeks from a template week"
+            >
+              Generate progression
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="small"
+              leftIcon={<Icon name="pen-to-square" family="solid" size={12} />}
+              onClick={() => setBulkEditOpen(true)}
+              disabled={historyBusy}
+              title="Change sets, reps, load, RPE, tempo, rest or notes of many exercises at once"
+            >
+              Bulk edit
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="small"
+              leftIcon={<Icon name="chart-line" family="solid" size={12} />}
+              onClick={() => setTrainingLoadOpen(true)}
+              title="Sets, reps, tonnage, RPE and duration per week and day"
+            >
+              Training load
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="small"
+              leftIcon={<Icon name="eye" family="solid" size={12} />}
+              onClick={() => setAthletePreviewOpen(true)}
+              title="See any session as an athlete would, with sample working maxes"
+            >
+              Preview as athlete
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="small"
+              leftIcon={<Icon name="print" family="solid" size={12} />}
+              onClick={() => setPrintOpen(true)}
+              title="Print or save as PDF the program, a week or a session"
+            >
+              Print
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="small"
+              leftIcon={<Icon name="rotate-left" family="solid" size={12} />}
+              onClick={() => void undo()}
+              disabled={!canUndo || historyBusy}
+              title={
+                undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'
+              }
+            >
+              Undo
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="small"
+              leftIcon={<Icon name="rotate-right" family="solid" size={12} />}
+              onClick={() => void redo()}
+              disabled={!canRedo || historyBusy}
+              title={
+                redoLabel
+                  ? `Redo ${redoLabel} (Ctrl+Shift+Z)`
+                  : 'Nothing to redo'
+              }
+            >
+              Redo
+            </Button>
+          </div>
           {renderCalendarOrDesigner()}
           {previewSessionOpen &&
             sessionDesignerCell &&
@@ -6901,7 +7746,7 @@ export function ProgramBuilderForm({
                             })
                             week.days[d] = dayCopy
                             weeks[w] = week
-                            setStructure({ weeks })
+                            setStructure({ weeks }, 'Add superset exercise')
                           }}
                         >
                           Add exercise
@@ -6961,7 +7806,10 @@ export function ProgramBuilderForm({
                                       dayCopy.sections.splice(childIdx, 1)
                                       week.days[d] = dayCopy
                                       weeks[w] = week
-                                      setStructure({ weeks })
+                                      setStructure(
+                                        { weeks },
+                                        'Remove superset exercise'
+                                      )
                                     }}
                                   >
                                     Remove
@@ -7149,20 +7997,7 @@ export function ProgramBuilderForm({
               }
               addBlockFromLibraryCircuit(weekIdx, dayIdx, circuit)
             }}
-            onAddSession={content => {
-              if (structure.weeks.length === 0) {
-                showError(
-                  'Add a week to the program first, then add a session from the library.'
-                )
-                return
-              }
-              const weekIdx =
-                sessionDesignerCell?.weekIdx ??
-                structure.weeks.findIndex(w => (w.days?.length ?? 0) < 7)
-              const targetWeek =
-                weekIdx >= 0 ? weekIdx : structure.weeks.length - 1
-              addDayFromLibrarySession(targetWeek, content)
-            }}
+            onAddTemplate={insertTemplate}
             onCreateExercise={() => {
               setLibraryDrawerOpen(false)
               navigate('/admin/exercises')
@@ -7176,9 +8011,12 @@ export function ProgramBuilderForm({
                 const libWeeks = prog?.programStructure?.weeks ?? []
                 if (libWeeks.length) {
                   const existingCount = structure.weeks?.length ?? 0
-                  setStructure(prev => ({
-                    weeks: [...prev.weeks, ...libWeeks],
-                  }))
+                  setStructure(
+                    prev => ({
+                      weeks: [...prev.weeks, ...libWeeks],
+                    }),
+                    'Add weeks from library'
+                  )
                   if (!program?.id) {
                     const nextTotal = existingCount + libWeeks.length
                     setNumberOfWeeks(prev =>
@@ -7201,96 +8039,50 @@ export function ProgramBuilderForm({
             }}
           />
 
-          {saveSessionToLibraryOpen &&
-            sessionDesignerCell &&
-            (() => {
-              const day =
-                structure.weeks[sessionDesignerCell.weekIdx]?.days?.[
-                  sessionDesignerCell.dayIdx
-                ]
-              return (
-                <Modal
-                  visible={true}
-                  title="Save session to library"
-                  onClose={() => {
-                    setSaveSessionToLibraryOpen(false)
-                    setSaveSessionToLibraryName('')
-                  }}
-                  size="medium"
-                  showCloseButton
-                >
-                  <div className="p-4 space-y-4">
-                    <div>
-                      <label
-                        htmlFor="new-exercise-name"
-                        className="block text-sm font-medium text-gray-700 mb-1"
-                      >
-                        Name
-                      </label>
-                      <Input
-                        id="new-exercise-name"
-                        value={saveSessionToLibraryName}
-                        onChange={e =>
-                          setSaveSessionToLibraryName(e.target.value)
-                        }
-                        placeholder="e.g. Heavy Lower Body"
-                        size="small"
-                      />
-                    </div>
-                    <div className="flex justify-end gap-2">
-                      <Button
-                        type="button"
-                        variant="secondary"
-                        onClick={() => {
-                          setSaveSessionToLibraryOpen(false)
-                          setSaveSessionToLibraryName('')
-                        }}
-                      >
-                        Cancel
-                      </Button>
-                      <Button
-                        type="button"
-                        disabled={
-                          saveSessionToLibrarySaving ||
-                          !saveSessionToLibraryName.trim()
-                        }
-                        onClick={async () => {
-                          if (!day) return
-                          setSaveSessionToLibrarySaving(true)
-                          try {
-                            const content = {
-                              dayName: day.dayName,
-                              sessionNotes: day.sessionNotes,
-                              isRestDay: day.isRestDay,
-                              estimatedDurationMinutes:
-                                day.estimatedDurationMinutes,
-                              sections: structuredClone(day.sections ?? []),
-                            }
-                            await libraryService.createSession({
-                              name: saveSessionToLibraryName.trim(),
-                              content,
-                            })
-                            showSuccess('Session saved to library')
-                            setSaveSessionToLibraryOpen(false)
-                            setSaveSessionToLibraryName('')
-                          } catch (e) {
-                            const err = e as AxiosError<{ message?: string }>
-                            showError(
-                              err.response?.data?.message ??
-                                'Failed to save session to library'
-                            )
-                          } finally {
-                            setSaveSessionToLibrarySaving(false)
-                          }
-                        }}
-                      >
-                        {saveSessionToLibrarySaving ? 'Saving...' : 'Save'}
-                      </Button>
-                    </div>
-                  </div>
-                </Modal>
-              )
-            })()}
+          {templateSource && (
+            <SaveTemplateModal
+              visible
+              onClose={() => setTemplateSource(null)}
+              templateType={templateSource.templateType}
+              defaultName={templateDefaultName(
+                structure,
+                templateSource,
+                getExerciseName
+              )}
+              saving={savingTemplate}
+              onSave={(name, tags) => void handleSaveTemplate(name, tags)}
+            />
+          )}
+
+          {amberRecurrenceOpen && program?.id && (
+            <AmberRecurrenceModal
+              visible
+              onClose={() => setAmberRecurrenceOpen(false)}
+              programId={program.id}
+              dayOptions={getAmberDayOptions(structure)}
+              onApplied={async (written, failed) => {
+                setAmberRecurrenceOpen(false)
+                try {
+                  // Library sessions are added to the program as new days
+                  await refetchProgram()
+                  const res = await programService.getAmberSessions(
+                    program.id,
+                    { from: amberFrom, to: amberTo }
+                  )
+                  setAmberSessionsList(res.data?.data?.rows ?? [])
+                } catch {
+                  showError('Failed to reload Amber sessions')
+                }
+                if (failed > 0) {
+                  showError(
+                    `${written} sessions scheduled, ${failed} failed. Check the calendar and retry the missing dates.`
+                  )
+                } else {
+                  showSuccess(`${written} sessions scheduled`)
+                }
+              }}
+            />
+          )}
 
           {saveProgramToLibraryOpen && program?.id && (
             <Modal
@@ -7369,6 +8161,15 @@ export function ProgramBuilderForm({
             </Modal>
           )}
 
+          <SpreadsheetPasteModal
+            visible={spreadsheetPasteTarget !== null}
+            onClose={() => setSpreadsheetPasteTarget(null)}
+            mode={spreadsheetPasteTarget?.dayIdx == null ? 'week' : 'session'}
+            targetLabel={getSpreadsheetPasteLabel()}
+            exerciseList={exerciseList}
+            onCommit={handleSpreadsheetPaste}
+          />
+
           {/* Remove week confirmation — custom modal instead of native confirm */}
           <Modal
             visible={removeWeekConfirmIdx !== null}
@@ -7852,9 +8653,11 @@ export function ProgramBuilderForm({
                 variant="secondary"
                 disabled={publishingToggle}
                 onClick={async () => {
+                  if (!confirmPublishable()) return
                   setPublishingToggle(true)
                   try {
                     await programService.publish(program.id)
+                    await recordProgramVersion(program.id, 'publish')
                     showSuccess('Program published')
                     onSuccess?.()
                   } catch (e) {
@@ -7873,6 +8676,11 @@ export function ProgramBuilderForm({
             )}
           </>
         )}
+        {structureHasContent(structure) && (
+          <Button type="button" variant="secondary" onClick={handleExportJson}>
+            Export JSON
+          </Button>
+        )}
         <Button type="button" variant="secondary" onClick={onCancel}>
           Cancel
         </Button>
@@ -0,0 +1,619 @@
+import { memo, Profiler, useImperativeHandle, useRef, useState } from 'react'
+import type { DragEvent, MouseEvent, Ref } from 'react'
+import { Button } from '@/components/Button'
+import { useProgramEditorSelector } from '@/hooks/useProgramEditorSelector'
+import { useWindowedRows } from '@/hooks/useWindowedRows'
+import { getDisplayWeekName } from '@/utils/programHelpers'
+import {
+  calendarCellKey,
+  selectDaySummary,
+  selectWeek,
+  selectWeekDay,
+  selectWeekKeys,
+  type CellSummary,
+  type EditorDay,
+  type ProgramEditorStore,
+} from '@/utils/programEditorStore'
+import { recordRender } from '@/utils/renderStats'
+
+const DAY_COLUMNS = [0, 1, 2, 3, 4, 5, 6]
+
+/** Week rows rendered before the grid is measured (session cards are min-h 88px) */
+const ESTIMATED_WEEK_ROW_HEIGHT = 104
+
+const EMPTY_SUMMARY: CellSummary = {
+  exerciseNames: [],
+  setCounts: [],
+  blockCategories: [],
+}
+
+type CalendarProgram = { isPublished?: boolean } | undefined
+
+/**
+ * Calendar event handlers. Pass a stable object (useStableHandlers) so week
+ * rows and day cells only re-render when their own data changes.
+ */
+export interface ProgramCalendarActions {
+  onCellMouseEnter: (
+    weekIdx: number,
+    dayIdx: number,
+    e: MouseEvent<HTMLTableCellElement>
+  ) => void
+  onCellMouseLeave: () => void
+  onCellDrop: (e: DragEvent<HTMLTableCellElement>) => void
+  onCellDragStart: (
+    weekIdx: number,
+    dayIdx: number,
+    e: DragEvent<HTMLButtonElement>
+  ) => void
+  onCellDragEnd: () => void
+  onCellMouseDown: (weekIdx: number, dayIdx: number) => void
+  onCellDoubleClick: (weekIdx: number, dayIdx: number) => void
+  onCellContextMenu: (
+    weekIdx: number,
+    dayIdx: number,
+    e: MouseEvent<HTMLElement>
+  ) => void
+  onAddDay: (weekIdx: number, dayIdx: number) => void
+  onWeekDragStart: (weekIdx: number, e: DragEvent<HTMLTableCellElement>) => void
+  onWeekDragEnd: () => void
+  onWeekDrop: (weekIdx: number) => void
+  onWeekNameEdit: (weekIdx: number) => void
+  onWeekNameSave: (weekIdx: number, name: string) => void
+  onWeekNameCancel: () => void
+  onMoveWeek: (weekIdx: number, direction: 'up' | 'down') => void
+  onCopyWeek: (weekIdx: number) => void
+  onPasteWeek: (weekIdx: number) => void
+  onSaveWeekTemplate: (weekIdx: number) => void
+  onRemoveWeek: (weekIdx: number) => void
+}
+
+export interface ProgramCalendarGridHandle {
+  /** Render the week's row (it may be outside the window) and scroll to it */
+  scrollToWeek: (weekIdx: number) => void
+}
+
+export interface ProgramCalendarGridProps {
+  ref?: Ref<ProgramCalendarGridHandle>
+  store: ProgramEditorStore
+  program: CalendarProgram
+  isAmberCycle: boolean
+  /** Identity changes when exercise names load, so cells pick them up */
+  exerciseName: (exerciseId: number) => string
+  selectedCells: ReadonlySet<string>
+  draggedSession: { weekIdx: number; dayIdx: number } | null
+  draggedWeekIdx: number | null
+  /** Week being renamed (the name being typed stays in its header cell) */
+  editingWeekIdx: number | null
+  actions: ProgramCalendarActions
+}
+
+/** Session card CSS class for calendar day cell (2.8 Level 1). */
+function getCalendarDaySessionCardClass(
+  program: CalendarProgram,
+  isSelected: boolean,
+  isDragging: boolean,
+  hasDay: boolean
+): string {
+  const borderStyle =
+    program && !program.isPublished
+      ? 'border-dashed border-gray-300 bg-gray-50/30'
+      : 'border-solid border-gray-300'
+  const selectedStyle = isSelected
+    ? 'border-[#3AB8ED] bg-blue-100 ring-2 ring-[#3AB8ED] ring-offset-1'
+    : 'hover:border-[#3AB8ED] hover:bg-blue-50/50'
+  const dragStyle = isDragging ? 'opacity-50 ring-2 ring-primary-400' : ''
+  const emptyCellSelectedStyle = isSelected
+    ? 'border-[#3AB8ED] bg-blue-100 ring-2 ring-[#3AB8ED] ring-offset-1 text-[#3AB8ED]'
+    : 'border-dashed border-gray-300 text-gray-500 hover:border-[#3AB8ED] hover:text-[#3AB8ED]'
+  if (hasDay) {
+    return `w-full min-h-[88px] rounded-lg border-2 p-2.5 text-left transition-colors shadow-sm bg-white ${dragStyle} ${borderStyle} ${selectedStyle}`
+  }
+  return `relative w-full min-h-[88px] rounded-lg border-2 flex items-center justify-center text-sm transition-colors group ${emptyCellSelectedStyle}`
+}
+
+/** Session card body: name, badge, exercise list, set counts (reduces CalendarDayCell complexity). */
+function CalendarDayCellContentBody(
+  props: Readonly<{
+    dayIdx: number
+    day: EditorDay | undefined
+    program: CalendarProgram
+    summary: CellSummary
+  }>
+) {
+  const { dayIdx, day, program, summary } = props
+  const { exerciseNames, setCounts, blockCategories } = summary
+  const dayName = day?.dayName || `Day ${dayIdx + 1}`
+  const hasProgramBadge = Boolean(program)
+  const publishedClass =
+    'text-[10px] px-1.5 py-0.5 rounded bg-green-100 text-green-700 shrink-0'
+  const draftClass =
+    'text-[10px] px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 shrink-0'
+  const badgeClass = program?.isPublished ? publishedClass : draftClass
+  const hasExerciseInfo =
+    exerciseNames.length > 0 ||
+    setCounts.length > 0 ||
+    blockCategories.length > 0
+  return (
+    <>
+      <div className="flex items-center gap-1.5 flex-wrap">
+        <span className="text-xs font-semibold text-gray-900 truncate">
+          {dayName}
+        </span>
+        {hasProgramBadge && (
+          <span
+            className={badgeClass}
+            aria-label={program?.isPublished ? 'Published' : 'Draft'}
+          >
+            {program?.isPublished ? 'Published' : 'Draft'}
+          </span>
+        )}
+      </div>
+      {exerciseNames.length > 0 && (
+        <div
+          className="text-[11px] text-gray-600 mt-1 truncate"
+          title={exerciseNames.join(', ')}
+        >
+          {exerciseNames.join(', ')}
+        </div>
+      )}
+      {(setCounts.length > 0 || blockCategories.length > 0) && (
+        <div className="text-[11px] text-gray-500 mt-0.5">
+          {setCounts.length > 0 && setCounts.join(', ')}
+          {setCounts.length > 0 && blockCategories.length > 0 && ' · '}
+          {blockCategories.length > 0 && blockCategories.join(', ')}
+        </div>
+      )}
+      {!hasExerciseInfo && (
+        <div className="text-xs text-gray-500 mt-1">
+          {day?.blockKeys.length ?? 0} block(s)
+        </div>
+      )}
+    </>
+  )
+}
+
+/** Day cell: reads its day from the store and re-renders only when that day changes. */
+const CalendarDayCell = memo(function CalendarDayCell(
+  props: Readonly<{
+    store: ProgramEditorStore
+    weekKey: string
+    weekIdx: number
+    dayIdx: number
+    /** Saved weeks allow dragging sessions between them */
+    weekSaved: boolean
+    isSelected: boolean
+    isDragging: boolean
+    program: CalendarProgram
+    exerciseName: (exerciseId: number) => string
+    actions: ProgramCalendarActions
+  }>
+) {
+  const {
+    store,
+    weekKey,
+    weekIdx,
+    dayIdx,
+    weekSaved,
+    isSelected,
+    isDragging,
+    program,
+    exerciseName,
+    actions,
+  } = props
+  const day = useProgramEditorSelector(store, s =>
+    selectWeekDay(s, weekKey, dayIdx)
+  )
+  const summary = useProgramEditorSelector(store, s =>
+    day ? selectDaySummary(s, day, exerciseName) : EMPTY_SUMMARY
+  )
+  const isRest = day?.isRestDay ?? false
+  const canMoveSession = day?.id != null && weekSaved
+  const sessionCardClass = getCalendarDaySessionCardClass(
+    program,
+    isSelected,
+    isDragging,
+    Boolean(day)
+  )
+  const dayCellContent = isRest ? (
+    <span className="text-sm text-gray-400 font-medium" aria-label="Rest day">
+      Rest
+    </span>
+  ) : (
+    <CalendarDayCellContentBody
+      dayIdx={dayIdx}
+      day={day}
+      program={program}
+      summary={summary}
+    />
+  )
+  const dayNameForAria = day?.dayName || `Day ${dayIdx + 1}`
+  const sessionAriaLabel = `Session: ${dayNameForAria}${isRest ? ', Rest day' : ''}`
+
+  // Inside the memo boundary, so only this cell's own renders are counted
+  return (
+    <Profiler id="CalendarDayCell" onRender={recordRender}>
+      <td
+        className="border border-gray-200 p-1.5 align-top"
+        data-week-idx={weekIdx}
+        data-day-idx={dayIdx}
+        onMouseEnter={e => actions.onCellMouseEnter(weekIdx, dayIdx, e)}
+        onMouseLeave={actions.onCellMouseLeave}
+        onDragOver={e => {
+          e.preventDefault()
+          e.dataTransfer.dropEffect = 'move'
+        }}
+        onDrop={actions.onCellDrop}
+      >
+        {day ? (
+          <button
+            type="button"
+            draggable={canMoveSession}
+            onDragStart={e => actions.onCellDragStart(weekIdx, dayIdx, e)}
+            onDragEnd={actions.onCellDragEnd}
+            onMouseDown={() => actions.onCellMouseDown(weekIdx, dayIdx)}
+            onDoubleClick={() => actions.onCellDoubleClick(weekIdx, dayIdx)}
+            onContextMenu={e => actions.onCellContextMenu(weekIdx, dayIdx, e)}
+            className={sessionCardClass}
+            aria-label={sessionAriaLabel}
+            title="Single-click to select. Double-click to open session."
+          >
+            {dayCellContent}
+          </button>
+        ) : (
+          <button
+            type="button"
+            onMouseDown={() => actions.onCellMouseDown(weekIdx, dayIdx)}
+            onClick={() => actions.onAddDay(weekIdx, dayIdx)}
+            onContextMenu={e => actions.onCellContextMenu(weekIdx, dayIdx, e)}
+            className={sessionCardClass}
+            aria-label="Add session"
+            title="Single-click to select. Double-click to add session."
+          >
+            <span className="opacity-40 group-hover:opacity-0 transition-opacity">
+              +
+            </span>
+            <span className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
+              + Add Session
+            </span>
+          </button>
+        )}
+      </td>
+    </Profiler>
+  )
+})
+
+/** Week rename input; keeps the name being typed so typing renders only this */
+function WeekNameInput(
+  props: Readonly<{
+    weekIdx: number
+    weekName: string
+    actions: ProgramCalendarActions
+  }>
+) {
+  const { weekIdx, weekName, actions } = props
+  const [name, setName] = useState(weekName)
+  return (
+    <>
+      <input
+        type="text"
+        value={name}
+        onChange={e => setName(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Enter') actions.onWeekNameSave(weekIdx, name)
+          if (e.key === 'Escape') actions.onWeekNameCancel()
+        }}
+        className="w-24 rounded border border-gray-300 px-2 py-0.5 text-xs"
+        autoFocus
+      />
+      <Button
+        type="button"
+        variant="ghost"
+        size="small"
+        className="text-xs"
+        onClick={() => actions.onWeekNameSave(weekIdx, name)}
+      >
+        Save
+      </Button>
+      <Button
+        type="button"
+        variant="ghost"
+        size="small"
+        className="text-xs"
+        onClick={actions.onWeekNameCancel}
+      >
+        Cancel
+      </Button>
+    </>
+  )
+}
+
+/** Week name cell: rename, reorder, copy, paste, template, remove. */
+function CalendarWeekHeaderCell(
+  props: Readonly<{
+    weekIdx: number
+    weekName: string
+    weekCount: number
+    isAmberCycle: boolean
+    isEditing: boolean
+    actions: ProgramCalendarActions
+  }>
+) {
+  const { weekIdx, weekName, weekCount, isAmberCycle, isEditing, actions } =
+    props
+  return (
+    <td
+      className="border border-gray-200 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-50 align-top"
+      title={weekCount > 1 && !isEditing ? 'Drag to reorder weeks' : undefined}
+      draggable={weekCount > 1 && !isEditing}
+      onDragStart={e => {
+        if (isEditing) return
+        actions.onWeekDragStart(weekIdx, e)
+      }}
+      onDragEnd={actions.onWeekDragEnd}
+      onDragOver={e => {
+        e.preventDefault()
+        e.dataTransfer.dropEffect = 'move'
+      }}
+      onDrop={e => {
+        e.preventDefault()
+        actions.onWeekDrop(weekIdx)
+      }}
+    >
+      <div className="flex flex-col gap-1">
+        <div className="flex items-center gap-1 flex-wrap">
+          {isEditing ? (
+            <WeekNameInput
+              weekIdx={weekIdx}
+              weekName={weekName}
+              actions={actions}
+            />
+          ) : (
+            <>
+              <button
+                type="button"
+                className="cursor-pointer hover:underline bg-transparent border-0 p-0 text-left font-inherit min-w-18"
+                onClick={() => actions.onWeekNameEdit(weekIdx)}
+                title="Click to edit name"
+              >
+                {weekName}
+              </button>
+              {!isAmberCycle && (
+                <>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="small"
+                    className="text-xs"
+                    title="Move up"
+                    disabled={weekIdx === 0}
+                    onClick={() => actions.onMoveWeek(weekIdx, 'up')}
+                  >
+                    ↑
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="small"
+                    className="text-xs"
+                    title="Move down"
+                    disabled={weekIdx === weekCount - 1}
+                    onClick={() => actions.onMoveWeek(weekIdx, 'down')}
+                  >
+                    ↓
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="small"
+                    className="text-xs"
+                    title="Copy week"
+                    onClick={() => actions.onCopyWeek(weekIdx)}
+                  >
+                    Copy
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="small"
+                    className="text-xs"
+                    title="Paste from spreadsheet"
+                    onClick={() => actions.onPasteWeek(weekIdx)}
+                  >
+                    Paste
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="small"
+                    className="text-xs"
+                    title="Save week as template"
+                    onClick={() => actions.onSaveWeekTemplate(weekIdx)}
+                  >
+                    Template
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="small"
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50 text-xs"
+                    onClick={() => actions.onRemoveWeek(weekIdx)}
+                    title="Remove week"
+                  >
+                    ×
+                  </Button>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </td>
+  )
+}
+
+/** One week of the calendar; selection and drag state arrive as primitives so unchanged weeks skip rendering. */
+const CalendarWeekRow = memo(function CalendarWeekRow(
+  props: Readonly<{
+    store: ProgramEditorStore
+    weekKey: string
+    weekIdx: number
+    weekCount: number
+    isAmberCycle: boolean
+    program: CalendarProgram
+    exerciseName: (exerciseId: number) => string
+    /** Bit d set: day column d is selected */
+    selectedDayMask: number
+    draggingDayIdx: number | null
+    isDraggedWeek: boolean
+    isEditingName: boolean
+    actions: ProgramCalendarActions
+  }>
+) {
+  const {
+    store,
+    weekKey,
+    weekIdx,
+    weekCount,
+    isAmberCycle,
+    program,
+    exerciseName,
+    selectedDayMask,
+    draggingDayIdx,
+    isDraggedWeek,
+    isEditingName,
+    actions,
+  } = props
+  const week = useProgramEditorSelector(store, s => selectWeek(s, weekKey))
+  if (!week) return null
+  return (
+    <tr
+      id={`program-week-${weekIdx}`}
+      data-virtual-row={weekIdx}
+      className={isDraggedWeek ? 'opacity-60 bg-gray-100' : undefined}
+    >
+      {/* Counts renders of the row itself; a cell updating alone is not one */}
+      <Profiler id="CalendarWeekRow" onRender={recordRender}>
+        <CalendarWeekHeaderCell
+          weekIdx={weekIdx}
+          weekName={getDisplayWeekName(week, weekIdx)}
+          weekCount={weekCount}
+          isAmberCycle={isAmberCycle}
+          isEditing={isEditingName}
+          actions={actions}
+        />
+      </Profiler>
+      {DAY_COLUMNS.map(dayIdx => (
+        <CalendarDayCell
+          key={dayIdx}
+          store={store}
+          weekKey={weekKey}
+          weekIdx={weekIdx}
+          dayIdx={dayIdx}
+          weekSaved={week.id != null}
+          isSelected={(selectedDayMask & (1 << dayIdx)) !== 0}
+          isDragging={draggingDayIdx === dayIdx}
+          program={program}
+          exerciseName={exerciseName}
+          actions={actions}
+        />
+      ))}
+    </tr>
+  )
+})
+
+/**
+ * MASS 2.8 Level 1: Program Calendar View (Overview) — rows = weeks, columns = days
+ *
+ * Long programs render only the week rows on screen. Each row and cell reads
+ * its own week / day from the program editor store, so an edit re-renders
+ * the changed cell rather than the whole grid. Render counts per row and cell
+ * are recorded in development (see renderStats).
+ */
+export const ProgramCalendarGrid = memo(function ProgramCalendarGrid({
+  ref,
+  store,
+  program,
+  isAmberCycle,
+  exerciseName,
+  selectedCells,
+  draggedSession,
+  draggedWeekIdx,
+  editingWeekIdx,
+  actions,
+}: Readonly<ProgramCalendarGridProps>) {
+  const weekKeys = useProgramEditorSelector(store, selectWeekKeys)
+  const bodyRef = useRef<HTMLTableSectionElement>(null)
+  const { start, end, paddingTop, paddingBottom, scrollToIndex } =
+    useWindowedRows(bodyRef, weekKeys.length, {
+      estimatedRowHeight: ESTIMATED_WEEK_ROW_HEIGHT,
+    })
+  useImperativeHandle(ref, () => ({ scrollToWeek: scrollToIndex }), [
+    scrollToIndex,
+  ])
+
+  const selectedDayMask = (weekIdx: number) =>
+    DAY_COLUMNS.reduce(
+      (mask, dayIdx) =>
+        selectedCells.has(calendarCellKey(weekIdx, dayIdx))
+          ? mask | (1 << dayIdx)
+          : mask,
+      0
+    )
+
+  return (
+    <table className="w-full border-collapse border border-gray-200 rounded-lg overflow-hidden bg-white">
+      <thead>
+        <tr className="bg-gray-50">
+          <th className="border border-gray-200 px-3 py-2 text-left text-sm font-medium text-gray-700 w-24">
+            {isAmberCycle ? 'Session templates' : 'Week'}
+          </th>
+          {DAY_COLUMNS.map(d => (
+            <th
+              key={d}
+              className="border border-gray-200 px-2 py-2 text-center text-xs font-medium text-gray-600 min-w-[100px]"
+            >
+              Day {d + 1}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody ref={bodyRef}>
+        {paddingTop > 0 && (
+          <tr aria-hidden="true">
+            <td colSpan={8} style={{ height: paddingTop, padding: 0 }} />
+          </tr>
+        )}
+        {weekKeys.slice(start, end).map((weekKey, i) => {
+          const weekIdx = start + i
+          return (
+            <CalendarWeekRow
+              key={weekKey}
+              store={store}
+              weekKey={weekKey}
+              weekIdx={weekIdx}
+              weekCount={weekKeys.length}
+              isAmberCycle={isAmberCycle}
+              program={program}
+              exerciseName={exerciseName}
+              selectedDayMask={selectedDayMask(weekIdx)}
+              draggingDayIdx={
+                draggedSession?.weekIdx === weekIdx
+                  ? draggedSession.dayIdx
+                  : null
+              }
+              isDraggedWeek={draggedWeekIdx === weekIdx}
+              isEditingName={editingWeekIdx === weekIdx}
+              actions={actions}
+            />
+          )
+        })}
+        {paddingBottom > 0 && (
+          <tr aria-hidden="true">
+            <td colSpan={8} style={{ height: paddingBottom, padding: 0 }} />
+          </tr>
+        )}
+      </tbody>
+    </table>
+  )
+})
@@ -0,0 +1,157 @@
+import { useState } from 'react'
+import { Modal } from '@/components/Modal'
+import { Text } from '@/components/Text'
+import { Button } from '@/components/Button'
+import { Radio } from '@/components/Radio'
+import type { MergeSource, ProgramMergeItem } from '@/utils/programDraft'
+
+export interface ProgramConflictModalProps {
+  visible: boolean
+  /** Fields and weeks that differ between this editor and the saved version */
+  items: ProgramMergeItem[]
+  /** When the other version was saved (ISO) */
+  theirsUpdatedAt: string
+  saving?: boolean
+  /** Save the merge of both versions using the chosen side per item */
+  onResolve: (choices: Record<string, MergeSource>) => void
+  /** Close without saving (autosave stays paused) */
+  onClose: () => void
+}
+
+const defaultChoices = (items: ProgramMergeItem[]) =>
+  Object.fromEntries(items.map(item => [item.key, item.defaultSource]))
+
+const isChangedOn = (item: ProgramMergeItem, side: MergeSource) =>
+  side === 'mine' ? item.mineChanged : item.theirsChanged
+
+function ChangeList({ lines }: Readonly<{ lines: string[] }>) {
+  return (
+    <ul className="space-y-0.5 text-xs text-gray-700">
+      {lines.map(line => (
+        <li key={line}>{line}</li>
+      ))}
+    </ul>
+  )
+}
+
+/**
+ * Shown when a save finds the program was saved by someone else after this
+ * editor loaded it. Lists each field / week that differs with both versions
+ * and lets the coach pick a side per row before saving the merge.
+ */
+export function ProgramConflictModal({
+  visible,
+  items,
+  theirsUpdatedAt,
+  saving = false,
+  onResolve,
+  onClose,
+}: Readonly<ProgramConflictModalProps>) {
+  const [choices, setChoices] = useState<Record<string, MergeSource>>(() =>
+    defaultChoices(items)
+  )
+  const bothChanged = items.filter(i => i.mineChanged && i.theirsChanged)
+
+  const setAll = (source: MergeSource) =>
+    setChoices(Object.fromEntries(items.map(item => [item.key, source])))
+
+  return (
+    <Modal
+      visible={visible}
+      onClose={onClose}
+      title="This program was changed by someone else"
+      size="large"
+      primaryAction={{
+        label: saving ? 'Saving...' : 'Save merged version',
+        onPress: () => onResolve(choices),
+        loading: saving,
+        disabled: saving,
+      }}
+      secondaryAction={{ label: 'Review later', onPress: onClose }}
+    >
+      <div className="space-y-4">
+        <Text variant="secondary" className="text-sm block">
+          Another save was made at {new Date(theirsUpdatedAt).toLocaleString()}{' '}
+          after you opened this program. Choose which version to keep for each
+          item below; anything not listed is the same in both. Autosave is
+          paused until you save.
+        </Text>
+        {bothChanged.length > 0 && (
+          <div className="rounded border border-amber-200 bg-amber-50 p-3 text-xs text-amber-900">
+            {bothChanged.length} item
+            {bothChanged.length === 1 ? ' was' : 's were'} changed by both of
+            you; your version is selected for{' '}
+            {bothChanged.length === 1 ? 'it' : 'them'}.
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="small"
+            onClick={() => setAll('mine')}
+          >
+            Keep all mine
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="small"
+            onClick={() => setAll('theirs')}
+          >
+            Take all theirs
+          </Button>
+        </div>
+        <div className="max-h-[28rem] overflow-auto rounded border border-gray-200">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 bg-gray-50 text-left">
+                <th className="py-2 px-3 font-medium text-gray-700">Item</th>
+                <th className="py-2 px-3 font-medium text-gray-700">
+                  Your version
+                </th>
+                <th className="py-2 px-3 font-medium text-gray-700">
+                  Saved version
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map(item => {
+                const source = choices[item.key] ?? item.defaultSource
+                return (
+                  <tr
+                    key={item.key}
+                    className={`border-b border-gray-100 align-top ${item.mineChanged && item.theirsChanged ? 'bg-amber-50' : ''}`}
+                  >
+                    <td className="py-2 px-3 font-medium text-gray-900 whitespace-nowrap">
+                      {item.label}
+                    </td>
+                    {(['mine', 'theirs'] as const).map(side => (
+                      <td key={side} className="py-2 px-3">
+                        <Radio
+                          size="small"
+                          name={item.key}
+                          value={side}
+                          selected={source === side}
+                          onPress={() =>
+                            setChoices(prev => ({ ...prev, [item.key]: side }))
+                          }
+                          label={
+                            isChangedOn(item, side) ? 'Changed' : 'Unchanged'
+                          }
+                        />
+                        <div className="mt-1 pl-6">
+                          <ChangeList lines={item[side]} />
+                        </div>
+                      </td>
+                    ))}
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </Modal>
+  )
+}
@@ -0,0 +1,322 @@
+import { useState } from 'react'
+import type { ChangeEvent } from 'react'
+import { Modal } from '@/components/Modal'
+import { Text } from '@/components/Text'
+import { Input } from '@/components/Input'
+import { Dropdown } from '@/components/Dropdown'
+import { Spinner } from '@/components/Spinner'
+import { exerciseService } from '@/api/exercise.service'
+import { programService } from '@/api/program.service'
+import { useSnackbar } from '@/components/Snackbar/useSnackbar'
+import type { Program, ProgramCycleType } from '@/types/program'
+import type { ExerciseListForBuilderItem } from '@/types/exercise'
+import {
+  matchImportedExercises,
+  parseProgramExport,
+  summarizeProgramExport,
+  toCreateProgramDTO,
+  type ImportedExerciseMatch,
+  type ProgramExportFile,
+} from '@/utils/programTransfer'
+import type { AxiosError } from 'axios'
+
+export interface ProgramImportModalProps {
+  visible: boolean
+  onClose: () => void
+  /** Cycle the program is created in (the page's cycle) */
+  cycleId?: number
+  cycleName?: string
+  cycleType?: ProgramCycleType
+  /** Called with the created program (the parent shows the success message) */
+  onImported: (program: Program | null) => void
+}
+
+/** Dropdown value for "leave this exercise out" */
+const SKIP = 'skip'
+
+/**
+ * Program transfer: import a program export file
+ *
+ * Validates the file, re-links exercises to the local library (by id + name,
+ * then by name), lets the coach map or skip unmatched ones, previews the
+ * structure and creates the program as a draft.
+ */
+export function ProgramImportModal({
+  visible,
+  onClose,
+  cycleId,
+  cycleName,
+  cycleType,
+  onImported,
+}: Readonly<ProgramImportModalProps>) {
+  const { showError } = useSnackbar()
+  const [file, setFile] = useState<ProgramExportFile | null>(null)
+  const [fileName, setFileName] = useState('')
+  const [errors, setErrors] = useState<string[]>([])
+  const [name, setName] = useState('')
+  const [library, setLibrary] = useState<ExerciseListForBuilderItem[]>([])
+  const [matches, setMatches] = useState<ImportedExerciseMatch[]>([])
+  const [mapping, setMapping] = useState<Record<string, number | null>>({})
+  const [matching, setMatching] = useState(false)
+  const [creating, setCreating] = useState(false)
+
+  const reset = () => {
+    setFile(null)
+    setFileName('')
+    setErrors([])
+    setName('')
+    setMatches([])
+    setMapping({})
+  }
+
+  const handleClose = () => {
+    reset()
+    onClose()
+  }
+
+  /** Full library, plus a name search for anything the first page missed */
+  const loadLibrary = async (parsed: ProgramExportFile) => {
+    const res = await exerciseService.listForProgramBuilder()
+    const rows = res.data?.data?.rows ?? []
+    const byId = new Map(rows.map(e => [e.id, e]))
+    const missing = matchImportedExercises(parsed, rows).filter(
+      m => m.libraryId == null
+    )
+    for (const m of missing) {
+      try {
+        const found = await exerciseService.listForProgramBuilder(m.name)
+        for (const e of found.data?.data?.rows ?? []) byId.set(e.id, e)
+      } catch {
+        // keep the exercise flagged
+      }
+    }
+    return [...byId.values()]
+  }
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0]
+    e.target.value = ''
+    if (!selected) return
+    reset()
+    setFileName(selected.name)
+    const result = parseProgramExport(await selected.text())
+    if (!result.ok) {
+      setErrors(result.errors)
+      return
+    }
+    setFile(result.file)
+    setName(result.file.program.name)
+    setMatching(true)
+    try {
+      const rows = await loadLibrary(result.file)
+      const found = matchImportedExercises(result.file, rows)
+      setLibrary(rows)
+      setMatches(found)
+      setMapping(Object.fromEntries(found.map(m => [m.key, m.libraryId])))
+    } catch (err) {
+      const ax = err as AxiosError<{ message?: string }>
+      showError(
+        ax.response?.data?.message ||
+          ax.message ||
+          'Failed to load the exercise library'
+      )
+    } finally {
+      setMatching(false)
+    }
+  }
+
+  const skipped = matches.filter(m => mapping[m.key] == null)
+
+  const handleCreate = async () => {
+    if (!file) return
+    if (!name.trim()) {
+      showError('Program name is required')
+      return
+    }
+    if (
+      skipped.length > 0 &&
+      !globalThis.confirm(
+        `${skipped.length} exercise${skipped.length !== 1 ? 's are' : ' is'} not mapped and will be left out. Continue?`
+      )
+    ) {
+      return
+    }
+    setCreating(true)
+    try {
+      const res = await programService.create(
+        toCreateProgramDTO(file, mapping, { name, cycleId, cycleType })
+      )
+      reset()
+      onImported(res.data?.data ?? null)
+    } catch (err) {
+      const ax = err as AxiosError<{ message?: string }>
+      showError(
+        ax.response?.data?.message || ax.message || 'Failed to import program'
+      )
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const summary = file ? summarizeProgramExport(file) : null
+  const exerciseOptions = [
+    { value: SKIP, label: 'Skip (leave out)' },
+    ...library.map(e => ({ value: String(e.id), label: e.name })),
+  ]
+
+  return (
+    <Modal
+      visible={visible}
+      onClose={handleClose}
+      title="Import program"
+      size="large"
+      primaryAction={{
+        label: creating ? 'Importing...' : 'Create program',
+        onPress: () => void handleCreate(),
+        loading: creating,
+        disabled: !file || matching || creating,
+      }}
+      secondaryAction={{ label: 'Cancel', onPress: handleClose }}
+    >
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Program file (.json)
+          </label>
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={e => void handleFileChange(e)}
+            className="block text-sm"
+          />
+          {fileName && (
+            <Text variant="secondary" className="text-xs mt-1 block">
+              {fileName}
+            </Text>
+          )}
+        </div>
+
+        {errors.length > 0 && (
+          <div className="rounded border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+            <div className="font-medium mb-1">This file can't be imported</div>
+            <ul className="list-disc pl-5 space-y-0.5">
+              {errors.map(err => (
+                <li key={err}>{err}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {file && summary && (
+          <>
+            <Input
+              label="Program name"
+              value={name}
+              onChange={e => setName(e.target.value)}
+            />
+            <div className="text-sm text-gray-700">
+              {summary.weeks} week{summary.weeks !== 1 ? 's' : ''} ·{' '}
+              {summary.trainingDays} training days · {summary.blocks} blocks ·{' '}
+              {summary.exercises} exercise prescriptions
+            </div>
+            {cycleType && cycleType !== file.program.cycleType && (
+              <div className="rounded border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+                Exported from a {file.program.cycleType} program; it will be
+                created in {cycleName ?? cycleType}.
+              </div>
+            )}
+
+            <div className="max-h-48 overflow-auto rounded border border-gray-200">
+              <table className="w-full text-sm">
+                <tbody>
+                  {file.weeks.map(week => (
+                    <tr
+                      key={week.weekIndex}
+                      className="border-b border-gray-100 last:border-0 align-top"
+                    >
+                      <td className="py-2 px-3 font-medium text-gray-900 whitespace-nowrap">
+                        {week.weekName || `Week ${week.weekIndex}`}
+                      </td>
+                      <td className="py-2 px-3 text-gray-600">
+                        {week.days
+                          .map(day =>
+                            day.isRestDay
+                              ? `${day.dayName || `Day ${day.dayIndex}`}: rest`
+                              : `${day.dayName || `Day ${day.dayIndex}`}: ${day.blocks.length} block${day.blocks.length !== 1 ? 's' : ''}`
+                          )
+                          .join(' · ')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div>
+              <Text
+                variant="default"
+                className="font-medium text-sm text-gray-900 mb-2 block"
+              >
+                Exercises
+                {matches.length > 0 &&
+                  ` (${matches.length - skipped.length} of ${matches.length} mapped)`}
+              </Text>
+              {matching ? (
+                <div className="flex items-center gap-2 py-2">
+                  <Spinner size="small" variant="primary" />
+                  <Text variant="secondary" className="text-sm">
+                    Matching exercises to the library...
+                  </Text>
+                </div>
+              ) : (
+                <div className="space-y-2 max-h-72 overflow-auto">
+                  {matches.map(m => (
+                    <div
+                      key={m.key}
+                      className={`flex flex-wrap items-center gap-3 rounded px-3 py-2 ${mapping[m.key] == null ? 'bg-amber-50 border border-amber-200' : 'bg-gray-50'}`}
+                    >
+                      <div className="min-w-0 flex-1">
+                        <div className="text-sm font-medium text-gray-900">
+                          {m.name}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          Used {m.uses}×
+                          {m.matchedBy === 'id' && ' · matched by id'}
+                          {m.matchedBy === 'name' && ' · matched by name'}
+                          {m.matchedBy == null &&
+                            mapping[m.key] == null &&
+                            ' · not in library'}
+                        </div>
+                      </div>
+                      <div className="w-64">
+                        <Dropdown
+                          size="small"
+                          searchable
+                          searchPlaceholder="Search library"
+                          value={
+                            mapping[m.key] == null
+                              ? SKIP
+                              : String(mapping[m.key])
+                          }
+                          onValueChange={v => {
+                            const value = Array.isArray(v) ? v[0] : v
+                            setMapping(prev => ({
+                              ...prev,
+                              [m.key]:
+                                !value || value === SKIP ? null : Number(value),
+                            }))
+                          }}
+                          options={exerciseOptions}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </Modal>
+  )
+}
@@ -0,0 +1,121 @@
+import { useState } from 'react'
+import { Text } from '@/components/Text'
+import { Icon } from '@/components/Icon'
+import {
+  lintErrors,
+  lintWarnings,
+  type ProgramLintIssue,
+  type ProgramLintTarget,
+} from '@/utils/programLint'
+
+export interface ProgramLintPanelProps {
+  issues: ProgramLintIssue[]
+  /** Open the week / day / block an issue points at */
+  onNavigate: (target: ProgramLintTarget) => void
+}
+
+const SEVERITY_ICON: Record<ProgramLintIssue['severity'], string> = {
+  error: 'exclamation-circle',
+  warning: 'circle-info',
+}
+
+/**
+ * Live program check shown above the calendar: a one-line summary that
+ * expands into the list of issues. Errors must be fixed before publishing.
+ */
+export function ProgramLintPanel({
+  issues,
+  onNavigate,
+}: Readonly<ProgramLintPanelProps>) {
+  const [expanded, setExpanded] = useState(false)
+  const errors = lintErrors(issues)
+  const warnings = lintWarnings(issues)
+
+  if (issues.length === 0) {
+    return (
+      <div className="flex items-center gap-2 rounded border border-green-200 bg-green-50 px-4 py-2 text-sm text-green-800">
+        <Icon name="check" family="solid" size={12} />
+        Program check: no issues found
+      </div>
+    )
+  }
+
+  const summary = [
+    errors.length > 0 &&
+      `${errors.length} error${errors.length === 1 ? '' : 's'}`,
+    warnings.length > 0 &&
+      `${warnings.length} warning${warnings.length === 1 ? '' : 's'}`,
+  ]
+    .filter(Boolean)
+    .join(', ')
+
+  return (
+    <div
+      className={`rounded border ${errors.length > 0 ? 'border-red-200 bg-red-50' : 'border-amber-200 bg-amber-50'}`}
+    >
+      <button
+        type="button"
+        className="flex w-full items-center gap-2 px-4 py-2 text-left text-sm"
+        onClick={() => setExpanded(prev => !prev)}
+        aria-expanded={expanded}
+      >
+        <Icon
+          name={errors.length > 0 ? 'exclamation-circle' : 'circle-info'}
+          family="solid"
+          size={12}
+        />
+        <span className="flex-1 font-medium text-gray-900">
+          Program check: {summary}
+          {errors.length > 0 && (
+            <span className="font-normal text-red-700">
+              {' '}
+              — fix errors before publishing
+            </span>
+          )}
+        </span>
+        <span className="text-xs text-gray-600">
+          {expanded ? 'Hide' : 'Show'}
+        </span>
+      </button>
+      {expanded && (
+        <ul className="max-h-64 overflow-auto border-t border-gray-200 bg-white">
+          {[...errors, ...warnings].map(issue => (
+            <li key={issue.key} className="border-b border-gray-100">
+              <button
+                type="button"
+                className="flex w-full items-start gap-2 px-4 py-2 text-left hover:bg-gray-50"
+                onClick={() => onNavigate(issue.target)}
+                title="Go to this item"
+              >
+                <span
+                  className={
+                    issue.severity === 'error'
+                      ? 'text-red-600'
+                      : 'text-amber-600'
+                  }
+                >
+                  <Icon
+                    name={SEVERITY_ICON[issue.severity]}
+                    family="solid"
+                    size={12}
+                  />
+                </span>
+                <span className="min-w-0 flex-1">
+                  <Text
+                    variant="default"
+                    className="block text-sm font-medium text-gray-900"
+                  >
+                    {issue.location}
+                  </Text>
+                  <Text variant="secondary" className="block text-xs">
+                    {issue.message}
+                  </Text>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
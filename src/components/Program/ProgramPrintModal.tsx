@@ -0,0 +1,116 @@
+import { useState } from 'react'
+import { Modal } from '@/components/Modal'
+import { Text } from '@/components/Text'
+import { Dropdown } from '@/components/Dropdown'
+import type { ProgramStructure } from '@/types/program'
+import { printSessions, type PrintScope } from '@/utils/programPrint'
+import { ProgramPrintSheet } from './ProgramPrintSheet'
+
+export interface ProgramPrintModalProps {
+  visible: boolean
+  onClose: () => void
+  programName: string
+  structure: ProgramStructure
+  exerciseName?: (exerciseId: number) => string | undefined
+}
+
+type ScopeKind = PrintScope['kind']
+
+const SCOPE_OPTIONS: Array<{ value: ScopeKind; label: string }> = [
+  { value: 'program', label: 'Whole program' },
+  { value: 'week', label: 'One week' },
+  { value: 'day', label: 'One session' },
+]
+
+/**
+ * Picks what to print (program, week or session) and opens the browser print
+ * dialog, where the sheet can also be saved as a PDF
+ */
+export function ProgramPrintModal({
+  visible,
+  onClose,
+  programName,
+  structure,
+  exerciseName,
+}: Readonly<ProgramPrintModalProps>) {
+  const [kind, setKind] = useState<ScopeKind>('program')
+  const [weekIdx, setWeekIdx] = useState(0)
+  const [dayIdx, setDayIdx] = useState(0)
+
+  const weeks = structure.weeks
+  const days = weeks[weekIdx]?.days ?? []
+  let scope: PrintScope = { kind: 'program' }
+  if (kind === 'week') scope = { kind, weekIdx }
+  if (kind === 'day') scope = { kind, weekIdx, dayIdx }
+  const sessions = printSessions(structure, scope)
+
+  return (
+    <Modal
+      visible={visible}
+      onClose={onClose}
+      title="Print program"
+      size="medium"
+      primaryAction={{
+        label: 'Print',
+        onPress: () => globalThis.print(),
+        disabled: sessions.length === 0,
+      }}
+      secondaryAction={{ label: 'Close', onPress: onClose }}
+    >
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+          <Dropdown
+            label="Print"
+            size="small"
+            value={kind}
+            options={SCOPE_OPTIONS}
+            onValueChange={v =>
+              setKind(String(Array.isArray(v) ? v[0] : v) as ScopeKind)
+            }
+          />
+          {kind !== 'program' && (
+            <Dropdown
+              label="Week"
+              size="small"
+              value={String(weekIdx)}
+              options={weeks.map((w, i) => ({
+                value: String(i),
+                label: w.weekName || `Week ${i + 1}`,
+              }))}
+              onValueChange={v => {
+                setWeekIdx(Number(Array.isArray(v) ? v[0] : v))
+                setDayIdx(0)
+              }}
+            />
+          )}
+          {kind === 'day' && (
+            <Dropdown
+              label="Session"
+              size="small"
+              value={String(dayIdx)}
+              options={days.map((d, i) => ({
+                value: String(i),
+                label: `${d.dayName || `Day ${i + 1}`}${d.isRestDay ? ' (rest)' : ''}`,
+              }))}
+              onValueChange={v =>
+                setDayIdx(Number(Array.isArray(v) ? v[0] : v))
+              }
+            />
+          )}
+        </div>
+        <Text variant="secondary" className="text-sm block">
+          {sessions.length === 0
+            ? 'Nothing to print: there are no training sessions in this selection.'
+            : `${sessions.length} session${sessions.length === 1 ? '' : 's'}, each on a new page with blank columns for logging. Choose "Save as PDF" in the print dialog for a PDF.`}
+        </Text>
+      </div>
+      {visible && (
+        <ProgramPrintSheet
+          title={programName}
+          sessions={sessions}
+          exerciseName={exerciseName}
+        />
+      )}
+    </Modal>
+  )
+}
@@ -0,0 +1,237 @@
+import { createPortal } from 'react-dom'
+import { SanitizedHtml } from '@/components/SanitizedHtml'
+import type {
+  ProgramStructureSection,
+  ProgramStructureSectionExercise,
+} from '@/types/program'
+import { groupDayBlocks } from '@/utils/builderHistory'
+import { formatPrescription } from '@/utils/programProgression'
+import {
+  blockLetter,
+  conditioningSummary,
+  printSetRows,
+  type PrintSession,
+} from '@/utils/programPrint'
+import { useUnitPreference } from '@/hooks/useUnitPreference'
+import type { UnitSystem } from '@/types/user'
+
+export interface ProgramPrintSheetProps {
+  /** Program name printed at the top of every session */
+  title: string
+  sessions: PrintSession[]
+  /** Exercise names when the structure has no embedded exercise */
+  exerciseName?: (exerciseId: number) => string | undefined
+}
+
+const PRESCRIBED_COLUMNS = ['Set', 'Reps', 'Load', 'RPE', 'Tempo', 'Rest']
+const LOGGING_COLUMNS = ['Reps done', 'Load used', 'RPE']
+
+const isCircuit = (section: ProgramStructureSection) =>
+  section.blockType === 'CIRCUIT' || section.sectionType === 'circuit'
+
+const isSuperset = (section: ProgramStructureSection) =>
+  section.blockType === 'SUPERSET' || section.sectionType === 'superset'
+
+/** Blank line to write a result or date on */
+function WriteIn({ label }: Readonly<{ label: string }>) {
+  return (
+    <div className="flex items-end gap-2">
+      <span className="font-medium">{label}:</span>
+      <span className="inline-block w-48 border-b border-gray-500" />
+    </div>
+  )
+}
+
+function ExerciseTable({
+  label,
+  name,
+  exercise,
+  unitSystem,
+}: Readonly<{
+  label: string
+  name: string
+  exercise: ProgramStructureSectionExercise
+  unitSystem: UnitSystem
+}>) {
+  return (
+    <div className="break-inside-avoid space-y-1">
+      <div className="font-semibold">
+        {label}. {name}
+      </div>
+      {exercise.coachingNotes && (
+        <SanitizedHtml
+          html={exercise.coachingNotes}
+          className="text-gray-700 italic"
+        />
+      )}
+      <table className="w-full border-collapse">
+        <thead>
+          <tr>
+            {PRESCRIBED_COLUMNS.map(column => (
+              <th
+                key={column}
+                className="border border-gray-400 px-1 py-0.5 text-left font-medium"
+              >
+                {column}
+              </th>
+            ))}
+            {LOGGING_COLUMNS.map(column => (
+              <th
+                key={column}
+                className="w-20 border border-gray-400 bg-gray-100 px-1 py-0.5 text-left font-medium"
+              >
+                {column}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {printSetRows(exercise, unitSystem).map(row => (
+            <tr key={row.set}>
+              <td className="border border-gray-400 px-1 py-1">{row.set}</td>
+              <td className="border border-gray-400 px-1 py-1">{row.reps}</td>
+              <td className="border border-gray-400 px-1 py-1">{row.load}</td>
+              <td className="border border-gray-400 px-1 py-1">{row.rpe}</td>
+              <td className="border border-gray-400 px-1 py-1">{row.tempo}</td>
+              <td className="border border-gray-400 px-1 py-1">{row.rest}</td>
+              {LOGGING_COLUMNS.map(column => (
+                <td key={column} className="border border-gray-400 px-1 py-1" />
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+/**
+ * Print-only sheet: one page per session with every block, set rows and
+ * blank columns for the athlete to log. Hidden on screen; while mounted, the
+ * print stylesheet prints it instead of the page.
+ */
+export function ProgramPrintSheet({
+  title,
+  sessions,
+  exerciseName,
+}: Readonly<ProgramPrintSheetProps>) {
+  const { unitSystem } = useUnitPreference()
+  const nameOf = (ex: ProgramStructureSectionExercise) =>
+    exerciseName?.(ex.exerciseId) ??
+    ex.exercise?.name ??
+    `Exercise #${ex.exerciseId}`
+
+  return createPortal(
+    <div className="print-sheet hidden bg-white text-[11px] text-black print:block">
+      {sessions.map((session, sessionIdx) => (
+        <section
+          key={session.key}
+          className={`space-y-4 ${sessionIdx > 0 ? 'break-before-page' : ''}`}
+        >
+          <header className="flex items-end justify-between gap-4 border-b-2 border-black pb-2">
+            <div>
+              <div className="text-base font-bold">{title}</div>
+              <div className="text-sm">
+                {session.weekLabel} · {session.dayLabel}
+                {session.day.estimatedDurationMinutes != null &&
+                  ` · ${session.day.estimatedDurationMinutes} min`}
+              </div>
+            </div>
+            <WriteIn label="Date" />
+          </header>
+          {session.day.sessionNotes && (
+            <SanitizedHtml html={session.day.sessionNotes} />
+          )}
+          {session.day.isRestDay && <div className="font-medium">Rest day</div>}
+          {groupDayBlocks(session.day.sections ?? []).map(
+            ({ parent, children }, blockIdx) => {
+              const letter = blockLetter(blockIdx)
+              const exercises = isSuperset(parent)
+                ? children.flatMap(child => child.exercises ?? [])
+                : (parent.exercises ?? [])
+              const exerciseLabel = (i: number) =>
+                exercises.length > 1 || isSuperset(parent)
+                  ? `${letter}${i + 1}`
+                  : letter
+              if (isCircuit(parent)) {
+                return (
+                  <div
+                    key={parent.id ?? blockIdx}
+                    className="break-inside-avoid space-y-1"
+                  >
+                    <div className="font-semibold">
+                      {letter}. {parent.name || 'Circuit'}
+                      {parent.blockCategory && ` (${parent.blockCategory})`}
+                    </div>
+                    {conditioningSummary(parent) && (
+                      <div>{conditioningSummary(parent)}</div>
+                    )}
+                    {parent.instructions && (
+                      <SanitizedHtml html={parent.instructions} />
+                    )}
+                    <ul className="list-disc pl-5">
+                      {exercises.map((ex, i) => (
+                        <li key={`${ex.exerciseId}:${i}`}>
+                          {nameOf(ex)} — {formatPrescription(ex)}
+                          {ex.coachingNotes && (
+                            <span className="italic text-gray-700">
+                              {' '}
+                              ({ex.coachingNotes})
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                    <WriteIn
+                      label={
+                        parent.resultTrackingType &&
+                        parent.resultTrackingType !== 'None'
+                          ? `Result (${parent.resultTrackingType})`
+                          : 'Result'
+                      }
+                    />
+                  </div>
+                )
+              }
+              return (
+                <div key={parent.id ?? blockIdx} className="space-y-2">
+                  {isSuperset(parent) && (
+                    <div className="font-semibold">
+                      {letter}. Superset
+                      {parent.supersetRounds != null &&
+                        ` · ${parent.supersetRounds} rounds`}
+                      {parent.restBetweenExercises &&
+                        ` · ${parent.restBetweenExercises} between exercises`}
+                      {parent.restBetweenRounds &&
+                        ` · ${parent.restBetweenRounds} between rounds`}
+                      {parent.blockCategory && ` (${parent.blockCategory})`}
+                    </div>
+                  )}
+                  {isSuperset(parent) && parent.instructions && (
+                    <SanitizedHtml html={parent.instructions} />
+                  )}
+                  {exercises.map((ex, i) => (
+                    <ExerciseTable
+                      key={`${ex.exerciseId}:${i}`}
+                      label={exerciseLabel(i)}
+                      name={nameOf(ex)}
+                      exercise={ex}
+                      unitSystem={unitSystem}
+                    />
+                  ))}
+                </div>
+              )
+            }
+          )}
+          {!session.day.isRestDay && (
+            <div className="space-y-1 pt-2">
+              <div className="font-medium">Session notes</div>
+              <div className="h-16 border border-gray-400" />
+            </div>
+          )}
+        </section>
+      ))}
+    </div>,
+    document.body
+  )
+}
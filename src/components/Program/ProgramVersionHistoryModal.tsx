@@ -0,0 +1,473 @@
+import { useEffect, useState } from 'react'
+import { Modal } from '@/components/Modal'
+import { Text } from '@/components/Text'
+import { Button } from '@/components/Button'
+import { Dropdown } from '@/components/Dropdown'
+import { Spinner } from '@/components/Spinner'
+import { programService } from '@/api/program.service'
+import { useSnackbar } from '@/components/Snackbar/useSnackbar'
+import type {
+  Program,
+  ProgramCycleType,
+  ProgramStructure,
+  ProgramVersion,
+} from '@/types/program'
+import {
+  diffProgramStructures,
+  type ProgramChange,
+  type ProgramChangeDetail,
+} from '@/utils/programDiff'
+import {
+  diffSnapshotFields,
+  programToSnapshot,
+  type ProgramSnapshot,
+} from '@/utils/programDraft'
+import {
+  PROGRAM_VERSION_REASON_LABELS,
+  formatVersionLabel,
+  recordProgramVersion,
+  versionToCreateProgramDTO,
+} from '@/utils/programVersions'
+import type { AxiosError } from 'axios'
+
+export interface ProgramVersionHistoryModalProps {
+  visible: boolean
+  onClose: () => void
+  program: { id: number; name: string; cycleId?: number }
+  /** Cycle type for programs restored from a version */
+  cycleType: ProgramCycleType
+  /** Called with the unpublished program created by "Restore as new draft" (the parent shows the success message) */
+  onRestored?: (program: Program) => void
+}
+
+/** Dropdown value for the program as it is saved now */
+const CURRENT = 'current'
+
+const KIND_STYLES: Record<ProgramChange['kind'], string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  changed: 'bg-blue-100 text-blue-800',
+}
+
+/** Exercise names embedded in saved structures (exercise.name), by id */
+const collectExerciseNames = (structures: ProgramStructure[]) => {
+  const names = new Map<number, string>()
+  for (const structure of structures) {
+    for (const week of structure.weeks ?? []) {
+      for (const day of week.days ?? []) {
+        for (const section of day.sections ?? []) {
+          for (const ex of section.exercises ?? []) {
+            if (ex.exercise?.name) names.set(ex.exerciseId, ex.exercise.name)
+          }
+        }
+      }
+    }
+  }
+  return names
+}
+
+function DetailLines({
+  details,
+  side,
+}: Readonly<{ details: ProgramChangeDetail[]; side: 'before' | 'after' }>) {
+  return (
+    <ul className="space-y-0.5 text-xs text-gray-700">
+      {details
+        .filter(d => d[side])
+        .map(d => (
+          <li key={`${d.label}:${d[side]}`}>
+            {d.label && <span className="text-gray-500">{d.label}: </span>}
+            {d[side]}
+          </li>
+        ))}
+    </ul>
+  )
+}
+
+/** Side-by-side list of field and structure changes between two versions */
+function VersionDiff({
+  fromLabel,
+  toLabel,
+  fieldChanges,
+  changes,
+}: Readonly<{
+  fromLabel: string
+  toLabel: string
+  fieldChanges: ProgramChangeDetail[]
+  changes: ProgramChange[]
+}>) {
+  if (fieldChanges.length === 0 && changes.length === 0) {
+    return (
+      <Text variant="secondary" className="text-sm block py-4 text-center">
+        No differences between these versions.
+      </Text>
+    )
+  }
+  const count = (kind: ProgramChange['kind']) =>
+    changes.filter(c => c.kind === kind).length
+  return (
+    <div className="space-y-2">
+      <Text variant="secondary" className="text-xs block">
+        {count('added')} added · {count('removed')} removed ·{' '}
+        {count('changed') + (fieldChanges.length > 0 ? 1 : 0)} changed
+      </Text>
+      <div className="max-h-[26rem] overflow-auto rounded border border-gray-200">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 bg-gray-50 text-left">
+              <th className="py-2 px-3 font-medium text-gray-700">Change</th>
+              <th className="py-2 px-3 font-medium text-gray-700 w-1/3">
+                {fromLabel}
+              </th>
+              <th className="py-2 px-3 font-medium text-gray-700 w-1/3">
+                {toLabel}
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {fieldChanges.length > 0 && (
+              <tr className="border-b border-gray-100 align-top">
+                <td className="py-2 px-3">
+                  <span
+                    className={`rounded px-1.5 py-0.5 text-xs font-medium ${KIND_STYLES.changed}`}
+                  >
+                    changed
+                  </span>{' '}
+                  <span className="text-gray-900">Program details</span>
+                </td>
+                <td className="py-2 px-3">
+                  <DetailLines details={fieldChanges} side="before" />
+                </td>
+                <td className="py-2 px-3">
+                  <DetailLines details={fieldChanges} side="after" />
+                </td>
+              </tr>
+            )}
+            {changes.map(change => (
+              <tr
+                key={`${change.kind}:${change.path}`}
+                className="border-b border-gray-100 align-top"
+              >
+                <td className="py-2 px-3">
+                  <span
+                    className={`rounded px-1.5 py-0.5 text-xs font-medium ${KIND_STYLES[change.kind]}`}
+                  >
+                    {change.kind}
+                  </span>{' '}
+                  <span className="text-gray-900">{change.path}</span>
+                </td>
+                <td
+                  className={`py-2 px-3 ${change.kind === 'removed' ? 'bg-red-50' : ''}`}
+                >
+                  <DetailLines details={change.details} side="before" />
+                </td>
+                <td
+                  className={`py-2 px-3 ${change.kind === 'added' ? 'bg-green-50' : ''}`}
+                >
+                  <DetailLines details={change.details} side="after" />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Program version history: snapshots taken on each save / publish, a
+ * side-by-side diff between any two of them (or the current program), and
+ * restoring an earlier version as a new unpublished program.
+ */
+export function ProgramVersionHistoryModal({
+  visible,
+  onClose,
+  program,
+  cycleType,
+  onRestored,
+}: Readonly<ProgramVersionHistoryModalProps>) {
+  const { showError } = useSnackbar()
+  const [versions, setVersions] = useState<ProgramVersion[] | null>(null)
+  const [loadError, setLoadError] = useState(false)
+  const [from, setFrom] = useState<string | null>(null)
+  const [to, setTo] = useState<string>(CURRENT)
+  /** Loaded snapshots by dropdown value (version id or CURRENT) */
+  const [snapshots, setSnapshots] = useState<Record<string, ProgramSnapshot>>(
+    {}
+  )
+  const [exerciseNames, setExerciseNames] = useState<Map<number, string>>(
+    () => new Map()
+  )
+  const [restoringId, setRestoringId] = useState<number | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    programService
+      .getVersions(program.id)
+      .then(res => {
+        if (cancelled) return
+        const list = res.data?.data ?? []
+        setVersions(list)
+        // newest first: compare the latest snapshot with the current program
+        if (list.length > 0) setFrom(String(list[0].id))
+      })
+      .catch(() => {
+        if (!cancelled) setLoadError(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [program.id])
+
+  /** Fetch the two sides of the comparison when they change */
+  useEffect(() => {
+    const missing = [from, to].filter(
+      (key): key is string => key != null && !(key in snapshots)
+    )
+    if (missing.length === 0) return
+    let cancelled = false
+    Promise.all(
+      missing.map(async key => {
+        const res =
+          key === CURRENT
+            ? await programService.getById(program.id)
+            : await programService.getVersion(program.id, Number(key))
+        return [key, res.data.data] as const
+      })
+    )
+      .then(loaded => {
+        if (cancelled) return
+        setSnapshots(prev => ({
+          ...prev,
+          ...Object.fromEntries(
+            loaded.map(([key, data]) => [key, programToSnapshot(data)])
+          ),
+        }))
+        setExerciseNames(prev => {
+          const next = new Map(prev)
+          for (const [id, name] of collectExerciseNames(
+            loaded.map(([, data]) => data.programStructure ?? { weeks: [] })
+          )) {
+            next.set(id, name)
+          }
+          return next
+        })
+      })
+      .catch((e: AxiosError<{ message?: string }>) => {
+        if (!cancelled) {
+          showError(e.response?.data?.message ?? 'Failed to load version')
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [from, to, snapshots, program.id, showError])
+
+  const labelFor = (key: string | null) => {
+    if (key === CURRENT) return 'Current'
+    const version = versions?.find(v => String(v.id) === key)
+    return version ? `Version ${version.versionNumber}` : '—'
+  }
+
+  const exerciseName = (id: number) =>
+    exerciseNames.get(id) ?? `Exercise #${id}`
+  const fromSnapshot = from != null ? snapshots[from] : undefined
+  const toSnapshot = snapshots[to]
+
+  const handleRestore = async (version: ProgramVersion) => {
+    if (
+      !globalThis.confirm(
+        `Create a new unpublished program from version ${version.versionNumber}? The current program is not changed.`
+      )
+    ) {
+      return
+    }
+    setRestoringId(version.id)
+    try {
+      const full = version.programStructure
+        ? version
+        : (await programService.getVersion(program.id, version.id)).data.data
+      const res = await programService.create(
+        versionToCreateProgramDTO(full, {
+          cycleType,
+          cycleId: program.cycleId,
+        })
+      )
+      const created = res.data.data
+      await recordProgramVersion(
+        created.id,
+        'restore',
+        `Restored from "${program.name}" version ${version.versionNumber}`
+      )
+      onRestored?.(created)
+    } catch (e) {
+      const err = e as AxiosError<{ message?: string }>
+      showError(err.response?.data?.message ?? 'Failed to restore version')
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  const versionOptions = [
+    { value: CURRENT, label: 'Current program' },
+    ...(versions ?? []).map(v => ({
+      value: String(v.id),
+      label: `${formatVersionLabel(v)} · ${new Date(v.createdAt).toLocaleString()}`,
+    })),
+  ]
+
+  const renderBody = () => {
+    if (loadError) {
+      return (
+        <Text variant="secondary" className="text-sm block py-6 text-center">
+          Could not load the version history.
+        </Text>
+      )
+    }
+    if (versions == null) {
+      return (
+        <div className="flex justify-center py-8">
+          <Spinner size="small" variant="primary" />
+        </div>
+      )
+    }
+    if (versions.length === 0) {
+      return (
+        <Text variant="secondary" className="text-sm block py-6 text-center">
+          No versions yet. A version is recorded each time the program is saved
+          or published.
+        </Text>
+      )
+    }
+    return (
+      <div className="space-y-6">
+        <div className="max-h-64 overflow-auto rounded border border-gray-200">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 bg-gray-50 text-left">
+                <th className="py-2 px-3 font-medium text-gray-700">Version</th>
+                <th className="py-2 px-3 font-medium text-gray-700">Event</th>
+                <th className="py-2 px-3 font-medium text-gray-700">By</th>
+                <th className="py-2 px-3 font-medium text-gray-700">Date</th>
+                <th className="py-2 px-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {versions.map((version, i) => {
+                const previous = versions[i + 1]
+                return (
+                  <tr
+                    key={version.id}
+                    className={`border-b border-gray-100 ${String(version.id) === to ? 'bg-blue-50' : ''}`}
+                  >
+                    <td className="py-2 px-3 text-gray-900">
+                      {version.versionNumber}
+                      {version.note && (
+                        <div className="text-xs text-gray-500">
+                          {version.note}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2 px-3 text-gray-700">
+                      {PROGRAM_VERSION_REASON_LABELS[version.reason] ??
+                        version.reason}
+                    </td>
+                    <td className="py-2 px-3 text-gray-700">
+                      {version.createdBy?.name ||
+                        version.createdBy?.email ||
+                        '—'}
+                    </td>
+                    <td className="py-2 px-3 text-gray-700 whitespace-nowrap">
+                      {new Date(version.createdAt).toLocaleString()}
+                    </td>
+                    <td className="py-2 px-3">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="small"
+                          disabled={!previous}
+                          title={
+                            previous
+                              ? `Compare with version ${previous.versionNumber}`
+                              : 'First version'
+                          }
+                          onClick={() => {
+                            if (!previous) return
+                            setFrom(String(previous.id))
+                            setTo(String(version.id))
+                          }}
+                        >
+                          Changes
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="small"
+                          disabled={restoringId != null}
+                          onClick={() => void handleRestore(version)}
+                        >
+                          {restoringId === version.id
+                            ? 'Restoring...'
+                            : 'Restore as new draft'}
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+            <Dropdown
+              label="From"
+              size="small"
+              value={from ?? undefined}
+              options={versionOptions}
+              onValueChange={v => setFrom(String(Array.isArray(v) ? v[0] : v))}
+            />
+            <Dropdown
+              label="To"
+              size="small"
+              value={to}
+              options={versionOptions}
+              onValueChange={v => setTo(String(Array.isArray(v) ? v[0] : v))}
+            />
+          </div>
+          {fromSnapshot && toSnapshot ? (
+            <VersionDiff
+              fromLabel={labelFor(from)}
+              toLabel={labelFor(to)}
+              fieldChanges={diffSnapshotFields(fromSnapshot, toSnapshot)}
+              changes={diffProgramStructures(
+                fromSnapshot.structure,
+                toSnapshot.structure,
+                exerciseName
+              )}
+            />
+          ) : (
+            <div className="flex justify-center py-6">
+              <Spinner size="small" variant="primary" />
+            </div>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      onClose={onClose}
+      title={`Version history · ${program.name}`}
+      size="large"
+      secondaryAction={{ label: 'Close', onPress: onClose }}
+    >
+      {renderBody()}
+    </Modal>
+  )
+}
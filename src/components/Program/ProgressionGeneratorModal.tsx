@@ -0,0 +1,241 @@
+import { useMemo, useState } from 'react'
+import { Modal } from '@/components/Modal'
+import { Text } from '@/components/Text'
+import { Input } from '@/components/Input'
+import { Dropdown } from '@/components/Dropdown'
+import type { ProgramStructureWeek } from '@/types/program'
+import {
+  buildProgressionPreview,
+  DEFAULT_PROGRESSION_OPTIONS,
+  generateProgressionWeeks,
+  PROGRESSION_SCHEMES,
+  type ProgressionOptions,
+  type ProgressionScheme,
+} from '@/utils/programProgression'
+
+export interface ProgressionGeneratorModalProps {
+  visible: boolean
+  onClose: () => void
+  weeks: ProgramStructureWeek[]
+  /** Planned program length; the default number of weeks to fill */
+  numberOfWeeks: number
+  exerciseName: (exerciseId: number) => string
+  generating?: boolean
+  /**
+   * Write the generated weeks after the template, replacing the weeks that
+   * are there now
+   */
+  onGenerate: (templateIdx: number, weeks: ProgramStructureWeek[]) => void
+}
+
+/** Longest program the generator will fill */
+const MAX_WEEKS = 52
+
+const weekLabel = (week: ProgramStructureWeek) =>
+  week.weekName || `Week ${week.weekIndex}`
+
+const hasExercises = (week: ProgramStructureWeek) =>
+  (week.days ?? []).some(day =>
+    (day.sections ?? []).some(s => (s.exercises ?? []).length > 0)
+  )
+
+const parseStep = (raw: string, fallback: number) => {
+  const n = Number.parseFloat(raw)
+  return Number.isNaN(n) || n < 0 ? fallback : n
+}
+
+/**
+ * Builds the rest of a multi-week block from one template week with a
+ * progression scheme, previewing every exercise week by week before anything
+ * is written.
+ */
+export function ProgressionGeneratorModal({
+  visible,
+  onClose,
+  weeks,
+  numberOfWeeks,
+  exerciseName,
+  generating = false,
+  onGenerate,
+}: Readonly<ProgressionGeneratorModalProps>) {
+  const [templateIdx, setTemplateIdx] = useState(() =>
+    Math.max(0, weeks.findIndex(hasExercises))
+  )
+  const [totalWeeks, setTotalWeeks] = useState(() =>
+    String(Math.max(numberOfWeeks, weeks.length))
+  )
+  const [options, setOptions] = useState<ProgressionOptions>(
+    DEFAULT_PROGRESSION_OPTIONS
+  )
+
+  const template = weeks[templateIdx]
+  const total = Math.min(MAX_WEEKS, Number.parseInt(totalWeeks, 10) || 0)
+  const count = Math.max(0, total - templateIdx - 1)
+  const generated = useMemo(
+    () => (template ? generateProgressionWeeks(template, count, options) : []),
+    [template, count, options]
+  )
+  const preview = useMemo(
+    () =>
+      template
+        ? buildProgressionPreview(template, generated, exerciseName)
+        : [],
+    [template, generated, exerciseName]
+  )
+  const replaced = weeks
+    .slice(templateIdx + 1, templateIdx + 1 + count)
+    .filter(w => (w.days ?? []).length > 0)
+  const scheme = PROGRESSION_SCHEMES.find(s => s.value === options.scheme)
+  const usesPercent = options.scheme !== 'rpe_ramp'
+  const usesReps =
+    options.scheme === 'undulating' || options.scheme === 'rep_decrease'
+
+  const stepInput = (
+    key: 'percentStep' | 'rpeStep' | 'repStep' | 'deloadPercent',
+    label: string,
+    step: number
+  ) => (
+    <Input
+      type="number"
+      size="small"
+      label={label}
+      min={0}
+      step={step}
+      value={options[key]}
+      onChange={e =>
+        setOptions(prev => ({
+          ...prev,
+          [key]: parseStep(e.target.value, prev[key]),
+        }))
+      }
+    />
+  )
+
+  return (
+    <Modal
+      visible={visible}
+      onClose={onClose}
+      title="Generate progression"
+      size="large"
+      primaryAction={{
+        label: generating
+          ? 'Generating...'
+          : `Generate ${count} week${count === 1 ? '' : 's'}`,
+        onPress: () => onGenerate(templateIdx, generated),
+        loading: generating,
+        disabled: generating || !template || count === 0,
+      }}
+      secondaryAction={{ label: 'Cancel', onPress: onClose }}
+    >
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+          <Dropdown
+            label="Template week"
+            size="small"
+            value={String(templateIdx)}
+            options={weeks.map((w, i) => ({
+              value: String(i),
+              label: weekLabel(w),
+            }))}
+            onValueChange={v =>
+              setTemplateIdx(Number(Array.isArray(v) ? v[0] : v))
+            }
+          />
+          <Dropdown
+            label="Scheme"
+            size="small"
+            value={options.scheme}
+            options={PROGRESSION_SCHEMES.map(s => ({
+              value: s.value,
+              label: s.label,
+            }))}
+            onValueChange={v =>
+              setOptions(prev => ({
+                ...prev,
+                scheme: String(
+                  Array.isArray(v) ? v[0] : v
+                ) as ProgressionScheme,
+              }))
+            }
+          />
+          <Input
+            type="number"
+            size="small"
+            label="Total weeks"
+            min={templateIdx + 2}
+            max={MAX_WEEKS}
+            value={totalWeeks}
+            onChange={e => setTotalWeeks(e.target.value)}
+          />
+        </div>
+        {scheme && (
+          <Text variant="secondary" className="text-sm block">
+            {scheme.description}
+          </Text>
+        )}
+        <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+          {usesPercent && stepInput('percentStep', '% step', 0.5)}
+          {options.scheme === 'rpe_ramp' &&
+            stepInput('rpeStep', 'RPE step', 0.5)}
+          {usesReps && stepInput('repStep', 'Rep step', 1)}
+          {options.scheme === 'wave' &&
+            stepInput('deloadPercent', 'Deload drop (%)', 0.5)}
+        </div>
+        {replaced.length > 0 && (
+          <div className="rounded border border-amber-200 bg-amber-50 p-3 text-xs text-amber-900">
+            {replaced.map(weekLabel).join(', ')}{' '}
+            {replaced.length === 1 ? 'has' : 'have'} sessions that will be
+            replaced by the generated weeks.
+          </div>
+        )}
+        {preview.length === 0 ? (
+          <Text variant="secondary" className="text-sm block">
+            {template
+              ? 'The template week has no exercises to progress.'
+              : 'Add a week with exercises to use as the template.'}
+          </Text>
+        ) : (
+          <div className="max-h-[24rem] overflow-auto rounded border border-gray-200">
+            <table className="text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 bg-gray-50 text-left">
+                  <th className="sticky left-0 bg-gray-50 py-2 px-3 font-medium text-gray-700">
+                    Exercise
+                  </th>
+                  <th className="py-2 px-3 font-medium text-gray-700 whitespace-nowrap">
+                    {template && weekLabel(template)} (template)
+                  </th>
+                  {generated.map(w => (
+                    <th
+                      key={w.weekIndex}
+                      className="py-2 px-3 font-medium text-gray-700 whitespace-nowrap"
+                    >
+                      {weekLabel(w)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {preview.map(row => (
+                  <tr key={row.key} className="border-b border-gray-100">
+                    <td className="sticky left-0 bg-white py-2 px-3 font-medium text-gray-900 whitespace-nowrap">
+                      {row.label}
+                    </td>
+                    {row.cells.map((cell, i) => (
+                      <td
+                        key={i}
+                        className={`py-2 px-3 whitespace-nowrap ${i === 0 ? 'text-gray-500' : 'text-gray-900'}`}
+                      >
+                        {cell}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </Modal>
+  )
+}
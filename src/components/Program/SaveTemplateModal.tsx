@@ -0,0 +1,69 @@
+import { useState } from 'react'
+import { Modal } from '@/components/Modal'
+import { Input } from '@/components/Input'
+import { Text } from '@/components/Text'
+import {
+  parseTemplateTags,
+  PROGRAM_TEMPLATE_TYPE_LABELS,
+  type ProgramTemplateType,
+} from '@/utils/programTemplates'
+
+export interface SaveTemplateModalProps {
+  visible: boolean
+  onClose: () => void
+  templateType: ProgramTemplateType
+  defaultName: string
+  saving?: boolean
+  onSave: (name: string, tags: string[]) => void
+}
+
+/** Name and tag a week, day or block before saving it to the library */
+export function SaveTemplateModal({
+  visible,
+  onClose,
+  templateType,
+  defaultName,
+  saving = false,
+  onSave,
+}: Readonly<SaveTemplateModalProps>) {
+  const [name, setName] = useState(defaultName)
+  const [tags, setTags] = useState('')
+  const label = PROGRAM_TEMPLATE_TYPE_LABELS[templateType].toLowerCase()
+
+  return (
+    <Modal
+      visible={visible}
+      onClose={onClose}
+      title={`Save ${label} as template`}
+      size="medium"
+      primaryAction={{
+        label: saving ? 'Saving...' : 'Save template',
+        onPress: () => onSave(name.trim(), parseTemplateTags(tags)),
+        loading: saving,
+        disabled: saving || !name.trim(),
+      }}
+      secondaryAction={{ label: 'Cancel', onPress: onClose }}
+    >
+      <div className="space-y-4">
+        <Text variant="secondary" className="text-sm block">
+          Saved to the library. Insert it into any program from Add from Library
+          → Templates.
+        </Text>
+        <Input
+          label="Name"
+          size="small"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="e.g. Heavy Lower Body"
+        />
+        <Input
+          label="Tags (comma-separated)"
+          size="small"
+          value={tags}
+          onChange={e => setTags(e.target.value)}
+          placeholder="e.g. strength, lower, in-season"
+        />
+      </div>
+    </Modal>
+  )
+}
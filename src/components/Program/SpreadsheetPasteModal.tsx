@@ -0,0 +1,266 @@
+import { useMemo, useState } from 'react'
+import { Modal } from '@/components/Modal'
+import { Text } from '@/components/Text'
+import { Dropdown } from '@/components/Dropdown'
+import type { ExerciseListForBuilderItem } from '@/types/exercise'
+import {
+  formatPastedPrescription,
+  matchPastedExercises,
+  normalizeExerciseName,
+  parseSpreadsheetPaste,
+  type PastedExerciseMatch,
+  type PastedRow,
+} from '@/utils/programPaste'
+
+export interface SpreadsheetPasteModalProps {
+  visible: boolean
+  onClose: () => void
+  /** 'session' pastes every row into one day; 'week' uses the Day column */
+  mode: 'session' | 'week'
+  /** e.g. "Week 2 · Day 3" */
+  targetLabel: string
+  exerciseList: ExerciseListForBuilderItem[]
+  /** Rows to add (unresolved rows already removed) and name → exercise id */
+  onCommit: (rows: PastedRow[], mapping: Record<string, number | null>) => void
+}
+
+/** Dropdown value for "leave this row out" */
+const SKIP = 'skip'
+
+const COLUMN_HINT =
+  'Day · Block · Exercise · Sets · Reps · %/RPE · Tempo · Rest · Notes'
+
+/** How the library exercise was picked (reduces nested ternary in the table) */
+function getMatchLabel(match: PastedExerciseMatch | undefined): string {
+  if (match?.matchedBy === 'exact') return 'Exact match'
+  if (match?.matchedBy === 'fuzzy') {
+    return `Close match (${Math.round(match.score * 100)}%)`
+  }
+  return 'No match in library'
+}
+
+/**
+ * Program paste: paste rows copied from Excel / Google Sheets, review how
+ * each exercise was matched to the library, fix unresolved rows, then add
+ * the blocks to the session or week.
+ */
+export function SpreadsheetPasteModal({
+  visible,
+  onClose,
+  mode,
+  targetLabel,
+  exerciseList,
+  onCommit,
+}: Readonly<SpreadsheetPasteModalProps>) {
+  const [text, setText] = useState('')
+  /** Coach's choices; win over the automatic match */
+  const [overrides, setOverrides] = useState<Record<string, number | null>>({})
+
+  const parsed = useMemo(() => parseSpreadsheetPaste(text), [text])
+  const matches = useMemo(
+    () => matchPastedExercises(parsed.rows, exerciseList),
+    [parsed.rows, exerciseList]
+  )
+  const mapping = useMemo(
+    () => ({
+      ...Object.fromEntries(matches.map(m => [m.key, m.libraryId])),
+      ...overrides,
+    }),
+    [matches, overrides]
+  )
+  const matchByKey = new Map(matches.map(m => [m.key, m]))
+
+  const isResolved = (row: PastedRow) =>
+    mapping[normalizeExerciseName(row.exerciseName)] != null &&
+    (mode === 'session' || row.dayNumber != null)
+  const unresolved = parsed.rows.filter(row => !isResolved(row))
+  const dayLabels = new Set(parsed.rows.map(r => r.dayLabel).filter(Boolean))
+
+  const handleClose = () => {
+    setText('')
+    setOverrides({})
+    onClose()
+  }
+
+  const handleCommit = () => {
+    if (
+      unresolved.length > 0 &&
+      !globalThis.confirm(
+        `${unresolved.length} row${unresolved.length !== 1 ? 's are' : ' is'} unresolved and will be left out. Continue?`
+      )
+    ) {
+      return
+    }
+    onCommit(parsed.rows.filter(isResolved), mapping)
+    setText('')
+    setOverrides({})
+  }
+
+  const exerciseOptions = [
+    { value: SKIP, label: 'Skip (leave out)' },
+    ...exerciseList.map(e => ({ value: String(e.id), label: e.name })),
+  ]
+  const resolvedCount = parsed.rows.length - unresolved.length
+
+  return (
+    <Modal
+      visible={visible}
+      onClose={handleClose}
+      title={`Paste from spreadsheet · ${targetLabel}`}
+      size="large"
+      primaryAction={{
+        label:
+          resolvedCount > 0
+            ? `Add ${resolvedCount} row${resolvedCount !== 1 ? 's' : ''}`
+            : 'Add rows',
+        onPress: handleCommit,
+        disabled: resolvedCount === 0,
+      }}
+      secondaryAction={{ label: 'Cancel', onPress: handleClose }}
+    >
+      <div className="space-y-4">
+        <div>
+          <label
+            htmlFor="spreadsheet-paste-input"
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            Paste rows
+          </label>
+          <textarea
+            id="spreadsheet-paste-input"
+            value={text}
+            onChange={e => setText(e.target.value)}
+            rows={6}
+            spellCheck={false}
+            className="w-full rounded border border-gray-300 px-3 py-2 font-mono text-xs"
+            placeholder={`Copy cells from Excel or Google Sheets and paste here.\nColumns: ${COLUMN_HINT}`}
+          />
+          <Text variant="secondary" className="text-xs mt-1 block">
+            Columns: {COLUMN_HINT}. A header row can reorder them. Rows labelled
+            A1, A2… become a superset.
+            {mode === 'week'
+              ? ' Day: 1-7, "Day 3" or a weekday name.'
+              : ' The Day column is ignored; every row goes into this session.'}
+          </Text>
+        </div>
+
+        {parsed.warnings.length > 0 && (
+          <ul className="rounded border border-amber-200 bg-amber-50 p-3 text-xs text-amber-900 list-disc pl-6 space-y-0.5">
+            {parsed.warnings.map(w => (
+              <li key={w}>{w}</li>
+            ))}
+          </ul>
+        )}
+        {mode === 'session' && dayLabels.size > 1 && (
+          <Text variant="secondary" className="text-xs block">
+            Rows from {dayLabels.size} days will all go into this session.
+          </Text>
+        )}
+
+        {parsed.rows.length > 0 && (
+          <div>
+            <Text
+              variant="default"
+              className="font-medium text-sm text-gray-900 mb-2 block"
+            >
+              Review ({resolvedCount} of {parsed.rows.length} rows ready)
+            </Text>
+            <div className="max-h-96 overflow-auto rounded border border-gray-200">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 bg-gray-50 text-left">
+                    <th className="py-2 px-2 font-medium text-gray-700">
+                      Line
+                    </th>
+                    {mode === 'week' && (
+                      <th className="py-2 px-2 font-medium text-gray-700">
+                        Day
+                      </th>
+                    )}
+                    <th className="py-2 px-2 font-medium text-gray-700">
+                      Block
+                    </th>
+                    <th className="py-2 px-2 font-medium text-gray-700">
+                      Pasted exercise
+                    </th>
+                    <th className="py-2 px-2 font-medium text-gray-700">
+                      Prescription
+                    </th>
+                    <th className="py-2 px-2 font-medium text-gray-700">
+                      Library exercise
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {parsed.rows.map(row => {
+                    const key = normalizeExerciseName(row.exerciseName)
+                    const match = matchByKey.get(key)
+                    const libraryId = mapping[key]
+                    const fromOverride = key in overrides
+                    return (
+                      <tr
+                        key={row.line}
+                        className={`border-b border-gray-100 align-top ${isResolved(row) ? '' : 'bg-amber-50'}`}
+                      >
+                        <td className="py-2 px-2 text-gray-500">{row.line}</td>
+                        {mode === 'week' && (
+                          <td
+                            className={`py-2 px-2 ${row.dayNumber == null ? 'text-red-700 font-medium' : 'text-gray-900'}`}
+                          >
+                            {row.dayNumber != null
+                              ? `Day ${row.dayNumber}`
+                              : row.dayLabel || 'Missing'}
+                          </td>
+                        )}
+                        <td className="py-2 px-2 text-gray-700">
+                          {row.blockLabel || '—'}
+                        </td>
+                        <td className="py-2 px-2 text-gray-900">
+                          {row.exerciseName}
+                          {row.notes && (
+                            <div className="text-xs text-gray-500">
+                              {row.notes}
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-2 px-2 text-gray-700 whitespace-nowrap">
+                          {formatPastedPrescription(row)}
+                        </td>
+                        <td className="py-2 px-2">
+                          <div className="w-56">
+                            <Dropdown
+                              size="small"
+                              searchable
+                              searchPlaceholder="Search library"
+                              value={
+                                libraryId == null ? SKIP : String(libraryId)
+                              }
+                              onValueChange={v => {
+                                const value = Array.isArray(v) ? v[0] : v
+                                setOverrides(prev => ({
+                                  ...prev,
+                                  [key]:
+                                    !value || value === SKIP
+                                      ? null
+                                      : Number(value),
+                                }))
+                              }}
+                              options={exerciseOptions}
+                            />
+                          </div>
+                          <div className="text-xs text-gray-500 mt-0.5">
+                            {fromOverride ? 'Chosen' : getMatchLabel(match)}
+                          </div>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </Modal>
+  )
+}
@@ -0,0 +1,303 @@
+import { useMemo, useState } from 'react'
+import { Drawer } from '@/components/Drawer'
+import { Text } from '@/components/Text'
+import { Input } from '@/components/Input'
+import { Button } from '@/components/Button'
+import type { ProgramStructure } from '@/types/program'
+import {
+  analyzeProgramLoad,
+  DELOAD_DROP,
+  loadCategories,
+  longestRunWithoutDeload,
+  SET_WORK_SECONDS,
+  type WeekLoad,
+} from '@/utils/programLoad'
+import { VOLUME_JUMP_THRESHOLD } from '@/utils/programLint'
+import { useUnitPreference } from '@/hooks/useUnitPreference'
+import { weightUnitFor, type WeightUnit } from '@/utils/units'
+
+export interface TrainingLoadDrawerProps {
+  visible: boolean
+  onClose: () => void
+  structure: ProgramStructure
+}
+
+type TrendMetric = 'sets' | 'reps' | 'tonnage' | 'averageRpe'
+
+const TREND_METRICS: Array<{ value: TrendMetric; label: string }> = [
+  { value: 'sets', label: 'Sets' },
+  { value: 'reps', label: 'Reps' },
+  { value: 'tonnage', label: 'Tonnage' },
+  { value: 'averageRpe', label: 'Avg RPE' },
+]
+
+/** Reference working max used until the coach enters one */
+const DEFAULT_WORKING_MAX: Record<WeightUnit, number> = { lb: 200, kg: 90 }
+/** Weeks of rising load after which a missing deload is pointed out */
+const DELOAD_HINT_WEEKS = 5
+
+const formatChange = (change: number | null) =>
+  change == null ? '—' : `${change > 0 ? '+' : ''}${Math.round(change * 100)}%`
+
+const barClass = (week: WeekLoad, selected: boolean) => {
+  if (selected) return 'bg-blue-600'
+  if (week.overload) return 'bg-red-400'
+  if (week.deload) return 'bg-green-400'
+  return 'bg-blue-300'
+}
+
+/**
+ * Side panel with what the program prescribes: week-to-week trend, per-week
+ * and per-day totals, sets and reps by block category, and estimated session
+ * duration against the planned duration.
+ */
+export function TrainingLoadDrawer({
+  visible,
+  onClose,
+  structure,
+}: Readonly<TrainingLoadDrawerProps>) {
+  const { unitSystem } = useUnitPreference()
+  const unit = weightUnitFor(unitSystem)
+  const [workingMaxInput, setWorkingMaxInput] = useState(
+    String(DEFAULT_WORKING_MAX[unit])
+  )
+  const [metric, setMetric] = useState<TrendMetric>('tonnage')
+  const [selectedWeekIdx, setSelectedWeekIdx] = useState(0)
+
+  const workingMax =
+    Number.parseFloat(workingMaxInput) > 0
+      ? Number.parseFloat(workingMaxInput)
+      : DEFAULT_WORKING_MAX[unit]
+  const weeks = useMemo(
+    () => analyzeProgramLoad(structure, workingMax, unit),
+    [structure, workingMax, unit]
+  )
+  const categories = loadCategories(weeks)
+  const selectedWeek = weeks[Math.min(selectedWeekIdx, weeks.length - 1)]
+  const maxValue = Math.max(1, ...weeks.map(w => w[metric] ?? 0))
+  const runWithoutDeload = longestRunWithoutDeload(weeks)
+
+  return (
+    <Drawer
+      visible={visible}
+      onClose={onClose}
+      title="Training load"
+      width="lg"
+      showCloseButton
+    >
+      <div className="space-y-5">
+        <Text variant="secondary" className="text-sm block">
+          Estimates from the prescription: % loads are taken from one reference
+          working max; sessions assume {SET_WORK_SECONDS} s per set plus the
+          prescribed rest.
+        </Text>
+        <div className="max-w-[14rem]">
+          <Input
+            type="number"
+            size="small"
+            label={`Reference working max (${unit})`}
+            min={1}
+            value={workingMaxInput}
+            onChange={e => setWorkingMaxInput(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <Text variant="default" className="font-semibold text-gray-800">
+              Week-to-week trend
+            </Text>
+            <div className="ml-auto flex gap-1">
+              {TREND_METRICS.map(m => (
+                <Button
+                  key={m.value}
+                  type="button"
+                  size="small"
+                  variant={metric === m.value ? 'primary' : 'ghost'}
+                  onClick={() => setMetric(m.value)}
+                >
+                  {m.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className="flex h-40 items-end gap-1 rounded border border-gray-200 p-2">
+            {weeks.map(week => {
+              const value = week[metric] ?? 0
+              return (
+                <button
+                  key={week.weekIdx}
+                  type="button"
+                  className="flex h-full min-w-0 flex-1 flex-col justify-end"
+                  onClick={() => setSelectedWeekIdx(week.weekIdx)}
+                  title={`${week.label}: ${value}${week.overload ? ' (overload)' : ''}${week.deload ? ' (deload)' : ''}`}
+                >
+                  <span
+                    className={`block w-full rounded-t ${barClass(week, week.weekIdx === selectedWeek?.weekIdx)}`}
+                    style={{ height: `${(value / maxValue) * 100}%` }}
+                  />
+                </button>
+              )
+            })}
+          </div>
+          <div className="flex gap-1 px-2 text-[10px] text-gray-500">
+            {weeks.map(week => (
+              <span key={week.weekIdx} className="min-w-0 flex-1 truncate">
+                {week.weekIdx + 1}
+              </span>
+            ))}
+          </div>
+          <Text variant="secondary" className="text-xs block">
+            Red: tonnage up more than {Math.round(VOLUME_JUMP_THRESHOLD * 100)}%
+            on the previous week. Green: deload (down{' '}
+            {Math.round(DELOAD_DROP * 100)}% or more).
+          </Text>
+          {runWithoutDeload >= DELOAD_HINT_WEEKS && (
+            <div className="rounded border border-amber-200 bg-amber-50 p-3 text-xs text-amber-900">
+              {runWithoutDeload} weeks in a row without a deload.
+            </div>
+          )}
+        </div>
+
+        <div className="overflow-auto rounded border border-gray-200">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 bg-gray-50 text-left">
+                <th className="py-2 px-3 font-medium text-gray-700">Week</th>
+                <th className="py-2 px-3 font-medium text-gray-700">Sets</th>
+                <th className="py-2 px-3 font-medium text-gray-700">Reps</th>
+                <th className="py-2 px-3 font-medium text-gray-700">Tonnage</th>
+                <th className="py-2 px-3 font-medium text-gray-700">Δ</th>
+                <th className="py-2 px-3 font-medium text-gray-700">RPE</th>
+              </tr>
+            </thead>
+            <tbody>
+              {weeks.map(week => (
+                <tr
+                  key={week.weekIdx}
+                  className={`cursor-pointer border-b border-gray-100 ${week.weekIdx === selectedWeek?.weekIdx ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                  onClick={() => setSelectedWeekIdx(week.weekIdx)}
+                >
+                  <td className="py-2 px-3 font-medium text-gray-900 whitespace-nowrap">
+                    {week.label}
+                  </td>
+                  <td className="py-2 px-3">{week.sets}</td>
+                  <td className="py-2 px-3">{week.reps}</td>
+                  <td className="py-2 px-3">{week.tonnage}</td>
+                  <td
+                    className={`py-2 px-3 ${week.overload ? 'text-red-700' : ''} ${week.deload ? 'text-green-700' : ''}`}
+                  >
+                    {formatChange(week.tonnageChange)}
+                  </td>
+                  <td className="py-2 px-3">{week.averageRpe ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {selectedWeek && (
+          <div className="space-y-3">
+            <Text variant="default" className="font-semibold text-gray-800">
+              {selectedWeek.label} by day
+            </Text>
+            <div className="overflow-auto rounded border border-gray-200">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 bg-gray-50 text-left">
+                    <th className="py-2 px-3 font-medium text-gray-700">Day</th>
+                    {categories.map(category => (
+                      <th
+                        key={category}
+                        className="py-2 px-3 font-medium text-gray-700 whitespace-nowrap"
+                      >
+                        {category}
+                      </th>
+                    ))}
+                    <th className="py-2 px-3 font-medium text-gray-700">
+                      Tonnage
+                    </th>
+                    <th className="py-2 px-3 font-medium text-gray-700">RPE</th>
+                    <th className="py-2 px-3 font-medium text-gray-700 whitespace-nowrap">
+                      Est. / planned min
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {selectedWeek.days.map(day => {
+                    const overPlanned =
+                      day.plannedMinutes != null &&
+                      day.estimatedMinutes > day.plannedMinutes
+                    return (
+                      <tr key={day.dayIdx} className="border-b border-gray-100">
+                        <td className="py-2 px-3 font-medium text-gray-900 whitespace-nowrap">
+                          {day.label}
+                        </td>
+                        {day.isRestDay ? (
+                          <td
+                            colSpan={categories.length + 3}
+                            className="py-2 px-3 text-gray-500"
+                          >
+                            Rest day
+                          </td>
+                        ) : (
+                          <>
+                            {categories.map(category => {
+                              const load = day.byCategory[category]
+                              return (
+                                <td
+                                  key={category}
+                                  className="py-2 px-3 whitespace-nowrap"
+                                >
+                                  {load ? `${load.sets} × ${load.reps}` : '—'}
+                                </td>
+                              )
+                            })}
+                            <td className="py-2 px-3">{day.tonnage}</td>
+                            <td className="py-2 px-3">
+                              {day.averageRpe ?? '—'}
+                            </td>
+                            <td
+                              className={`py-2 px-3 whitespace-nowrap ${overPlanned ? 'text-red-700' : ''}`}
+                            >
+                              {day.estimatedMinutes} /{' '}
+                              {day.plannedMinutes ?? '—'}
+                            </td>
+                          </>
+                        )}
+                      </tr>
+                    )
+                  })}
+                  <tr className="bg-gray-50 font-medium">
+                    <td className="py-2 px-3 text-gray-900">Week</td>
+                    {categories.map(category => {
+                      const load = selectedWeek.byCategory[category]
+                      return (
+                        <td
+                          key={category}
+                          className="py-2 px-3 whitespace-nowrap"
+                        >
+                          {load ? `${load.sets} × ${load.reps}` : '—'}
+                        </td>
+                      )
+                    })}
+                    <td className="py-2 px-3">{selectedWeek.tonnage}</td>
+                    <td className="py-2 px-3">
+                      {selectedWeek.averageRpe ?? '—'}
+                    </td>
+                    <td className="py-2 px-3">
+                      {selectedWeek.estimatedMinutes}
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+            <Text variant="secondary" className="text-xs block">
+              Category cells are sets × total reps.
+            </Text>
+          </div>
+        )}
+      </div>
+    </Drawer>
+  )
+}
@@ -0,0 +1,282 @@
+import { useState } from 'react'
+import { Button } from '@/components/Button'
+import { useUnitPreference } from '@/hooks/useUnitPreference'
+import type { SetLog, UpdateSetLogDTO } from '@/types/train'
+import type { UnitSystem } from '@/types/user'
+import {
+  displayWeight,
+  formatWeight,
+  weightFields,
+  weightUnitFor,
+} from '@/utils/units'
+
+const inputClass =
+  'border border-gray-200 rounded-lg px-2 py-1 text-sm w-20 focus:ring-2 focus:ring-[#3AB8ED]/30 focus:border-[#3AB8ED] outline-none'
+
+type EditValues = { reps: string; weight: string; rpe: string; reason: string }
+
+const setLabel = (log: SetLog) =>
+  log.setType === 'warmup'
+    ? `Warm-up ${log.setIndex}`
+    : log.round != null
+      ? `Round ${log.round}`
+      : `Set ${log.setIndex}`
+
+const formatValues = (
+  values: Pick<SetLog, 'reps' | 'weightLb' | 'weightKg' | 'rpe'>,
+  unitSystem: UnitSystem
+) =>
+  [
+    values.reps != null ? `${values.reps} reps` : null,
+    values.weightLb != null || values.weightKg != null
+      ? formatWeight(values, unitSystem)
+      : null,
+    values.rpe != null ? `RPE ${values.rpe}` : null,
+  ]
+    .filter(Boolean)
+    .join(' · ') || '—'
+
+/** Only changed, non-empty fields go in the body; returns an error message for bad input */
+function buildUpdate(
+  log: SetLog,
+  v: EditValues,
+  unitSystem: UnitSystem
+): UpdateSetLogDTO | string {
+  const parse = (s: string) => (s.trim() === '' ? undefined : Number(s))
+  const reps = parse(v.reps)
+  const weight = parse(v.weight)
+  const rpe = parse(v.rpe)
+  if (reps != null && (!Number.isInteger(reps) || reps < 0)) {
+    return 'Reps must be a whole number.'
+  }
+  if (weight != null && !(weight >= 0)) return 'Enter a valid weight.'
+  if (rpe != null && !(rpe >= 1 && rpe <= 10)) return 'RPE is 1–10.'
+  const body: UpdateSetLogDTO = {}
+  if (reps != null && reps !== log.reps) body.reps = reps
+  if (weight != null && weight !== displayWeight(log, unitSystem)) {
+    Object.assign(body, weightFields(weight, unitSystem))
+    // Keep the other stored unit in step so it cannot contradict the correction
+    if (unitSystem === 'metric' && log.weightLb != null) {
+      body.weightLb =
+        displayWeight({ weightKg: weight }, 'imperial') ?? undefined
+    }
+    if (unitSystem === 'imperial' && log.weightKg != null) {
+      body.weightKg = displayWeight({ weightLb: weight }, 'metric') ?? undefined
+    }
+  }
+  if (rpe != null && rpe !== log.rpe) body.rpe = rpe
+  if (Object.keys(body).length === 0) return 'Nothing changed.'
+  if (v.reason.trim()) body.reason = v.reason.trim()
+  return body
+}
+
+export interface SetLogListProps {
+  logs: SetLog[]
+  /** Enables Edit; resolves true once saved (the editor stays open otherwise) */
+  onUpdate?: (log: SetLog, body: UpdateSetLogDTO) => Promise<boolean>
+  /** Enables Delete */
+  onDelete?: (log: SetLog) => Promise<void>
+  /** Set log id being saved / deleted */
+  busyId?: number | null
+}
+
+/**
+ * Logged sets with inline correction (reps, weight, RPE) and delete.
+ * Edited sets are highlighted and show their audit trail.
+ */
+export function SetLogList({
+  logs,
+  onUpdate,
+  onDelete,
+  busyId,
+}: Readonly<SetLogListProps>) {
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [values, setValues] = useState<EditValues>({
+    reps: '',
+    weight: '',
+    rpe: '',
+    reason: '',
+  })
+  const [error, setError] = useState<string | null>(null)
+  const { unitSystem } = useUnitPreference()
+  const unit = weightUnitFor(unitSystem)
+
+  const startEdit = (log: SetLog) => {
+    const weight = displayWeight(log, unitSystem)
+    setValues({
+      reps: log.reps != null ? String(log.reps) : '',
+      weight: weight != null ? String(weight) : '',
+      rpe: log.rpe != null ? String(log.rpe) : '',
+      reason: '',
+    })
+    setError(null)
+    setEditingId(log.id)
+  }
+
+  const handleSave = async (log: SetLog) => {
+    if (!onUpdate) return
+    const body = buildUpdate(log, values, unitSystem)
+    if (typeof body === 'string') {
+      setError(body)
+      return
+    }
+    if (await onUpdate(log, body)) setEditingId(null)
+  }
+
+  const handleDelete = async (log: SetLog) => {
+    if (!onDelete) return
+    if (!globalThis.confirm(`Delete ${setLabel(log).toLowerCase()}?`)) return
+    await onDelete(log)
+  }
+
+  const set = (patch: Partial<EditValues>) =>
+    setValues(prev => ({ ...prev, ...patch }))
+
+  return (
+    <div className="space-y-1">
+      {logs.map(log => {
+        const busy = busyId === log.id
+        const editing = editingId === log.id
+        return (
+          <div
+            key={log.id}
+            className={`px-3 py-2 rounded-lg text-sm ${
+              log.isModified
+                ? 'bg-amber-50 border border-amber-200'
+                : 'bg-gray-50'
+            }`}
+          >
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="font-medium text-gray-700">{setLabel(log)}</span>
+              {editing ? (
+                <>
+                  <input
+                    type="number"
+                    min={0}
+                    placeholder="Reps"
+                    aria-label="Reps"
+                    className={inputClass}
+                    value={values.reps}
+                    onChange={e => set({ reps: e.target.value })}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    placeholder={unit}
+                    aria-label={`Weight (${unit})`}
+                    className={inputClass}
+                    value={values.weight}
+                    onChange={e => set({ weight: e.target.value })}
+                  />
+                  <input
+                    type="number"
+                    min={1}
+                    max={10}
+                    step={0.5}
+                    placeholder="RPE"
+                    aria-label="RPE"
+                    className={inputClass}
+                    value={values.rpe}
+                    onChange={e => set({ rpe: e.target.value })}
+                  />
+                </>
+              ) : (
+                <>
+                  {log.reps != null && (
+                    <span className="text-gray-600">{log.reps} reps</span>
+                  )}
+                  {(log.weightLb != null || log.weightKg != null) && (
+                    <span className="text-gray-600">
+                      {formatWeight(log, unitSystem)}
+                    </span>
+                  )}
+                  {log.rpe != null && (
+                    <span className="text-gray-500">RPE {log.rpe}</span>
+                  )}
+                  {log.isModified && (
+                    <span className="text-amber-700 text-xs font-medium">
+                      {log.edits?.length ? 'Edited' : 'Modified'}
+                    </span>
+                  )}
+                </>
+              )}
+              {(onUpdate || onDelete) && !editing && (
+                <span className="ml-auto flex items-center gap-1">
+                  {onUpdate && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="small"
+                      disabled={busyId != null}
+                      onClick={() => startEdit(log)}
+                    >
+                      Edit
+                    </Button>
+                  )}
+                  {onDelete && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="small"
+                      disabled={busyId != null}
+                      onClick={() => handleDelete(log)}
+                    >
+                      {busy ? 'Deleting…' : 'Delete'}
+                    </Button>
+                  )}
+                </span>
+              )}
+            </div>
+            {editing && (
+              <div className="mt-2 flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  placeholder="Reason (optional)"
+                  className={`${inputClass} w-56`}
+                  value={values.reason}
+                  onChange={e => set({ reason: e.target.value })}
+                />
+                <Button
+                  type="button"
+                  variant="primary"
+                  size="small"
+                  disabled={busy}
+                  onClick={() => handleSave(log)}
+                >
+                  {busy ? 'Saving…' : 'Save'}
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="small"
+                  disabled={busy}
+                  onClick={() => setEditingId(null)}
+                >
+                  Cancel
+                </Button>
+                {error && <span className="text-xs text-red-600">{error}</span>}
+              </div>
+            )}
+            {!editing && log.edits && log.edits.length > 0 && (
+              <details className="mt-1 text-xs text-gray-500">
+                <summary className="cursor-pointer select-none">
+                  Edit history ({log.edits.length})
+                </summary>
+                <ul className="mt-1 space-y-0.5">
+                  {log.edits.map((edit, i) => (
+                    <li key={i}>
+                      {new Date(edit.editedAt).toLocaleString()}: was{' '}
+                      {formatValues(edit.previous, unitSystem)}
+                      {edit.reason && ` — ${edit.reason}`}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
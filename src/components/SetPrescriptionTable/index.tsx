@@ -0,0 +1,193 @@
+import { useEffect, useRef, useState } from 'react'
+import { Text } from '@/components/Text'
+import type {
+  ResolvedSetPrescription,
+  TempoPhase,
+} from '@/utils/setPrescription'
+
+function formatRest(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`
+  const m = Math.floor(seconds / 60)
+  const s = seconds % 60
+  return `${m}:${s.toString().padStart(2, '0')}`
+}
+
+/** Short click through Web Audio; silently skipped where audio is unavailable */
+function playClick(
+  audioRef: { current: AudioContext | null },
+  accent: boolean
+) {
+  try {
+    audioRef.current ??= new AudioContext()
+    const ctx = audioRef.current
+    const osc = ctx.createOscillator()
+    const gain = ctx.createGain()
+    osc.frequency.value = accent ? 1320 : 880
+    gain.gain.setValueAtTime(0.2, ctx.currentTime)
+    gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.08)
+    osc.connect(gain).connect(ctx.destination)
+    osc.start()
+    osc.stop(ctx.currentTime + 0.08)
+  } catch {
+    // no audio support; the visual cue still runs
+  }
+}
+
+export interface TempoCueProps {
+  tempo: string
+  phases: TempoPhase[]
+}
+
+/**
+ * Tempo metronome for one set row: steps through Down / Pause / Up / Top
+ * once per second with a click, accenting each phase change.
+ */
+export function TempoCue({ tempo, phases }: Readonly<TempoCueProps>) {
+  const [running, setRunning] = useState(false)
+  const [tick, setTick] = useState(0)
+  const audioRef = useRef<AudioContext | null>(null)
+  const activePhases = phases.filter(p => p.seconds > 0)
+  const cycleLength = activePhases.reduce((sum, p) => sum + p.seconds, 0)
+
+  useEffect(() => {
+    if (!running || cycleLength === 0) return
+    const t = setInterval(() => setTick(prev => prev + 1), 1000)
+    return () => clearInterval(t)
+  }, [running, cycleLength])
+
+  useEffect(() => {
+    const audio = audioRef
+    return () => {
+      void audio.current?.close()
+    }
+  }, [])
+
+  let offset = cycleLength > 0 ? tick % cycleLength : 0
+  let current = activePhases[0]
+  for (const phase of activePhases) {
+    if (offset < phase.seconds) {
+      current = phase
+      break
+    }
+    offset -= phase.seconds
+  }
+
+  useEffect(() => {
+    if (running) playClick(audioRef, offset === 0)
+  }, [running, tick, offset])
+
+  if (activePhases.length === 0) {
+    return <span>{tempo}</span>
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1.5">
+      <button
+        type="button"
+        onClick={e => {
+          e.stopPropagation()
+          setTick(0)
+          setRunning(r => !r)
+        }}
+        className={`px-1.5 py-0.5 rounded border text-xs font-mono ${
+          running
+            ? 'bg-[#3AB8ED] text-white border-[#3AB8ED]'
+            : 'bg-white text-gray-700 border-gray-200 hover:border-[#3AB8ED]'
+        }`}
+        aria-pressed={running}
+        aria-label={`${running ? 'Stop' : 'Start'} tempo cue ${tempo}`}
+      >
+        {tempo}
+      </button>
+      {running && current && (
+        <span
+          className="text-[#2ea8db] font-medium tabular-nums"
+          aria-live="polite"
+        >
+          {current.explosive ? 'Up – fast!' : current.label}{' '}
+          {current.seconds - offset}
+        </span>
+      )}
+    </span>
+  )
+}
+
+export interface SetPrescriptionTableProps {
+  rows: ResolvedSetPrescription[]
+  /** When set, each row with rest gets a button that starts the rest timer */
+  onStartRest?: (row: ResolvedSetPrescription) => void
+  /** Set numbers already logged (row is dimmed) */
+  completedSets?: number[]
+}
+
+/** MASS Phase 4: per-set prescription with resolved loads, tempo cue and rest */
+export function SetPrescriptionTable({
+  rows,
+  onStartRest,
+  completedSets = [],
+}: Readonly<SetPrescriptionTableProps>) {
+  if (rows.length === 0) return null
+  return (
+    <div className="mt-2 overflow-x-auto">
+      <table className="w-full text-xs border border-gray-200 rounded">
+        <thead>
+          <tr className="bg-gray-50 text-gray-600">
+            <th className="text-left py-1 px-2 font-medium">Set</th>
+            <th className="text-left py-1 px-2 font-medium">Reps</th>
+            <th className="text-left py-1 px-2 font-medium">Weight</th>
+            <th className="text-left py-1 px-2 font-medium">RPE</th>
+            <th className="text-left py-1 px-2 font-medium">Tempo</th>
+            <th className="text-left py-1 px-2 font-medium">Rest</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, ri) => (
+            <tr
+              key={ri}
+              className={`border-t border-gray-100 ${
+                completedSets.includes(row.setNumber) ? 'text-gray-400' : ''
+              }`}
+            >
+              <td className="py-1 px-2">{row.setNumber}</td>
+              <td className="py-1 px-2">{row.repsLabel}</td>
+              <td className="py-1 px-2">{row.weightLabel}</td>
+              <td className="py-1 px-2">{row.rpe ?? '—'}</td>
+              <td className="py-1 px-2">
+                {row.tempo && row.tempoPhases ? (
+                  <TempoCue tempo={row.tempo} phases={row.tempoPhases} />
+                ) : (
+                  (row.tempo ?? '—')
+                )}
+              </td>
+              <td className="py-1 px-2">
+                {row.restSeconds != null ? (
+                  onStartRest && row.restSeconds > 0 ? (
+                    <button
+                      type="button"
+                      onClick={e => {
+                        e.stopPropagation()
+                        onStartRest(row)
+                      }}
+                      className="text-[#2ea8db] hover:underline"
+                    >
+                      {formatRest(row.restSeconds)} ▸
+                    </button>
+                  ) : (
+                    formatRest(row.restSeconds)
+                  )
+                ) : (
+                  '—'
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {rows.some(r => r.tempoPhases) && (
+        <Text variant="secondary" className="text-xs block mt-1 text-gray-500">
+          Tap a tempo to start the metronome (down · pause · up · top).
+        </Text>
+      )}
+    </div>
+  )
+}
@@ -4,6 +4,9 @@ import { Text } from '@/components/Text'
 import { Input } from '@/components/Input'
 import { trainService } from '@/api/train.service'
 import { useSnackbar } from '@/components/Snackbar/useSnackbar'
+import { WorkingMaxHistoryList } from '@/components/WorkingMaxSuggestions'
+import type { WorkingMaxHistoryEntry } from '@/types/train'
+import type { WorkingMaxSuggestion } from '@/utils/e1rm'
 import type { AxiosError } from 'axios'
 
 export interface SetWorkingMaxModalProps {
@@ -16,6 +19,8 @@ export interface SetWorkingMaxModalProps {
   /** Current value if any (for display / prefill) */
   currentValue?: number
   currentUnit?: 'lb' | 'kg'
+  /** e1RM: prefill with a suggested value; saved as source auto when unchanged */
+  suggestion?: WorkingMaxSuggestion
 }
 
 export function SetWorkingMaxModal({
@@ -26,20 +31,49 @@ export function SetWorkingMaxModal({
   exerciseName,
   currentValue,
   currentUnit = 'lb',
+  suggestion,
 }: Readonly<SetWorkingMaxModalProps>) {
   const [value, setValue] = useState<string>(
     currentValue != null ? String(currentValue) : ''
   )
   const [unit, setUnit] = useState<'lb' | 'kg'>(currentUnit ?? 'lb')
   const [saving, setSaving] = useState(false)
+  const [history, setHistory] = useState<WorkingMaxHistoryEntry[]>([])
+  const [historyLoading, setHistoryLoading] = useState(false)
   const { showSuccess, showError } = useSnackbar()
 
   useEffect(() => {
     if (visible) {
-      setValue(currentValue != null ? String(currentValue) : '')
-      setUnit(currentUnit ?? 'lb')
+      const initial = suggestion?.suggestedValue ?? currentValue
+      setValue(initial != null ? String(initial) : '')
+      setUnit(suggestion?.unit ?? currentUnit ?? 'lb')
     }
-  }, [visible, currentValue, currentUnit])
+  }, [visible, currentValue, currentUnit, suggestion])
+
+  useEffect(() => {
+    if (!visible || !exerciseId) return
+    let cancelled = false
+    queueMicrotask(() => {
+      if (cancelled) return
+      setHistoryLoading(true)
+      trainService
+        .getWorkingMaxHistory(exerciseId)
+        .then(res => {
+          if (!cancelled && res.data?.statusCode === 200) {
+            setHistory(res.data.data?.history ?? [])
+          }
+        })
+        .catch(() => {
+          if (!cancelled) setHistory([])
+        })
+        .finally(() => {
+          if (!cancelled) setHistoryLoading(false)
+        })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [visible, exerciseId])
 
   const handleSave = async () => {
     const num = value.trim() ? Number(value.trim()) : NaN
@@ -47,9 +81,24 @@ export function SetWorkingMaxModal({
       showError('Enter a valid weight greater than 0.')
       return
     }
+    // Accepting the e1RM suggestion as-is records it as an auto update
+    const autoSource =
+      suggestion &&
+      num === suggestion.suggestedValue &&
+      unit === suggestion.unit
+        ? {
+            source: 'auto' as const,
+            estimate: { method: suggestion.method, ...suggestion.basedOn },
+          }
+        : {}
     setSaving(true)
     try {
-      await trainService.setWorkingMax({ exerciseId, value: num, unit })
+      await trainService.setWorkingMax({
+        exerciseId,
+        value: num,
+        unit,
+        ...autoSource,
+      })
       showSuccess('Working max updated.')
       onSuccess?.()
       onClose()
@@ -82,6 +131,13 @@ export function SetWorkingMaxModal({
       }}
     >
       <div className="space-y-4">
+        {suggestion && (
+          <Text variant="secondary" className="text-sm block text-[#2ea8db]">
+            Suggested from est. 1RM ({suggestion.basedOn.reps} reps @{' '}
+            {Math.round(suggestion.basedOn.weight * 10) / 10} {suggestion.unit}
+            ): {suggestion.suggestedValue} {suggestion.unit}
+          </Text>
+        )}
         <Text variant="secondary" className="text-sm block">
           Enter your current 1RM or working max. It will be used for
           percentage-based prescriptions. Manual values are not overwritten by
@@ -117,6 +173,7 @@ export function SetWorkingMaxModal({
             </select>
           </div>
         </div>
+        <WorkingMaxHistoryList history={history} loading={historyLoading} />
       </div>
     </Modal>
   )
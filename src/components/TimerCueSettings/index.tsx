@@ -0,0 +1,52 @@
+import type { TimerCueSettings as TimerCueSettingsValue } from '@/lib/timer-cues'
+
+export interface TimerCueSettingsProps {
+  settings: TimerCueSettingsValue
+  onChange: (patch: Partial<TimerCueSettingsValue>) => void
+}
+
+const TOGGLES: Array<{ key: keyof TimerCueSettingsValue; label: string }> = [
+  { key: 'beeps', label: 'Beeps' },
+  { key: 'voice', label: 'Voice' },
+  { key: 'vibration', label: 'Vibrate' },
+  { key: 'keepAwake', label: 'Keep screen on' },
+]
+
+/** Collapsible cue preferences shown under workout and conditioning timers */
+export function TimerCueSettings({
+  settings,
+  onChange,
+}: Readonly<TimerCueSettingsProps>) {
+  return (
+    <details className="mt-3 text-xs text-gray-600">
+      <summary className="cursor-pointer select-none">Timer cues</summary>
+      <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-2">
+        {TOGGLES.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-1.5">
+            <input
+              type="checkbox"
+              checked={Boolean(settings[key])}
+              onChange={e => onChange({ [key]: e.target.checked })}
+            />
+            {label}
+          </label>
+        ))}
+        <label className="flex items-center gap-1.5">
+          Count down from
+          <select
+            value={settings.countdownFrom}
+            onChange={e => onChange({ countdownFrom: Number(e.target.value) })}
+            className="border border-gray-200 rounded px-1.5 py-0.5"
+            disabled={!settings.beeps}
+          >
+            {[0, 3, 5, 10].map(n => (
+              <option key={n} value={n}>
+                {n === 0 ? 'off' : `${n}s`}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </details>
+  )
+}
@@ -0,0 +1,153 @@
+import { useMemo, useState } from 'react'
+import { Text } from '@/components/Text'
+import { Button } from '@/components/Button'
+import type { SetLog, WorkingMaxHistoryEntry } from '@/types/train'
+import {
+  E1RM_METHOD_LABELS,
+  suggestWorkingMaxes,
+  type E1rmMethod,
+  type WorkingMaxSuggestion,
+} from '@/utils/e1rm'
+
+export interface WorkingMaxSuggestionsProps {
+  setLogs: SetLog[]
+  /** Current working max per exercise id */
+  currentMaxes: Record<number, { value: number; unit: 'lb' | 'kg' }>
+  onAccept: (suggestion: WorkingMaxSuggestion) => void
+  /** Exercise ids already accepted in this view */
+  acceptedIds?: number[]
+  acceptLabel?: string
+  busy?: boolean
+}
+
+const formatBasedOn = (s: WorkingMaxSuggestion) =>
+  `${Math.round(s.basedOn.weight * 10) / 10} ${s.unit} × ${s.basedOn.reps}${
+    s.basedOn.rpe != null ? ` @ RPE ${s.basedOn.rpe}` : ''
+  }`
+
+/**
+ * e1RM: proposed working max updates from a session's set logs
+ *
+ * Shown in the athlete session summary and the coach session drill-down.
+ */
+export function WorkingMaxSuggestions({
+  setLogs,
+  currentMaxes,
+  onAccept,
+  acceptedIds = [],
+  acceptLabel = 'Accept',
+  busy,
+}: Readonly<WorkingMaxSuggestionsProps>) {
+  const [method, setMethod] = useState<E1rmMethod>('epley')
+  const suggestions = useMemo(
+    () => suggestWorkingMaxes(setLogs, currentMaxes, method),
+    [setLogs, currentMaxes, method]
+  )
+  if (suggestions.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Text variant="default" className="font-medium text-gray-800">
+          Working max suggestions
+        </Text>
+        <select
+          value={method}
+          onChange={e => setMethod(e.target.value as E1rmMethod)}
+          className="border border-gray-200 rounded-lg px-2 py-1 text-xs"
+          aria-label="Estimation method"
+        >
+          {(Object.keys(E1RM_METHOD_LABELS) as E1rmMethod[]).map(key => (
+            <option key={key} value={key}>
+              {E1RM_METHOD_LABELS[key]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <ul className="space-y-1">
+        {suggestions.map(s => {
+          const accepted = acceptedIds.includes(s.exerciseId)
+          return (
+            <li
+              key={s.exerciseId}
+              className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 rounded-lg bg-gray-50 text-sm"
+            >
+              <div className="min-w-0">
+                <span className="font-medium text-gray-800">
+                  {s.exerciseName ?? `Exercise ${s.exerciseId}`}
+                </span>
+                <span className="text-gray-600">
+                  {': '}
+                  {s.currentValue != null ? `${s.currentValue} → ` : ''}
+                  {s.suggestedValue} {s.unit}
+                </span>
+                <span className="block text-xs text-gray-500">
+                  est. 1RM from {formatBasedOn(s)}
+                </span>
+              </div>
+              <Button
+                type="button"
+                variant={accepted ? 'secondary' : 'outline'}
+                size="small"
+                disabled={busy || accepted}
+                onClick={() => onAccept(s)}
+              >
+                {accepted ? 'Accepted' : acceptLabel}
+              </Button>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
+
+export interface WorkingMaxHistoryListProps {
+  history: WorkingMaxHistoryEntry[]
+  loading?: boolean
+}
+
+/** e1RM: accepted working max changes for one exercise, newest first */
+export function WorkingMaxHistoryList({
+  history,
+  loading,
+}: Readonly<WorkingMaxHistoryListProps>) {
+  if (loading) {
+    return (
+      <Text variant="secondary" className="text-xs block">
+        Loading history…
+      </Text>
+    )
+  }
+  if (history.length === 0) return null
+  return (
+    <div className="space-y-1">
+      <Text variant="default" className="text-sm font-medium text-gray-700">
+        History
+      </Text>
+      <ul className="max-h-40 overflow-auto space-y-1 text-xs text-gray-600">
+        {history.map(h => (
+          <li
+            key={h.id}
+            className="flex flex-wrap items-center justify-between gap-2 px-2 py-1 rounded bg-gray-50"
+          >
+            <span>
+              {h.previousValue != null ? `${h.previousValue} → ` : ''}
+              {h.value} {h.unit}
+              <span className="ml-2 text-gray-500">
+                {h.source}
+                {h.changedByRole ? ` · ${h.changedByRole.toLowerCase()}` : ''}
+                {h.estimate
+                  ? ` · ${E1RM_METHOD_LABELS[h.estimate.method]} ${h.estimate.weight}×${h.estimate.reps}`
+                  : ''}
+              </span>
+            </span>
+            <span className="text-gray-400">
+              {new Date(h.createdAt).toLocaleDateString()}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
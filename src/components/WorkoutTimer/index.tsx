@@ -1,10 +1,19 @@
 /**
  * PRD 9.1.5: Timer (workout + rest).
- * Simple countdown timer with presets for workout and rest intervals.
+ * Countdown timer with presets for workout and rest intervals, on the wall-clock timer engine.
  */
-import { useState, useEffect, useRef, useCallback } from 'react'
+import { useEffect, useRef, useCallback, useState } from 'react'
 import { Text } from '@/components/Text'
 import { Button } from '@/components/Button'
+import { TimerCueSettings } from '@/components/TimerCueSettings'
+import { useTimerEngine } from '@/hooks/useTimerEngine'
+import { useTimerCueSettings } from '@/hooks/useTimerCueSettings'
+import {
+  playBeep,
+  primeTimerAudio,
+  speakCue,
+  vibrateCue,
+} from '@/lib/timer-cues'
 
 const PRESETS = [
   { label: '1 min', seconds: 60 },
@@ -22,41 +31,39 @@ function formatTime(seconds: number): string {
 }
 
 export function WorkoutTimer() {
-  const [secondsLeft, setSecondsLeft] = useState<number | null>(null)
-  const [running, setRunning] = useState(false)
-  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  const { settings, update } = useTimerCueSettings()
+  const [totalSeconds, setTotalSeconds] = useState(0)
 
-  const stop = useCallback(() => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current)
-      intervalRef.current = null
-    }
-    setRunning(false)
-    setSecondsLeft(null)
-  }, [])
+  const handleFinish = useCallback(() => {
+    if (settings.beeps) playBeep(true)
+    if (settings.vibration) vibrateCue([200, 100, 200])
+    if (settings.voice) speakCue('time')
+  }, [settings])
+
+  const engine = useTimerEngine({
+    keepAwake: settings.keepAwake,
+    onFinish: handleFinish,
+  })
+  const secondsLeft = Math.max(
+    0,
+    totalSeconds - Math.floor(engine.elapsedMs / 1000)
+  )
+  const lastSecondRef = useRef<number | null>(null)
 
   useEffect(() => {
-    if (!running) return
-    intervalRef.current = setInterval(() => {
-      setSecondsLeft(prev => {
-        if (prev == null || prev <= 1) {
-          if (intervalRef.current) clearInterval(intervalRef.current)
-          intervalRef.current = null
-          setRunning(false)
-          return 0
-        }
-        return prev - 1
-      })
-    }, 1000)
-    return () => {
-      if (intervalRef.current) clearInterval(intervalRef.current)
-    }
-  }, [running])
+    if (!engine.running || engine.paused) return
+    if (lastSecondRef.current === secondsLeft) return
+    lastSecondRef.current = secondsLeft
+    if (secondsLeft <= 0) return
+    if (settings.voice && secondsLeft === 10) speakCue('10 seconds')
+    if (settings.beeps && secondsLeft <= settings.countdownFrom) playBeep()
+  }, [engine.running, engine.paused, secondsLeft, settings])
 
-  const start = (totalSeconds: number) => {
-    if (intervalRef.current) clearInterval(intervalRef.current)
-    setSecondsLeft(totalSeconds)
-    setRunning(true)
+  const start = (seconds: number) => {
+    primeTimerAudio()
+    lastSecondRef.current = seconds
+    setTotalSeconds(seconds)
+    engine.start(seconds * 1000)
   }
 
   return (
@@ -67,12 +74,25 @@ export function WorkoutTimer() {
       >
         Timer
       </Text>
-      {secondsLeft != null && running ? (
+      {engine.running ? (
         <div className="flex flex-wrap items-center gap-3">
           <span className="text-2xl font-mono font-semibold text-[#3AB8ED] tabular-nums">
             {formatTime(secondsLeft)}
           </span>
-          <Button type="button" variant="secondary" size="small" onClick={stop}>
+          <Button
+            type="button"
+            variant="outline"
+            size="small"
+            onClick={engine.paused ? engine.resume : engine.pause}
+          >
+            {engine.paused ? 'Resume' : 'Pause'}
+          </Button>
+          <Button
+            type="button"
+            variant="secondary"
+            size="small"
+            onClick={engine.reset}
+          >
             Stop
           </Button>
         </div>
@@ -91,6 +111,7 @@ export function WorkoutTimer() {
           ))}
         </div>
       )}
+      <TimerCueSettings settings={settings} onChange={update} />
     </div>
   )
 }
@@ -1,4 +1,5 @@
 import { createContext } from 'react'
+import type { UnitSystem } from '@/types/user'
 
 interface User {
   id: string
@@ -9,6 +10,7 @@ interface User {
   role: string
   rememberMe?: boolean
   profilePicture?: string
+  unitSystem?: UnitSystem
 }
 
 export interface AuthContextValue {
@@ -7,6 +7,7 @@ import {
   registerFcmTokenIfNeeded,
   unregisterFcmToken,
 } from '@/lib/fcm-registration'
+import type { UnitSystem } from '@/types/user'
 
 interface User {
   id: string
@@ -18,6 +19,7 @@ interface User {
   rememberMe?: boolean
   profilePicture?: string
   profileImageUrl?: string // May exist in stored data
+  unitSystem?: UnitSystem
 }
 
 // Initialize user from localStorage
@@ -101,6 +103,7 @@ export function AuthProvider({
           role: profileUser.role,
           rememberMe: profileUser.rememberMe,
           profilePicture: normalizedProfilePicture,
+          unitSystem: profileUser.unitSystem ?? undefined,
         }
 
         console.log('Complete user object:', completeUser)
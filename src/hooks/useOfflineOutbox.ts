@@ -0,0 +1,149 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import {
+  enqueueOutboxEntry,
+  flushOutbox,
+  keepOutboxEntry,
+  listOutboxEntries,
+  removeOutboxEntry,
+  subscribeOutbox,
+  type NewOutboxEntry,
+} from '@/lib/offline-outbox'
+import type { OutboxEntry } from '@/types/train'
+
+/**
+ * Options for useOfflineOutbox hook
+ */
+interface UseOfflineOutboxOptions {
+  /** Only entries for this session date are returned */
+  sessionDate: string | null
+  /** Called after a replay synced at least one entry (e.g. refetch set logs) */
+  onSynced?: () => void
+}
+
+/**
+ * Return type for useOfflineOutbox hook
+ */
+interface UseOfflineOutboxReturn {
+  isOnline: boolean
+  syncing: boolean
+  entries: OutboxEntry[]
+  enqueue: (entry: NewOutboxEntry) => Promise<OutboxEntry>
+  sync: () => Promise<void>
+  /** Replay the outbox; resolves with the entries still queued for the session date */
+  drain: () => Promise<number>
+  /** Conflict: replay the queued entry anyway */
+  keepMine: (entry: OutboxEntry) => Promise<void>
+  /** Conflict/failure: drop the queued entry */
+  discard: (entry: OutboxEntry) => Promise<void>
+}
+
+/**
+ * React hook over the offline outbox for one training session.
+ *
+ * Tracks connectivity, exposes the queued entries for the session date and
+ * replays the outbox whenever the browser comes back online.
+ */
+export const useOfflineOutbox = (
+  options: UseOfflineOutboxOptions
+): UseOfflineOutboxReturn => {
+  const { sessionDate, onSynced } = options
+  const [isOnline, setIsOnline] = useState(() =>
+    typeof navigator === 'undefined' ? true : navigator.onLine
+  )
+  const [syncing, setSyncing] = useState(false)
+  const [allEntries, setAllEntries] = useState<OutboxEntry[]>([])
+  const onSyncedRef = useRef(onSynced)
+
+  useEffect(() => {
+    onSyncedRef.current = onSynced
+  }, [onSynced])
+
+  const sync = useCallback(async () => {
+    if (!navigator.onLine) return
+    setSyncing(true)
+    try {
+      const result = await flushOutbox()
+      if (result.synced > 0) onSyncedRef.current?.()
+    } catch {
+      // IndexedDB unavailable or request failed; entries stay queued
+    } finally {
+      setSyncing(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    const reload = () => {
+      listOutboxEntries()
+        .then(setAllEntries)
+        .catch(() => setAllEntries([]))
+    }
+    const unsubscribe = subscribeOutbox(reload)
+    queueMicrotask(() => {
+      reload()
+      void sync()
+    })
+    return unsubscribe
+  }, [sync])
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true)
+      void sync()
+    }
+    const handleOffline = () => setIsOnline(false)
+    globalThis.addEventListener('online', handleOnline)
+    globalThis.addEventListener('offline', handleOffline)
+    return () => {
+      globalThis.removeEventListener('online', handleOnline)
+      globalThis.removeEventListener('offline', handleOffline)
+    }
+  }, [sync])
+
+  const drain = useCallback(async () => {
+    await sync()
+    if (!sessionDate) return 0
+    try {
+      const left = await listOutboxEntries()
+      return left.filter(e => e.sessionDate === sessionDate).length
+    } catch {
+      return 0
+    }
+  }, [sync, sessionDate])
+
+  const enqueue = useCallback(
+    (entry: NewOutboxEntry) => enqueueOutboxEntry(entry),
+    []
+  )
+
+  const keepMine = useCallback(
+    async (entry: OutboxEntry) => {
+      await keepOutboxEntry(entry)
+      await sync()
+    },
+    [sync]
+  )
+
+  const discard = useCallback(
+    async (entry: OutboxEntry) => {
+      if (entry.seq != null) await removeOutboxEntry(entry.seq)
+      // Later entries for the same session were waiting on this one
+      await sync()
+    },
+    [sync]
+  )
+
+  const entries = sessionDate
+    ? allEntries.filter(e => e.sessionDate === sessionDate)
+    : []
+
+  return {
+    isOnline,
+    syncing,
+    entries,
+    enqueue,
+    sync,
+    drain,
+    keepMine,
+    discard,
+  }
+}
@@ -0,0 +1,20 @@
+import { useSyncExternalStore } from 'react'
+import type {
+  NormalizedProgram,
+  ProgramEditorStore,
+} from '@/utils/programEditorStore'
+
+/**
+ * Subscribe to one slice of the program editor store
+ *
+ * The component re-renders only when the selected value changes identity, so
+ * selectors should return store entities (or values cached per entity)
+ * rather than build new objects.
+ */
+export const useProgramEditorSelector = <T>(
+  store: ProgramEditorStore,
+  selector: (state: NormalizedProgram) => T
+): T => {
+  const getSelection = () => selector(store.getSnapshot())
+  return useSyncExternalStore(store.subscribe, getSelection, getSelection)
+}
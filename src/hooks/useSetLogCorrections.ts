@@ -0,0 +1,136 @@
+import { useState, useCallback } from 'react'
+import type { AxiosError } from 'axios'
+import { trainService } from '@/api/train.service'
+import type {
+  SessionSummary,
+  SetLog,
+  UpdateSetLogDTO,
+  WorkoutSession,
+} from '@/types/train'
+import { recomputeSessionSummary } from '@/utils/sessionSummary'
+
+/**
+ * Options for useSetLogCorrections hook
+ */
+interface UseSetLogCorrectionsOptions {
+  sessionId?: number | null
+  setLogs: SetLog[]
+  summary?: SessionSummary | null
+  /** Receives the corrected set logs and recomputed summary */
+  onCorrected: (setLogs: SetLog[], summary: SessionSummary | null) => void
+  onSuccess?: (message: string) => void
+  onError?: (message: string) => void
+}
+
+/**
+ * Return type for useSetLogCorrections hook
+ */
+interface UseSetLogCorrectionsReturn {
+  /** Set log id being saved / deleted */
+  busyId: number | null
+  /** Resolves true once saved */
+  updateSetLog: (log: SetLog, body: UpdateSetLogDTO) => Promise<boolean>
+  deleteSetLog: (log: SetLog) => Promise<void>
+}
+
+/**
+ * Edit and delete logged sets for one session
+ *
+ * Uses the set logs and summary the backend returns; when the response has no
+ * summary the previous one is recomputed from the corrected logs, so volume
+ * and PRs never keep counting a typo.
+ */
+export const useSetLogCorrections = (
+  options: UseSetLogCorrectionsOptions
+): UseSetLogCorrectionsReturn => {
+  const { sessionId, setLogs, summary, onCorrected, onSuccess, onError } =
+    options
+  const [busyId, setBusyId] = useState<number | null>(null)
+
+  const apply = useCallback(
+    (session: WorkoutSession | undefined, fallbackLogs: SetLog[]) => {
+      const logs = session?.setLogs ?? fallbackLogs
+      const nextSummary =
+        session?.sessionSummary ??
+        (summary ? recomputeSessionSummary(summary, logs) : null)
+      onCorrected(logs, nextSummary)
+    },
+    [summary, onCorrected]
+  )
+
+  const fail = useCallback(
+    (err: unknown, fallback: string) => {
+      const ax = err as AxiosError<{ message?: string }>
+      onError?.(ax.response?.data?.message || ax.message || fallback)
+    },
+    [onError]
+  )
+
+  const updateSetLog = useCallback(
+    async (log: SetLog, body: UpdateSetLogDTO) => {
+      if (!sessionId) return false
+      setBusyId(log.id)
+      try {
+        const res = await trainService.updateSetLog(sessionId, log.id, body)
+        const { reason, ...values } = body
+        const now = new Date().toISOString()
+        apply(
+          res.data?.data,
+          setLogs.map(l =>
+            l.id === log.id
+              ? {
+                  ...l,
+                  ...values,
+                  isModified: true,
+                  editedAt: now,
+                  edits: [
+                    ...(l.edits ?? []),
+                    {
+                      editedAt: now,
+                      previous: {
+                        reps: l.reps,
+                        weightLb: l.weightLb,
+                        weightKg: l.weightKg,
+                        rpe: l.rpe,
+                      },
+                      reason,
+                    },
+                  ],
+                }
+              : l
+          )
+        )
+        onSuccess?.('Set updated.')
+        return true
+      } catch (err) {
+        fail(err, 'Failed to update set.')
+        return false
+      } finally {
+        setBusyId(null)
+      }
+    },
+    [sessionId, setLogs, apply, fail, onSuccess]
+  )
+
+  const deleteSetLog = useCallback(
+    async (log: SetLog) => {
+      if (!sessionId) return
+      setBusyId(log.id)
+      try {
+        const res = await trainService.deleteSetLog(sessionId, log.id)
+        apply(
+          res.data?.data,
+          setLogs.filter(l => l.id !== log.id)
+        )
+        onSuccess?.('Set deleted.')
+      } catch (err) {
+        fail(err, 'Failed to delete set.')
+      } finally {
+        setBusyId(null)
+      }
+    },
+    [sessionId, setLogs, apply, fail, onSuccess]
+  )
+
+  return { busyId, updateSetLog, deleteSetLog }
+}
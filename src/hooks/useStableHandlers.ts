@@ -0,0 +1,29 @@
+import { useLayoutEffect, useRef, useState } from 'react'
+
+type Handler = (...args: never[]) => unknown
+
+/**
+ * Handler object whose identity never changes, so memoized children that
+ * receive it skip rendering; each call runs the latest handler passed in
+ *
+ * The set of keys must stay the same between renders.
+ */
+export const useStableHandlers = <T extends { [K in keyof T]: Handler }>(
+  handlers: T
+): T => {
+  const latest = useRef(handlers)
+  useLayoutEffect(() => {
+    latest.current = handlers
+  })
+  const [stable] = useState(
+    () =>
+      Object.fromEntries(
+        Object.keys(handlers).map(name => [
+          name,
+          (...args: never[]) =>
+            (latest.current[name as keyof T] as Handler)(...args),
+        ])
+      ) as T
+  )
+  return stable
+}
@@ -0,0 +1,39 @@
+import { useState, useEffect, useCallback } from 'react'
+import {
+  loadTimerCueSettings,
+  saveTimerCueSettings,
+  type TimerCueSettings,
+} from '@/lib/timer-cues'
+
+const CHANGE_EVENT = 'timer-cue-settings-change'
+
+/**
+ * Return type for useTimerCueSettings hook
+ */
+interface UseTimerCueSettingsReturn {
+  settings: TimerCueSettings
+  update: (patch: Partial<TimerCueSettings>) => void
+}
+
+/**
+ * Timer cue preferences (beeps, voice, vibration, wake lock), saved on this
+ * device and shared by every timer on the page.
+ */
+export const useTimerCueSettings = (): UseTimerCueSettingsReturn => {
+  const [settings, setSettings] = useState<TimerCueSettings>(() =>
+    loadTimerCueSettings()
+  )
+
+  useEffect(() => {
+    const onChange = () => setSettings(loadTimerCueSettings())
+    window.addEventListener(CHANGE_EVENT, onChange)
+    return () => window.removeEventListener(CHANGE_EVENT, onChange)
+  }, [])
+
+  const update = useCallback((patch: Partial<TimerCueSettings>) => {
+    saveTimerCueSettings({ ...loadTimerCueSettings(), ...patch })
+    window.dispatchEvent(new Event(CHANGE_EVENT))
+  }, [])
+
+  return { settings, update }
+}
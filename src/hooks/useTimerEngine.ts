@@ -0,0 +1,153 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { holdScreenWakeLock } from '@/lib/timer-cues'
+
+/**
+ * Options for useTimerEngine hook
+ */
+interface UseTimerEngineOptions {
+  /** Keep the screen awake while running */
+  keepAwake?: boolean
+  /** Called once when elapsed time reaches the limit passed to start() */
+  onFinish?: () => void
+}
+
+/**
+ * Return type for useTimerEngine hook
+ */
+interface UseTimerEngineReturn {
+  /** Milliseconds elapsed (excluding pauses), capped at the limit */
+  elapsedMs: number
+  running: boolean
+  paused: boolean
+  /** Reached the limit */
+  finished: boolean
+  /** Start from zero; optional limit in ms */
+  start: (limitMs?: number) => void
+  pause: () => void
+  resume: () => void
+  /** Stop and clear */
+  reset: () => void
+}
+
+type TimerRun = {
+  startedAt: number
+  /** Set while paused */
+  pausedAt: number | null
+  /** Total ms spent paused */
+  pausedMs: number
+  limitMs?: number
+  finished: boolean
+}
+
+const TICK_MS = 200
+
+/**
+ * Wall-clock timer for workout / conditioning / rest timers.
+ *
+ * Elapsed time is derived from Date.now() against the start timestamp rather
+ * than counted per tick, so it does not drift and catches up immediately when
+ * a backgrounded tab or locked phone resumes.
+ */
+export const useTimerEngine = (
+  options: UseTimerEngineOptions = {}
+): UseTimerEngineReturn => {
+  const { keepAwake = false, onFinish } = options
+  const [run, setRun] = useState<TimerRun | null>(null)
+  const [now, setNow] = useState(0)
+  const onFinishRef = useRef(onFinish)
+  const runRef = useRef<TimerRun | null>(null)
+
+  useEffect(() => {
+    onFinishRef.current = onFinish
+  }, [onFinish])
+
+  useEffect(() => {
+    runRef.current = run
+  }, [run])
+
+  const active = run != null && run.pausedAt == null && !run.finished
+
+  useEffect(() => {
+    if (!active) return
+    const tick = () => {
+      const current = Date.now()
+      setNow(current)
+      const r = runRef.current
+      if (!r || r.finished || r.pausedAt != null || r.limitMs == null) return
+      if (current - r.startedAt - r.pausedMs < r.limitMs) return
+      // Mark synchronously so a second tick before re-render cannot finish twice
+      runRef.current = { ...r, finished: true }
+      setRun(runRef.current)
+      onFinishRef.current?.()
+    }
+    const t = setInterval(tick, TICK_MS)
+    const onVisibility = () => {
+      if (document.visibilityState === 'visible') tick()
+    }
+    document.addEventListener('visibilitychange', onVisibility)
+    return () => {
+      clearInterval(t)
+      document.removeEventListener('visibilitychange', onVisibility)
+    }
+  }, [active])
+
+  useEffect(() => {
+    if (!active || !keepAwake) return
+    return holdScreenWakeLock()
+  }, [active, keepAwake])
+
+  const start = useCallback((limitMs?: number) => {
+    const current = Date.now()
+    setNow(current)
+    setRun({
+      startedAt: current,
+      pausedAt: null,
+      pausedMs: 0,
+      limitMs,
+      finished: false,
+    })
+  }, [])
+
+  const pause = useCallback(() => {
+    const current = Date.now()
+    setNow(current)
+    setRun(prev =>
+      prev && prev.pausedAt == null ? { ...prev, pausedAt: current } : prev
+    )
+  }, [])
+
+  const resume = useCallback(() => {
+    const current = Date.now()
+    setNow(current)
+    setRun(prev =>
+      prev && prev.pausedAt != null
+        ? {
+            ...prev,
+            pausedMs: prev.pausedMs + (current - prev.pausedAt),
+            pausedAt: null,
+          }
+        : prev
+    )
+  }, [])
+
+  const reset = useCallback(() => setRun(null), [])
+
+  let elapsedMs = 0
+  if (run) {
+    const until = run.pausedAt ?? now
+    elapsedMs = Math.max(0, until - run.startedAt - run.pausedMs)
+    if (run.limitMs != null) elapsedMs = Math.min(elapsedMs, run.limitMs)
+    if (run.finished && run.limitMs != null) elapsedMs = run.limitMs
+  }
+
+  return {
+    elapsedMs,
+    running: run != null && !run.finished,
+    paused: run?.pausedAt != null,
+    finished: run?.finished ?? false,
+    start,
+    pause,
+    resume,
+    reset,
+  }
+}
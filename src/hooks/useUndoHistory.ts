@@ -0,0 +1,158 @@
+import { useState, useCallback, useRef } from 'react'
+
+/** Most commands kept; older ones fall off the bottom */
+const MAX_COMMANDS = 100
+/** Same-key commands closer together than this merge (typing in a field) */
+const COALESCE_MS = 1000
+
+/**
+ * One undoable change
+ *
+ * undo / redo may be async (compensating server calls); they are never run
+ * concurrently.
+ */
+export interface UndoCommand {
+  /** Shown on the toolbar ("Undo Delete block") */
+  label: string
+  undo: () => void | Promise<void>
+  redo: () => void | Promise<void>
+  /** Consecutive commands with the same key merge into one step */
+  coalesceKey?: string
+  /**
+   * Undo re-creates server records under new ids, so older commands that
+   * captured the old ids are dropped after it runs
+   */
+  undoRecreates?: boolean
+  /** Same for redo: newer commands are dropped after it runs */
+  redoRecreates?: boolean
+}
+
+interface StackEntry extends UndoCommand {
+  at: number
+}
+
+/**
+ * Return type for useUndoHistory hook
+ */
+interface UseUndoHistoryReturn {
+  /** Push a change that has already been applied */
+  record: (command: UndoCommand) => void
+  undo: () => Promise<void>
+  redo: () => Promise<void>
+  clear: () => void
+  canUndo: boolean
+  canRedo: boolean
+  undoLabel: string | null
+  redoLabel: string | null
+  /** An async undo / redo is running */
+  busy: boolean
+}
+
+/**
+ * Command-based undo / redo stack
+ *
+ * Callers record a command after applying a change; undo runs the command's
+ * undo and moves it to the redo stack. Recording a new command clears redo.
+ * When an undo or redo fails the history is cleared, since the remaining
+ * commands may no longer match what is on the server.
+ *
+ * @param onError - Called with the failed command's label and the error
+ */
+export const useUndoHistory = (
+  onError?: (label: string, error: unknown) => void
+): UseUndoHistoryReturn => {
+  const undoStack = useRef<StackEntry[]>([])
+  const redoStack = useRef<StackEntry[]>([])
+  const busyRef = useRef(false)
+  const [busy, setBusy] = useState(false)
+  /** Top of each stack, mirrored into state for the toolbar */
+  const [labels, setLabels] = useState<{
+    undo: string | null
+    redo: string | null
+  }>({ undo: null, redo: null })
+
+  const bump = useCallback(
+    () =>
+      setLabels({
+        undo: undoStack.current.at(-1)?.label ?? null,
+        redo: redoStack.current.at(-1)?.label ?? null,
+      }),
+    []
+  )
+
+  const record = useCallback(
+    (command: UndoCommand) => {
+      const now = Date.now()
+      const top = undoStack.current.at(-1)
+      if (
+        command.coalesceKey != null &&
+        top?.coalesceKey === command.coalesceKey &&
+        now - top.at < COALESCE_MS
+      ) {
+        undoStack.current[undoStack.current.length - 1] = {
+          ...command,
+          undo: top.undo,
+          at: now,
+        }
+      } else {
+        undoStack.current = [
+          ...undoStack.current.slice(-(MAX_COMMANDS - 1)),
+          { ...command, at: now },
+        ]
+      }
+      redoStack.current = []
+      bump()
+    },
+    [bump]
+  )
+
+  const clear = useCallback(() => {
+    undoStack.current = []
+    redoStack.current = []
+    bump()
+  }, [bump])
+
+  const run = useCallback(
+    async (direction: 'undo' | 'redo') => {
+      if (busyRef.current) return
+      const from = direction === 'undo' ? undoStack : redoStack
+      const to = direction === 'undo' ? redoStack : undoStack
+      const command = from.current.at(-1)
+      if (!command) return
+      busyRef.current = true
+      setBusy(true)
+      try {
+        await command[direction]()
+        from.current = from.current.slice(0, -1)
+        to.current = [...to.current, { ...command, at: 0 }]
+        const recreated =
+          direction === 'undo' ? command.undoRecreates : command.redoRecreates
+        if (recreated) from.current = []
+      } catch (error) {
+        undoStack.current = []
+        redoStack.current = []
+        onError?.(command.label, error)
+      } finally {
+        busyRef.current = false
+        setBusy(false)
+        bump()
+      }
+    },
+    [onError, bump]
+  )
+
+  const undo = useCallback(() => run('undo'), [run])
+  const redo = useCallback(() => run('redo'), [run])
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    canUndo: labels.undo != null,
+    canRedo: labels.redo != null,
+    undoLabel: labels.undo,
+    redoLabel: labels.redo,
+    busy,
+  }
+}
@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/contexts/useAuth'
+import { userService } from '@/api/user.service'
+import type { UnitSystem } from '@/types/user'
+import { DEFAULT_UNIT_SYSTEM } from '@/utils/units'
+
+/** Users whose profile was already fetched for a missing unit system (login skips it) */
+const fetchedFor = new Set<string>()
+
+/**
+ * Return type for useUnitPreference hook
+ */
+interface UseUnitPreferenceReturn {
+  unitSystem: UnitSystem
+  /** Saves to the profile; rejects when the update fails */
+  setUnitSystem: (next: UnitSystem) => Promise<void>
+  saving: boolean
+}
+
+/**
+ * The athlete's unit system (imperial / metric), stored in the profile
+ *
+ * Read from the auth user; when the user object predates the preference
+ * (fresh login) the profile is fetched once to fill it in.
+ */
+export const useUnitPreference = (): UseUnitPreferenceReturn => {
+  const { user, login } = useAuth()
+  const [saving, setSaving] = useState(false)
+  const unitSystem = user?.unitSystem ?? DEFAULT_UNIT_SYSTEM
+
+  useEffect(() => {
+    if (!user || user.unitSystem || fetchedFor.has(user.id)) return
+    fetchedFor.add(user.id)
+    userService
+      .getProfile()
+      .then(res => {
+        const next = res.data?.data?.unitSystem
+        const token = localStorage.getItem('accessToken')
+        if (next && token) login(token, { ...user, unitSystem: next })
+      })
+      .catch(() => {})
+  }, [user, login])
+
+  const setUnitSystem = useCallback(
+    async (next: UnitSystem) => {
+      setSaving(true)
+      try {
+        await userService.updateProfile({ unitSystem: next })
+        const token = localStorage.getItem('accessToken')
+        if (token && user) login(token, { ...user, unitSystem: next })
+      } finally {
+        setSaving(false)
+      }
+    },
+    [user, login]
+  )
+
+  return { unitSystem, setUnitSystem, saving }
+}
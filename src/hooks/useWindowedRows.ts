@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { RefObject } from 'react'
+
+interface WindowedRowsOptions {
+  /** Row height used until rendered rows have been measured */
+  estimatedRowHeight: number
+  /** Rows rendered above and below the visible ones */
+  overscan?: number
+  /** Lists up to this length render every row */
+  minCount?: number
+}
+
+/**
+ * Return type for useWindowedRows hook
+ */
+interface UseWindowedRowsReturn {
+  /** First rendered row */
+  start: number
+  /** One past the last rendered row */
+  end: number
+  /** Space standing in for the rows above / below the rendered ones */
+  paddingTop: number
+  paddingBottom: number
+  /** Render the row and scroll it into view */
+  scrollToIndex: (index: number) => void
+}
+
+/**
+ * Render only the rows of a long list that are on screen
+ *
+ * Rows stay in normal page flow (a table body keeps its column layout); the
+ * rows outside the window are replaced by padding of the measured average row
+ * height. Visibility follows the viewport, so it works whichever ancestor
+ * scrolls. Rendered rows must carry `data-virtual-row={index}`.
+ *
+ * @param bodyRef - Element whose children are the rows
+ */
+export const useWindowedRows = (
+  bodyRef: RefObject<HTMLElement | null>,
+  count: number,
+  { estimatedRowHeight, overscan = 3, minCount = 12 }: WindowedRowsOptions
+): UseWindowedRowsReturn => {
+  const windowed = count > minCount
+  const [rowHeight, setRowHeight] = useState(estimatedRowHeight)
+  const [range, setRange] = useState({ start: 0, end: minCount })
+  const pendingScroll = useRef<number | null>(null)
+
+  const update = useCallback(() => {
+    const body = bodyRef.current
+    if (!body) return
+    const rows = body.querySelectorAll<HTMLElement>('[data-virtual-row]')
+    // Rows have no height while the list is hidden; keep the last estimate
+    const measured =
+      (rows.length > 0 &&
+        [...rows].reduce((sum, row) => sum + row.offsetHeight, 0) /
+          rows.length) ||
+      rowHeight
+    const { top } = body.getBoundingClientRect()
+    const first = Math.floor(Math.max(0, -top) / measured)
+    const last = Math.ceil((window.innerHeight - top) / measured)
+    const start = Math.max(0, first - overscan)
+    const end = Math.min(count, Math.max(last, 0) + overscan)
+    setRowHeight(prev => (Math.abs(prev - measured) < 1 ? prev : measured))
+    setRange(prev =>
+      prev.start === start && prev.end === end ? prev : { start, end }
+    )
+  }, [bodyRef, count, overscan, rowHeight])
+
+  useEffect(() => {
+    if (!windowed) return
+    let frame = 0
+    const schedule = () => {
+      cancelAnimationFrame(frame)
+      frame = requestAnimationFrame(update)
+    }
+    schedule()
+    document.addEventListener('scroll', schedule, {
+      capture: true,
+      passive: true,
+    })
+    window.addEventListener('resize', schedule)
+    return () => {
+      cancelAnimationFrame(frame)
+      document.removeEventListener('scroll', schedule, { capture: true })
+      window.removeEventListener('resize', schedule)
+    }
+  }, [windowed, update])
+
+  useEffect(() => {
+    const index = pendingScroll.current
+    if (index == null) return
+    const row = bodyRef.current?.querySelector(`[data-virtual-row="${index}"]`)
+    if (!row) return
+    pendingScroll.current = null
+    row.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  })
+
+  const scrollToIndex = useCallback(
+    (index: number) => {
+      pendingScroll.current = index
+      setRange(prev =>
+        index >= prev.start && index < prev.end
+          ? { ...prev }
+          : {
+              start: Math.max(0, index - overscan),
+              end: Math.min(count, index + overscan + 1),
+            }
+      )
+    },
+    [count, overscan]
+  )
+
+  if (!windowed) {
+    return {
+      start: 0,
+      end: count,
+      paddingTop: 0,
+      paddingBottom: 0,
+      scrollToIndex,
+    }
+  }
+  const start = Math.min(range.start, count)
+  const end = Math.min(Math.max(range.end, start), count)
+  return {
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: (count - end) * rowHeight,
+    scrollToIndex,
+  }
+}
@@ -0,0 +1,329 @@
+import type { AxiosError } from 'axios'
+import { trainService } from '@/api/train.service'
+import type {
+  OutboxEntry,
+  OutboxPayload,
+  CreateSessionDTO,
+  WorkoutSession,
+} from '@/types/train'
+
+/**
+ * Offline outbox for TodaySession writes (set logs, swaps, readiness, completion).
+ *
+ * Entries are persisted in IndexedDB so they survive reloads, replayed in the
+ * order they were queued, and sent with an Idempotency-Key so a replay that
+ * already reached the server is not applied twice.
+ */
+
+const DB_NAME = 'ma-offline'
+const DB_VERSION = 1
+const STORE = 'outbox'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+let flushPromise: Promise<FlushResult> | null = null
+const listeners = new Set<() => void>()
+
+export interface FlushResult {
+  synced: number
+  remaining: number
+}
+
+export type NewOutboxEntry = OutboxPayload & {
+  sessionDate: string
+  sessionId: number | null
+  createSession?: CreateSessionDTO
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+  dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION)
+    req.onupgradeneeded = () => {
+      const db = req.result
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: 'seq', autoIncrement: true })
+      }
+    }
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => {
+      dbPromise = null
+      reject(req.error)
+    }
+  })
+  return dbPromise
+}
+
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const req = fn(db.transaction(STORE, mode).objectStore(STORE))
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+function notify() {
+  listeners.forEach(listener => listener())
+}
+
+/** Random key per queued write; falls back when crypto.randomUUID is unavailable (non-HTTPS) */
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID()
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`
+}
+
+/** True when the request never got a response (offline, DNS, timeout) */
+export function isNetworkError(err: unknown): boolean {
+  const ax = err as AxiosError
+  return !!ax && ax.isAxiosError === true && !ax.response
+}
+
+/** Subscribe to outbox changes. Returns unsubscribe. */
+export function subscribeOutbox(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/** All queued entries, oldest first */
+export async function listOutboxEntries(): Promise<OutboxEntry[]> {
+  const rows = await runRequest<OutboxEntry[]>('readonly', store =>
+    store.getAll()
+  )
+  return rows.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0))
+}
+
+export async function enqueueOutboxEntry(
+  entry: NewOutboxEntry
+): Promise<OutboxEntry> {
+  const record = {
+    ...entry,
+    idempotencyKey: createIdempotencyKey(),
+    status: 'pending',
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+  } as OutboxEntry
+  const seq = await runRequest<IDBValidKey>('readwrite', store =>
+    store.add(record)
+  )
+  notify()
+  return { ...record, seq: Number(seq) }
+}
+
+export async function updateOutboxEntry(entry: OutboxEntry): Promise<void> {
+  await runRequest('readwrite', store => store.put(entry))
+  notify()
+}
+
+export async function removeOutboxEntry(seq: number): Promise<void> {
+  await runRequest('readwrite', store => store.delete(seq))
+  notify()
+}
+
+/** Conflict resolution: replay the athlete's entry anyway */
+export async function keepOutboxEntry(entry: OutboxEntry): Promise<void> {
+  await updateOutboxEntry({
+    ...entry,
+    status: 'pending',
+    forceReplay: true,
+    lastError: undefined,
+  })
+}
+
+function describeError(err: unknown): string {
+  const ax = err as AxiosError<{ message?: string }>
+  return ax.response?.data?.message || ax.message || 'Sync failed.'
+}
+
+/**
+ * Returns a conflict message when the server session no longer accepts this
+ * entry as-is, or 'already-applied' when replaying would be a no-op.
+ */
+function detectConflict(
+  entry: OutboxEntry,
+  session: WorkoutSession | undefined
+): string | 'already-applied' | null {
+  if (!session || entry.forceReplay) return null
+  const closed = session.status === 'completed' || session.status === 'skipped'
+  if (entry.kind === 'complete_session') {
+    return closed ? 'already-applied' : null
+  }
+  if (entry.kind === 'readiness' || entry.kind === 'conditioning_result') {
+    return null
+  }
+  if (closed) {
+    return `Session was marked ${session.status} on another device.`
+  }
+  if (entry.kind === 'log_set') {
+    const queuedAt = new Date(entry.createdAt).getTime()
+    // warm-ups number their sets separately from working sets
+    const setType = entry.body.setType ?? 'working'
+    const newer = (session.setLogs ?? []).find(
+      log =>
+        (log.exerciseKey ?? log.exerciseId) === entry.body.exerciseKey &&
+        (log.setType ?? 'working') === setType &&
+        log.setIndex === entry.body.setIndex &&
+        log.completedAt != null &&
+        new Date(log.completedAt).getTime() > queuedAt
+    )
+    if (newer) {
+      const load =
+        newer.weightKg != null
+          ? ` @ ${newer.weightKg} kg`
+          : newer.weightLb != null
+            ? ` @ ${newer.weightLb} lb`
+            : ''
+      const label = setType === 'warmup' ? 'Warm-up' : 'Set'
+      return `${label} ${entry.body.setIndex} was logged on another device (${newer.reps ?? '—'} reps${load}).`
+    }
+  }
+  if (entry.kind === 'swap') {
+    const swapped = (session.exerciseSwaps ?? []).find(
+      s => s.originalExerciseId === entry.body.originalExerciseId
+    )
+    if (swapped && swapped.newExerciseId !== entry.body.newExerciseId) {
+      return `Exercise was swapped to ${swapped.newExercise?.name ?? 'another exercise'} on another device.`
+    }
+  }
+  return null
+}
+
+async function send(entry: OutboxEntry, sessionId: number): Promise<void> {
+  switch (entry.kind) {
+    case 'log_set':
+      await trainService.logSet(sessionId, entry.body, entry.idempotencyKey)
+      return
+    case 'swap':
+      await trainService.swapExercise(
+        sessionId,
+        entry.body,
+        entry.idempotencyKey
+      )
+      return
+    case 'readiness':
+      await trainService.submitReadiness(
+        { ...entry.body, workoutSessionId: sessionId },
+        entry.idempotencyKey
+      )
+      return
+    case 'complete_session':
+      await trainService.updateSession(
+        sessionId,
+        entry.body,
+        entry.idempotencyKey
+      )
+      return
+    case 'conditioning_result':
+      await trainService.logConditioningResult(
+        sessionId,
+        entry.body,
+        entry.idempotencyKey
+      )
+      return
+  }
+}
+
+async function replay(): Promise<FlushResult> {
+  const entries = await listOutboxEntries()
+  const sessionIdsByDate = new Map<string, number>()
+  const sessions = new Map<number, WorkoutSession | undefined>()
+  /** Dates with an unresolved entry: later entries wait so order is preserved */
+  const blockedDates = new Set<string>()
+  let synced = 0
+
+  for (const entry of entries) {
+    if (entry.status === 'conflict' || entry.status === 'failed') {
+      blockedDates.add(entry.sessionDate)
+      continue
+    }
+    if (blockedDates.has(entry.sessionDate)) continue
+
+    try {
+      let sessionId =
+        entry.sessionId ?? sessionIdsByDate.get(entry.sessionDate) ?? null
+      if (sessionId == null && entry.createSession) {
+        const res = await trainService.createOrGetSession(
+          entry.createSession,
+          `${entry.idempotencyKey}:session`
+        )
+        sessionId = res.data?.data?.id ?? null
+      }
+      if (sessionId == null) {
+        await updateOutboxEntry({
+          ...entry,
+          status: 'failed',
+          lastError: 'No session to sync to.',
+        })
+        blockedDates.add(entry.sessionDate)
+        continue
+      }
+      sessionIdsByDate.set(entry.sessionDate, sessionId)
+
+      if (!sessions.has(sessionId)) {
+        const res = await trainService.getSession(sessionId)
+        sessions.set(sessionId, res.data?.data)
+      }
+      const conflict = detectConflict(entry, sessions.get(sessionId))
+      if (conflict === 'already-applied') {
+        await removeOutboxEntry(entry.seq as number)
+        synced += 1
+        continue
+      }
+      if (conflict) {
+        await updateOutboxEntry({
+          ...entry,
+          sessionId,
+          status: 'conflict',
+          lastError: conflict,
+        })
+        blockedDates.add(entry.sessionDate)
+        continue
+      }
+
+      await updateOutboxEntry({ ...entry, sessionId, status: 'syncing' })
+      await send(entry, sessionId)
+      await removeOutboxEntry(entry.seq as number)
+      // Session state changed; re-read before checking the next entry
+      sessions.delete(sessionId)
+      synced += 1
+    } catch (err) {
+      const status = (err as AxiosError).response?.status
+      if (isNetworkError(err) || (status != null && status >= 500)) {
+        // Still offline or server unavailable: keep order, try again later
+        await updateOutboxEntry({
+          ...entry,
+          status: 'pending',
+          attempts: entry.attempts + 1,
+          lastError: describeError(err),
+        })
+        break
+      }
+      await updateOutboxEntry({
+        ...entry,
+        status: status === 409 ? 'conflict' : 'failed',
+        attempts: entry.attempts + 1,
+        lastError: describeError(err),
+      })
+      blockedDates.add(entry.sessionDate)
+    }
+  }
+
+  const remaining = (await listOutboxEntries()).length
+  return { synced, remaining }
+}
+
+/** Replay queued entries. Concurrent calls share the same run. */
+export function flushOutbox(): Promise<FlushResult> {
+  if (!flushPromise) {
+    flushPromise = replay().finally(() => {
+      flushPromise = null
+    })
+  }
+  return flushPromise
+}
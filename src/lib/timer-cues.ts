@@ -0,0 +1,133 @@
+/**
+ * Timer cues: countdown beeps (Web Audio), spoken cues (speech synthesis),
+ * vibration and a screen wake lock. Every cue degrades silently where the
+ * browser does not support it.
+ */
+
+const SETTINGS_KEY = 'timerCueSettings'
+
+export interface TimerCueSettings {
+  /** Beep on the last seconds of each countdown */
+  beeps: boolean
+  /** Seconds before a phase change to start beeping */
+  countdownFrom: number
+  /** Spoken cues ("10 seconds", "rest", "round 4") */
+  voice: boolean
+  vibration: boolean
+  /** Keep the screen on while a timer runs */
+  keepAwake: boolean
+}
+
+export const DEFAULT_TIMER_CUE_SETTINGS: TimerCueSettings = {
+  beeps: true,
+  countdownFrom: 3,
+  voice: false,
+  vibration: true,
+  keepAwake: true,
+}
+
+export function loadTimerCueSettings(): TimerCueSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY)
+    if (!raw) return DEFAULT_TIMER_CUE_SETTINGS
+    return {
+      ...DEFAULT_TIMER_CUE_SETTINGS,
+      ...(JSON.parse(raw) as Partial<TimerCueSettings>),
+    }
+  } catch {
+    return DEFAULT_TIMER_CUE_SETTINGS
+  }
+}
+
+export function saveTimerCueSettings(settings: TimerCueSettings): void {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+  } catch {
+    // storage unavailable; settings apply until reload
+  }
+}
+
+let audioContext: AudioContext | null = null
+
+/**
+ * Unlock audio from a user gesture (Start button). Mobile browsers only
+ * allow sound after the page has created/resumed an AudioContext in a tap.
+ */
+export function primeTimerAudio(): void {
+  try {
+    audioContext ??= new AudioContext()
+    if (audioContext.state === 'suspended') void audioContext.resume()
+  } catch {
+    audioContext = null
+  }
+}
+
+/**
+ * Short beep; `long` marks the end of a phase
+ */
+export function playBeep(long = false): void {
+  try {
+    audioContext ??= new AudioContext()
+    const ctx = audioContext
+    const osc = ctx.createOscillator()
+    const gain = ctx.createGain()
+    const duration = long ? 0.6 : 0.15
+    osc.frequency.value = long ? 1320 : 880
+    gain.gain.setValueAtTime(0.25, ctx.currentTime)
+    gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + duration)
+    osc.connect(gain).connect(ctx.destination)
+    osc.start()
+    osc.stop(ctx.currentTime + duration)
+  } catch {
+    // no Web Audio
+  }
+}
+
+export function speakCue(text: string): void {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) return
+  window.speechSynthesis.cancel()
+  const utterance = new SpeechSynthesisUtterance(text)
+  utterance.rate = 1.05
+  window.speechSynthesis.speak(utterance)
+}
+
+export function vibrateCue(pattern: number | number[]): void {
+  if (typeof navigator !== 'undefined' && 'vibrate' in navigator) {
+    navigator.vibrate(pattern)
+  }
+}
+
+/**
+ * Hold a screen wake lock. The browser drops the lock when the tab is hidden,
+ * so it is requested again each time the page becomes visible.
+ *
+ * @returns Release function
+ */
+export function holdScreenWakeLock(): () => void {
+  if (typeof navigator === 'undefined' || !('wakeLock' in navigator)) {
+    return () => {}
+  }
+  let sentinel: WakeLockSentinel | null = null
+  let released = false
+  const request = () => {
+    navigator.wakeLock
+      .request('screen')
+      .then(lock => {
+        if (released) void lock.release()
+        else sentinel = lock
+      })
+      .catch(() => {
+        // denied (battery saver, hidden tab); timer still runs
+      })
+  }
+  const onVisibility = () => {
+    if (document.visibilityState === 'visible') request()
+  }
+  request()
+  document.addEventListener('visibilitychange', onVisibility)
+  return () => {
+    released = true
+    document.removeEventListener('visibilitychange', onVisibility)
+    void sentinel?.release()
+  }
+}
@@ -18,11 +18,11 @@ import {
   PARAMETER_2_OPTIONS,
 } from '@/types/exercise'
 import { RichTextEditor } from '@/components/RichTextEditor'
+import { ExerciseImportModal } from '@/components/ExerciseImportModal'
+import { POINTS_OF_PERFORMANCE_MAX_LENGTH } from '@/utils/exerciseImport'
 import { useSnackbar } from '@/components/Snackbar/useSnackbar'
 import { AxiosError } from 'axios'
 
-const POINTS_OF_PERFORMANCE_MAX_LENGTH = 10_000
-
 type FilterStatusValue = 'all' | 'active' | 'inactive'
 const FILTER_STATUS_OPTIONS: { value: FilterStatusValue; label: string }[] = [
   { value: 'all', label: 'All' },
@@ -44,6 +44,7 @@ export default function AdminExercises({
   const [loading, setLoading] = useState(true)
   const [createOpen, setCreateOpen] = useState(false)
   const [editOpen, setEditOpen] = useState(false)
+  const [importOpen, setImportOpen] = useState(false)
   const [editing, setEditing] = useState<Exercise | null>(null)
   const [saving, setSaving] = useState(false)
   const [searchQ, setSearchQ] = useState('')
@@ -866,9 +867,20 @@ export default function AdminExercises({
               : 'Create and manage exercises. Use them when building programs.'}
           </Text>
         </div>
-        <Button type="button" onClick={openCreate}>
-          Create exercise
-        </Button>
+        <div className="flex items-center gap-2">
+          {!isCoach && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setImportOpen(true)}
+            >
+              Import CSV
+            </Button>
+          )}
+          <Button type="button" onClick={openCreate}>
+            Create exercise
+          </Button>
+        </div>
       </div>
 
       {/* Search and filters */}
@@ -983,6 +995,22 @@ export default function AdminExercises({
         </Drawer>
       )}
 
+      {importOpen && (
+        <ExerciseImportModal
+          visible={importOpen}
+          onClose={() => setImportOpen(false)}
+          onImported={created => {
+            if (created > 0) {
+              showSuccess(
+                `${created} exercise${created === 1 ? '' : 's'} imported`
+              )
+            }
+            fetchList()
+            fetchExerciseOptions()
+          }}
+        />
+      )}
+
       {editOpen && editing && (
         <Drawer
           visible={editOpen}
@@ -11,6 +11,9 @@ import { Tooltip } from '@/components/Tooltip'
 import { Dropdown } from '@/components/Dropdown'
 import { Input } from '@/components/Input'
 import { ProgramBuilderForm } from '@/components/Program/ProgramBuilderForm'
+import { ProgramImportModal } from '@/components/Program/ProgramImportModal'
+import { ProgramVersionHistoryModal } from '@/components/Program/ProgramVersionHistoryModal'
+import { AthletePreviewModal } from '@/components/Program/AthletePreviewModal'
 import { adminService } from '@/api/admin.service'
 import { programService } from '@/api/program.service'
 import { goalTypeService } from '@/api/goal-type.service'
@@ -19,6 +22,9 @@ import type { Cycle } from '@/types/cycle'
 import type { Program } from '@/types/program'
 import type { GoalType } from '@/types/goal-type' // used for goalTypes state and filter options
 import type { User } from '@/types/admin'
+import { getCycleTypeFromName } from '@/utils/programHelpers'
+import { recordProgramVersion } from '@/utils/programVersions'
+import { confirmLintForPublish, lintSavedProgram } from '@/utils/programLint'
 import { AxiosError } from 'axios'
 
 /**
@@ -36,6 +42,10 @@ const CyclePrograms = () => {
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false)
   const [isEditModalOpen, setIsEditModalOpen] = useState(false)
   const [editingProgram, setEditingProgram] = useState<Program | null>(null)
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false)
+  /** Program whose version history is open */
+  const [historyProgram, setHistoryProgram] = useState<Program | null>(null)
+  const [previewProgram, setPreviewProgram] = useState<Program | null>(null)
   const [goalTypes, setGoalTypes] = useState<GoalType[]>([])
   const [filterCategory, setFilterCategory] = useState<string>('')
   const [filterSubCategory, setFilterSubCategory] = useState<string>('')
@@ -197,6 +207,18 @@ const CyclePrograms = () => {
     }
   }
 
+  const handlePreviewProgram = async (program: Program) => {
+    try {
+      const response = await programService.getById(program.id)
+      setPreviewProgram((response.data?.data ?? program) as Program)
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>
+      showError(
+        axiosError.response?.data?.message ?? 'Failed to load program details'
+      )
+    }
+  }
+
   const handleCloseEditModal = () => {
     setIsEditModalOpen(false)
     setEditingProgram(null)
@@ -204,7 +226,10 @@ const CyclePrograms = () => {
 
   const handleApproveProgram = async (program: Program) => {
     try {
+      const issues = await lintSavedProgram(program.id)
+      if (!confirmLintForPublish(issues, showError)) return
       await programService.publish(program.id)
+      await recordProgramVersion(program.id, 'publish')
       showSuccess(
         'Program approved and published. It will now appear in the Program Browser.'
       )
@@ -506,6 +531,28 @@ const CyclePrograms = () => {
               >
                 Update
               </button>
+              <button
+                type="button"
+                className="w-full px-3 py-1.5 text-left text-sm hover:bg-gray-100"
+                onClick={e => {
+                  e.stopPropagation()
+                  closeActionsMenu()
+                  setHistoryProgram(openActionsRow)
+                }}
+              >
+                Version history
+              </button>
+              <button
+                type="button"
+                className="w-full px-3 py-1.5 text-left text-sm hover:bg-gray-100"
+                onClick={e => {
+                  e.stopPropagation()
+                  closeActionsMenu()
+                  void handlePreviewProgram(openActionsRow)
+                }}
+              >
+                Preview as athlete
+              </button>
             </div>
           </>,
           document.body
@@ -531,27 +578,37 @@ const CyclePrograms = () => {
               </Text>
             </div>
           </div>
-          {isAmberLimitReached ? (
-            <Tooltip content="Amber program only support default program">
-              <span className="inline-block cursor-not-allowed">
-                <Button
-                  variant="primary"
-                  leftIcon={<Icon name="plus" family="solid" size={16} />}
-                  disabled
-                >
-                  Create Program
-                </Button>
-              </span>
-            </Tooltip>
-          ) : (
+          <div className="flex items-center gap-2">
             <Button
-              variant="primary"
-              leftIcon={<Icon name="plus" family="solid" size={16} />}
-              onClick={handleCreateProgram}
+              variant="outline"
+              leftIcon={<Icon name="upload" family="solid" size={16} />}
+              onClick={() => setIsImportModalOpen(true)}
+              disabled={isAmberLimitReached}
             >
-              Create Program
+              Import JSON
             </Button>
-          )}
+            {isAmberLimitReached ? (
+              <Tooltip content="Amber program only support default program">
+                <span className="inline-block cursor-not-allowed">
+                  <Button
+                    variant="primary"
+                    leftIcon={<Icon name="plus" family="solid" size={16} />}
+                    disabled
+                  >
+                    Create Program
+                  </Button>
+                </span>
+              </Tooltip>
+            ) : (
+              <Button
+                variant="primary"
+                leftIcon={<Icon name="plus" family="solid" size={16} />}
+                onClick={handleCreateProgram}
+              >
+                Create Program
+              </Button>
+            )}
+          </div>
         </div>
 
         {/* Phase 5: List filters */}
@@ -622,6 +679,40 @@ const CyclePrograms = () => {
           />
         </div>
 
+        <ProgramImportModal
+          visible={isImportModalOpen}
+          onClose={() => setIsImportModalOpen(false)}
+          cycleId={cycleId ? Number(cycleId) : undefined}
+          cycleName={cycleName || undefined}
+          cycleType={cycleName ? getCycleTypeFromName(cycleName) : undefined}
+          onImported={program => {
+            setIsImportModalOpen(false)
+            void handleFormSuccess(program)
+          }}
+        />
+
+        {historyProgram && (
+          <ProgramVersionHistoryModal
+            visible
+            onClose={() => setHistoryProgram(null)}
+            program={historyProgram}
+            cycleType={getCycleTypeFromName(cycleName)}
+            onRestored={program => {
+              setHistoryProgram(null)
+              void handleFormSuccess(program)
+            }}
+          />
+        )}
+
+        {previewProgram && (
+          <AthletePreviewModal
+            visible
+            onClose={() => setPreviewProgram(null)}
+            programName={previewProgram.name}
+            structure={{ weeks: previewProgram.programStructure?.weeks ?? [] }}
+          />
+        )}
+
         {/* Create Program Modal */}
         {isCreateModalOpen && (
           <Modal
@@ -10,17 +10,20 @@ import { Tooltip } from '@/components/Tooltip'
 import { Dropdown } from '@/components/Dropdown'
 import { Input } from '@/components/Input'
 import { ProgramBuilderForm } from '@/components/Program/ProgramBuilderForm'
+import { ProgramVersionHistoryModal } from '@/components/Program/ProgramVersionHistoryModal'
 import { adminService } from '@/api/admin.service'
 import { programService } from '@/api/program.service'
 import { goalTypeService } from '@/api/goal-type.service'
 import { useSnackbar } from '@/components/Snackbar/useSnackbar'
-import type { Program } from '@/types/program'
+import type { Program, ProgramCycleType } from '@/types/program'
 import {
   CATEGORY_LABELS,
   type Category,
   type GoalType,
 } from '@/types/goal-type'
 import type { User } from '@/types/admin'
+import { recordProgramVersion } from '@/utils/programVersions'
+import { confirmLintForPublish, lintSavedProgram } from '@/utils/programLint'
 import { AxiosError } from 'axios'
 
 const CYCLE_OPTIONS = [
@@ -47,6 +50,8 @@ const AdminProgramManagement = () => {
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false)
   const [isEditModalOpen, setIsEditModalOpen] = useState(false)
   const [editingProgram, setEditingProgram] = useState<Program | null>(null)
+  /** Program whose version history is open */
+  const [historyProgram, setHistoryProgram] = useState<Program | null>(null)
   const [assignRedOpen, setAssignRedOpen] = useState(false)
   const [assignRedProgram, setAssignRedProgram] = useState<Program | null>(null)
   const [assignRedUserId, setAssignRedUserId] = useState<number | null>(null)
@@ -180,7 +185,10 @@ const AdminProgramManagement = () => {
 
   const handleApproveProgram = async (program: Program) => {
     try {
+      const issues = await lintSavedProgram(program.id)
+      if (!confirmLintForPublish(issues, showError)) return
       await programService.publish(program.id)
+      await recordProgramVersion(program.id, 'publish')
       showSuccess('Program approved and published.')
       fetchPrograms()
     } catch (error) {
@@ -493,6 +501,17 @@ const AdminProgramManagement = () => {
               >
                 Edit
               </button>
+              <button
+                type="button"
+                className="w-full px-3 py-1.5 text-left text-sm hover:bg-gray-100"
+                onClick={e => {
+                  e.stopPropagation()
+                  closeActionsMenu()
+                  setHistoryProgram(openActionsRow)
+                }}
+              >
+                Version history
+              </button>
             </div>
           </>,
           document.body
@@ -583,6 +602,22 @@ const AdminProgramManagement = () => {
           />
         </div>
 
+        {historyProgram && (
+          <ProgramVersionHistoryModal
+            visible
+            onClose={() => setHistoryProgram(null)}
+            program={historyProgram}
+            cycleType={
+              ((historyProgram as { cycleType?: string }).cycleType ??
+                'RED') as ProgramCycleType
+            }
+            onRestored={program => {
+              setHistoryProgram(null)
+              void handleFormSuccess(program)
+            }}
+          />
+        )}
+
         {isCreateModalOpen && (
           <Modal
             visible={isCreateModalOpen}
@@ -9,6 +9,11 @@ import { Card } from '@/components/Card'
 import { coachService } from '@/api/coach.service'
 import { useSnackbar } from '@/components/Snackbar/useSnackbar'
 import type { WorkoutSession, SetLog } from '@/types/train'
+import { WorkingMaxSuggestions } from '@/components/WorkingMaxSuggestions'
+import { ConditioningResultList } from '@/components/ConditioningResult'
+import { CoachSetWorkingMaxModal } from '@/components/CoachSetWorkingMaxModal'
+import type { WorkingMaxSuggestion } from '@/utils/e1rm'
+import { formatReadinessEntry } from '@/utils/readiness'
 import { AxiosError } from 'axios'
 
 type AthleteFromState = {
@@ -79,6 +84,12 @@ export default function CoachAthleteDetail() {
   const [detailLoading, setDetailLoading] = useState(false)
   const [coachComment, setCoachComment] = useState('')
   const [savingComment, setSavingComment] = useState(false)
+  // e1RM: athlete working maxes (for suggestions in session drill-down)
+  const [workingMaxes, setWorkingMaxes] = useState<
+    Record<number, { value: number; unit: 'lb' | 'kg' }>
+  >({})
+  const [reviewSuggestion, setReviewSuggestion] =
+    useState<WorkingMaxSuggestion | null>(null)
   const { showError, showSuccess } = useSnackbar()
 
   const athleteName = athlete
@@ -135,6 +146,29 @@ export default function CoachAthleteDetail() {
     fetchSessions()
   }, [fetchSessions])
 
+  const fetchWorkingMaxes = useCallback(async () => {
+    if (!id || !Number.isFinite(id)) return
+    try {
+      const res = await coachService.getAthleteWorkingMax(id)
+      if (res.data?.statusCode === 200 && res.data.data?.workingMaxes) {
+        setWorkingMaxes(
+          Object.fromEntries(
+            res.data.data.workingMaxes.map(wm => [
+              wm.exerciseId,
+              { value: wm.value, unit: wm.unit === 'kg' ? 'kg' : 'lb' },
+            ])
+          )
+        )
+      }
+    } catch {
+      setWorkingMaxes({})
+    }
+  }, [id])
+
+  useEffect(() => {
+    fetchWorkingMaxes()
+  }, [fetchWorkingMaxes])
+
   const openSessionDetail = async (session: WorkoutSession) => {
     setDetailSession(session)
     setCoachComment(
@@ -414,6 +448,19 @@ export default function CoachAthleteDetail() {
                           }
                         </span>
                       )}
+                      {s.readiness?.adjustmentApplied != null && (
+                        <span
+                          className={
+                            s.readiness.adjustmentApplied
+                              ? 'text-amber-700'
+                              : 'text-gray-500'
+                          }
+                        >
+                          {s.readiness.adjustmentApplied
+                            ? 'Readiness adjusted'
+                            : 'Adjustment declined'}
+                        </span>
+                      )}
                       {(s as { coachResponseComment?: string | null })
                         .coachResponseComment && (
                         <span className="text-[#3AB8ED]">Has response</span>
@@ -495,6 +542,13 @@ export default function CoachAthleteDetail() {
                       </span>
                     </div>
                   )}
+                  {detailSession.readiness && (
+                    <div
+                      className={`rounded px-3 py-2 text-sm ${detailSession.readiness.adjustmentApplied ? 'bg-amber-50 border border-amber-200 text-amber-900' : 'bg-gray-50 text-gray-700'}`}
+                    >
+                      {formatReadinessEntry(detailSession.readiness)}
+                    </div>
+                  )}
                   {detailSession.sessionComments && (
                     <div>
                       <Text
@@ -576,6 +630,18 @@ export default function CoachAthleteDetail() {
                         </div>
                       </div>
                     )}
+                  <ConditioningResultList
+                    results={detailSession.conditioningResults}
+                  />
+                  {detailSession.setLogs &&
+                    detailSession.setLogs.length > 0 && (
+                      <WorkingMaxSuggestions
+                        setLogs={detailSession.setLogs}
+                        currentMaxes={workingMaxes}
+                        onAccept={setReviewSuggestion}
+                        acceptLabel="Review"
+                      />
+                    )}
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
                       Coach response (visible to athlete)
@@ -603,6 +669,23 @@ export default function CoachAthleteDetail() {
           </Card>
         </div>
       )}
+
+      {reviewSuggestion && (
+        <CoachSetWorkingMaxModal
+          visible={!!reviewSuggestion}
+          onClose={() => setReviewSuggestion(null)}
+          onSuccess={fetchWorkingMaxes}
+          athleteId={id}
+          exerciseId={reviewSuggestion.exerciseId}
+          exerciseName={
+            reviewSuggestion.exerciseName ??
+            `Exercise ${reviewSuggestion.exerciseId}`
+          }
+          currentValue={reviewSuggestion.currentValue}
+          currentUnit={reviewSuggestion.unit}
+          suggestion={reviewSuggestion}
+        />
+      )}
     </div>
   )
 }
@@ -9,6 +9,9 @@ import { Modal } from '@/components/Modal'
 import { Tooltip } from '@/components/Tooltip'
 import { Dropdown } from '@/components/Dropdown'
 import { ProgramBuilderForm } from '@/components/Program/ProgramBuilderForm'
+import { ProgramImportModal } from '@/components/Program/ProgramImportModal'
+import { ProgramVersionHistoryModal } from '@/components/Program/ProgramVersionHistoryModal'
+import { ProgramPrintModal } from '@/components/Program/ProgramPrintModal'
 import { adminService } from '@/api/admin.service'
 import { programService } from '@/api/program.service'
 import { goalTypeService } from '@/api/goal-type.service'
@@ -16,6 +19,7 @@ import { useSnackbar } from '@/components/Snackbar/useSnackbar'
 import type { Cycle } from '@/types/cycle'
 import type { Program } from '@/types/program'
 import type { GoalType } from '@/types/goal-type'
+import { getCycleTypeFromName } from '@/utils/programHelpers'
 import { AxiosError } from 'axios'
 
 /**
@@ -37,6 +41,10 @@ const CoachCyclePrograms = () => {
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false)
   const [isEditModalOpen, setIsEditModalOpen] = useState(false)
   const [editingProgram, setEditingProgram] = useState<Program | null>(null)
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false)
+  /** Program whose version history is open */
+  const [historyProgram, setHistoryProgram] = useState<Program | null>(null)
+  const [printProgram, setPrintProgram] = useState<Program | null>(null)
   const { showError, showSuccess } = useSnackbar()
 
   const fetchCycleName = useCallback(async () => {
@@ -158,6 +166,18 @@ const CoachCyclePrograms = () => {
     }
   }
 
+  const handlePrintProgram = async (program: Program) => {
+    try {
+      const response = await programService.getById(program.id)
+      setPrintProgram((response.data?.data ?? program) as Program)
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>
+      showError(
+        axiosError.response?.data?.message ?? 'Failed to load program details'
+      )
+    }
+  }
+
   const handleCloseEditModal = () => {
     setIsEditModalOpen(false)
     setEditingProgram(null)
@@ -260,16 +280,33 @@ const CoachCyclePrograms = () => {
       label: 'Actions',
       sortable: false,
       align: 'center',
-      width: '120px',
+      width: '300px',
       render: (_value, row) => (
-        <Button
-          variant="outline"
-          size="small"
-          onClick={() => handleEditProgram(row)}
-          leftIcon={<Icon name="edit" family="solid" size={14} />}
-        >
-          Update
-        </Button>
+        <div className="flex justify-center gap-2">
+          <Button
+            variant="outline"
+            size="small"
+            onClick={() => handleEditProgram(row)}
+            leftIcon={<Icon name="edit" family="solid" size={14} />}
+          >
+            Update
+          </Button>
+          <Button
+            variant="ghost"
+            size="small"
+            onClick={() => setHistoryProgram(row)}
+          >
+            History
+          </Button>
+          <Button
+            variant="ghost"
+            size="small"
+            onClick={() => handlePrintProgram(row)}
+            leftIcon={<Icon name="print" family="solid" size={14} />}
+          >
+            Print
+          </Button>
+        </div>
       ),
     },
   ]
@@ -296,27 +333,37 @@ const CoachCyclePrograms = () => {
               </Text>
             </div>
           </div>
-          {isAmberLimitReached ? (
-            <Tooltip content="Amber program only support default program">
-              <span className="inline-block cursor-not-allowed">
-                <Button
-                  variant="primary"
-                  leftIcon={<Icon name="plus" family="solid" size={16} />}
-                  disabled
-                >
-                  Create Program
-                </Button>
-              </span>
-            </Tooltip>
-          ) : (
+          <div className="flex items-center gap-2">
             <Button
-              variant="primary"
-              leftIcon={<Icon name="plus" family="solid" size={16} />}
-              onClick={handleCreateProgram}
+              variant="outline"
+              leftIcon={<Icon name="upload" family="solid" size={16} />}
+              onClick={() => setIsImportModalOpen(true)}
+              disabled={isAmberLimitReached}
             >
-              Create Program
+              Import JSON
             </Button>
-          )}
+            {isAmberLimitReached ? (
+              <Tooltip content="Amber program only support default program">
+                <span className="inline-block cursor-not-allowed">
+                  <Button
+                    variant="primary"
+                    leftIcon={<Icon name="plus" family="solid" size={16} />}
+                    disabled
+                  >
+                    Create Program
+                  </Button>
+                </span>
+              </Tooltip>
+            ) : (
+              <Button
+                variant="primary"
+                leftIcon={<Icon name="plus" family="solid" size={16} />}
+                onClick={handleCreateProgram}
+              >
+                Create Program
+              </Button>
+            )}
+          </div>
         </div>
 
         <div className="flex flex-wrap items-end gap-3 mb-4">
@@ -385,6 +432,40 @@ const CoachCyclePrograms = () => {
           />
         </div>
 
+        <ProgramImportModal
+          visible={isImportModalOpen}
+          onClose={() => setIsImportModalOpen(false)}
+          cycleId={cycleId ? Number(cycleId) : undefined}
+          cycleName={cycleName || undefined}
+          cycleType={cycleName ? getCycleTypeFromName(cycleName) : undefined}
+          onImported={program => {
+            setIsImportModalOpen(false)
+            void handleFormSuccess(program)
+          }}
+        />
+
+        {historyProgram && (
+          <ProgramVersionHistoryModal
+            visible
+            onClose={() => setHistoryProgram(null)}
+            program={historyProgram}
+            cycleType={getCycleTypeFromName(cycleName)}
+            onRestored={program => {
+              setHistoryProgram(null)
+              void handleFormSuccess(program)
+            }}
+          />
+        )}
+
+        {printProgram && (
+          <ProgramPrintModal
+            visible
+            onClose={() => setPrintProgram(null)}
+            programName={printProgram.name}
+            structure={{ weeks: printProgram.programStructure?.weeks ?? [] }}
+          />
+        )}
+
         {isCreateModalOpen && (
           <Modal
             visible={isCreateModalOpen}
@@ -18,9 +18,10 @@ import {
 } from '@/api/notifications.service'
 import { useSnackbar } from '@/components/Snackbar/useSnackbar'
 import { useProfilePictureUpload } from '@/hooks/useProfilePictureUpload'
+import { useUnitPreference } from '@/hooks/useUnitPreference'
 import { getProfilePicture } from '@/utils/profilePicture'
 import type { ChangePasswordProps } from '@/types/auth'
-import type { UpdateProfileProps } from '@/types/user'
+import type { UnitSystem, UpdateProfileProps } from '@/types/user'
 import { AxiosError } from 'axios'
 import { useState, useEffect, useRef } from 'react'
 import { cn } from '@/utils/cn'
@@ -38,6 +39,11 @@ const Profile = () => {
   const [notificationPrefsLoading, setNotificationPrefsLoading] =
     useState(false)
   const [notificationPrefsSaving, setNotificationPrefsSaving] = useState(false)
+  const {
+    unitSystem,
+    setUnitSystem,
+    saving: unitSystemSaving,
+  } = useUnitPreference()
 
   // Initialize preview image from user's profile picture
   useEffect(() => {
@@ -86,6 +92,7 @@ const Profile = () => {
           lastName: updatedUser.lastName,
           role: updatedUser.role,
           profilePicture: normalizedProfilePicture,
+          unitSystem: user?.unitSystem,
         })
       }
 
@@ -165,6 +172,16 @@ const Profile = () => {
       .finally(() => setNotificationPrefsSaving(false))
   }
 
+  const handleUnitSystemChange = async (next: UnitSystem) => {
+    try {
+      await setUnitSystem(next)
+      showSuccess('Units updated.')
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message: string }>
+      showError(axiosError.response?.data?.message || 'Failed to save units.')
+    }
+  }
+
   const onSubmitChangePassword = async (data: ChangePasswordProps) => {
     setLoading(true)
 
@@ -209,6 +226,7 @@ const Profile = () => {
               updatedUser.profileImageUrl ||
               updatedUser.profilePicture ||
               user?.profilePicture,
+            unitSystem: user?.unitSystem,
           })
         }
       }
@@ -418,6 +436,31 @@ const Profile = () => {
         </form>
       </div>
 
+      {/* Units Section */}
+      <div>
+        <Text
+          as="h2"
+          variant="secondary"
+          className="text-xl font-semibold mb-4"
+        >
+          Units
+        </Text>
+        <Text variant="muted" className="mb-3 block">
+          Weights, hydration, bodyweight and test distances are entered and
+          shown in this system.
+        </Text>
+        <select
+          aria-label="Unit system"
+          value={unitSystem}
+          disabled={unitSystemSaving}
+          onChange={e => handleUnitSystemChange(e.target.value as UnitSystem)}
+          className="border border-gray-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-[#3AB8ED]/30 focus:border-[#3AB8ED] outline-none"
+        >
+          <option value="imperial">Imperial (lb, oz, mi)</option>
+          <option value="metric">Metric (kg, ml, km)</option>
+        </select>
+      </div>
+
       {/* User Details Section */}
       <div>
         <Text
@@ -5,6 +5,8 @@ import { Card } from '@/components/Card'
 import { Spinner } from '@/components/Spinner'
 import { analyticsService } from '@/api/analytics.service'
 import { useSnackbar } from '@/components/Snackbar/useSnackbar'
+import { useUnitPreference } from '@/hooks/useUnitPreference'
+import { displayBodyweight, formatTonnage, weightUnitFor } from '@/utils/units'
 import type { AxiosError } from 'axios'
 
 function toReactNode(value: unknown): React.ReactNode {
@@ -13,6 +15,7 @@ function toReactNode(value: unknown): React.ReactNode {
 
 export default function AnalyticsPage() {
   const { showError } = useSnackbar()
+  const { unitSystem } = useUnitPreference()
   const [loading, setLoading] = useState(true)
   const [compliance, setCompliance] = useState<Record<string, unknown> | null>(
     null
@@ -188,8 +191,9 @@ export default function AnalyticsPage() {
           <ul className="space-y-1 text-sm">
             {volume.byWeek.slice(-8).map((w, i) => (
               <li key={i}>
-                {w.weekStart}: {w.tonnageKg} kg
-                {w.rollingAvgKg != null && ` (4-wk avg: ${w.rollingAvgKg} kg)`}
+                {w.weekStart}: {formatTonnage(w.tonnageKg, unitSystem)}
+                {w.rollingAvgKg != null &&
+                  ` (4-wk avg: ${formatTonnage(w.rollingAvgKg, unitSystem)})`}
               </li>
             ))}
           </ul>
@@ -226,7 +230,8 @@ export default function AnalyticsPage() {
           <ul className="space-y-1 text-sm">
             {bodyweight.entries.slice(-14).map((e, i) => (
               <li key={i}>
-                {e.date}: {e.valueKg} kg
+                {e.date}: {displayBodyweight(e.valueKg, unitSystem)}{' '}
+                {weightUnitFor(unitSystem)}
               </li>
             ))}
           </ul>
@@ -6,8 +6,15 @@ import { Card } from '@/components/Card'
 import { Button } from '@/components/Button'
 import { Spinner } from '@/components/Spinner'
 import { testsService } from '@/api/tests.service'
-import type { Test, TestLog } from '@/types/tests'
+import type { Test, TestEvent, TestLog } from '@/types/tests'
 import { useSnackbar } from '@/components/Snackbar/useSnackbar'
+import { useUnitPreference } from '@/hooks/useUnitPreference'
+import type { UnitSystem } from '@/types/user'
+import {
+  testEventDisplayUnit,
+  testScoreFromEventUnit,
+  testScoreToEventUnit,
+} from '@/utils/units'
 import type { AxiosError } from 'axios'
 
 const SCORING_LABELS: Record<string, string> = {
@@ -16,9 +23,26 @@ const SCORING_LABELS: Record<string, string> = {
   TIME_BASED: 'Time-based',
 }
 
+/** History cell: "Run: 1.5 mi" with the score in the athlete's units */
+function formatEventScore(
+  key: string,
+  value: number | string,
+  events: TestEvent[] | undefined,
+  unitSystem: UnitSystem
+): string {
+  const event = events?.find(e => String(e.id) === key)
+  if (!event) return `${key}: ${value}`
+  const unit = testEventDisplayUnit(event.unit, unitSystem)
+  if (typeof value !== 'number' || unit == null) {
+    return `${event.name}: ${value}`
+  }
+  return `${event.name}: ${testScoreFromEventUnit(value, event.unit, unitSystem)} ${unit}`
+}
+
 export default function TestsPage() {
   const navigate = useNavigate()
   const { showSuccess, showError } = useSnackbar()
+  const { unitSystem } = useUnitPreference()
   const [tests, setTests] = useState<Test[]>([])
   const [history, setHistory] = useState<TestLog[]>([])
   const [loading, setLoading] = useState(true)
@@ -64,7 +88,10 @@ export default function TestsPage() {
     for (const [eid, v] of Object.entries(eventScores)) {
       if (v === '') continue
       const num = Number(v)
-      scores[eid] = Number.isNaN(num) ? v : num
+      const event = selectedTest.events.find(e => String(e.id) === eid)
+      scores[eid] = Number.isNaN(num)
+        ? v
+        : testScoreToEventUnit(num, event?.unit, unitSystem)
     }
     if (Object.keys(scores).length === 0) {
       showError('Enter at least one event score')
@@ -160,7 +187,7 @@ export default function TestsPage() {
             {selectedTest.events?.map(e => (
               <div key={e.id}>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  {e.name} ({e.unit})
+                  {`${e.name} (${testEventDisplayUnit(e.unit, unitSystem) ?? e.unit})`}
                 </label>
                 <input
                   type="text"
@@ -260,7 +287,9 @@ export default function TestsPage() {
                     typeof log.eventScores === 'object' &&
                     log.eventScores !== null
                       ? Object.entries(log.eventScores)
-                          .map(([k, v]) => `${k}: ${v}`)
+                          .map(([k, v]) =>
+                            formatEventScore(k, v, log.test?.events, unitSystem)
+                          )
                           .join(', ')
                       : ''
                   return (
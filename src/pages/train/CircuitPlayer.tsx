@@ -0,0 +1,386 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Text } from '@/components/Text'
+import { Card } from '@/components/Card'
+import { Button } from '@/components/Button'
+import { useSnackbar } from '@/components/Snackbar/useSnackbar'
+import { trainService } from '@/api/train.service'
+import type { AxiosError } from 'axios'
+import {
+  buildCircuitSteps,
+  getCircuitRounds,
+  type CircuitSection,
+  type CircuitStep,
+} from '@/utils/circuitFlow'
+import {
+  resolveSetsRows,
+  type PrescriptionContext,
+} from '@/utils/setPrescription'
+import { useUnitPreference } from '@/hooks/useUnitPreference'
+import { weightFields, weightUnitFor } from '@/utils/units'
+
+const STORAGE_PREFIX = 'workoutPlayer:circuit:'
+
+/** Weight is in the athlete's unit */
+type SetInput = { reps?: number; weight?: number }
+
+type CircuitProgress = {
+  stepIndex: number
+  /** Epoch ms when the current rest ends (null outside rest steps) */
+  restEndsAt: number | null
+  /** Logged sets keyed by `${round}:${exerciseIndex}` */
+  logged: Record<string, SetInput>
+}
+
+const EMPTY_PROGRESS: CircuitProgress = {
+  stepIndex: 0,
+  restEndsAt: null,
+  logged: {},
+}
+
+function loadProgress(key: string): CircuitProgress {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + key)
+    if (!raw) return EMPTY_PROGRESS
+    const parsed = JSON.parse(raw) as Partial<CircuitProgress>
+    return {
+      stepIndex: Number(parsed.stepIndex) || 0,
+      restEndsAt:
+        typeof parsed.restEndsAt === 'number' ? parsed.restEndsAt : null,
+      logged: parsed.logged ?? {},
+    }
+  } catch {
+    return EMPTY_PROGRESS
+  }
+}
+
+/** Rest end time when entering step `index` at `at`; null for exercise steps */
+function restEndFor(
+  steps: CircuitStep[],
+  index: number,
+  at: number
+): number | null {
+  const next = steps[index]
+  return next?.kind === 'rest' ? at + next.seconds * 1000 : null
+}
+
+function formatClock(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+type CircuitPlayerProps = {
+  section: CircuitSection
+  /** Label prefix for exercises (A → A1, A2) */
+  letter: string
+  /** Unique per session + block; progress is saved under it so the athlete can resume */
+  storageKey: string
+  /** Resolve (or create) the workout session before logging */
+  ensureSessionId: () => Promise<number | null>
+  /** Working max / last set for resolving % and LWP+ rows */
+  contextFor?: (exerciseId: number) => PrescriptionContext
+  disabled?: boolean
+}
+
+/** WorkoutPlayer: step-by-step superset / circuit flow (A1 → A2 → rest → A1 …) */
+export function CircuitPlayer({
+  section,
+  letter,
+  storageKey,
+  ensureSessionId,
+  contextFor,
+  disabled,
+}: CircuitPlayerProps) {
+  const { showError } = useSnackbar()
+  const { unitSystem } = useUnitPreference()
+  const steps = useMemo(() => buildCircuitSteps(section), [section])
+  const rounds = getCircuitRounds(section)
+  const [progress, setProgress] = useState<CircuitProgress>(() =>
+    loadProgress(storageKey)
+  )
+  const [input, setInput] = useState<SetInput>({})
+  const [logging, setLogging] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(
+        STORAGE_PREFIX + storageKey,
+        JSON.stringify(progress)
+      )
+    } catch {
+      // storage unavailable; progress is kept for this page view only
+    }
+  }, [storageKey, progress])
+
+  const step = steps[progress.stepIndex]
+  const done = progress.stepIndex >= steps.length
+
+  /** Move to the next step; entering a rest step starts its countdown */
+  const advance = (logged?: { key: string; value: SetInput }) => {
+    setInput({})
+    setProgress(prev => ({
+      stepIndex: prev.stepIndex + 1,
+      restEndsAt: restEndFor(steps, prev.stepIndex + 1, Date.now()),
+      logged: logged
+        ? { ...prev.logged, [logged.key]: logged.value }
+        : prev.logged,
+    }))
+  }
+
+  const restEndsAt = step?.kind === 'rest' ? progress.restEndsAt : null
+
+  useEffect(() => {
+    if (restEndsAt == null) return
+    const t = setInterval(() => {
+      const current = Date.now()
+      setNow(current)
+      if (current >= restEndsAt) {
+        setProgress(prev =>
+          prev.restEndsAt === restEndsAt
+            ? {
+                ...prev,
+                stepIndex: prev.stepIndex + 1,
+                restEndsAt: restEndFor(steps, prev.stepIndex + 1, current),
+              }
+            : prev
+        )
+      }
+    }, 250)
+    return () => clearInterval(t)
+  }, [restEndsAt, steps])
+
+  const handleLog = async () => {
+    if (step?.kind !== 'exercise') return
+    const ex = section.exercises[step.exerciseIndex]
+    if (!ex) return
+    setLogging(true)
+    try {
+      const sessionId = await ensureSessionId()
+      if (!sessionId) {
+        showError('Start a session first.')
+        return
+      }
+      await trainService.logSet(sessionId, {
+        exerciseKey: String(ex.exerciseId),
+        exerciseName: ex.exercise?.name,
+        exerciseSource: 'main',
+        setIndex: step.round,
+        round: step.round,
+        reps: input.reps,
+        ...(input.weight != null ? weightFields(input.weight, unitSystem) : {}),
+        sectionExerciseId: ex.sectionExerciseId,
+      })
+      advance({ key: `${step.round}:${step.exerciseIndex}`, value: input })
+    } catch (err) {
+      const ax = err as AxiosError<{ message?: string }>
+      showError(ax.response?.data?.message || ax.message || 'Failed to log set')
+    } finally {
+      setLogging(false)
+    }
+  }
+
+  const handleRestart = () => {
+    setInput({})
+    setProgress(EMPTY_PROGRESS)
+  }
+
+  const currentRound = done ? rounds : (step?.round ?? 1)
+  const loggedCount = Object.keys(progress.logged).length
+  const totalSets = rounds * section.exercises.length
+
+  return (
+    <Card className="p-0 overflow-hidden">
+      <div className="px-4 py-3 bg-gray-50 border-b border-gray-200 flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <Text variant="default" className="font-semibold text-gray-900">
+            {section.name ||
+              (section.blockType?.toUpperCase() === 'CIRCUIT'
+                ? 'Circuit'
+                : 'Superset')}
+          </Text>
+          <Text variant="secondary" className="text-xs block">
+            Round {currentRound} of {rounds} · {loggedCount}/{totalSets} sets
+            logged
+          </Text>
+        </div>
+        {(progress.stepIndex > 0 || loggedCount > 0) && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="small"
+            onClick={handleRestart}
+          >
+            Restart block
+          </Button>
+        )}
+      </div>
+
+      <div className="h-1 bg-gray-100">
+        <div
+          className="h-1 bg-[#3AB8ED] transition-all"
+          style={{
+            width: `${steps.length ? (Math.min(progress.stepIndex, steps.length) / steps.length) * 100 : 0}%`,
+          }}
+        />
+      </div>
+
+      <div className="p-4 space-y-4">
+        <ol className="flex flex-wrap gap-2">
+          {section.exercises.map((ex, i) => {
+            const active = step?.kind === 'exercise' && step.exerciseIndex === i
+            const loggedThisRound = progress.logged[`${currentRound}:${i}`]
+            return (
+              <li
+                key={ex.sectionExerciseId ?? i}
+                className={`px-2 py-1 rounded-lg text-xs border ${
+                  active
+                    ? 'bg-[#3AB8ED]/10 border-[#3AB8ED] text-[#2ea8db] font-medium'
+                    : loggedThisRound
+                      ? 'bg-green-50 border-green-200 text-green-800'
+                      : 'bg-white border-gray-200 text-gray-600'
+                }`}
+              >
+                {letter}
+                {i + 1} {ex.exercise?.name ?? `Exercise ${i + 1}`}
+              </li>
+            )
+          })}
+        </ol>
+
+        {done ? (
+          <div className="text-center py-4 space-y-2">
+            <Text variant="default" className="font-medium text-gray-900">
+              Block complete
+            </Text>
+            <Text variant="secondary" className="text-sm block">
+              {loggedCount} of {totalSets} sets logged across {rounds} rounds.
+            </Text>
+          </div>
+        ) : step?.kind === 'rest' ? (
+          <div className="flex flex-wrap items-center justify-between gap-3 p-4 rounded-xl bg-[#3AB8ED]/10 border border-[#3AB8ED]/30">
+            <div>
+              <Text variant="secondary" className="text-xs block">
+                {step.restType === 'round'
+                  ? `Rest before round ${step.round + 1}`
+                  : 'Rest, then next exercise'}
+              </Text>
+              <Text
+                variant="default"
+                className="font-semibold text-2xl text-gray-900 tabular-nums"
+              >
+                {formatClock(
+                  Math.max(
+                    0,
+                    Math.ceil(((progress.restEndsAt ?? now) - now) / 1000)
+                  )
+                )}
+              </Text>
+            </div>
+            <Button
+              type="button"
+              variant="secondary"
+              size="small"
+              onClick={() => advance()}
+            >
+              Skip rest
+            </Button>
+          </div>
+        ) : step?.kind === 'exercise' ? (
+          (() => {
+            const ex = section.exercises[step.exerciseIndex]
+            const context = contextFor?.(ex?.exerciseId ?? 0)
+            const weightUnit = context?.displayUnit ?? weightUnitFor(unitSystem)
+            const row = resolveSetsRows(ex?.setsRows, {
+              ...context,
+              displayUnit: weightUnit,
+            })[step.round - 1]
+            return (
+              <div className="space-y-3">
+                <div>
+                  <Text variant="secondary" className="text-xs block">
+                    Round {step.round} · {letter}
+                    {step.exerciseIndex + 1}
+                  </Text>
+                  <Text
+                    variant="default"
+                    className="font-semibold text-lg text-gray-900"
+                  >
+                    {ex?.exercise?.name ?? `Exercise ${step.exerciseIndex + 1}`}
+                  </Text>
+                  {row && (
+                    <Text variant="secondary" className="text-sm block">
+                      {row.repsLabel} reps · {row.weightLabel}
+                      {row.rpe != null ? ` · RPE ${row.rpe}` : ''}
+                      {row.tempo ? ` · Tempo ${row.tempo}` : ''}
+                    </Text>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-3">
+                  <label className="flex items-center gap-2">
+                    <span className="text-sm text-gray-600">Reps</span>
+                    <input
+                      type="number"
+                      min={0}
+                      placeholder={row?.reps != null ? String(row.reps) : '—'}
+                      className="border border-gray-200 rounded-lg px-3 py-2 w-20 text-sm focus:ring-2 focus:ring-[#3AB8ED]/30 focus:border-[#3AB8ED] outline-none"
+                      value={input.reps ?? ''}
+                      onChange={e =>
+                        setInput(prev => ({
+                          ...prev,
+                          reps: e.target.value
+                            ? Number(e.target.value)
+                            : undefined,
+                        }))
+                      }
+                    />
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <span className="text-sm text-gray-600">
+                      Weight ({weightUnit})
+                    </span>
+                    <input
+                      type="number"
+                      min={0}
+                      placeholder={
+                        row?.weight != null ? String(row.weight) : '—'
+                      }
+                      className="border border-gray-200 rounded-lg px-3 py-2 w-24 text-sm focus:ring-2 focus:ring-[#3AB8ED]/30 focus:border-[#3AB8ED] outline-none"
+                      value={input.weight ?? ''}
+                      onChange={e =>
+                        setInput(prev => ({
+                          ...prev,
+                          weight: e.target.value
+                            ? Number(e.target.value)
+                            : undefined,
+                        }))
+                      }
+                    />
+                  </label>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    type="button"
+                    variant="primary"
+                    size="small"
+                    disabled={disabled || logging}
+                    onClick={handleLog}
+                  >
+                    {logging ? 'Logging…' : 'Log & next'}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="small"
+                    disabled={logging}
+                    onClick={() => advance()}
+                  >
+                    Skip
+                  </Button>
+                </div>
+              </div>
+            )
+          })()
+        ) : null}
+      </div>
+    </Card>
+  )
+}
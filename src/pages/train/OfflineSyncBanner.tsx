@@ -0,0 +1,129 @@
+import { Text } from '@/components/Text'
+import { Button } from '@/components/Button'
+import type { OutboxEntry } from '@/types/train'
+
+const KIND_LABELS: Record<OutboxEntry['kind'], string> = {
+  log_set: 'Set log',
+  swap: 'Exercise swap',
+  readiness: 'Readiness',
+  complete_session: 'Session completion',
+  conditioning_result: 'Conditioning result',
+}
+
+function describeEntry(entry: OutboxEntry): string {
+  if (entry.kind === 'log_set') {
+    const name = entry.body.exerciseName ?? 'Exercise'
+    return `${name} · set ${entry.body.setIndex}`
+  }
+  return KIND_LABELS[entry.kind]
+}
+
+type OfflineSyncBannerProps = {
+  isOnline: boolean
+  syncing: boolean
+  entries: OutboxEntry[]
+  onSync: () => void
+  onKeepMine: (entry: OutboxEntry) => void
+  onDiscard: (entry: OutboxEntry) => void
+}
+
+/** Offline outbox status for TodaySession: connectivity, queued writes, conflicts */
+export function OfflineSyncBanner({
+  isOnline,
+  syncing,
+  entries,
+  onSync,
+  onKeepMine,
+  onDiscard,
+}: OfflineSyncBannerProps) {
+  const unresolved = entries.filter(
+    e => e.status === 'conflict' || e.status === 'failed'
+  )
+  const pendingCount = entries.length - unresolved.length
+  if (isOnline && entries.length === 0) return null
+
+  return (
+    <div
+      className={`rounded-xl border p-4 space-y-3 ${
+        unresolved.length > 0
+          ? 'bg-amber-50 border-amber-200'
+          : 'bg-gray-50 border-gray-200'
+      }`}
+      role="status"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <span
+            className={`w-2 h-2 rounded-full ${isOnline ? 'bg-green-500' : 'bg-gray-400'}`}
+            aria-hidden
+          />
+          <Text variant="default" className="text-sm font-medium">
+            {isOnline ? 'Online' : 'Offline – changes are saved on this device'}
+          </Text>
+          {pendingCount > 0 && (
+            <span className="px-2 py-0.5 rounded-lg bg-white border border-gray-200 text-xs text-gray-700">
+              {pendingCount} pending sync
+            </span>
+          )}
+        </div>
+        {isOnline && pendingCount > 0 && (
+          <Button
+            type="button"
+            variant="secondary"
+            size="small"
+            disabled={syncing}
+            onClick={onSync}
+          >
+            {syncing ? 'Syncing…' : 'Sync now'}
+          </Button>
+        )}
+      </div>
+      {unresolved.length > 0 && (
+        <ul className="space-y-2">
+          {unresolved.map(entry => (
+            <li
+              key={entry.seq ?? entry.idempotencyKey}
+              className="flex flex-wrap items-center justify-between gap-3 bg-white rounded-lg border border-amber-200 px-3 py-2"
+            >
+              <div className="min-w-0">
+                <Text variant="default" className="text-sm font-medium block">
+                  {describeEntry(entry)}
+                  {entry.status === 'conflict'
+                    ? ' – changed on another device'
+                    : ' – not saved'}
+                </Text>
+                {entry.lastError && (
+                  <Text variant="secondary" className="text-xs block">
+                    {entry.lastError}
+                  </Text>
+                )}
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {entry.status === 'conflict' && (
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="small"
+                    disabled={syncing}
+                    onClick={() => onKeepMine(entry)}
+                  >
+                    Keep mine
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="small"
+                  disabled={syncing}
+                  onClick={() => onDiscard(entry)}
+                >
+                  {entry.status === 'conflict' ? 'Use theirs' : 'Discard'}
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,393 @@
+import { useState, useMemo, useEffect } from 'react'
+import { Text } from '@/components/Text'
+import { Card } from '@/components/Card'
+import { Button } from '@/components/Button'
+import {
+  BAR_WEIGHTS,
+  DEFAULT_WARMUP_PERCENTS,
+  PLATE_PRESETS,
+  buildWarmupRamp,
+  calculatePlates,
+  parseWarmupPercents,
+  type PlatePresetKey,
+  type PlateSetup,
+  type PlateUnit,
+  type WarmupSet,
+} from '@/utils/plateCalculator'
+import { convertWeight } from '@/utils/units'
+
+const STORAGE_KEY = 'plateCalculatorSetup'
+
+type StoredSetup = {
+  unit: PlateUnit
+  preset: PlatePresetKey
+  barWeight: number
+  counts: Record<string, number>
+  rampPercents: string
+}
+
+function defaultSetup(unit: PlateUnit): StoredSetup {
+  return {
+    unit,
+    preset: 'standard',
+    barWeight: BAR_WEIGHTS[unit][0],
+    counts: {},
+    rampPercents: DEFAULT_WARMUP_PERCENTS.join(', '),
+  }
+}
+
+function loadSetup(unit: PlateUnit): StoredSetup {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return defaultSetup(unit)
+    const parsed = JSON.parse(raw) as Partial<StoredSetup>
+    if (parsed.unit !== 'lb' && parsed.unit !== 'kg') return defaultSetup(unit)
+    return { ...defaultSetup(parsed.unit), ...parsed } as StoredSetup
+  } catch {
+    return defaultSetup(unit)
+  }
+}
+
+/** Plate colors follow competition convention so the list reads at a glance */
+const PLATE_CLASS: Record<string, string> = {
+  '25': 'bg-red-100 text-red-800 border-red-200',
+  '45': 'bg-blue-100 text-blue-800 border-blue-200',
+  '20': 'bg-blue-100 text-blue-800 border-blue-200',
+  '35': 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  '15': 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  '10': 'bg-green-100 text-green-800 border-green-200',
+}
+
+function PlateChips({ plates, unit }: { plates: number[]; unit: PlateUnit }) {
+  if (plates.length === 0) {
+    return <span className="text-sm text-gray-500">Empty bar</span>
+  }
+  return (
+    <span className="flex flex-wrap gap-1">
+      {plates.map((p, i) => (
+        <span
+          key={i}
+          className={`px-2 py-0.5 rounded border text-xs font-medium tabular-nums ${
+            PLATE_CLASS[String(p)] ??
+            'bg-gray-100 text-gray-700 border-gray-200'
+          }`}
+        >
+          {p}
+          {i === plates.length - 1 ? ` ${unit}` : ''}
+        </span>
+      ))}
+    </span>
+  )
+}
+
+type PlateCalculatorProps = {
+  /** Prescribed working weight (from prescribed_weight_lb / prescribed_weight_kg) */
+  prescribedWeight?: number
+  prescribedUnit: PlateUnit
+  /** Warm-up indexes already logged for this exercise */
+  loggedWarmups: number[]
+  onLogWarmup: (set: WarmupSet, unit: PlateUnit) => void
+  disabled?: boolean
+}
+
+/** TodaySession exercise detail: plates per side for the target load and a loggable warm-up ramp */
+export function PlateCalculator({
+  prescribedWeight,
+  prescribedUnit,
+  loggedWarmups,
+  onLogWarmup,
+  disabled,
+}: PlateCalculatorProps) {
+  const [open, setOpen] = useState(false)
+  const [setup, setSetup] = useState<StoredSetup>(() =>
+    loadSetup(prescribedUnit)
+  )
+  const [targetInput, setTargetInput] = useState<string>('')
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(setup))
+    } catch {
+      // storage full or unavailable; setup still applies for this session
+    }
+  }, [setup])
+
+  const defaultTarget =
+    prescribedWeight != null
+      ? Math.round(
+          convertWeight(prescribedWeight, prescribedUnit, setup.unit) * 10
+        ) / 10
+      : undefined
+  const target = targetInput !== '' ? Number(targetInput) : defaultTarget
+
+  const plateSetup: PlateSetup = useMemo(
+    () => ({
+      unit: setup.unit,
+      barWeight: setup.barWeight,
+      plates: PLATE_PRESETS[setup.unit][setup.preset].weights.map(weight => ({
+        weight,
+        countPerSide: setup.counts[String(weight)] ?? 8,
+      })),
+    }),
+    [setup]
+  )
+
+  const load = useMemo(
+    () => (target != null ? calculatePlates(target, plateSetup) : null),
+    [target, plateSetup]
+  )
+
+  const ramp = useMemo(
+    () =>
+      load != null
+        ? buildWarmupRamp(
+            load.achievedWeight,
+            plateSetup,
+            parseWarmupPercents(setup.rampPercents)
+          )
+        : [],
+    [load, plateSetup, setup.rampPercents]
+  )
+
+  const handleUnitChange = (unit: PlateUnit) => {
+    if (unit === setup.unit) return
+    setSetup(prev => ({
+      ...prev,
+      unit,
+      barWeight: BAR_WEIGHTS[unit][0],
+      counts: {},
+    }))
+    if (targetInput !== '') {
+      setTargetInput(
+        String(
+          Math.round(
+            convertWeight(Number(targetInput), setup.unit, unit) * 10
+          ) / 10
+        )
+      )
+    }
+  }
+
+  return (
+    <Card className="p-0">
+      <button
+        type="button"
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between p-4 text-left"
+        aria-expanded={open}
+      >
+        <span>
+          <Text variant="default" className="font-medium text-gray-900">
+            Plate calculator & warm-up
+          </Text>
+          {load && !open && (
+            <Text variant="secondary" className="text-xs block mt-0.5">
+              {load.perSide.length > 0
+                ? `${load.perSide.join(' + ')} ${setup.unit} per side`
+                : 'Empty bar'}
+            </Text>
+          )}
+        </span>
+        <span className="text-gray-400 text-sm">{open ? '−' : '+'}</span>
+      </button>
+      {open && (
+        <div className="px-4 pb-4 space-y-4 border-t border-gray-100 pt-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="inline-flex rounded-lg border border-gray-200 bg-gray-50 p-0.5">
+              {(['lb', 'kg'] as const).map(u => (
+                <button
+                  key={u}
+                  type="button"
+                  onClick={() => handleUnitChange(u)}
+                  className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                    setup.unit === u
+                      ? 'bg-white text-gray-900 shadow-sm'
+                      : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {u}
+                </button>
+              ))}
+            </div>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-gray-600">
+                Target ({setup.unit})
+              </span>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={targetInput !== '' ? targetInput : (defaultTarget ?? '')}
+                onChange={e => setTargetInput(e.target.value)}
+                className="border border-gray-200 rounded-lg px-3 py-2 w-24 text-sm"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-gray-600">Bar</span>
+              <select
+                value={setup.barWeight}
+                onChange={e =>
+                  setSetup(prev => ({
+                    ...prev,
+                    barWeight: Number(e.target.value),
+                  }))
+                }
+                className="border border-gray-200 rounded-lg px-3 py-2 text-sm"
+              >
+                {BAR_WEIGHTS[setup.unit].map(w => (
+                  <option key={w} value={w}>
+                    {w} {setup.unit}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-gray-600">Plates</span>
+              <select
+                value={setup.preset}
+                onChange={e =>
+                  setSetup(prev => ({
+                    ...prev,
+                    preset: e.target.value as PlatePresetKey,
+                  }))
+                }
+                className="border border-gray-200 rounded-lg px-3 py-2 text-sm"
+              >
+                {(
+                  Object.keys(PLATE_PRESETS[setup.unit]) as PlatePresetKey[]
+                ).map(key => (
+                  <option key={key} value={key}>
+                    {PLATE_PRESETS[setup.unit][key].label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <details className="text-sm">
+            <summary className="cursor-pointer text-gray-600">
+              Available plates per side
+            </summary>
+            <div className="mt-2 flex flex-wrap gap-2">
+              {plateSetup.plates.map(p => (
+                <label
+                  key={p.weight}
+                  className="flex items-center gap-1 text-xs text-gray-700"
+                >
+                  {p.weight}
+                  <input
+                    type="number"
+                    min={0}
+                    max={20}
+                    value={p.countPerSide}
+                    onChange={e =>
+                      setSetup(prev => ({
+                        ...prev,
+                        counts: {
+                          ...prev.counts,
+                          [String(p.weight)]: Math.max(
+                            0,
+                            Number(e.target.value) || 0
+                          ),
+                        },
+                      }))
+                    }
+                    className="border border-gray-200 rounded px-1.5 py-1 w-12"
+                  />
+                </label>
+              ))}
+            </div>
+          </details>
+
+          {load && (
+            <div className="space-y-1">
+              <Text variant="default" className="text-sm font-medium block">
+                Per side
+              </Text>
+              {load.belowBar ? (
+                <Text variant="secondary" className="text-sm">
+                  Target is lighter than the bar ({setup.barWeight} {setup.unit}
+                  ).
+                </Text>
+              ) : (
+                <PlateChips plates={load.perSide} unit={setup.unit} />
+              )}
+              {!load.belowBar && load.difference !== 0 && (
+                <Text
+                  variant="secondary"
+                  className="text-xs block text-amber-700"
+                >
+                  Closest loadable: {load.achievedWeight} {setup.unit} (
+                  {load.difference > 0 ? '+' : ''}
+                  {load.difference})
+                </Text>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2 pt-3 border-t border-gray-100">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <Text variant="default" className="text-sm font-medium">
+                Warm-up ramp
+              </Text>
+              <label className="flex items-center gap-2 text-xs text-gray-600">
+                % of working
+                <input
+                  type="text"
+                  value={setup.rampPercents}
+                  onChange={e =>
+                    setSetup(prev => ({
+                      ...prev,
+                      rampPercents: e.target.value,
+                    }))
+                  }
+                  className="border border-gray-200 rounded px-2 py-1 w-28"
+                  aria-label="Warm-up percentages"
+                />
+              </label>
+            </div>
+            {ramp.length === 0 ? (
+              <Text variant="secondary" className="text-sm">
+                Enter a target heavier than the bar to build a ramp.
+              </Text>
+            ) : (
+              <div className="space-y-1">
+                {ramp.map(set => {
+                  const logged = loggedWarmups.includes(set.index)
+                  return (
+                    <div
+                      key={set.index}
+                      className="flex flex-wrap items-center gap-3 px-3 py-2 rounded-lg bg-gray-50 text-sm"
+                    >
+                      <span className="font-medium text-gray-700 w-8">
+                        W{set.index}
+                      </span>
+                      <span className="text-gray-600 w-20">
+                        {set.percent === 0 ? 'Bar' : `${set.percent}%`}
+                      </span>
+                      <span className="text-gray-800 tabular-nums">
+                        {set.weight} {setup.unit} × {set.reps}
+                      </span>
+                      <span className="flex-1 min-w-0">
+                        <PlateChips plates={set.perSide} unit={setup.unit} />
+                      </span>
+                      <Button
+                        type="button"
+                        variant={logged ? 'secondary' : 'outline'}
+                        size="small"
+                        disabled={disabled || logged}
+                        onClick={() => onLogWarmup(set, setup.unit)}
+                      >
+                        {logged ? 'Logged' : 'Log warm-up'}
+                      </Button>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </Card>
+  )
+}
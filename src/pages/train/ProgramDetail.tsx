@@ -6,6 +6,8 @@ import { Button } from '@/components/Button'
 import { Spinner } from '@/components/Spinner'
 import { Modal } from '@/components/Modal'
 import { Accordion } from '@/components/Accordion'
+import { Icon } from '@/components/Icon'
+import { ProgramPrintModal } from '@/components/Program/ProgramPrintModal'
 import { programService } from '@/api/program.service'
 import { roadmapService } from '@/api/roadmap.service'
 import type { ProgramWithCycle } from '@/types/program'
@@ -53,6 +55,7 @@ export function ProgramDetail() {
   const [showReviewStep, setShowReviewStep] = useState(false)
   const [roadmap, setRoadmap] = useState<Roadmap | null>(null)
   const [roadmapLoading, setRoadmapLoading] = useState(false)
+  const [printOpen, setPrintOpen] = useState(false)
 
   useEffect(() => {
     const programId = id ? Number.parseInt(id, 10) : Number.NaN
@@ -229,6 +232,18 @@ export function ProgramDetail() {
         <Text variant="primary" className="text-2xl font-semibold">
           {program.name}
         </Text>
+        {(program.programStructure?.weeks?.length ?? 0) > 0 && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="small"
+            className="ml-auto"
+            leftIcon={<Icon name="print" family="solid" size={14} />}
+            onClick={() => setPrintOpen(true)}
+          >
+            Print
+          </Button>
+        )}
       </div>
 
       <Card className="p-6">
@@ -418,6 +433,15 @@ export function ProgramDetail() {
         </Card>
       )}
 
+      {printOpen && (
+        <ProgramPrintModal
+          visible
+          onClose={() => setPrintOpen(false)}
+          programName={program.name}
+          structure={{ weeks: program.programStructure?.weeks ?? [] }}
+        />
+      )}
+
       {/* Only show after user clicked Confirm and backend returned a non-empty warning string */}
       {enrollWarning != null && enrollWarning.length > 0 && (
         <Modal
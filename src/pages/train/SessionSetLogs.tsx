@@ -0,0 +1,116 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Text } from '@/components/Text'
+import { Spinner } from '@/components/Spinner'
+import { SetLogList } from '@/components/SetLogList'
+import { useSnackbar } from '@/components/Snackbar/useSnackbar'
+import { useSetLogCorrections } from '@/hooks/useSetLogCorrections'
+import { useUnitPreference } from '@/hooks/useUnitPreference'
+import { trainService } from '@/api/train.service'
+import type { SessionSummary, SetLog } from '@/types/train'
+import { formatTonnage } from '@/utils/units'
+
+interface SessionSetLogsProps {
+  sessionId: number
+}
+
+/** Session history: logged sets for one past session, with edit / delete */
+export function SessionSetLogs({ sessionId }: Readonly<SessionSetLogsProps>) {
+  const { showSuccess, showError } = useSnackbar()
+  const { unitSystem } = useUnitPreference()
+  const [loading, setLoading] = useState(true)
+  const [setLogs, setSetLogs] = useState<SetLog[]>([])
+  const [summary, setSummary] = useState<SessionSummary | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    trainService
+      .getSession(sessionId)
+      .then(res => {
+        if (cancelled || res.data?.statusCode !== 200) return
+        setSetLogs(res.data.data?.setLogs ?? [])
+        setSummary(res.data.data?.sessionSummary ?? null)
+      })
+      .catch(() => {})
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [sessionId])
+
+  const handleCorrected = useCallback(
+    (logs: SetLog[], next: SessionSummary | null) => {
+      setSetLogs(logs)
+      setSummary(next)
+    },
+    []
+  )
+
+  const corrections = useSetLogCorrections({
+    sessionId,
+    setLogs,
+    summary,
+    onCorrected: handleCorrected,
+    onSuccess: showSuccess,
+    onError: showError,
+  })
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 py-2">
+        <Spinner size="small" variant="primary" />
+        <Text variant="secondary" className="text-sm">
+          Loading sets...
+        </Text>
+      </div>
+    )
+  }
+
+  if (setLogs.length === 0) {
+    return (
+      <Text variant="secondary" className="text-sm block py-2">
+        No sets logged.
+      </Text>
+    )
+  }
+
+  const byExercise = new Map<string, SetLog[]>()
+  for (const log of setLogs) {
+    const name = log.exerciseName ?? log.exerciseKey ?? 'Exercise'
+    byExercise.set(name, [...(byExercise.get(name) ?? []), log])
+  }
+
+  return (
+    <div className="space-y-3 py-2">
+      {summary && (
+        <Text variant="secondary" className="text-xs block">
+          {summary.totalSets} set{summary.totalSets !== 1 ? 's' : ''}
+          {summary.volumeKg > 0 &&
+            ` · ${formatTonnage(summary.volumeKg, unitSystem)} volume`}
+          {summary.prs?.length
+            ? ` · PRs: ${summary.prs
+                .map(
+                  pr =>
+                    `${pr.exerciseName ?? pr.exerciseKey} ${pr.newValue} ${pr.unit}`
+                )
+                .join(', ')}`
+            : ''}
+        </Text>
+      )}
+      {[...byExercise].map(([name, logs]) => (
+        <div key={name} className="space-y-1">
+          <Text variant="default" className="text-sm font-medium text-gray-700">
+            {name}
+          </Text>
+          <SetLogList
+            logs={logs}
+            onUpdate={corrections.updateSetLog}
+            onDelete={corrections.deleteSetLog}
+            busyId={corrections.busyId}
+          />
+        </div>
+      ))}
+    </div>
+  )
+}
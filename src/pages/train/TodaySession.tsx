@@ -6,8 +6,21 @@ import { Button } from '@/components/Button'
 import { Spinner } from '@/components/Spinner'
 import { trainService } from '@/api/train.service'
 import { cycleTransitionService } from '@/api/cycle-transition.service'
-import type { ExerciseDTO, AlternateExerciseDTO } from '@/types/program'
-import type { ExerciseSwapItem, SetLog, SessionSummary } from '@/types/train'
+import type {
+  ExerciseDTO,
+  AlternateExerciseDTO,
+  ProgramStructureDay,
+} from '@/types/program'
+import type {
+  ConditioningResult,
+  ConditioningResultEntry,
+  ExerciseSwapItem,
+  LogSetDTO,
+  OutboxPayload,
+  ReadinessAdjustment,
+  SetLog,
+  SessionSummary,
+} from '@/types/train'
 import type { AxiosError } from 'axios'
 import { useSnackbar } from '@/components/Snackbar/useSnackbar'
 import { WorkoutTimer } from '@/components/WorkoutTimer'
@@ -17,6 +30,53 @@ import {
 } from '@/components/ConditioningTimer'
 import { SetWorkingMaxModal } from '@/components/SetWorkingMaxModal'
 import { SanitizedHtml } from '@/components/SanitizedHtml'
+import { Icon } from '@/components/Icon'
+import { ProgramPrintSheet } from '@/components/Program/ProgramPrintSheet'
+import type { PrintSession } from '@/utils/programPrint'
+import { useOfflineOutbox } from '@/hooks/useOfflineOutbox'
+import { useSetLogCorrections } from '@/hooks/useSetLogCorrections'
+import { useUnitPreference } from '@/hooks/useUnitPreference'
+import { isNetworkError } from '@/lib/offline-outbox'
+import { OfflineSyncBanner } from './OfflineSyncBanner'
+import { PlateCalculator } from './PlateCalculator'
+import type { PlateUnit, WarmupSet } from '@/utils/plateCalculator'
+import { WorkingMaxSuggestions } from '@/components/WorkingMaxSuggestions'
+import type { WorkingMaxSuggestion } from '@/utils/e1rm'
+import {
+  SetPrescriptionTable,
+  TempoCue,
+} from '@/components/SetPrescriptionTable'
+import {
+  applyLoadReduction,
+  resolveSetsRows,
+  type PrescriptionContext,
+  type ResolvedSetPrescription,
+} from '@/utils/setPrescription'
+import { ConditioningResultForm } from '@/components/ConditioningResult'
+import { SetLogList } from '@/components/SetLogList'
+import {
+  getConditioningResultKind,
+  type ConditioningTimerSummary,
+} from '@/utils/conditioningResult'
+import {
+  displayWeight,
+  formatTonnage,
+  formatWeight,
+  weightFields,
+  weightUnitFor,
+} from '@/utils/units'
+import type { UnitSystem } from '@/types/user'
+import {
+  DEFAULT_READINESS_VALUES,
+  READINESS_LEVEL_LABELS,
+  READINESS_QUESTIONS,
+  adjustedSetCount,
+  applyReadinessToSetRows,
+  describeReadinessAdjustment,
+  hasReadinessChanges,
+  recommendReadinessAdjustment,
+} from '@/utils/readiness'
+import { parseRestSeconds } from '@/utils/restParse'
 
 type TodayWorkoutData = {
   date: string
@@ -85,6 +145,145 @@ function normalizeScheduledWorkout(
   }
 }
 
+/**
+ * Printable sheet of the session: the day structure when the backend sends
+ * one, otherwise one block per exercise from the flat exercise list
+ */
+function todayPrintSession(
+  workout: TodayWorkoutData,
+  label: string
+): PrintSession {
+  const structured = workout.dayStructure as ProgramStructureDay | undefined
+  const day: ProgramStructureDay = structured?.sections?.length
+    ? structured
+    : {
+        dayIndex: workout.dayIndex ?? 0,
+        isRestDay: workout.dayExercise.isRestDay,
+        sections: (workout.dayExercise.exercises ?? []).map(ex => ({
+          blockType: 'EXERCISE',
+          exercises: [
+            {
+              exerciseId: Number(ex.exercise_id),
+              sets: ex.sets,
+              reps: ex.total_reps,
+              weightPercent: ex.weight_percent,
+              coachingNotes: ex.pointsOfPerformance,
+              exercise: { id: Number(ex.exercise_id), name: ex.name },
+            },
+          ],
+        })),
+      }
+  return {
+    key: workout.date,
+    weekLabel: `Week ${workout.weekIndex}`,
+    dayLabel: label,
+    day: {
+      ...day,
+      sessionNotes: workout.sessionNotes ?? day.sessionNotes,
+      estimatedDurationMinutes:
+        workout.estimatedDurationMinutes ?? day.estimatedDurationMinutes,
+    },
+  }
+}
+
+/** Rest timer after a set when the exercise gives no (readable) rest */
+const DEFAULT_REST_SECONDS = 90
+const MAX_REST_TIMER_SECONDS = 600
+
+/** Offline outbox: per-set sync badge */
+const SET_SYNC_STYLES = {
+  pending: { label: 'Pending sync', className: 'bg-gray-100 text-gray-700' },
+  syncing: { label: 'Syncing…', className: 'bg-[#3AB8ED]/10 text-[#2ea8db]' },
+  synced: { label: 'Synced', className: 'bg-green-100 text-green-800' },
+  conflict: { label: 'Conflict', className: 'bg-amber-100 text-amber-800' },
+  failed: { label: 'Not saved', className: 'bg-red-100 text-red-800' },
+} as const
+
+/** Working max / last set used to resolve % and LWP+ set rows into a load */
+function prescriptionContext(
+  ex: ExerciseDTO,
+  unitSystem: UnitSystem,
+  adjustment?: ReadinessAdjustment | null
+): PrescriptionContext {
+  return {
+    workingMax: ex.working_max,
+    lastLogged: ex.last_logged,
+    unit:
+      ex.prescribed_weight_lb == null && ex.prescribed_weight_kg != null
+        ? 'kg'
+        : 'lb',
+    displayUnit: weightUnitFor(unitSystem),
+    loadReductionPercent: adjustment?.loadReductionPercent,
+  }
+}
+
+/** Resolved set rows with an applied readiness adjustment (lighter loads, fewer sets) */
+function adjustedSetsRows(
+  setsRows: unknown,
+  ex: ExerciseDTO,
+  unitSystem: UnitSystem,
+  adjustment: ReadinessAdjustment | null
+) {
+  return applyReadinessToSetRows(
+    resolveSetsRows(setsRows, prescriptionContext(ex, unitSystem, adjustment)),
+    adjustment
+  )
+}
+
+/** Prescribed load in the athlete's unit, after an applied readiness adjustment */
+function prescribedLoad(
+  ex: ExerciseDTO,
+  unitSystem: UnitSystem,
+  adjustment: ReadinessAdjustment | null
+): number | null {
+  const weight = displayWeight(
+    { weightLb: ex.prescribed_weight_lb, weightKg: ex.prescribed_weight_kg },
+    unitSystem,
+    true
+  )
+  return weight == null
+    ? null
+    : applyLoadReduction(
+        weight,
+        adjustment?.loadReductionPercent,
+        weightUnitFor(unitSystem)
+      )
+}
+
+/** Units: working max, last set and prescribed load in the athlete's unit */
+function loadSummary(
+  ex: ExerciseDTO,
+  unitSystem: UnitSystem,
+  adjustment: ReadinessAdjustment | null
+): string {
+  const wm = ex.working_max
+  const last = ex.last_logged
+  const hasLast =
+    last != null && (last.weightLb != null || last.weightKg != null)
+  const prescribed = prescribedLoad(ex, unitSystem, adjustment)
+  return [
+    wm != null &&
+      `${formatWeight(
+        wm.unit.toLowerCase() === 'kg'
+          ? { weightKg: wm.value }
+          : { weightLb: wm.value },
+        unitSystem,
+        true
+      )} 1RM`,
+    hasLast &&
+      `Last: ${formatWeight(last, unitSystem)}${last.reps != null ? ` × ${last.reps}` : ''}`,
+    prescribed != null &&
+      ex.weight_percent != null &&
+      `→ ${prescribed} ${weightUnitFor(unitSystem)} (${ex.weight_percent}%${
+        adjustment?.loadReductionPercent
+          ? `, -${adjustment.loadReductionPercent}% readiness`
+          : ''
+      })`,
+  ]
+    .filter(Boolean)
+    .join(' · ')
+}
+
 function toDateOnly(dateStr: string): string {
   if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) return dateStr
   return dateStr.slice(0, 10)
@@ -95,6 +294,7 @@ export default function TodaySession() {
   const [searchParams] = useSearchParams()
   const dateParam = searchParams.get('date')
   const { showSuccess, showError } = useSnackbar()
+  const { unitSystem } = useUnitPreference()
   const [loading, setLoading] = useState(true)
   const [workout, setWorkout] = useState<TodayWorkoutData | null>(null)
   const [view, setView] = useState<'exercises' | 'exercise-detail'>('exercises')
@@ -107,7 +307,7 @@ export default function TodaySession() {
   const [logLoading, setLogLoading] = useState(false)
   const [completeLoading, setCompleteLoading] = useState(false)
   const [setInputs, setSetInputs] = useState<
-    Record<number, { reps?: number; weightLb?: number }>
+    Record<number, { reps?: number; weight?: number }>
   >({})
   const [exerciseSearch, setExerciseSearch] = useState('')
   const [exerciseFilter, setExerciseFilter] = useState<
@@ -116,14 +316,15 @@ export default function TodaySession() {
   const [workingMaxModalOpen, setWorkingMaxModalOpen] = useState(false)
   // MASS Phase 7: optional readiness (1-5)
   const [readinessOpen, setReadinessOpen] = useState(false)
-  const [readinessValues, setReadinessValues] = useState({
-    sleep: 3,
-    stress: 3,
-    energy: 3,
-    soreness: 3,
-    mood: 3,
-  })
+  const [readinessValues, setReadinessValues] = useState(
+    DEFAULT_READINESS_VALUES
+  )
   const [readinessSubmitting, setReadinessSubmitting] = useState(false)
+  // Readiness: recommended adjustment and whether the athlete applied it
+  const [readinessDecision, setReadinessDecision] = useState<{
+    adjustment: ReadinessAdjustment
+    applied: boolean
+  } | null>(null)
   // MASS Phase 7: complete session modal (intensity + comments)
   const [completeModalOpen, setCompleteModalOpen] = useState(false)
   const [completeIntensity, setCompleteIntensity] = useState(5)
@@ -131,6 +332,11 @@ export default function TodaySession() {
   /** After complete: show session summary (sets, volume, PRs) before navigating */
   const [completeSuccessSummary, setCompleteSuccessSummary] =
     useState<SessionSummary | null>(null)
+  // e1RM: working max suggestions accepted from the summary
+  const [acceptedWorkingMaxIds, setAcceptedWorkingMaxIds] = useState<number[]>(
+    []
+  )
+  const [acceptingWorkingMax, setAcceptingWorkingMax] = useState(false)
   // MASS Phase 7: swap exercise modal
   const [swapModalOpen, setSwapModalOpen] = useState(false)
   const [swapForExercise, setSwapForExercise] = useState<ExerciseDTO | null>(
@@ -156,6 +362,20 @@ export default function TodaySession() {
   const [transitionConfirming, setTransitionConfirming] = useState(false)
   // MASS Phase 7: set logs for current session (prescribed vs actual, modified highlight)
   const [setLogs, setSetLogs] = useState<SetLog[]>([])
+  // Set corrections: stored summary, recomputed when a set is edited or deleted
+  const [sessionSummary, setSessionSummary] = useState<SessionSummary | null>(
+    null
+  )
+  // Conditioning: saved block results and the last timer readout per block
+  const [conditioningResults, setConditioningResults] = useState<
+    ConditioningResultEntry[]
+  >([])
+  const [timerSummaries, setTimerSummaries] = useState<
+    Record<string, ConditioningTimerSummary & { stoppedAt: number }>
+  >({})
+  const [savingConditioningKey, setSavingConditioningKey] = useState<
+    string | null
+  >(null)
   // MASS Phase 7: rest timer after logging a set (countdown from prescribed rest)
   const [restTimerSeconds, setRestTimerSeconds] = useState<number | null>(null)
   const [restTimerActive, setRestTimerActive] = useState(false)
@@ -257,19 +477,99 @@ export default function TodaySession() {
   useEffect(() => {
     if (!effectiveSessionId) {
       setSetLogs([])
+      setSessionSummary(null)
+      setConditioningResults([])
       return
     }
     trainService
       .getSession(effectiveSessionId)
       .then(res => {
         if (res.data?.statusCode === 200 && res.data?.data) {
-          const session = res.data.data as { setLogs?: SetLog[] }
+          const session = res.data.data
           setSetLogs(session.setLogs ?? [])
+          setSessionSummary(session.sessionSummary ?? null)
+          setConditioningResults(session.conditioningResults ?? [])
         }
       })
       .catch(() => setSetLogs([]))
   }, [effectiveSessionId])
 
+  const calendarDate = workout ? toDateOnly(workout.date) : null
+
+  // Readiness: restore the survey and adjustment decision for this date
+  useEffect(() => {
+    if (!calendarDate) return
+    let cancelled = false
+    trainService
+      .getReadiness(calendarDate)
+      .then(res => {
+        const entry = res.data?.data
+        if (cancelled || res.data?.statusCode !== 200 || !entry) return
+        setReadinessValues({
+          sleep: entry.sleep,
+          stress: entry.stress,
+          energy: entry.energy,
+          soreness: entry.soreness,
+          mood: entry.mood,
+        })
+        setReadinessDecision(
+          entry.adjustment
+            ? {
+                adjustment: entry.adjustment,
+                applied: entry.adjustmentApplied === true,
+              }
+            : null
+        )
+      })
+      .catch(() => {})
+    return () => {
+      cancelled = true
+    }
+  }, [calendarDate])
+
+  // Offline outbox: after queued writes replay, reload workout (swaps, status) and set logs
+  const handleOutboxSynced = useCallback(() => {
+    refreshWorkout()
+    if (!effectiveSessionId) return
+    trainService
+      .getSession(effectiveSessionId)
+      .then(res => {
+        if (res.data?.statusCode === 200 && res.data?.data) {
+          setSetLogs(res.data.data.setLogs ?? [])
+          setSessionSummary(res.data.data.sessionSummary ?? null)
+          setConditioningResults(res.data.data.conditioningResults ?? [])
+        }
+      })
+      .catch(() => {})
+  }, [refreshWorkout, effectiveSessionId])
+
+  const outbox = useOfflineOutbox({
+    sessionDate: calendarDate,
+    onSynced: handleOutboxSynced,
+  })
+
+  /** Readiness: the adjustment shown in prescriptions, once the athlete accepted it */
+  const readinessAdjustment = readinessDecision?.applied
+    ? readinessDecision.adjustment
+    : null
+
+  const handleSetLogsCorrected = useCallback(
+    (logs: SetLog[], summary: SessionSummary | null) => {
+      setSetLogs(logs)
+      setSessionSummary(summary)
+    },
+    []
+  )
+
+  const setLogCorrections = useSetLogCorrections({
+    sessionId: effectiveSessionId,
+    setLogs,
+    summary: sessionSummary,
+    onCorrected: handleSetLogsCorrected,
+    onSuccess: showSuccess,
+    onError: showError,
+  })
+
   const handleExerciseClick = (ex: ExerciseDTO) => {
     setSelectedExercise(ex)
     setUseAlternate(false)
@@ -293,30 +593,46 @@ export default function TodaySession() {
     return selectedExercise
   }
 
-  const calendarDate = workout ? toDateOnly(workout.date) : null
+  /** Body for createOrGetSession; also queued with offline entries when no session exists yet */
+  const sessionCreateBody = useMemo(
+    () =>
+      workout && calendarDate
+        ? {
+            date: calendarDate,
+            phase: workout.phase,
+            weekIndex: workout.weekIndex,
+            dayIndex: workout.dayIndex,
+            dayKey: workout.dayKey,
+            programId: workout.programId,
+          }
+        : null,
+    [workout, calendarDate]
+  )
 
-  const ensureSession = useCallback(async () => {
+  /**
+   * Session id for a write, creating the session if needed. 'offline' when the
+   * create request did not reach the server, so the caller queues the write
+   * (the outbox creates the session on replay).
+   */
+  const ensureSession = useCallback(async (): Promise<
+    number | 'offline' | null
+  > => {
     if (!workout || !calendarDate) return null
     if (workout.sessionId) {
       setSessionId(workout.sessionId)
       return workout.sessionId
     }
+    if (!sessionCreateBody) return null
     setSessionLoading(true)
     try {
-      const createRes = await trainService.createOrGetSession({
-        date: calendarDate,
-        phase: workout.phase,
-        weekIndex: workout.weekIndex,
-        dayIndex: workout.dayIndex,
-        dayKey: workout.dayKey,
-        programId: workout.programId,
-      })
+      const createRes = await trainService.createOrGetSession(sessionCreateBody)
       const session = createRes.data?.data
       if (session?.id) {
         setSessionId(session.id)
         return session.id
       }
     } catch (err) {
+      if (isNetworkError(err)) return 'offline'
       const ax = err as AxiosError<{ message?: string }>
       showError(
         ax.response?.data?.message || ax.message || 'Failed to start session.'
@@ -326,59 +642,138 @@ export default function TodaySession() {
       setSessionLoading(false)
     }
     return null
-  }, [workout, calendarDate, showError])
+  }, [workout, calendarDate, sessionCreateBody, showError])
 
-  /** Parse rest string (e.g. "90", "90s", "1:30") to seconds for rest timer */
-  const parseRestSeconds = (rest: string | undefined): number => {
-    if (!rest || typeof rest !== 'string') return 90
-    const s = rest.trim()
-    const match = /^(\d+)(?:s|sec)?$/i.exec(s)
-    if (match) return Math.min(600, Math.max(0, Number(match[1])))
-    const mmss = /^(\d+):(\d+)$/.exec(s)
-    if (mmss)
-      return Math.min(600, Math.max(0, Number(mmss[1]) * 60 + Number(mmss[2])))
-    const n = Number.parseInt(s, 10)
-    return Number.isFinite(n) ? Math.min(600, Math.max(0, n)) : 90
+  /**
+   * Offline outbox: queue a write for replay. Used when the browser is offline
+   * or the request failed without reaching the server.
+   */
+  const queueOffline = (entry: OutboxPayload) => {
+    if (!calendarDate) return Promise.resolve(null)
+    const sid = sessionId ?? workout?.sessionId ?? null
+    return outbox.enqueue({
+      ...entry,
+      sessionDate: calendarDate,
+      sessionId: sid,
+      createSession: sid == null ? (sessionCreateBody ?? undefined) : undefined,
+    })
   }
 
-  const handleLogSet = async (setIndex: number) => {
+  /** Parse rest string (e.g. "90", "90s", "1:30") to seconds for rest timer */
+  /** Log one working set; `row` is the resolved set row when the builder prescribed per-set targets */
+  const handleLogSet = async (
+    setIndex: number,
+    row?: ResolvedSetPrescription
+  ) => {
     const exercise = currentDisplayExercise()
     if (!selectedExercise || !exercise) return
-    const sid = sessionId ?? (await ensureSession())
-    if (!sid) return
     const input = setInputs[setIndex] ?? {}
     const disp = currentDisplayExercise()
-    const prescribedReps = disp?.total_reps ?? selectedExercise.total_reps
-    const prescribedLb =
-      selectedExercise.prescribed_weight_lb ?? disp?.lb ?? selectedExercise.lb
+    const prescribedReps =
+      row?.reps ?? disp?.total_reps ?? selectedExercise.total_reps
+    const plannedWeight = displayWeight(
+      {
+        weightLb:
+          selectedExercise.prescribed_weight_lb ??
+          disp?.lb ??
+          selectedExercise.lb,
+        weightKg: selectedExercise.prescribed_weight_kg,
+      },
+      unitSystem,
+      true
+    )
+    const prescribedWeight =
+      row?.weight ??
+      (plannedWeight == null
+        ? null
+        : applyLoadReduction(
+            plannedWeight,
+            readinessAdjustment?.loadReductionPercent,
+            weightUnitFor(unitSystem)
+          ))
     const isModified =
       (input.reps != null &&
         prescribedReps != null &&
         input.reps !== prescribedReps) ||
-      (input.weightLb != null &&
-        prescribedLb != null &&
-        Math.abs(input.weightLb - prescribedLb) > 0.5)
-    setLogLoading(true)
-    try {
-      await trainService.logSet(sid, {
+      (input.weight != null &&
+        prescribedWeight != null &&
+        Math.abs(input.weight - prescribedWeight) > 0.5)
+    const body: LogSetDTO = {
+      exerciseKey: String(selectedExercise.exercise_id),
+      exerciseName: 'name' in exercise ? exercise.name : selectedExercise.name,
+      exerciseSource: useAlternate ? 'alternate' : 'main',
+      setIndex,
+      reps: input.reps,
+      ...(input.weight != null ? weightFields(input.weight, unitSystem) : {}),
+      sectionExerciseId: (selectedExercise as { sectionExerciseId?: number })
+        .sectionExerciseId,
+      isModified: isModified || undefined,
+    }
+    await submitSetLog(body, `Set ${setIndex}`, () => {
+      setSetInputs(prev => ({ ...prev, [setIndex]: input }))
+      const restSec =
+        row?.restSeconds ??
+        Math.min(
+          MAX_REST_TIMER_SECONDS,
+          parseRestSeconds(
+            ((disp ?? selectedExercise) as { rest?: string }).rest
+          ) ?? DEFAULT_REST_SECONDS
+        )
+      setRestTimerSeconds(restSec)
+      setRestTimerActive(restSec > 0)
+    })
+  }
+
+  /** Plate calculator: log a warm-up from the ramp (separate from working sets) */
+  const handleLogWarmup = async (set: WarmupSet, unit: PlateUnit) => {
+    const exercise = currentDisplayExercise()
+    if (!selectedExercise || !exercise) return
+    await submitSetLog(
+      {
         exerciseKey: String(selectedExercise.exercise_id),
         exerciseName:
           'name' in exercise ? exercise.name : selectedExercise.name,
         exerciseSource: useAlternate ? 'alternate' : 'main',
-        setIndex,
-        reps: input.reps,
-        weightLb: input.weightLb,
+        setIndex: set.index,
+        setType: 'warmup',
+        reps: set.reps,
+        weightLb: unit === 'lb' ? set.weight : undefined,
+        weightKg: unit === 'kg' ? set.weight : undefined,
         sectionExerciseId: (selectedExercise as { sectionExerciseId?: number })
           .sectionExerciseId,
-        isModified: isModified || undefined,
-      })
-      showSuccess(`Set ${setIndex} logged.`)
-      setSetInputs(prev => ({ ...prev, [setIndex]: input }))
-      const restSec = parseRestSeconds(
-        ((disp ?? selectedExercise) as { rest?: string }).rest
-      )
-      setRestTimerSeconds(restSec)
-      setRestTimerActive(restSec > 0)
+      },
+      `Warm-up ${set.index}`
+    )
+  }
+
+  /** Post a set log, falling back to the offline outbox when there is no connection */
+  const submitSetLog = async (
+    body: LogSetDTO,
+    label: string,
+    onLogged?: () => void
+  ) => {
+    const logOffline = async () => {
+      await queueOffline({ kind: 'log_set', body })
+      showSuccess(`${label} saved offline. It will sync when you reconnect.`)
+      onLogged?.()
+    }
+    if (!outbox.isOnline) {
+      await logOffline()
+      return
+    }
+    const sid = sessionId ?? (await ensureSession())
+    if (sid === 'offline') {
+      await logOffline()
+      return
+    }
+    if (!sid) return
+    setLogLoading(true)
+    let logged = false
+    try {
+      await trainService.logSet(sid, body)
+      logged = true
+      showSuccess(`${label} logged.`)
+      onLogged?.()
       const res = await trainService.getSession(sid)
       if (
         res.data?.statusCode === 200 &&
@@ -386,6 +781,12 @@ export default function TodaySession() {
       )
         setSetLogs((res.data.data as { setLogs: SetLog[] }).setLogs)
     } catch (err) {
+      // Set was saved; only the set-log refresh failed
+      if (logged) return
+      if (isNetworkError(err)) {
+        await logOffline()
+        return
+      }
       const ax = err as AxiosError<{ message?: string }>
       showError(
         ax.response?.data?.message || ax.message || 'Failed to log set.'
@@ -395,21 +796,115 @@ export default function TodaySession() {
     }
   }
 
+  /** Conditioning: save one block's result (replaces an earlier one for the same block) */
+  const handleSaveConditioningResult = async (
+    sectionKey: string,
+    section: {
+      id?: number
+      name?: string
+      conditioningFormat?: string
+      resultTrackingType?: string
+    },
+    result: ConditioningResult,
+    notes?: string
+  ) => {
+    const body = {
+      sectionId: section.id,
+      sectionName: section.name,
+      conditioningFormat: section.conditioningFormat || undefined,
+      resultTrackingType: section.resultTrackingType,
+      result,
+      notes,
+    }
+    const applyLocal = () =>
+      setConditioningResults(prev => [
+        ...prev.filter(r =>
+          section.id != null
+            ? r.sectionId !== section.id
+            : r.sectionName !== section.name
+        ),
+        body,
+      ])
+    const saveOffline = async () => {
+      await queueOffline({ kind: 'conditioning_result', body })
+      applyLocal()
+      showSuccess('Result saved offline. It will sync when you reconnect.')
+    }
+    if (!outbox.isOnline) {
+      await saveOffline()
+      return
+    }
+    const sid = sessionId ?? (await ensureSession())
+    if (sid === 'offline') {
+      await saveOffline()
+      return
+    }
+    if (!sid) return
+    setSavingConditioningKey(sectionKey)
+    try {
+      const res = await trainService.logConditioningResult(sid, body)
+      const saved = res.data?.data?.conditioningResults
+      if (saved) setConditioningResults(saved)
+      else applyLocal()
+      showSuccess('Result saved.')
+    } catch (err) {
+      if (isNetworkError(err)) {
+        await saveOffline()
+        return
+      }
+      const ax = err as AxiosError<{ message?: string }>
+      showError(
+        ax.response?.data?.message || ax.message || 'Failed to save result.'
+      )
+    } finally {
+      setSavingConditioningKey(null)
+    }
+  }
+
   const handleCompleteWorkout = async () => {
     setCompleteModalOpen(true)
   }
 
   const handleConfirmComplete = async () => {
+    const completeBody = {
+      status: 'COMPLETED' as const,
+      complianceType: 'FULL_LOG' as const,
+      intensityRating: completeIntensity,
+      sessionComments: completeComments.trim() || undefined,
+    }
+    const completeOffline = async (
+      message = 'Saved offline. The session will be marked complete when you reconnect.'
+    ) => {
+      await queueOffline({ kind: 'complete_session', body: completeBody })
+      setCompleteModalOpen(false)
+      setCompleteComments('')
+      showSuccess(message)
+      navigate(backTo)
+    }
+    if (!outbox.isOnline) {
+      await completeOffline()
+      return
+    }
+    // Sets still in the outbox go first; completing now could close the
+    // session before they arrive
+    setCompleteLoading(true)
+    const waiting = await outbox.drain()
+    setCompleteLoading(false)
+    if (waiting > 0) {
+      await completeOffline(
+        'Some of your sets have not synced yet. The session will be marked complete after they do.'
+      )
+      return
+    }
     const sid = sessionId ?? (await ensureSession())
+    if (sid === 'offline') {
+      await completeOffline()
+      return
+    }
     if (!sid) return
     setCompleteLoading(true)
     try {
-      const res = await trainService.updateSession(sid, {
-        status: 'COMPLETED',
-        complianceType: 'FULL_LOG',
-        intensityRating: completeIntensity,
-        sessionComments: completeComments.trim() || undefined,
-      })
+      const res = await trainService.updateSession(sid, completeBody)
       setCompleteModalOpen(false)
       setCompleteComments('')
       const payload = res.data?.data as
@@ -441,6 +936,9 @@ export default function TodaySession() {
           setCompleteSuccessSummary(
             sessionRes.data.data.sessionSummary as SessionSummary
           )
+          setSessionSummary(sessionRes.data.data.sessionSummary)
+          if (sessionRes.data.data.setLogs)
+            setSetLogs(sessionRes.data.data.setLogs)
           setView('exercises')
           setCompleteLoading(false)
           return
@@ -451,6 +949,10 @@ export default function TodaySession() {
       showSuccess('Workout marked complete.')
       navigate(backTo)
     } catch (err) {
+      if (isNetworkError(err)) {
+        await completeOffline()
+        return
+      }
       const ax = err as AxiosError<{ message?: string }>
       showError(
         ax.response?.data?.message || ax.message || 'Failed to complete.'
@@ -460,6 +962,33 @@ export default function TodaySession() {
     }
   }
 
+  /** e1RM: accept a suggested working max from the session summary */
+  const handleAcceptWorkingMax = async (suggestion: WorkingMaxSuggestion) => {
+    setAcceptingWorkingMax(true)
+    try {
+      await trainService.setWorkingMax({
+        exerciseId: suggestion.exerciseId,
+        value: suggestion.suggestedValue,
+        unit: suggestion.unit,
+        source: 'auto',
+        estimate: {
+          method: suggestion.method,
+          ...suggestion.basedOn,
+          workoutSessionId: effectiveSessionId ?? undefined,
+        },
+      })
+      setAcceptedWorkingMaxIds(prev => [...prev, suggestion.exerciseId])
+      showSuccess(
+        `Working max updated to ${suggestion.suggestedValue} ${suggestion.unit}.`
+      )
+    } catch (err) {
+      const ax = err as AxiosError<{ message?: string }>
+      showError(ax.response?.data?.message || ax.message || 'Failed to update.')
+    } finally {
+      setAcceptingWorkingMax(false)
+    }
+  }
+
   const handleDoneAfterSummary = () => {
     setCompleteSuccessSummary(null)
     showSuccess('Workout marked complete.')
@@ -525,6 +1054,17 @@ export default function TodaySession() {
     return m
   }, [displayExercises])
 
+  /** Working max per displayed exercise id, for the post-session suggestions */
+  const currentWorkingMaxes = useMemo(
+    () =>
+      Object.fromEntries(
+        getDisplayExercises().flatMap(ex =>
+          ex.working_max ? [[Number(ex.exercise_id), ex.working_max]] : []
+        )
+      ),
+    [getDisplayExercises]
+  )
+
   /** Sections from dayStructure with display exercise data; empty if no dayStructure. Top-level only; SUPERSET parent gets merged exercises from child sections. */
   const sectionsWithDisplay = useMemo(() => {
     const sections = (
@@ -649,6 +1189,26 @@ export default function TodaySession() {
     ) as SectionWithDisplay[]
   }, [workout?.dayStructure, byOriginalExerciseId])
 
+  /** MASS Phase 4: resolved per-set rows for the exercise open in the detail view */
+  const selectedSetRows = useMemo(() => {
+    if (!selectedExercise) return []
+    const se = sectionsWithDisplay
+      .flatMap(section => section.exercises)
+      .find(
+        e =>
+          e.display != null &&
+          String(e.display.exercise_id) === String(selectedExercise.exercise_id)
+      )
+    return se
+      ? adjustedSetsRows(
+          se.setsRows,
+          selectedExercise,
+          unitSystem,
+          readinessAdjustment
+        )
+      : []
+  }, [sectionsWithDisplay, selectedExercise, unitSystem, readinessAdjustment])
+
   const useBlockView = sectionsWithDisplay.length > 0
 
   const handleSwapClick = (ex: ExerciseDTO) => {
@@ -696,17 +1256,32 @@ export default function TodaySession() {
 
   const handleSwapSelect = async (newExerciseId: number) => {
     if (!swapForExercise || !effectiveSessionId) return
+    const swapBody = {
+      originalExerciseId: Number(swapForExercise.exercise_id) || 0,
+      newExerciseId,
+    }
+    const swapOffline = async () => {
+      await queueOffline({ kind: 'swap', body: swapBody })
+      showSuccess('Swap saved offline. It will apply when you reconnect.')
+      setSwapModalOpen(false)
+      setSwapForExercise(null)
+    }
+    if (!outbox.isOnline) {
+      await swapOffline()
+      return
+    }
     setSwapSubmitting(true)
     try {
-      await trainService.swapExercise(effectiveSessionId, {
-        originalExerciseId: Number(swapForExercise.exercise_id) || 0,
-        newExerciseId,
-      })
+      await trainService.swapExercise(effectiveSessionId, swapBody)
       showSuccess('Exercise swapped for this session.')
       setSwapModalOpen(false)
       setSwapForExercise(null)
       refreshWorkout()
     } catch (err) {
+      if (isNetworkError(err)) {
+        await swapOffline()
+        return
+      }
       const ax = err as AxiosError<{ message?: string }>
       showError(ax.response?.data?.message || ax.message || 'Swap failed.')
     } finally {
@@ -746,18 +1321,51 @@ export default function TodaySession() {
     }
   }
 
-  const handleReadinessSubmit = async () => {
+  /**
+   * Save the survey with its recommended adjustment; `applied` records whether
+   * the athlete accepted it (ignored when nothing would change)
+   */
+  const handleReadinessSubmit = async (applied: boolean) => {
     if (!calendarDate) return
+    const adjustment = recommendReadinessAdjustment(readinessValues)
+    const changes = hasReadinessChanges(adjustment)
+    const body = {
+      sessionDate: calendarDate,
+      ...readinessValues,
+      score: adjustment.score,
+      adjustment,
+      adjustmentApplied: changes ? applied : null,
+    }
+    const onSaved = () => {
+      setReadinessDecision({ adjustment, applied: changes && applied })
+      setReadinessOpen(false)
+    }
+    const readinessOffline = async () => {
+      await queueOffline({ kind: 'readiness', body })
+      showSuccess('Readiness saved offline. It will sync when you reconnect.')
+      onSaved()
+    }
+    if (!outbox.isOnline) {
+      await readinessOffline()
+      return
+    }
     setReadinessSubmitting(true)
     try {
       await trainService.submitReadiness({
-        sessionDate: calendarDate,
+        ...body,
         workoutSessionId: effectiveSessionId ?? undefined,
-        ...readinessValues,
       })
-      showSuccess('Readiness saved.')
-      setReadinessOpen(false)
+      showSuccess(
+        changes && applied
+          ? "Readiness saved. Today's session has been adjusted."
+          : 'Readiness saved.'
+      )
+      onSaved()
     } catch (err) {
+      if (isNetworkError(err)) {
+        await readinessOffline()
+        return
+      }
       const ax = err as AxiosError<{ message?: string }>
       showError(ax.response?.data?.message || ax.message || 'Failed to save.')
     } finally {
@@ -899,7 +1507,26 @@ export default function TodaySession() {
           <Text variant="primary" className="text-2xl font-semibold">
             {sessionTitle}
           </Text>
+          {!noWorkoutSet && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="small"
+              className="ml-auto"
+              leftIcon={<Icon name="print" family="solid" size={14} />}
+              onClick={() => globalThis.print()}
+            >
+              Print session
+            </Button>
+          )}
         </div>
+        {!noWorkoutSet && (
+          <ProgramPrintSheet
+            title={workout.programName || sessionTitle}
+            sessions={[todayPrintSession(workout, sessionLabel)]}
+            exerciseName={id => byOriginalExerciseId[id]?.name}
+          />
+        )}
 
         <Card className="p-0">
           <div className="p-5 bg-gray-50/50">
@@ -954,7 +1581,9 @@ export default function TodaySession() {
                 onClick={() => setReadinessOpen(true)}
                 className="text-sm text-[#3AB8ED] hover:underline font-medium"
               >
-                How are you feeling? (optional)
+                {readinessDecision
+                  ? 'Update readiness'
+                  : 'How are you feeling? (optional)'}
               </button>
               {effectiveSessionId && workout.status !== 'completed' && (
                 <>
@@ -978,6 +1607,53 @@ export default function TodaySession() {
           </div>
         </Card>
 
+        {readinessDecision && (
+          <Card
+            className={`p-4 ${readinessAdjustment ? 'border-amber-200 bg-amber-50/60' : ''}`}
+          >
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div className="min-w-0">
+                <Text variant="default" className="font-medium text-gray-900">
+                  Readiness {readinessDecision.adjustment.score}/100 ·{' '}
+                  {READINESS_LEVEL_LABELS[readinessDecision.adjustment.level]}
+                </Text>
+                <Text variant="secondary" className="text-sm block mt-0.5">
+                  {readinessAdjustment
+                    ? `Adjusted: ${describeReadinessAdjustment(readinessAdjustment).join(' · ')}`
+                    : hasReadinessChanges(readinessDecision.adjustment)
+                      ? 'Adjustment declined. Training as prescribed.'
+                      : 'Training as prescribed.'}
+                </Text>
+              </div>
+              {hasReadinessChanges(readinessDecision.adjustment) &&
+                workout.status !== 'completed' && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="small"
+                    disabled={readinessSubmitting}
+                    onClick={() =>
+                      void handleReadinessSubmit(!readinessDecision.applied)
+                    }
+                  >
+                    {readinessDecision.applied
+                      ? 'Undo adjustment'
+                      : 'Apply adjustment'}
+                  </Button>
+                )}
+            </div>
+          </Card>
+        )}
+
+        <OfflineSyncBanner
+          isOnline={outbox.isOnline}
+          syncing={outbox.syncing}
+          entries={outbox.entries}
+          onSync={() => void outbox.sync()}
+          onKeepMine={entry => void outbox.keepMine(entry)}
+          onDiscard={entry => void outbox.discard(entry)}
+        />
+
         <WorkoutTimer />
 
         {isRestDay ? (
@@ -1007,524 +1683,383 @@ export default function TodaySession() {
         ) : useBlockView ? (
           /* MASS Phase 7: Block view by dayStructure.sections (EXERCISE | CIRCUIT | SUPERSET) */
           <div className="w-full space-y-6">
-            {sectionsWithDisplay.map((section, sectionIdx) => (
-              <div key={sectionIdx} className="space-y-3">
-                {section.conditioningFormat &&
-                  section.conditioningFormat !== 'For Completion' &&
-                  section.conditioningFormat !== '' && (
-                    <ConditioningTimer
-                      format={section.conditioningFormat as ConditioningFormat}
-                      config={
-                        section.conditioningConfig as {
-                          timeCapSeconds?: number
-                          durationSeconds?: number
-                          intervalLengthSeconds?: number
-                          rounds?: number
-                          workSeconds?: number
-                          restSeconds?: number
-                        } | null
-                      }
-                    />
-                  )}
-                {section.blockType === 'CIRCUIT' ||
-                section.blockType === 'circuit' ? (
-                  <Card className="p-0">
-                    <div className="p-5">
-                      {section.name && (
-                        <Text
-                          variant="default"
-                          className="font-semibold text-gray-900 mb-2 block"
-                        >
-                          {section.name}
-                        </Text>
-                      )}
-                      {section.instructions && (
-                        <div className="mb-3">
-                          <SanitizedHtml
-                            html={section.instructions}
-                            className="text-sm text-gray-700 [&_p]:mb-1 [&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-4 [&_ol]:pl-4"
-                          />
-                        </div>
-                      )}
-                      {Array.isArray(section.videoUrls) &&
-                        section.videoUrls.length > 0 && (
-                          <div className="flex flex-wrap gap-2 mb-3">
-                            {(section.videoUrls as string[])
-                              .filter(Boolean)
-                              .map((url, i) => (
-                                <a
-                                  key={i}
-                                  href={url}
-                                  target="_blank"
-                                  rel="noopener noreferrer"
-                                  className="text-sm text-[#3AB8ED] hover:underline"
-                                >
-                                  Video {i + 1}
-                                </a>
-                              ))}
-                          </div>
-                        )}
-                      {(() => {
-                        const fmt = (
-                          section.conditioningFormat as string
-                        )?.toUpperCase()
-                        const resultType =
-                          fmt === 'AMRAP'
-                            ? 'Rounds+Reps'
-                            : fmt === 'FOR TIME'
-                              ? 'Time'
-                              : section.resultTrackingType
-                        const showResult = resultType && resultType !== 'None'
-                        if (!showResult) return null
-                        return (
-                          <div className="mt-3 pt-3 border-t border-gray-200">
-                            <label className="block text-sm font-medium text-gray-700 mb-1">
-                              {resultType === 'Time'
-                                ? 'Time'
-                                : resultType === 'Rounds+Reps'
-                                  ? 'Rounds + Reps'
-                                  : resultType}
-                            </label>
-                            <input
-                              type="text"
-                              placeholder={
-                                resultType === 'Time'
-                                  ? 'e.g. 3:45'
-                                  : resultType === 'Rounds+Reps'
-                                    ? 'e.g. 7+3'
-                                    : resultType === 'Calories'
-                                      ? 'e.g. 120'
-                                      : resultType === 'Distance'
-                                        ? 'e.g. 2000m'
-                                        : 'Your result'
-                              }
-                              className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm"
-                              aria-label={`Log ${resultType}`}
-                            />
-                          </div>
-                        )
-                      })()}
-                      <div className="mt-3 text-sm text-gray-500">
-                        Complete the circuit as prescribed.
+            {sectionsWithDisplay.map((section, sectionIdx) => {
+              const sectionKey = String(section.id ?? sectionIdx)
+              const config = section.conditioningConfig as {
+                timeCapSeconds?: number
+                durationSeconds?: number
+                intervalLengthSeconds?: number
+                rounds?: number
+                workSeconds?: number
+                restSeconds?: number
+              } | null
+              const resultKind =
+                section.conditioningFormat ||
+                section.blockType?.toUpperCase() === 'CIRCUIT'
+                  ? getConditioningResultKind(
+                      section.conditioningFormat,
+                      section.resultTrackingType
+                    )
+                  : null
+              const savedResult = conditioningResults.find(r =>
+                section.id != null
+                  ? r.sectionId === section.id
+                  : r.sectionName === section.name
+              )
+              const timerSummary = timerSummaries[sectionKey]
+              return (
+                <div key={sectionIdx} className="space-y-3">
+                  {resultKind &&
+                    readinessAdjustment?.conditioning === 'recovery' && (
+                      <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+                        <span className="font-medium">Readiness swap:</span>{' '}
+                        replace{' '}
+                        {section.name ? `"${section.name}"` : 'this block'} with
+                        20–30 min of easy recovery work (zone 1–2 cardio,
+                        mobility).
                       </div>
-                    </div>
-                  </Card>
-                ) : section.blockType === 'SUPERSET' ||
-                  section.blockType === 'superset' ? (
-                  <Card className="p-0">
-                    <div className="p-4 border-b border-gray-100 bg-gray-50/50">
+                    )}
+                  {section.conditioningFormat &&
+                    section.conditioningFormat !== 'For Completion' &&
+                    section.conditioningFormat !== '' && (
+                      <ConditioningTimer
+                        format={
+                          section.conditioningFormat as ConditioningFormat
+                        }
+                        config={config}
+                        onStop={summary =>
+                          setTimerSummaries(prev => ({
+                            ...prev,
+                            [sectionKey]: { ...summary, stoppedAt: Date.now() },
+                          }))
+                        }
+                      />
+                    )}
+                  {resultKind && (
+                    <Card className="p-4">
                       <Text
                         variant="default"
-                        className="font-semibold text-gray-900"
+                        className="font-medium text-gray-900 mb-2 block"
                       >
-                        Superset{section.name ? `: ${section.name}` : ''}
+                        {section.name ? `${section.name} result` : 'Result'}
                       </Text>
-                      <div className="text-xs mt-1 space-y-0.5 text-gray-600">
-                        {(section.supersetRounds != null ||
-                          section.restBetweenRounds != null) && (
-                          <span className="block">
-                            {section.supersetRounds != null &&
-                              `${section.supersetRounds} Rounds`}
-                            {section.supersetRounds != null &&
-                              section.restBetweenRounds != null &&
-                              section.restBetweenRounds !== '' &&
-                              ' | '}
-                            {section.restBetweenRounds != null &&
-                              section.restBetweenRounds !== '' &&
-                              `Rest between rounds: ${section.restBetweenRounds}s`}
-                          </span>
+                      <ConditioningResultForm
+                        key={`${sectionKey}-${timerSummary?.stoppedAt ?? 0}-${savedResult ? 'saved' : 'new'}`}
+                        kind={resultKind}
+                        totalIntervals={
+                          timerSummary?.totalIntervals ??
+                          (resultKind === 'per_round_reps'
+                            ? (config?.rounds ?? 8)
+                            : config?.rounds)
+                        }
+                        saved={savedResult}
+                        timerSummary={timerSummary}
+                        saving={savingConditioningKey === sectionKey}
+                        disabled={workout.status === 'completed'}
+                        onSave={(result, notes) =>
+                          void handleSaveConditioningResult(
+                            sectionKey,
+                            section,
+                            result,
+                            notes
+                          )
+                        }
+                      />
+                    </Card>
+                  )}
+                  {section.blockType === 'CIRCUIT' ||
+                  section.blockType === 'circuit' ? (
+                    <Card className="p-0">
+                      <div className="p-5">
+                        {section.name && (
+                          <Text
+                            variant="default"
+                            className="font-semibold text-gray-900 mb-2 block"
+                          >
+                            {section.name}
+                          </Text>
+                        )}
+                        {section.instructions && (
+                          <div className="mb-3">
+                            <SanitizedHtml
+                              html={section.instructions}
+                              className="text-sm text-gray-700 [&_p]:mb-1 [&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-4 [&_ol]:pl-4"
+                            />
+                          </div>
                         )}
-                        {section.restBetweenExercises != null &&
-                          section.restBetweenExercises !== '' && (
+                        {Array.isArray(section.videoUrls) &&
+                          section.videoUrls.length > 0 && (
+                            <div className="flex flex-wrap gap-2 mb-3">
+                              {(section.videoUrls as string[])
+                                .filter(Boolean)
+                                .map((url, i) => (
+                                  <a
+                                    key={i}
+                                    href={url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-sm text-[#3AB8ED] hover:underline"
+                                  >
+                                    Video {i + 1}
+                                  </a>
+                                ))}
+                            </div>
+                          )}
+                        <div className="mt-3 text-sm text-gray-500">
+                          Complete the circuit as prescribed.
+                        </div>
+                      </div>
+                    </Card>
+                  ) : section.blockType === 'SUPERSET' ||
+                    section.blockType === 'superset' ? (
+                    <Card className="p-0">
+                      <div className="p-4 border-b border-gray-100 bg-gray-50/50">
+                        <Text
+                          variant="default"
+                          className="font-semibold text-gray-900"
+                        >
+                          Superset{section.name ? `: ${section.name}` : ''}
+                        </Text>
+                        <div className="text-xs mt-1 space-y-0.5 text-gray-600">
+                          {(section.supersetRounds != null ||
+                            section.restBetweenRounds != null) && (
                             <span className="block">
-                              Rest between exercises:{' '}
-                              {section.restBetweenExercises}s
+                              {section.supersetRounds != null &&
+                                `${section.supersetRounds} Rounds`}
+                              {section.supersetRounds != null &&
+                                section.restBetweenRounds != null &&
+                                section.restBetweenRounds !== '' &&
+                                ' | '}
+                              {section.restBetweenRounds != null &&
+                                section.restBetweenRounds !== '' &&
+                                `Rest between rounds: ${section.restBetweenRounds}s`}
                             </span>
                           )}
-                      </div>
-                      {section.instructions && (
-                        <div className="mt-2 text-sm text-gray-700">
-                          <SanitizedHtml
-                            html={section.instructions}
-                            className="[&_p]:mb-1 [&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-4 [&_ol]:pl-4"
-                          />
+                          {section.restBetweenExercises != null &&
+                            section.restBetweenExercises !== '' && (
+                              <span className="block">
+                                Rest between exercises:{' '}
+                                {section.restBetweenExercises}s
+                              </span>
+                            )}
                         </div>
-                      )}
-                    </div>
-                    <div className="divide-y divide-gray-100">
-                      {section.exercises.map((se, exIdx) => {
-                        const display = se.display
-                        const label = `A${exIdx + 1}`
-                        const setsRows = Array.isArray(se.setsRows)
-                          ? (se.setsRows as Array<{
-                              setIndex?: number
-                              reps?: number
-                              repsDisplay?: string
-                              weightMode?: string
-                              weightValue?: number
-                              weightDisplay?: string
-                              rpe?: number
-                              tempo?: string
-                              restSeconds?: number
-                            }>)
-                          : []
-                        return (
-                          <div
-                            key={se.sectionExerciseId ?? exIdx}
-                            className="p-4"
-                          >
-                            {display ? (
-                              <>
-                                <button
-                                  type="button"
-                                  className="w-full flex items-center gap-4 cursor-pointer hover:bg-[#3AB8ED]/5 rounded-lg -m-2 p-2 transition-colors text-left"
-                                  onClick={() => handleExerciseClick(display)}
-                                >
-                                  <span className="flex-shrink-0 w-8 h-8 rounded-lg bg-[#3AB8ED]/10 text-[#2ea8db] font-semibold text-sm flex items-center justify-center">
-                                    {label}
-                                  </span>
-                                  <div className="min-w-0 flex-1">
+                        {section.instructions && (
+                          <div className="mt-2 text-sm text-gray-700">
+                            <SanitizedHtml
+                              html={section.instructions}
+                              className="[&_p]:mb-1 [&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-4 [&_ol]:pl-4"
+                            />
+                          </div>
+                        )}
+                      </div>
+                      <div className="divide-y divide-gray-100">
+                        {section.exercises.map((se, exIdx) => {
+                          const display = se.display
+                          const label = `A${exIdx + 1}`
+                          const setsRows = display
+                            ? adjustedSetsRows(
+                                se.setsRows,
+                                display,
+                                unitSystem,
+                                readinessAdjustment
+                              )
+                            : []
+                          return (
+                            <div
+                              key={se.sectionExerciseId ?? exIdx}
+                              className="p-4"
+                            >
+                              {display ? (
+                                <>
+                                  <button
+                                    type="button"
+                                    className="w-full flex items-center gap-4 cursor-pointer hover:bg-[#3AB8ED]/5 rounded-lg -m-2 p-2 transition-colors text-left"
+                                    onClick={() => handleExerciseClick(display)}
+                                  >
+                                    <span className="flex-shrink-0 w-8 h-8 rounded-lg bg-[#3AB8ED]/10 text-[#2ea8db] font-semibold text-sm flex items-center justify-center">
+                                      {label}
+                                    </span>
+                                    <div className="min-w-0 flex-1">
+                                      <Text
+                                        variant="default"
+                                        className="font-medium text-gray-900"
+                                      >
+                                        {display.name}
+                                      </Text>
+                                      {display.video && (
+                                        <a
+                                          href={display.video}
+                                          target="_blank"
+                                          rel="noopener noreferrer"
+                                          className="text-xs text-[#3AB8ED] hover:underline ml-2"
+                                          onClick={e => e.stopPropagation()}
+                                        >
+                                          Video
+                                        </a>
+                                      )}
+                                    </div>
+                                    {effectiveSessionId &&
+                                      workout.status !== 'completed' && (
+                                        <button
+                                          type="button"
+                                          onClick={e => {
+                                            e.stopPropagation()
+                                            handleSwapClick(display)
+                                          }}
+                                          className="shrink-0 p-2 rounded-lg text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+                                          aria-label="Swap exercise"
+                                        >
+                                          <svg
+                                            className="w-5 h-5"
+                                            fill="currentColor"
+                                            viewBox="0 0 24 24"
+                                            aria-hidden
+                                          >
+                                            <path d="M12 8c1.1 0 2-.9 2-2s-.9-2-2-2-2 .9-2 2 .9 2 2 2zm0 2c-1.1 0-2 .9-2 2s.9 2 2 2 2-.9 2-2-.9-2-2-2zm0 6c1.1 0 2-.9 2-2s-.9-2-2-2-2 .9 2 2 2 .9 2 2 2z" />
+                                          </svg>
+                                        </button>
+                                      )}
+                                    <span className="text-gray-400 text-sm">
+                                      →
+                                    </span>
+                                  </button>
+                                  {se.coachingNotes && (
                                     <Text
-                                      variant="default"
-                                      className="font-medium text-gray-900"
+                                      variant="secondary"
+                                      className="text-xs mt-1 block italic text-gray-600"
                                     >
-                                      {display.name}
+                                      {se.coachingNotes}
                                     </Text>
-                                    {display.video && (
-                                      <a
-                                        href={display.video}
-                                        target="_blank"
-                                        rel="noopener noreferrer"
-                                        className="text-xs text-[#3AB8ED] hover:underline ml-2"
-                                        onClick={e => e.stopPropagation()}
-                                      >
-                                        Video
-                                      </a>
-                                    )}
-                                  </div>
-                                  {effectiveSessionId &&
-                                    workout.status !== 'completed' && (
-                                      <button
-                                        type="button"
-                                        onClick={e => {
-                                          e.stopPropagation()
-                                          handleSwapClick(display)
-                                        }}
-                                        className="shrink-0 p-2 rounded-lg text-gray-400 hover:bg-gray-100 hover:text-gray-600"
-                                        aria-label="Swap exercise"
-                                      >
-                                        <svg
-                                          className="w-5 h-5"
-                                          fill="currentColor"
-                                          viewBox="0 0 24 24"
-                                          aria-hidden
-                                        >
-                                          <path d="M12 8c1.1 0 2-.9 2-2s-.9-2-2-2-2 .9-2 2 .9 2 2 2zm0 2c-1.1 0-2 .9-2 2s.9 2 2 2 2-.9 2-2-.9-2-2-2zm0 6c1.1 0 2-.9 2-2s-.9-2-2-2-2 .9 2 2 2 .9 2 2 2z" />
-                                        </svg>
-                                      </button>
-                                    )}
-                                  <span className="text-gray-400 text-sm">
-                                    →
-                                  </span>
-                                </button>
-                                {se.coachingNotes && (
-                                  <Text
-                                    variant="secondary"
-                                    className="text-xs mt-1 block italic text-gray-600"
+                                  )}
+                                  {(section.restBetweenExercises != null &&
+                                    section.restBetweenExercises !== '' &&
+                                    exIdx < section.exercises.length - 1) ||
+                                  (section.restBetweenRounds != null &&
+                                    section.restBetweenRounds !== '' &&
+                                    exIdx === section.exercises.length - 1) ? (
+                                    <Text
+                                      variant="secondary"
+                                      className="text-xs mt-0.5 block text-gray-500"
+                                    >
+                                      Rest after:{' '}
+                                      {exIdx < section.exercises.length - 1
+                                        ? `${section.restBetweenExercises ?? 0}s`
+                                        : `${section.restBetweenRounds ?? 0}s`}
+                                    </Text>
+                                  ) : null}
+                                  <SetPrescriptionTable rows={setsRows} />
+                                </>
+                              ) : (
+                                <Text variant="secondary" className="text-sm">
+                                  {se.exercise?.name ??
+                                    `${label}: Exercise ${exIdx + 1}`}
+                                </Text>
+                              )}
+                            </div>
+                          )
+                        })}
+                      </div>
+                    </Card>
+                  ) : (
+                    /* EXERCISE block or default: one card per exercise */
+                    section.exercises.map((se, exIdx) => {
+                      const display = se.display
+                      if (!display) return null
+                      return (
+                        <Card
+                          key={se.sectionExerciseId ?? display.exercise_id}
+                          pressable
+                          onPress={() => handleExerciseClick(display)}
+                          className="p-0 w-full cursor-pointer hover:bg-[#3AB8ED]/5 hover:border-[#3AB8ED]/30 transition-colors"
+                        >
+                          <div className="flex items-center gap-4 w-full">
+                            <span className="flex-shrink-0 w-8 h-8 rounded-lg bg-[#3AB8ED]/10 text-[#2ea8db] font-semibold text-sm flex items-center justify-center">
+                              {sectionIdx * 100 + exIdx + 1}
+                            </span>
+                            <div className="min-w-0 flex-1 py-4">
+                              <div className="flex items-center gap-2 flex-wrap">
+                                <Text
+                                  variant="default"
+                                  className="font-medium text-gray-900"
+                                >
+                                  {display.name}
+                                </Text>
+                                {display.video && (
+                                  <a
+                                    href={display.video}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-xs text-[#3AB8ED] hover:underline"
+                                    onClick={e => e.stopPropagation()}
                                   >
-                                    {se.coachingNotes}
-                                  </Text>
+                                    Video
+                                  </a>
                                 )}
-                                {(section.restBetweenExercises != null &&
-                                  section.restBetweenExercises !== '' &&
-                                  exIdx < section.exercises.length - 1) ||
-                                (section.restBetweenRounds != null &&
-                                  section.restBetweenRounds !== '' &&
-                                  exIdx === section.exercises.length - 1) ? (
-                                  <Text
-                                    variant="secondary"
-                                    className="text-xs mt-0.5 block text-gray-500"
-                                  >
-                                    Rest after:{' '}
-                                    {exIdx < section.exercises.length - 1
-                                      ? `${section.restBetweenExercises ?? 0}s`
-                                      : `${section.restBetweenRounds ?? 0}s`}
-                                  </Text>
-                                ) : null}
-                                {setsRows.length > 0 && (
-                                  <div className="mt-2 overflow-x-auto">
-                                    <table className="w-full text-xs border border-gray-200 rounded">
-                                      <thead>
-                                        <tr className="bg-gray-50 text-gray-600">
-                                          <th className="text-left py-1 px-2 font-medium">
-                                            Set
-                                          </th>
-                                          <th className="text-left py-1 px-2 font-medium">
-                                            Reps
-                                          </th>
-                                          <th className="text-left py-1 px-2 font-medium">
-                                            Weight
-                                          </th>
-                                          <th className="text-left py-1 px-2 font-medium">
-                                            RPE
-                                          </th>
-                                          <th className="text-left py-1 px-2 font-medium">
-                                            Tempo
-                                          </th>
-                                          <th className="text-left py-1 px-2 font-medium">
-                                            Rest
-                                          </th>
-                                        </tr>
-                                      </thead>
-                                      <tbody>
-                                        {setsRows.map((row, ri) => (
-                                          <tr
-                                            key={ri}
-                                            className="border-t border-gray-100"
-                                          >
-                                            <td className="py-1 px-2">
-                                              {row.setIndex != null
-                                                ? row.setIndex + 1
-                                                : ri + 1}
-                                            </td>
-                                            <td className="py-1 px-2">
-                                              {row.repsDisplay ??
-                                                row.reps ??
-                                                '—'}
-                                            </td>
-                                            <td className="py-1 px-2">
-                                              {row.weightDisplay ??
-                                                (row.weightMode === 'percent' &&
-                                                row.weightValue != null
-                                                  ? `${row.weightValue}%`
-                                                  : row.weightMode ===
-                                                      'rpe_only'
-                                                    ? 'RPE'
-                                                    : row.weightValue != null
-                                                      ? String(row.weightValue)
-                                                      : '—')}
-                                            </td>
-                                            <td className="py-1 px-2">
-                                              {row.rpe ?? '—'}
-                                            </td>
-                                            <td className="py-1 px-2">
-                                              {row.tempo ?? '—'}
-                                            </td>
-                                            <td className="py-1 px-2">
-                                              {row.restSeconds != null
-                                                ? `${row.restSeconds}s`
-                                                : '—'}
-                                            </td>
-                                          </tr>
-                                        ))}
-                                      </tbody>
-                                    </table>
-                                  </div>
+                              </div>
+                              {se.coachingNotes && (
+                                <Text
+                                  variant="secondary"
+                                  className="text-xs mt-1 block italic text-gray-600"
+                                >
+                                  {se.coachingNotes}
+                                </Text>
+                              )}
+                              <SetPrescriptionTable
+                                rows={adjustedSetsRows(
+                                  se.setsRows,
+                                  display,
+                                  unitSystem,
+                                  readinessAdjustment
                                 )}
-                              </>
-                            ) : (
-                              <Text variant="secondary" className="text-sm">
-                                {se.exercise?.name ??
-                                  `${label}: Exercise ${exIdx + 1}`}
-                              </Text>
-                            )}
-                          </div>
-                        )
-                      })}
-                    </div>
-                  </Card>
-                ) : (
-                  /* EXERCISE block or default: one card per exercise */
-                  section.exercises.map((se, exIdx) => {
-                    const display = se.display
-                    if (!display) return null
-                    return (
-                      <Card
-                        key={se.sectionExerciseId ?? display.exercise_id}
-                        pressable
-                        onPress={() => handleExerciseClick(display)}
-                        className="p-0 w-full cursor-pointer hover:bg-[#3AB8ED]/5 hover:border-[#3AB8ED]/30 transition-colors"
-                      >
-                        <div className="flex items-center gap-4 w-full">
-                          <span className="flex-shrink-0 w-8 h-8 rounded-lg bg-[#3AB8ED]/10 text-[#2ea8db] font-semibold text-sm flex items-center justify-center">
-                            {sectionIdx * 100 + exIdx + 1}
-                          </span>
-                          <div className="min-w-0 flex-1 py-4">
-                            <div className="flex items-center gap-2 flex-wrap">
-                              <Text
-                                variant="default"
-                                className="font-medium text-gray-900"
-                              >
-                                {display.name}
-                              </Text>
-                              {display.video && (
-                                <a
-                                  href={display.video}
-                                  target="_blank"
-                                  rel="noopener noreferrer"
-                                  className="text-xs text-[#3AB8ED] hover:underline"
-                                  onClick={e => e.stopPropagation()}
+                              />
+                              {(display.working_max != null ||
+                                display.last_logged != null ||
+                                display.prescribed_weight_lb != null ||
+                                display.prescribed_weight_kg != null) && (
+                                <Text
+                                  variant="secondary"
+                                  className="text-xs mt-1 block"
                                 >
-                                  Video
-                                </a>
+                                  {loadSummary(
+                                    display,
+                                    unitSystem,
+                                    readinessAdjustment
+                                  )}
+                                </Text>
                               )}
                             </div>
-                            {se.coachingNotes && (
-                              <Text
-                                variant="secondary"
-                                className="text-xs mt-1 block italic text-gray-600"
-                              >
-                                {se.coachingNotes}
-                              </Text>
-                            )}
-                            {Array.isArray(se.setsRows) &&
-                              se.setsRows.length > 0 && (
-                                <div className="mt-2 overflow-x-auto">
-                                  <table className="w-full text-xs border border-gray-200 rounded">
-                                    <thead>
-                                      <tr className="bg-gray-50 text-gray-600">
-                                        <th className="text-left py-1 px-2 font-medium">
-                                          Set
-                                        </th>
-                                        <th className="text-left py-1 px-2 font-medium">
-                                          Reps
-                                        </th>
-                                        <th className="text-left py-1 px-2 font-medium">
-                                          Weight
-                                        </th>
-                                        <th className="text-left py-1 px-2 font-medium">
-                                          RPE
-                                        </th>
-                                        <th className="text-left py-1 px-2 font-medium">
-                                          Tempo
-                                        </th>
-                                        <th className="text-left py-1 px-2 font-medium">
-                                          Rest
-                                        </th>
-                                      </tr>
-                                    </thead>
-                                    <tbody>
-                                      {(
-                                        se.setsRows as Array<{
-                                          setIndex?: number
-                                          reps?: number
-                                          repsDisplay?: string
-                                          weightMode?: string
-                                          weightValue?: number
-                                          weightDisplay?: string
-                                          rpe?: number
-                                          tempo?: string
-                                          restSeconds?: number
-                                        }>
-                                      ).map((row, ri) => (
-                                        <tr
-                                          key={ri}
-                                          className="border-t border-gray-100"
-                                        >
-                                          <td className="py-1 px-2">
-                                            {row.setIndex != null
-                                              ? row.setIndex + 1
-                                              : ri + 1}
-                                          </td>
-                                          <td className="py-1 px-2">
-                                            {row.repsDisplay ??
-                                              (row.reps != null
-                                                ? String(row.reps)
-                                                : '—')}
-                                          </td>
-                                          <td className="py-1 px-2">
-                                            {row.weightDisplay ??
-                                              (row.weightMode === 'percent' &&
-                                              row.weightValue != null
-                                                ? `${row.weightValue}%`
-                                                : row.weightMode === 'lwp' &&
-                                                    row.weightValue != null
-                                                  ? `LWP+${row.weightValue}`
-                                                  : row.weightValue != null
-                                                    ? String(row.weightValue)
-                                                    : row.weightMode ===
-                                                        'rpe_only'
-                                                      ? 'RPE'
-                                                      : '—')}
-                                          </td>
-                                          <td className="py-1 px-2">
-                                            {row.rpe != null
-                                              ? String(row.rpe)
-                                              : '—'}
-                                          </td>
-                                          <td className="py-1 px-2">
-                                            {row.tempo ?? '—'}
-                                          </td>
-                                          <td className="py-1 px-2">
-                                            {row.restSeconds != null
-                                              ? `${row.restSeconds}s`
-                                              : '—'}
-                                          </td>
-                                        </tr>
-                                      ))}
-                                    </tbody>
-                                  </table>
-                                </div>
+                            {effectiveSessionId &&
+                              workout.status !== 'completed' && (
+                                <button
+                                  type="button"
+                                  onClick={e => {
+                                    e.stopPropagation()
+                                    handleSwapClick(display)
+                                  }}
+                                  className="shrink-0 p-2 rounded-lg text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+                                  aria-label="Swap exercise"
+                                >
+                                  <svg
+                                    className="w-5 h-5"
+                                    fill="currentColor"
+                                    viewBox="0 0 24 24"
+                                    aria-hidden
+                                  >
+                                    <path d="M12 8c1.1 0 2-.9 2-2s-.9-2-2-2-2 .9-2 2 .9 2 2 2zm0 2c-1.1 0-2 .9-2 2s.9 2 2 2 2-.9 2-2-.9-2-2-2zm0 6c1.1 0 2-.9 2-2s-.9-2-2-2-2 .9 2 2 2 .9 2 2 2z" />
+                                  </svg>
+                                </button>
                               )}
-                            {(display.working_max != null ||
-                              display.last_logged != null ||
-                              display.prescribed_weight_lb != null ||
-                              display.prescribed_weight_kg != null) && (
-                              <Text
-                                variant="secondary"
-                                className="text-xs mt-1 block"
-                              >
-                                {[
-                                  display.working_max != null &&
-                                    `${display.working_max.value} ${display.working_max.unit} 1RM`,
-                                  display.last_logged != null &&
-                                  (display.last_logged.weightLb != null ||
-                                    display.last_logged.weightKg != null) &&
-                                  display.last_logged.reps != null
-                                    ? `Last: ${display.last_logged.weightLb ?? display.last_logged.weightKg} ${display.last_logged.weightLb != null ? 'lb' : 'kg'} × ${display.last_logged.reps}`
-                                    : null,
-                                  (display.prescribed_weight_lb != null ||
-                                    display.prescribed_weight_kg != null) &&
-                                  display.weight_percent != null
-                                    ? `→ ${display.prescribed_weight_lb ?? display.prescribed_weight_kg} ${display.prescribed_weight_lb != null ? 'lb' : 'kg'} (${display.weight_percent}%)`
-                                    : null,
-                                ]
-                                  .filter(Boolean)
-                                  .join(' · ')}
-                              </Text>
-                            )}
+                            <span className="text-gray-400 text-sm shrink-0 pr-4">
+                              →
+                            </span>
                           </div>
-                          {effectiveSessionId &&
-                            workout.status !== 'completed' && (
-                              <button
-                                type="button"
-                                onClick={e => {
-                                  e.stopPropagation()
-                                  handleSwapClick(display)
-                                }}
-                                className="shrink-0 p-2 rounded-lg text-gray-400 hover:bg-gray-100 hover:text-gray-600"
-                                aria-label="Swap exercise"
-                              >
-                                <svg
-                                  className="w-5 h-5"
-                                  fill="currentColor"
-                                  viewBox="0 0 24 24"
-                                  aria-hidden
-                                >
-                                  <path d="M12 8c1.1 0 2-.9 2-2s-.9-2-2-2-2 .9-2 2 .9 2 2 2zm0 2c-1.1 0-2 .9-2 2s.9 2 2 2 2-.9 2-2-.9-2-2-2zm0 6c1.1 0 2-.9 2-2s-.9-2-2-2-2 .9 2 2 2 .9 2 2 2z" />
-                                </svg>
-                              </button>
-                            )}
-                          <span className="text-gray-400 text-sm shrink-0 pr-4">
-                            →
-                          </span>
-                        </div>
-                      </Card>
-                    )
-                  })
-                )}
-              </div>
-            ))}
+                        </Card>
+                      )
+                    })
+                  )}
+                </div>
+              )
+            })}
           </div>
         ) : (
           <div className="w-full space-y-4">
@@ -1654,27 +2189,11 @@ export default function TodaySession() {
                                   variant="secondary"
                                   className="text-xs mt-1 block"
                                 >
-                                  {[
-                                    ex.working_max != null &&
-                                      `${ex.working_max.value} ${ex.working_max.unit} 1RM`,
-                                    ex.last_logged != null &&
-                                    (ex.last_logged.weightLb != null ||
-                                      ex.last_logged.weightKg != null) &&
-                                    ex.last_logged.reps != null
-                                      ? `Last: ${ex.last_logged.weightLb ?? ex.last_logged.weightKg} ${ex.last_logged.weightLb != null ? 'lb' : 'kg'} × ${ex.last_logged.reps}`
-                                      : ex.last_logged != null &&
-                                          (ex.last_logged.weightLb != null ||
-                                            ex.last_logged.weightKg != null)
-                                        ? `Last: ${ex.last_logged.weightLb ?? ex.last_logged.weightKg} ${ex.last_logged.weightLb != null ? 'lb' : 'kg'}`
-                                        : null,
-                                    (ex.prescribed_weight_lb != null ||
-                                      ex.prescribed_weight_kg != null) &&
-                                    ex.weight_percent != null
-                                      ? `→ ${ex.prescribed_weight_lb ?? ex.prescribed_weight_kg} ${ex.prescribed_weight_lb != null ? 'lb' : 'kg'} (${ex.weight_percent}%)`
-                                      : null,
-                                  ]
-                                    .filter(Boolean)
-                                    .join(' · ')}
+                                  {loadSummary(
+                                    ex,
+                                    unitSystem,
+                                    readinessAdjustment
+                                  )}
                                 </Text>
                               )}
                             </div>
@@ -1721,24 +2240,24 @@ export default function TodaySession() {
                 How are you feeling? (1–5)
               </Text>
               <div className="space-y-3">
-                {(
-                  [
-                    { key: 'sleep', label: 'Sleep' },
-                    { key: 'stress', label: 'Stress' },
-                    { key: 'energy', label: 'Energy' },
-                    { key: 'soreness', label: 'Soreness' },
-                    { key: 'mood', label: 'Mood' },
-                  ] as const
-                ).map(({ key, label }) => (
+                {READINESS_QUESTIONS.map(({ key, label, low, high }) => (
                   <div
                     key={key}
                     className="flex items-center justify-between gap-4"
                   >
-                    <span className="text-sm text-gray-700">{label}</span>
+                    <div>
+                      <span className="text-sm text-gray-700 block">
+                        {label}
+                      </span>
+                      <span className="text-xs text-gray-500 block">
+                        1 = {low} · 5 = {high}
+                      </span>
+                    </div>
                     <input
                       type="range"
                       min={1}
                       max={5}
+                      aria-label={`${label}: 1 = ${low}, 5 = ${high}`}
                       value={readinessValues[key]}
                       onChange={e =>
                         setReadinessValues(prev => ({
@@ -1754,23 +2273,77 @@ export default function TodaySession() {
                   </div>
                 ))}
               </div>
-              <div className="flex gap-2 mt-6">
-                <Button
-                  type="button"
-                  variant="secondary"
-                  onClick={() => setReadinessOpen(false)}
-                >
-                  Skip
-                </Button>
-                <Button
-                  type="button"
-                  variant="primary"
-                  disabled={readinessSubmitting}
-                  onClick={handleReadinessSubmit}
-                >
-                  {readinessSubmitting ? 'Saving…' : 'Save'}
-                </Button>
-              </div>
+              {(() => {
+                const recommendation =
+                  recommendReadinessAdjustment(readinessValues)
+                const changes = describeReadinessAdjustment(recommendation)
+                return (
+                  <>
+                    <div
+                      className={`mt-4 rounded-lg p-3 text-sm ${changes.length > 0 ? 'bg-amber-50 border border-amber-200 text-amber-900' : 'bg-green-50 border border-green-200 text-green-900'}`}
+                    >
+                      <div className="font-medium">
+                        {READINESS_LEVEL_LABELS[recommendation.level]} ·{' '}
+                        {recommendation.score}/100
+                      </div>
+                      {recommendation.reasons.length > 0 && (
+                        <div className="text-xs mt-0.5">
+                          {recommendation.reasons.join(', ')}
+                        </div>
+                      )}
+                      {changes.length > 0 ? (
+                        <ul className="list-disc pl-5 mt-2 space-y-0.5">
+                          {changes.map(line => (
+                            <li key={line}>{line}</li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <div className="text-xs mt-1">Train as prescribed.</div>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-2 mt-6">
+                      <Button
+                        type="button"
+                        variant="secondary"
+                        onClick={() => setReadinessOpen(false)}
+                      >
+                        Skip
+                      </Button>
+                      {changes.length > 0 ? (
+                        <>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            disabled={readinessSubmitting}
+                            onClick={() => void handleReadinessSubmit(false)}
+                          >
+                            Keep as prescribed
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="primary"
+                            disabled={readinessSubmitting}
+                            onClick={() => void handleReadinessSubmit(true)}
+                          >
+                            {readinessSubmitting
+                              ? 'Saving…'
+                              : 'Apply adjustment'}
+                          </Button>
+                        </>
+                      ) : (
+                        <Button
+                          type="button"
+                          variant="primary"
+                          disabled={readinessSubmitting}
+                          onClick={() => void handleReadinessSubmit(false)}
+                        >
+                          {readinessSubmitting ? 'Saving…' : 'Save'}
+                        </Button>
+                      )}
+                    </div>
+                  </>
+                )
+              })()}
             </Card>
           </div>
         )}
@@ -1823,7 +2396,7 @@ export default function TodaySession() {
                   {completeSuccessSummary.totalSets} set
                   {completeSuccessSummary.totalSets !== 1 ? 's' : ''} logged
                   {completeSuccessSummary.volumeKg > 0 &&
-                    ` · ${completeSuccessSummary.volumeKg} kg volume`}
+                    ` · ${formatTonnage(completeSuccessSummary.volumeKg, unitSystem)} volume`}
                   {completeSuccessSummary.durationMinutes != null &&
                     ` · ${completeSuccessSummary.durationMinutes} min`}
                 </p>
@@ -1848,6 +2421,15 @@ export default function TodaySession() {
                       </ul>
                     </div>
                   )}
+                <div className="mt-3 pt-3 border-t border-gray-200 empty:hidden">
+                  <WorkingMaxSuggestions
+                    setLogs={setLogs}
+                    currentMaxes={currentWorkingMaxes}
+                    onAccept={handleAcceptWorkingMax}
+                    acceptedIds={acceptedWorkingMaxIds}
+                    busy={acceptingWorkingMax}
+                  />
+                </div>
               </div>
               <Button
                 type="button"
@@ -2022,10 +2604,58 @@ export default function TodaySession() {
 
   if (view === 'exercise-detail' && selectedExercise) {
     const display = currentDisplayExercise()
-    const setsCount = display?.sets ?? selectedExercise.sets ?? 1
+    const setsCount =
+      selectedSetRows.length ||
+      adjustedSetCount(
+        display?.sets ?? selectedExercise.sets ?? 1,
+        readinessAdjustment
+      )
+    const prescribedDisplayLoad = prescribedLoad(
+      selectedExercise,
+      unitSystem,
+      readinessAdjustment
+    )
     const presetReps = display?.total_reps ?? selectedExercise.total_reps
     const presetLb = display?.lb ?? selectedExercise.lb
     const hasAlternate = !!selectedExercise.alternate_exercise
+    const loggedWarmups = [
+      ...setLogs
+        .filter(
+          log =>
+            log.setType === 'warmup' &&
+            (log.exerciseKey ?? log.exerciseId) ===
+              String(selectedExercise.exercise_id)
+        )
+        .map(log => log.setIndex),
+      ...outbox.entries.flatMap(e =>
+        e.kind === 'log_set' &&
+        e.body.setType === 'warmup' &&
+        e.body.exerciseKey === String(selectedExercise.exercise_id)
+          ? [e.body.setIndex]
+          : []
+      ),
+    ]
+    const selectedExerciseKey = String(selectedExercise.exercise_id)
+    /** Offline outbox: queued state wins over the server log for the same set */
+    const getSetSyncState = (
+      setIdx: number
+    ): keyof typeof SET_SYNC_STYLES | null => {
+      const queued = outbox.entries.find(
+        e =>
+          e.kind === 'log_set' &&
+          e.body.exerciseKey === selectedExerciseKey &&
+          e.body.setType !== 'warmup' &&
+          e.body.setIndex === setIdx
+      )
+      if (queued) return queued.status
+      const synced = setLogs.some(
+        log =>
+          (log.exerciseKey ?? log.exerciseId) === selectedExerciseKey &&
+          log.setType !== 'warmup' &&
+          log.setIndex === setIdx
+      )
+      return synced ? 'synced' : null
+    }
 
     return (
       <div className="space-y-6 max-w-4xl">
@@ -2038,6 +2668,15 @@ export default function TodaySession() {
           ← Back to exercises
         </Button>
 
+        <OfflineSyncBanner
+          isOnline={outbox.isOnline}
+          syncing={outbox.syncing}
+          entries={outbox.entries}
+          onSync={() => void outbox.sync()}
+          onKeepMine={entry => void outbox.keepMine(entry)}
+          onDiscard={entry => void outbox.discard(entry)}
+        />
+
         <Card className="p-0">
           <div className="p-5">
             <h1 className="text-xl font-semibold text-gray-900 mb-1">
@@ -2068,12 +2707,24 @@ export default function TodaySession() {
               <Text variant="secondary" className="text-xs mt-2 text-gray-500">
                 Target: {setsCount} sets
                 {presetReps != null && ` × ${presetReps} reps`}
-                {presetLb != null && ` @ ${presetLb} lb`}
-                {selectedExercise.prescribed_weight_lb != null &&
-                  ` @ ${selectedExercise.prescribed_weight_lb} lb (${selectedExercise.weight_percent ?? '?'}% 1RM)`}
-                {selectedExercise.prescribed_weight_kg != null &&
-                  selectedExercise.prescribed_weight_lb == null &&
-                  ` @ ${selectedExercise.prescribed_weight_kg} kg (${selectedExercise.weight_percent ?? '?'}% 1RM)`}
+                {presetLb != null &&
+                  ` @ ${formatWeight(
+                    {
+                      weightLb: applyLoadReduction(
+                        presetLb,
+                        readinessAdjustment?.loadReductionPercent,
+                        'lb'
+                      ),
+                    },
+                    unitSystem,
+                    true
+                  )}`}
+                {prescribedDisplayLoad != null &&
+                  ` @ ${prescribedDisplayLoad} ${weightUnitFor(unitSystem)} (${selectedExercise.weight_percent ?? '?'}% 1RM${
+                    readinessAdjustment?.loadReductionPercent
+                      ? `, -${readinessAdjustment.loadReductionPercent}% readiness`
+                      : ''
+                  })`}
               </Text>
             )}
             {(selectedExercise.working_max != null ||
@@ -2081,8 +2732,14 @@ export default function TodaySession() {
               <Text variant="secondary" className="text-xs mt-1 text-gray-500">
                 {selectedExercise.working_max != null && (
                   <span>
-                    Working max: {selectedExercise.working_max.value}{' '}
-                    {selectedExercise.working_max.unit}
+                    Working max:{' '}
+                    {formatWeight(
+                      selectedExercise.working_max.unit.toLowerCase() === 'kg'
+                        ? { weightKg: selectedExercise.working_max.value }
+                        : { weightLb: selectedExercise.working_max.value },
+                      unitSystem,
+                      true
+                    )}
                   </span>
                 )}
                 {selectedExercise.working_max != null &&
@@ -2093,11 +2750,7 @@ export default function TodaySession() {
                     selectedExercise.last_logged.weightKg != null) && (
                     <span>
                       Last:{' '}
-                      {selectedExercise.last_logged.weightLb ??
-                        selectedExercise.last_logged.weightKg}{' '}
-                      {selectedExercise.last_logged.weightLb != null
-                        ? 'lb'
-                        : 'kg'}
+                      {formatWeight(selectedExercise.last_logged, unitSystem)}
                       {selectedExercise.last_logged.reps != null &&
                         ` × ${selectedExercise.last_logged.reps}`}
                     </span>
@@ -2155,6 +2808,30 @@ export default function TodaySession() {
           </div>
         )}
 
+        {(selectedExercise.prescribed_weight_lb != null ||
+          selectedExercise.prescribed_weight_kg != null ||
+          presetLb != null) && (
+          <PlateCalculator
+            key={`${selectedExercise.exercise_id}-${useAlternate}-${readinessAdjustment?.loadReductionPercent ?? 0}`}
+            prescribedWeight={
+              prescribedDisplayLoad ??
+              (presetLb != null
+                ? applyLoadReduction(
+                    presetLb,
+                    readinessAdjustment?.loadReductionPercent,
+                    'lb'
+                  )
+                : undefined)
+            }
+            prescribedUnit={
+              prescribedDisplayLoad != null ? weightUnitFor(unitSystem) : 'lb'
+            }
+            loggedWarmups={loggedWarmups}
+            onLogWarmup={handleLogWarmup}
+            disabled={logLoading || sessionLoading}
+          />
+        )}
+
         {(() => {
           const exKey = String(selectedExercise.exercise_id)
           const loggedForExercise = setLogs.filter(
@@ -2169,41 +2846,31 @@ export default function TodaySession() {
               >
                 Logged sets
               </Text>
-              <div className="space-y-1">
-                {loggedForExercise
-                  .sort((a, b) => a.setIndex - b.setIndex)
-                  .map(log => (
-                    <div
-                      key={log.id}
-                      className={`flex flex-wrap items-center gap-3 px-3 py-2 rounded-lg text-sm ${
-                        log.isModified
-                          ? 'bg-amber-50 border border-amber-200'
-                          : 'bg-gray-50'
-                      }`}
-                    >
-                      <span className="font-medium text-gray-700">
-                        Set {log.setIndex}
-                      </span>
-                      {log.reps != null && (
-                        <span className="text-gray-600">{log.reps} reps</span>
-                      )}
-                      {(log.weightLb != null || log.weightKg != null) && (
-                        <span className="text-gray-600">
-                          {log.weightLb ?? log.weightKg}{' '}
-                          {log.weightLb != null ? 'lb' : 'kg'}
-                        </span>
-                      )}
-                      {log.rpe != null && (
-                        <span className="text-gray-500">RPE {log.rpe}</span>
-                      )}
-                      {log.isModified && (
-                        <span className="text-amber-700 text-xs font-medium">
-                          Modified
-                        </span>
-                      )}
-                    </div>
-                  ))}
-              </div>
+              {sessionSummary && (
+                <Text variant="secondary" className="text-xs block">
+                  Session: {sessionSummary.totalSets} set
+                  {sessionSummary.totalSets !== 1 ? 's' : ''}
+                  {sessionSummary.volumeKg > 0 &&
+                    ` · ${formatTonnage(sessionSummary.volumeKg, unitSystem)} volume`}
+                  {sessionSummary.prs?.length
+                    ? ` · ${sessionSummary.prs.length} PR${sessionSummary.prs.length !== 1 ? 's' : ''}`
+                    : ''}
+                </Text>
+              )}
+              <SetLogList
+                logs={loggedForExercise.sort(
+                  (a, b) =>
+                    Number(a.setType !== 'warmup') -
+                      Number(b.setType !== 'warmup') || a.setIndex - b.setIndex
+                )}
+                onUpdate={
+                  outbox.isOnline ? setLogCorrections.updateSetLog : undefined
+                }
+                onDelete={
+                  outbox.isOnline ? setLogCorrections.deleteSetLog : undefined
+                }
+                busyId={setLogCorrections.busyId}
+              />
             </div>
           )
         })()}
@@ -2215,71 +2882,111 @@ export default function TodaySession() {
           >
             Log sets
           </Text>
-          {Array.from({ length: setsCount }, (_, i) => i + 1).map(setIdx => (
-            <Card key={setIdx} className="p-0 w-full">
-              <div className="flex flex-wrap items-center gap-4 p-4">
-                <span className="flex-shrink-0 w-9 h-9 rounded-lg bg-gray-100 text-gray-700 font-semibold text-sm flex items-center justify-center">
-                  {setIdx}
-                </span>
-                <div className="flex flex-wrap items-center gap-3 flex-1 min-w-0">
-                  <label className="flex items-center gap-2">
-                    <span className="text-sm text-gray-600 w-10">Reps</span>
-                    <input
-                      type="number"
-                      placeholder="—"
-                      min={0}
-                      className="border border-gray-200 rounded-lg px-3 py-2 w-20 text-sm focus:ring-2 focus:ring-[#3AB8ED]/30 focus:border-[#3AB8ED] outline-none"
-                      value={setInputs[setIdx]?.reps ?? ''}
-                      onChange={e =>
-                        setSetInputs(prev => ({
-                          ...prev,
-                          [setIdx]: {
-                            ...prev[setIdx],
-                            reps: e.target.value
-                              ? Number(e.target.value)
-                              : undefined,
-                          },
-                        }))
-                      }
-                    />
-                  </label>
-                  <label className="flex items-center gap-2">
-                    <span className="text-sm text-gray-600 w-14">
-                      Weight (lb)
+          {Array.from({ length: setsCount }, (_, i) => i + 1).map(setIdx => {
+            const row = selectedSetRows[setIdx - 1]
+            return (
+              <Card key={setIdx} className="p-0 w-full">
+                {row && (
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1 px-4 pt-3 text-xs text-gray-600">
+                    <span>
+                      Target: {row.repsLabel} reps · {row.weightLabel}
                     </span>
-                    <input
-                      type="number"
-                      placeholder="—"
-                      min={0}
-                      className="border border-gray-200 rounded-lg px-3 py-2 w-24 text-sm focus:ring-2 focus:ring-[#3AB8ED]/30 focus:border-[#3AB8ED] outline-none"
-                      value={setInputs[setIdx]?.weightLb ?? ''}
-                      onChange={e =>
-                        setSetInputs(prev => ({
-                          ...prev,
-                          [setIdx]: {
-                            ...prev[setIdx],
-                            weightLb: e.target.value
-                              ? Number(e.target.value)
-                              : undefined,
-                          },
-                        }))
-                      }
-                    />
-                  </label>
+                    {row.rpe != null && <span>RPE {row.rpe}</span>}
+                    {row.tempo && (
+                      <span className="inline-flex items-center gap-1">
+                        Tempo{' '}
+                        {row.tempoPhases ? (
+                          <TempoCue
+                            tempo={row.tempo}
+                            phases={row.tempoPhases}
+                          />
+                        ) : (
+                          row.tempo
+                        )}
+                      </span>
+                    )}
+                    {row.restSeconds != null && (
+                      <span>Rest {row.restSeconds}s</span>
+                    )}
+                  </div>
+                )}
+                <div className="flex flex-wrap items-center gap-4 p-4">
+                  <span className="flex-shrink-0 w-9 h-9 rounded-lg bg-gray-100 text-gray-700 font-semibold text-sm flex items-center justify-center">
+                    {setIdx}
+                  </span>
+                  {(() => {
+                    const syncState = getSetSyncState(setIdx)
+                    if (!syncState) return null
+                    return (
+                      <span
+                        className={`px-2 py-0.5 rounded-lg text-xs font-medium ${SET_SYNC_STYLES[syncState].className}`}
+                      >
+                        {SET_SYNC_STYLES[syncState].label}
+                      </span>
+                    )
+                  })()}
+                  <div className="flex flex-wrap items-center gap-3 flex-1 min-w-0">
+                    <label className="flex items-center gap-2">
+                      <span className="text-sm text-gray-600 w-10">Reps</span>
+                      <input
+                        type="number"
+                        placeholder={row?.reps != null ? String(row.reps) : '—'}
+                        min={0}
+                        className="border border-gray-200 rounded-lg px-3 py-2 w-20 text-sm focus:ring-2 focus:ring-[#3AB8ED]/30 focus:border-[#3AB8ED] outline-none"
+                        value={setInputs[setIdx]?.reps ?? ''}
+                        onChange={e =>
+                          setSetInputs(prev => ({
+                            ...prev,
+                            [setIdx]: {
+                              ...prev[setIdx],
+                              reps: e.target.value
+                                ? Number(e.target.value)
+                                : undefined,
+                            },
+                          }))
+                        }
+                      />
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <span className="text-sm text-gray-600 w-14">
+                        Weight ({weightUnitFor(unitSystem)})
+                      </span>
+                      <input
+                        type="number"
+                        placeholder={
+                          row?.weight != null ? String(row.weight) : '—'
+                        }
+                        min={0}
+                        className="border border-gray-200 rounded-lg px-3 py-2 w-24 text-sm focus:ring-2 focus:ring-[#3AB8ED]/30 focus:border-[#3AB8ED] outline-none"
+                        value={setInputs[setIdx]?.weight ?? ''}
+                        onChange={e =>
+                          setSetInputs(prev => ({
+                            ...prev,
+                            [setIdx]: {
+                              ...prev[setIdx],
+                              weight: e.target.value
+                                ? Number(e.target.value)
+                                : undefined,
+                            },
+                          }))
+                        }
+                      />
+                    </label>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="primary"
+                    size="small"
+                    disabled={logLoading || sessionLoading}
+                    onClick={() => handleLogSet(setIdx, row)}
+                    className="shrink-0"
+                  >
+                    {sessionLoading || logLoading ? 'Logging…' : 'Log set'}
+                  </Button>
                 </div>
-                <Button
-                  type="button"
-                  variant="primary"
-                  size="small"
-                  disabled={logLoading || sessionLoading}
-                  onClick={() => handleLogSet(setIdx)}
-                  className="shrink-0"
-                >
-                  {sessionLoading || logLoading ? 'Logging…' : 'Log set'}
-                </Button>
-              </div>
-            </Card>
-          ))}
+              </Card>
+            )
+          })}
         </div>
 
         {/* MASS Phase 7: Rest timer after logging a set — dismiss / pause / adjust */}
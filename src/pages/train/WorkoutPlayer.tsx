@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
 import { useNavigate, useSearchParams } from 'react-router-dom'
 import { Text } from '@/components/Text'
 import { Card } from '@/components/Card'
@@ -7,12 +7,33 @@ import { Spinner } from '@/components/Spinner'
 import { trainService } from '@/api/train.service'
 import { cycleTransitionService } from '@/api/cycle-transition.service'
 import type { ExerciseDTO } from '@/types/program'
+import type { CreateSessionDTO } from '@/types/train'
 import type { AxiosError } from 'axios'
+import { SetPrescriptionTable } from '@/components/SetPrescriptionTable'
+import {
+  resolveSetsRows,
+  type PrescriptionContext,
+  type ResolvedSetPrescription,
+} from '@/utils/setPrescription'
+import {
+  isCircuitBlock,
+  type CircuitExercise,
+  type CircuitSection,
+} from '@/utils/circuitFlow'
+import { CircuitPlayer } from './CircuitPlayer'
+
+type WorkoutSection = Omit<CircuitSection, 'exercises'> & {
+  parentSectionId?: number | null
+  orderIndex?: number
+  exercises?: CircuitExercise[]
+}
 
 type WorkoutDay = {
   exercises?: ExerciseDTO[]
   exercise_name?: string
   notSet?: boolean
+  /** MASS Phase 4: block structure carrying per-set rows */
+  sections?: WorkoutSection[]
 }
 
 export default function WorkoutPlayer() {
@@ -35,6 +56,27 @@ export default function WorkoutPlayer() {
     recommendTransitionTo: string
   } | null>(null)
   const [transitionConfirming, setTransitionConfirming] = useState(false)
+  // MASS Phase 4: rest countdown started from a set row's restSeconds
+  const [restSeconds, setRestSeconds] = useState<number | null>(null)
+  // Guided supersets/circuits log sets, so the player needs a session to log against
+  const [sessionCreateBody, setSessionCreateBody] =
+    useState<CreateSessionDTO | null>(null)
+
+  useEffect(() => {
+    if (restSeconds == null) return
+    const t = setTimeout(
+      () =>
+        setRestSeconds(prev => (prev == null || prev <= 1 ? null : prev - 1)),
+      1000
+    )
+    return () => clearTimeout(t)
+  }, [restSeconds])
+
+  const handleStartRest = (row: ResolvedSetPrescription) => {
+    if (row.restSeconds != null && row.restSeconds > 0) {
+      setRestSeconds(row.restSeconds)
+    }
+  }
 
   useEffect(() => {
     const cancelled = { current: false }
@@ -72,6 +114,16 @@ export default function WorkoutPlayer() {
                   ''
               )
               if (d.sessionId) setSessionId(d.sessionId as number)
+              if (typeof d.date === 'string') {
+                setSessionCreateBody({
+                  date: d.date.slice(0, 10),
+                  phase: d.phase as string | undefined,
+                  weekIndex: d.weekIndex as number | undefined,
+                  dayIndex: d.dayIndex as number | undefined,
+                  dayKey: d.dayKey as string | undefined,
+                  programId: d.programId as number | undefined,
+                })
+              }
               setStatus((d.status as string) ?? null)
             }
           } else {
@@ -95,6 +147,46 @@ export default function WorkoutPlayer() {
     }
   }, [])
 
+  const ensureSessionId = useCallback(async (): Promise<number | null> => {
+    if (sessionId) return sessionId
+    if (!sessionCreateBody) return null
+    const res = await trainService.createOrGetSession(sessionCreateBody)
+    const id = res.data?.data?.id ?? null
+    if (id) setSessionId(id)
+    return id
+  }, [sessionId, sessionCreateBody])
+
+  /** Top-level sections; a SUPERSET parent takes the exercises of its child sections */
+  const topSections = useMemo(() => {
+    const sections = dayExercise?.sections ?? []
+    return sections
+      .filter(section => section.parentSectionId == null)
+      .map(section => {
+        if (section.id == null || !isCircuitBlock(section.blockType)) {
+          return section
+        }
+        const children = sections
+          .filter(s => s.parentSectionId === section.id)
+          .sort((a, b) => (a.orderIndex ?? 0) - (b.orderIndex ?? 0))
+        return children.length > 0
+          ? {
+              ...section,
+              exercises: children.flatMap(c => c.exercises ?? []),
+            }
+          : section
+      })
+  }, [dayExercise?.sections])
+
+  const circuitSections = useMemo(
+    () =>
+      topSections.flatMap(section =>
+        isCircuitBlock(section.blockType) && section.exercises?.length
+          ? [{ ...section, exercises: section.exercises }]
+          : []
+      ),
+    [topSections]
+  )
+
   const handleMarkComplete = () => {
     if (!sessionId) {
       setError('Start a session first.')
@@ -176,7 +268,9 @@ export default function WorkoutPlayer() {
   const noWorkoutSet =
     !dayExercise ||
     dayExercise.notSet === true ||
-    (!dayExercise.exercises?.length && !dayExercise.exercise_name)
+    (!dayExercise.exercises?.length &&
+      !dayExercise.exercise_name &&
+      !dayExercise.sections?.some(section => section.exercises?.length))
 
   if (error && !dayExercise && !redCompleteState) {
     return (
@@ -248,6 +342,28 @@ export default function WorkoutPlayer() {
   }
 
   const exercises: ExerciseDTO[] = dayExercise?.exercises ?? []
+  const sectionExercises = topSections.flatMap(
+    section => section.exercises ?? []
+  )
+  const contextFor = (ex: ExerciseDTO): PrescriptionContext => ({
+    workingMax: ex.working_max,
+    lastLogged: ex.last_logged,
+    unit:
+      ex.prescribed_weight_lb == null && ex.prescribed_weight_kg != null
+        ? 'kg'
+        : 'lb',
+  })
+  const contextForId = (exerciseId: number): PrescriptionContext => {
+    const ex = exercises.find(e => String(e.exercise_id) === String(exerciseId))
+    return ex ? contextFor(ex) : {}
+  }
+  const setsRowsFor = (ex: ExerciseDTO): ResolvedSetPrescription[] =>
+    resolveSetsRows(
+      sectionExercises.find(
+        se => String(se.exerciseId) === String(ex.exercise_id)
+      )?.setsRows,
+      contextFor(ex)
+    )
 
   return (
     <div className="space-y-6 max-w-4xl">
@@ -281,11 +397,61 @@ export default function WorkoutPlayer() {
         )}
       </Card>
 
+      {circuitSections.length > 0 && (
+        <div className="space-y-4">
+          <Text variant="default" className="font-semibold">
+            Supersets & circuits
+          </Text>
+          {circuitSections.map((section, idx) => (
+            <CircuitPlayer
+              key={section.id ?? idx}
+              section={section}
+              letter={String.fromCharCode(65 + idx)}
+              storageKey={`${sessionCreateBody?.date ?? dayKey}:${section.id ?? idx}`}
+              ensureSessionId={ensureSessionId}
+              contextFor={contextForId}
+              disabled={status === 'completed'}
+            />
+          ))}
+        </div>
+      )}
+
       <div className="space-y-4">
         <Text variant="default" className="font-semibold">
           Exercises
         </Text>
-        {noWorkoutSet || exercises.length === 0 ? (
+        {restSeconds != null && (
+          <div className="flex flex-wrap items-center justify-between gap-3 p-4 rounded-xl bg-[#3AB8ED]/10 border border-[#3AB8ED]/30">
+            <Text
+              variant="default"
+              className="font-medium text-gray-800 tabular-nums"
+            >
+              Rest: {Math.floor(restSeconds / 60)}:
+              {String(restSeconds % 60).padStart(2, '0')}
+            </Text>
+            <Button
+              type="button"
+              variant="secondary"
+              size="small"
+              onClick={() => setRestSeconds(null)}
+            >
+              Skip rest
+            </Button>
+          </div>
+        )}
+        {exercises.length === 0 && sectionExercises.length > 0 ? (
+          sectionExercises.map((se, idx) => (
+            <Card key={se.sectionExerciseId ?? idx} className="p-4">
+              <Text variant="default" className="font-medium">
+                {se.exercise?.name ?? `Exercise ${idx + 1}`}
+              </Text>
+              <SetPrescriptionTable
+                rows={resolveSetsRows(se.setsRows)}
+                onStartRest={handleStartRest}
+              />
+            </Card>
+          ))
+        ) : noWorkoutSet || exercises.length === 0 ? (
           <Text variant="secondary">
             {noWorkoutSet
               ? 'No workout set for this day.'
@@ -353,6 +519,10 @@ export default function WorkoutPlayer() {
                     .join(' · ')}
                 </Text>
               )}
+              <SetPrescriptionTable
+                rows={setsRowsFor(ex)}
+                onStartRest={handleStartRest}
+              />
               {ex.video && (
                 <a
                   href={ex.video}
@@ -10,6 +10,8 @@ import { trainService } from '@/api/train.service'
 import type { TodayWorkoutResponse, WorkoutSession } from '@/types/train'
 import type { AxiosError } from 'axios'
 import { RecoverySection } from './RecoverySection'
+import { SessionSetLogs } from './SessionSetLogs'
+import { formatConditioningResult } from '@/utils/conditioningResult'
 
 function getLastWeekDates(): { from: string; to: string } {
   const to = new Date()
@@ -30,6 +32,9 @@ export default function TrainPage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [recentSessions, setRecentSessions] = useState<WorkoutSession[]>([])
+  const [expandedSessionId, setExpandedSessionId] = useState<number | null>(
+    null
+  )
   const [todayWorkout, setTodayWorkout] = useState<TodayWorkoutState | null>(
     null
   )
@@ -382,28 +387,57 @@ export default function TrainPage() {
                   const isCompleted =
                     (s.status ?? '').toLowerCase() === 'completed'
                   return (
-                    <li
-                      key={s.id}
-                      className="flex items-center justify-between py-3"
-                    >
-                      <span className="text-sm text-gray-700">{dateStr}</span>
-                      <div className="flex items-center gap-2">
-                        {isCompleted && (
-                          <span className="text-xs font-medium text-green-600">
-                            Done
+                    <li key={s.id} className="py-3">
+                      <div className="flex items-center justify-between">
+                        <span className="min-w-0">
+                          <span className="text-sm text-gray-700 block">
+                            {dateStr}
                           </span>
-                        )}
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="small"
-                          onClick={() =>
-                            navigate(`/train/today?date=${dateStr}`)
-                          }
-                        >
-                          View
-                        </Button>
+                          {s.conditioningResults?.map((r, i) => (
+                            <span
+                              key={r.id ?? i}
+                              className="text-xs text-gray-500 block"
+                            >
+                              {r.sectionName ||
+                                r.conditioningFormat ||
+                                'Result'}
+                              : {formatConditioningResult(r.result)}
+                            </span>
+                          ))}
+                        </span>
+                        <div className="flex items-center gap-2">
+                          {isCompleted && (
+                            <span className="text-xs font-medium text-green-600">
+                              Done
+                            </span>
+                          )}
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="small"
+                            onClick={() =>
+                              setExpandedSessionId(prev =>
+                                prev === s.id ? null : s.id
+                              )
+                            }
+                          >
+                            {expandedSessionId === s.id ? 'Hide sets' : 'Sets'}
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="small"
+                            onClick={() =>
+                              navigate(`/train/today?date=${dateStr}`)
+                            }
+                          >
+                            View
+                          </Button>
+                        </div>
                       </div>
+                      {expandedSessionId === s.id && (
+                        <SessionSetLogs sessionId={s.id} />
+                      )}
                     </li>
                   )
                 })}
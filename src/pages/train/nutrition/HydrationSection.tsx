@@ -6,6 +6,8 @@ import { Spinner } from '@/components/Spinner'
 import { ProgressBar } from '@/components/ProgressBar'
 import { nutritionService } from '@/api/nutrition.service'
 import { useSnackbar } from '@/components/Snackbar/useSnackbar'
+import { useUnitPreference } from '@/hooks/useUnitPreference'
+import { formatVolume, hydrationSteps } from '@/utils/units'
 import type { AxiosError } from 'axios'
 
 export function HydrationSection({
@@ -25,9 +27,11 @@ export function HydrationSection({
 }>) {
   const { showSuccess, showError } = useSnackbar()
   const [saving, setSaving] = useState(false)
+  const { unitSystem } = useUnitPreference()
+  const [small, large] = hydrationSteps(unitSystem)
 
   const adjust = (delta: number) => {
-    const newAmount = Math.max(0, amountOz + delta)
+    const newAmount = Math.max(0, Math.round((amountOz + delta) * 10) / 10)
     setSaving(true)
     nutritionService
       .logHydration({ date, amountOz: newAmount })
@@ -77,9 +81,13 @@ export function HydrationSection({
           </div>
           <div className="p-5 space-y-4">
             <Text variant="secondary" className="text-sm block">
-              Target: 0.5 oz per lb bodyweight ·{' '}
+              Target:{' '}
+              {unitSystem === 'metric'
+                ? '33 ml per kg bodyweight'
+                : '0.5 oz per lb bodyweight'}{' '}
+              ·{' '}
               {targetOz > 0
-                ? `${targetOz} oz`
+                ? formatVolume(targetOz, unitSystem)
                 : 'Set weight in profile for target'}
             </Text>
             <div className="flex items-center gap-4 flex-wrap">
@@ -87,32 +95,32 @@ export function HydrationSection({
                 variant="default"
                 className="text-2xl font-semibold text-gray-900"
               >
-                {amountOz} oz
+                {formatVolume(amountOz, unitSystem)}
               </Text>
               <div className="flex gap-2">
                 <Button
                   type="button"
                   variant="secondary"
-                  onClick={() => adjust(-8)}
+                  onClick={() => adjust(-small.oz)}
                   disabled={saving || amountOz <= 0}
                 >
-                  −8 oz
+                  −{small.label}
                 </Button>
                 <Button
                   type="button"
                   variant="secondary"
-                  onClick={() => adjust(8)}
+                  onClick={() => adjust(small.oz)}
                   disabled={saving}
                 >
-                  +8 oz
+                  +{small.label}
                 </Button>
                 <Button
                   type="button"
                   variant="secondary"
-                  onClick={() => adjust(16)}
+                  onClick={() => adjust(large.oz)}
                   disabled={saving}
                 >
-                  +16 oz
+                  +{large.label}
                 </Button>
               </div>
             </div>
@@ -7,6 +7,8 @@ import { nutritionService } from '@/api/nutrition.service'
 import { ACTIVITY_LEVELS, NUTRITION_GOALS } from '@/types/nutrition'
 import type { CalculatorResult, NutritionGoal } from '@/types/nutrition'
 import { useSnackbar } from '@/components/Snackbar/useSnackbar'
+import { useUnitPreference } from '@/hooks/useUnitPreference'
+import { bodyweightToKg, heightToCm, weightUnitFor } from '@/utils/units'
 import type { AxiosError } from 'axios'
 
 export function MacroCalculator({
@@ -16,16 +18,19 @@ export function MacroCalculator({
   const [loading, setLoading] = useState(false)
   const [saving, setSaving] = useState(false)
   const [result, setResult] = useState<CalculatorResult | null>(null)
-  const [weightKg, setWeightKg] = useState('')
-  const [heightCm, setHeightCm] = useState('')
+  const { unitSystem } = useUnitPreference()
+  const [weight, setWeight] = useState('')
+  const [height, setHeight] = useState('')
   const [age, setAge] = useState('')
   const [gender, setGender] = useState<'male' | 'female'>('male')
   const [activityMultiplier, setActivityMultiplier] = useState(1.725)
   const [goal, setGoal] = useState<NutritionGoal>('maintenance')
 
+  const heightUnit = unitSystem === 'metric' ? 'cm' : 'in'
+
   const handleCalculate = () => {
-    const w = Number.parseFloat(weightKg)
-    const h = Number.parseFloat(heightCm)
+    const w = Number.parseFloat(weight)
+    const h = Number.parseFloat(height)
     const a = Number.parseInt(age, 10)
     if (
       Number.isNaN(w) ||
@@ -35,15 +40,17 @@ export function MacroCalculator({
       h <= 0 ||
       a <= 0
     ) {
-      showError('Please enter valid weight (kg), height (cm), and age.')
+      showError(
+        `Please enter valid weight (${weightUnitFor(unitSystem)}), height (${heightUnit}), and age.`
+      )
       return
     }
     setLoading(true)
     setResult(null)
     nutritionService
       .calculator({
-        weightKg: w,
-        heightCm: h,
+        weightKg: bodyweightToKg(w, unitSystem),
+        heightCm: heightToCm(h, unitSystem),
         age: a,
         gender,
         activityMultiplier,
@@ -100,16 +107,16 @@ export function MacroCalculator({
         <div className="p-5 space-y-4">
           <div className="grid gap-4 sm:grid-cols-2">
             <Input
-              label="Weight (kg)"
+              label={`Weight (${weightUnitFor(unitSystem)})`}
               type="number"
-              value={weightKg}
-              onChange={e => setWeightKg(e.target.value)}
+              value={weight}
+              onChange={e => setWeight(e.target.value)}
             />
             <Input
-              label="Height (cm)"
+              label={`Height (${heightUnit})`}
               type="number"
-              value={heightCm}
-              onChange={e => setHeightCm(e.target.value)}
+              value={height}
+              onChange={e => setHeight(e.target.value)}
             />
             <Input
               label="Age"
@@ -98,6 +98,8 @@ export interface ExerciseListForBuilderItem {
   tags?: string[] | null
   /** YouTube/Vimeo URL for video thumbnail in program builder picker */
   videoUrl?: string | null
+  /** Exercise whose working max % loads are based on (program lint) */
+  referenceMaxExerciseId?: number | null
 }
 
 export interface ListForProgramBuilderResponse {
@@ -179,6 +179,8 @@ export interface UpdateProgramDTO {
   goalTypeId?: number | null
   durationWeeks?: number | null
   programStructure?: ProgramStructure
+  /** updatedAt this edit was based on; the server answers 409 when the program has changed since */
+  expectedUpdatedAt?: string
 }
 
 // Program response from API (relational: programStructure is source of truth for content)
@@ -336,3 +338,44 @@ export interface CurrentProgramResponse {
   data: UserProgram | null
   message?: string
 }
+
+/** Why a program version snapshot was taken */
+export type ProgramVersionReason = 'save' | 'publish' | 'restore'
+
+/** Program version history: snapshot of a program taken on save / publish */
+export interface ProgramVersion {
+  id: number
+  programId: number
+  /** 1, 2, 3… per program */
+  versionNumber: number
+  reason: ProgramVersionReason
+  note?: string | null
+  createdAt: string
+  createdBy?: { id: number; name?: string | null; email?: string } | null
+  /** Program fields at the time of the snapshot */
+  name: string
+  description?: string | null
+  category?: string | null
+  subCategory?: string | null
+  isActive?: boolean
+  constraintCategory?: string | null
+  /** Returned by get-by-id; omitted from the list */
+  programStructure?: ProgramStructure | null
+}
+
+export interface CreateProgramVersionDTO {
+  reason: ProgramVersionReason
+  note?: string
+}
+
+export interface GetProgramVersionsResponse {
+  statusCode: number
+  data: ProgramVersion[]
+  message?: string
+}
+
+export interface GetProgramVersionResponse {
+  statusCode: number
+  data: ProgramVersion
+  message?: string
+}
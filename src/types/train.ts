@@ -97,8 +97,99 @@ export interface WorkoutSession {
     newExerciseId: number
     newExercise?: { id: number; name: string }
   }>
+  /** Conditioning: results logged for conditioning blocks in this session */
+  conditioningResults?: ConditioningResultEntry[]
+  /** Readiness: pre-session survey and whether its adjustment was applied */
+  readiness?: ReadinessEntry | null
 }
 
+/** MASS Phase 7: pre-session readiness survey, 1-5 each (stress / soreness: 5 = worst) */
+export interface ReadinessValues {
+  sleep: number
+  stress: number
+  energy: number
+  soreness: number
+  mood: number
+}
+
+/** Readiness: how far today's session should be pulled back */
+export type ReadinessAdjustmentLevel =
+  | 'none'
+  | 'light'
+  | 'moderate'
+  | 'recovery'
+
+/** Readiness: adjustment recommended from the survey */
+export interface ReadinessAdjustment {
+  level: ReadinessAdjustmentLevel
+  /** 0-100, higher = more ready */
+  score: number
+  /** Cut to every resolved load, e.g. 5 = -5% */
+  loadReductionPercent: number
+  /** Sets removed from the end of each exercise */
+  dropSets: number
+  /** recovery = replace conditioning with easy aerobic / mobility work */
+  conditioning: 'as_prescribed' | 'recovery'
+  /** Survey answers that drove the recommendation ("Poor sleep") */
+  reasons: string[]
+}
+
+/** Readiness: survey as stored for a session date */
+export interface ReadinessEntry extends ReadinessValues {
+  id?: number
+  sessionDate: string
+  workoutSessionId?: number | null
+  score?: number | null
+  adjustment?: ReadinessAdjustment | null
+  /** True when the athlete accepted the adjustment, false when declined */
+  adjustmentApplied?: boolean | null
+  createdAt?: string
+}
+
+/** Body for POST /athlete/train/readiness */
+export type SubmitReadinessDTO = Omit<ReadinessEntry, 'id' | 'createdAt'>
+
+/** Conditioning: result shape per format / resultTrackingType */
+export type ConditioningResult =
+  | { kind: 'rounds_reps'; rounds: number; reps: number }
+  | {
+      kind: 'time'
+      elapsedSeconds: number
+      /** Hit the time cap before finishing */
+      timeCapped: boolean
+      /** Reps completed at the cap (when time capped) */
+      repsAtCap?: number
+    }
+  | { kind: 'intervals'; completedIntervals: number; totalIntervals?: number }
+  | { kind: 'per_round_reps'; repsPerRound: number[] }
+  | { kind: 'calories'; calories: number }
+  | { kind: 'distance'; meters: number }
+  | { kind: 'completion'; completed: boolean }
+
+export type ConditioningResultKind = ConditioningResult['kind']
+
+/** Conditioning: one block's result as stored on the session */
+export interface ConditioningResultEntry {
+  id?: number
+  /** Day structure section (block) the result belongs to */
+  sectionId?: number
+  sectionName?: string
+  conditioningFormat?: string
+  resultTrackingType?: string
+  result: ConditioningResult
+  notes?: string
+  recordedAt?: string
+}
+
+/** Body for POST /athlete/train/sessions/:id/conditioning-results */
+export type LogConditioningResultDTO = Omit<
+  ConditioningResultEntry,
+  'id' | 'recordedAt'
+>
+
+/** Working sets count toward volume/PRs; warm-up sets are recorded for reference */
+export type SetLogType = 'working' | 'warmup'
+
 /** Single set log */
 export interface SetLog {
   id: number
@@ -106,6 +197,8 @@ export interface SetLog {
   exerciseKey?: string
   exerciseId?: string
   exerciseName?: string
+  /** Alternate = logged under the main exercise's key for a substitute lift */
+  exerciseSource?: 'main' | 'alternate'
   setIndex: number
   reps?: number
   weightLb?: number
@@ -113,7 +206,32 @@ export interface SetLog {
   rpe?: number
   sectionExerciseId?: number
   isModified?: boolean
+  /** Warm-up sets are logged separately from working sets (setIndex counts within each type) */
+  setType?: SetLogType
+  /** Superset/circuit: 1-based round the set was performed in */
+  round?: number
   completedAt?: string
+  /** Set corrections: last time the athlete edited this set */
+  editedAt?: string
+  /** Set corrections: audit trail, oldest first */
+  edits?: SetLogEdit[]
+}
+
+/** Set corrections: values a set log had before one edit */
+export interface SetLogEdit {
+  editedAt: string
+  previous: Pick<SetLog, 'reps' | 'weightLb' | 'weightKg' | 'rpe'>
+  reason?: string
+}
+
+/** Body for PATCH /athlete/train/sessions/:id/sets/:setLogId */
+export interface UpdateSetLogDTO {
+  reps?: number
+  weightLb?: number
+  weightKg?: number
+  rpe?: number
+  /** Optional note kept in the audit trail ("typo: 25 not 225") */
+  reason?: string
 }
 
 export interface WorkoutSessionsResponse {
@@ -161,4 +279,82 @@ export interface LogSetDTO {
   rpe?: number
   sectionExerciseId?: number
   isModified?: boolean
+  setType?: SetLogType
+  /** Superset/circuit: 1-based round the set was performed in */
+  round?: number
+}
+
+/** Offline outbox: kinds of athlete writes that can be queued while offline */
+export type OutboxEntryKind =
+  | 'log_set'
+  | 'swap'
+  | 'readiness'
+  | 'complete_session'
+  | 'conditioning_result'
+
+/** Offline outbox: pending = waiting to replay; conflict = session changed elsewhere; failed = rejected by server */
+export type OutboxEntryStatus = 'pending' | 'syncing' | 'conflict' | 'failed'
+
+/** Payload for each outbox entry kind (same bodies the online calls send) */
+export type OutboxPayload =
+  | { kind: 'log_set'; body: LogSetDTO }
+  | {
+      kind: 'swap'
+      body: { originalExerciseId: number; newExerciseId: number }
+    }
+  | { kind: 'readiness'; body: Omit<SubmitReadinessDTO, 'workoutSessionId'> }
+  | { kind: 'complete_session'; body: UpdateSessionDTO }
+  | { kind: 'conditioning_result'; body: LogConditioningResultDTO }
+
+/**
+ * One queued write. Entries replay in `seq` order. `sessionId` is null when the
+ * session did not exist yet; `createSession` is then used to create-or-get it first.
+ */
+export type OutboxEntry = OutboxPayload & {
+  seq?: number
+  idempotencyKey: string
+  sessionDate: string
+  sessionId: number | null
+  createSession?: CreateSessionDTO
+  status: OutboxEntryStatus
+  attempts: number
+  lastError?: string
+  /** Set when the athlete chose "keep mine" on a conflict; skips conflict checks on replay */
+  forceReplay?: boolean
+  createdAt: string
+}
+
+/** e1RM: one accepted working max change (GET .../working-max/history) */
+export interface WorkingMaxHistoryEntry {
+  id: number
+  exerciseId: number
+  exerciseName?: string
+  previousValue?: number | null
+  value: number
+  unit: 'lb' | 'kg'
+  source: 'auto' | 'manual' | 'test'
+  /** Who accepted the change */
+  changedByRole?: 'ATHLETE' | 'COACH' | 'ADMIN'
+  /** e1RM method and the set it came from, when source is auto */
+  estimate?: WorkingMaxEstimate | null
+  createdAt: string
+}
+
+/** e1RM: details sent when accepting an auto-suggested working max */
+export interface WorkingMaxEstimate {
+  method: 'epley' | 'brzycki' | 'rpe'
+  weight: number
+  reps: number
+  rpe?: number | null
+  workoutSessionId?: number
+}
+
+/** Body for POST .../working-max (athlete or coach) */
+export interface SetWorkingMaxDTO {
+  exerciseId: number
+  value: number
+  unit: 'lb' | 'kg'
+  /** Defaults to manual on the backend; auto when accepting an e1RM suggestion */
+  source?: 'auto' | 'manual'
+  estimate?: WorkingMaxEstimate
 }
@@ -1,7 +1,11 @@
+/** Units: how weights, hydration and distances are entered and shown */
+export type UnitSystem = 'imperial' | 'metric'
+
 export interface UpdateProfileProps {
   firstName?: string
   lastName?: string
   profileImageUrl?: string
+  unitSystem?: UnitSystem
 }
 
 export interface UpdateProfileResponse {
@@ -37,6 +41,7 @@ export interface GetProfileResponse {
     createdAt?: string
     updatedAt?: string
     referralCode?: string | null
+    unitSystem?: UnitSystem | null
   }
 }
 
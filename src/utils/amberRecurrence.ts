@@ -0,0 +1,229 @@
+/**
+ * Amber Recurrence
+ *
+ * Recurrence rules for the date-driven Amber calendar: repeat sessions on
+ * chosen weekdays (rotating through several sessions), or copy a week of
+ * dates forward. A rule expands into a plan of dates, each marked as a new
+ * session, a replacement, or a skip (date already has a session, holiday).
+ * Dates are ISO "YYYY-MM-DD" strings handled in UTC.
+ */
+
+/** Session a weekday rule assigns: a program day or a library session */
+export type AmberSessionSource =
+  | { type: 'day'; programDayId: number; label: string }
+  | { type: 'library'; librarySessionId: number; label: string }
+
+export type AmberRecurrenceRule =
+  | {
+      kind: 'weekly'
+      startDate: string
+      weeks: number
+      /** 0 = Sunday … 6 = Saturday */
+      weekdays: number[]
+      /** Rotated in date order (A, B, C, A, …) */
+      sources: AmberSessionSource[]
+    }
+  | {
+      kind: 'copy-week'
+      /** First date of the week to copy (7 days from here) */
+      weekStart: string
+      times: number
+    }
+
+/** What to do with a date that already has a session */
+export type AmberConflictMode = 'skip' | 'replace'
+
+export interface AmberRecurrenceOptions {
+  skipFederalHolidays: boolean
+  conflictMode: AmberConflictMode
+}
+
+/** Session already on a date */
+export interface AmberExistingSession {
+  sessionDate: string
+  label: string
+  /** Program day assigned to the date (to put it back if a replace fails) */
+  programDayId?: number
+}
+
+export type AmberPlanAction = 'create' | 'replace' | 'skip-existing' | 'holiday'
+
+export interface AmberPlanItem {
+  date: string
+  action: AmberPlanAction
+  /** Session the date gets (create / replace) or would have got */
+  source: AmberSessionSource | { type: 'copy'; fromDate: string; label: string }
+  /** Session on the date now */
+  existingLabel?: string
+  holidayName?: string
+}
+
+export const AMBER_PLAN_ACTION_LABELS: Record<AmberPlanAction, string> = {
+  create: 'New',
+  replace: 'Replaces',
+  'skip-existing': 'Kept',
+  holiday: 'Holiday',
+}
+
+/** Weekday toggles, Monday first */
+export const WEEKDAYS: Array<{ value: number; label: string }> = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+]
+
+/** Longest recurrence a rule may expand to */
+export const MAX_RECURRENCE_WEEKS = 52
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const parseIsoDate = (date: string) => Date.parse(`${date}T00:00:00Z`)
+
+const toIsoDate = (ms: number) => new Date(ms).toISOString().slice(0, 10)
+
+export const addDays = (date: string, days: number) =>
+  toIsoDate(parseIsoDate(date) + days * DAY_MS)
+
+export const weekdayOf = (date: string) =>
+  new Date(parseIsoDate(date)).getUTCDay()
+
+/** "Mon 3 Mar 2025" */
+export const formatPlanDate = (date: string) =>
+  new Date(parseIsoDate(date)).toLocaleDateString(undefined, {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  })
+
+/** nth (1-based) weekday of a month; n = -1 for the last one */
+const nthWeekday = (
+  year: number,
+  month: number,
+  weekday: number,
+  n: number
+) => {
+  if (n > 0) {
+    const first = new Date(Date.UTC(year, month, 1)).getUTCDay()
+    return toIsoDate(
+      Date.UTC(year, month, 1 + ((weekday - first + 7) % 7) + (n - 1) * 7)
+    )
+  }
+  const lastDate = new Date(Date.UTC(year, month + 1, 0))
+  const back = (lastDate.getUTCDay() - weekday + 7) % 7
+  return toIsoDate(lastDate.getTime() - back * DAY_MS)
+}
+
+/** Fixed-date holiday on its observed day (Saturday → Friday, Sunday → Monday) */
+const observed = (year: number, month: number, day: number) => {
+  const date = toIsoDate(Date.UTC(year, month, day))
+  const weekday = weekdayOf(date)
+  if (weekday === 6) return addDays(date, -1)
+  if (weekday === 0) return addDays(date, 1)
+  return date
+}
+
+/** US federal holidays (observed dates) of a year, by date */
+export const federalHolidays = (year: number): Map<string, string> =>
+  new Map([
+    [observed(year, 0, 1), "New Year's Day"],
+    [nthWeekday(year, 0, 1, 3), 'Martin Luther King Jr. Day'],
+    [nthWeekday(year, 1, 1, 3), "Washington's Birthday"],
+    [nthWeekday(year, 4, 1, -1), 'Memorial Day'],
+    [observed(year, 5, 19), 'Juneteenth'],
+    [observed(year, 6, 4), 'Independence Day'],
+    [nthWeekday(year, 8, 1, 1), 'Labor Day'],
+    [nthWeekday(year, 9, 1, 2), 'Columbus Day'],
+    [observed(year, 10, 11), 'Veterans Day'],
+    [nthWeekday(year, 10, 4, 4), 'Thanksgiving Day'],
+    [observed(year, 11, 25), 'Christmas Day'],
+  ])
+
+const holidayName = (date: string) =>
+  federalHolidays(Number(date.slice(0, 4))).get(date) ??
+  // New Year's Day on a Saturday is observed on 31 December
+  federalHolidays(Number(date.slice(0, 4)) + 1).get(date)
+
+/** First and last date a rule can touch (for loading existing sessions) */
+export const recurrenceRange = (
+  rule: AmberRecurrenceRule
+): { from: string; to: string } =>
+  rule.kind === 'weekly'
+    ? { from: rule.startDate, to: addDays(rule.startDate, rule.weeks * 7 - 1) }
+    : {
+        from: rule.weekStart,
+        to: addDays(rule.weekStart, (rule.times + 1) * 7 - 1),
+      }
+
+/**
+ * Dates and sessions a rule asks for, before holidays and existing sessions
+ * are taken into account
+ */
+const ruleTargets = (
+  rule: AmberRecurrenceRule,
+  existing: AmberExistingSession[]
+): Array<{ date: string; source: AmberPlanItem['source'] }> => {
+  if (rule.kind === 'copy-week') {
+    const weekEnd = addDays(rule.weekStart, 6)
+    const sourceSessions = existing
+      .filter(s => s.sessionDate >= rule.weekStart && s.sessionDate <= weekEnd)
+      .sort((a, b) => a.sessionDate.localeCompare(b.sessionDate))
+    return Array.from({ length: rule.times }, (_, i) => i + 1).flatMap(copy =>
+      sourceSessions.map(s => ({
+        date: addDays(s.sessionDate, copy * 7),
+        source: { type: 'copy', fromDate: s.sessionDate, label: s.label },
+      }))
+    )
+  }
+  const dates: string[] = []
+  for (let day = 0; day < rule.weeks * 7; day++) {
+    const date = addDays(rule.startDate, day)
+    if (rule.weekdays.includes(weekdayOf(date))) dates.push(date)
+  }
+  return dates.map(date => ({ date, source: rule.sources[0] }))
+}
+
+/**
+ * Expand a rule into a plan. Weekday rules rotate their sessions over the
+ * dates that actually get one, so a skipped date does not break the A/B/C
+ * order.
+ */
+export const expandAmberRecurrence = (
+  rule: AmberRecurrenceRule,
+  existing: AmberExistingSession[],
+  { skipFederalHolidays, conflictMode }: AmberRecurrenceOptions
+): AmberPlanItem[] => {
+  if (rule.kind === 'weekly' && rule.sources.length === 0) return []
+  const existingByDate = new Map(existing.map(s => [s.sessionDate, s.label]))
+  let rotation = 0
+  return ruleTargets(rule, existing).map(({ date, source }): AmberPlanItem => {
+    const planned =
+      rule.kind === 'weekly'
+        ? rule.sources[rotation % rule.sources.length]
+        : source
+    const existingLabel = existingByDate.get(date)
+    const holiday = skipFederalHolidays ? holidayName(date) : undefined
+    if (holiday) {
+      return { date, action: 'holiday', source: planned, holidayName: holiday }
+    }
+    if (existingLabel != null && conflictMode === 'skip') {
+      return { date, action: 'skip-existing', source: planned, existingLabel }
+    }
+    rotation += 1
+    return {
+      date,
+      action: existingLabel == null ? 'create' : 'replace',
+      source: planned,
+      existingLabel,
+    }
+  })
+}
+
+/** Plan items that write a session */
+export const plannedWrites = (plan: AmberPlanItem[]) =>
+  plan.filter(item => item.action === 'create' || item.action === 'replace')
@@ -0,0 +1,169 @@
+/**
+ * Athlete Preview
+ *
+ * Shapes a builder day the way the athlete workout screens receive it
+ * (superset and circuit exercises folded into their block, names attached)
+ * and supplies sample working maxes so percentage loads resolve to weights.
+ * Nothing here talks to the API: a preview creates no session or enrollment.
+ */
+
+import type {
+  ProgramStructureDay,
+  ProgramStructureSectionExercise,
+  ProgramStructureSetRow,
+} from '@/types/program'
+import { groupDayBlocks } from '@/utils/builderHistory'
+import { isCircuitBlock, type CircuitSection } from '@/utils/circuitFlow'
+import { parseRestSeconds } from '@/utils/restParse'
+import { blockLetter } from '@/utils/programPrint'
+import type { PrescriptionUnit } from '@/utils/setPrescription'
+
+type LiftPattern = 'squat' | 'deadlift' | 'bench' | 'press' | 'olympic'
+
+/** Sample athlete: working max per lift pattern, and for everything else */
+export interface SampleMaxProfile {
+  id: string
+  label: string
+  unit: PrescriptionUnit
+  maxes: Record<LiftPattern | 'other', number>
+}
+
+export const SAMPLE_MAX_PROFILES: SampleMaxProfile[] = [
+  {
+    id: 'novice',
+    label: 'Novice (lb)',
+    unit: 'lb',
+    maxes: {
+      squat: 185,
+      deadlift: 225,
+      bench: 135,
+      press: 85,
+      olympic: 115,
+      other: 95,
+    },
+  },
+  {
+    id: 'intermediate',
+    label: 'Intermediate (lb)',
+    unit: 'lb',
+    maxes: {
+      squat: 315,
+      deadlift: 365,
+      bench: 225,
+      press: 135,
+      olympic: 205,
+      other: 135,
+    },
+  },
+  {
+    id: 'advanced',
+    label: 'Advanced (lb)',
+    unit: 'lb',
+    maxes: {
+      squat: 455,
+      deadlift: 525,
+      bench: 315,
+      press: 185,
+      olympic: 275,
+      other: 185,
+    },
+  },
+  {
+    id: 'intermediate-kg',
+    label: 'Intermediate (kg)',
+    unit: 'kg',
+    maxes: {
+      squat: 140,
+      deadlift: 165,
+      bench: 100,
+      press: 60,
+      olympic: 95,
+      other: 60,
+    },
+  },
+]
+
+/** Checked in order: "Push Press" is a press, "Front Squat" a squat */
+const LIFT_PATTERNS: Array<[LiftPattern, RegExp]> = [
+  ['olympic', /clean|snatch|jerk/i],
+  ['deadlift', /deadlift|rdl|good morning/i],
+  ['squat', /squat|lunge|leg press|step[- ]?up/i],
+  ['bench', /bench|chest press|floor press|dip/i],
+  ['press', /press/i],
+]
+
+/** Sample working max for an exercise, picked by its name */
+export const sampleWorkingMax = (
+  profile: SampleMaxProfile,
+  exerciseName: string
+): { value: number; unit: PrescriptionUnit } => {
+  const pattern = LIFT_PATTERNS.find(([, re]) => re.test(exerciseName))?.[0]
+  return { value: profile.maxes[pattern ?? 'other'], unit: profile.unit }
+}
+
+/**
+ * Set rows the athlete sees: the per-set rows when there are any, otherwise
+ * `sets` copies of the exercise prescription
+ */
+export const previewSetRows = (
+  ex: ProgramStructureSectionExercise
+): ProgramStructureSetRow[] => {
+  if (ex.setsRows?.length) return ex.setsRows
+  const row: ProgramStructureSetRow = {
+    reps: ex.reps,
+    weightMode: ex.weightPercent == null ? undefined : 'percent',
+    weightValue: ex.weightPercent,
+    rpe: ex.rpe,
+    tempo: ex.tempo,
+    restSeconds: parseRestSeconds(ex.rest),
+  }
+  return Array.from({ length: ex.sets ?? 0 }, (_, setIndex) => ({
+    ...row,
+    setIndex,
+  }))
+}
+
+export interface PreviewExercise {
+  exerciseId: number
+  exercise: { id: number; name: string }
+  setsRows: ProgramStructureSetRow[]
+  coachingNotes?: string
+}
+
+/** One block of a previewed day, as the workout player lays it out */
+export interface PreviewBlock {
+  key: string
+  /** A, B, C… */
+  letter: string
+  /** Superset / circuit: played round by round */
+  circuit: boolean
+  instructions?: string
+  section: Omit<CircuitSection, 'exercises'> & { exercises: PreviewExercise[] }
+}
+
+/** Blocks of a day in order, superset children folded into their parent */
+export const previewDayBlocks = (
+  day: ProgramStructureDay,
+  exerciseName: (exerciseId: number) => string
+): PreviewBlock[] =>
+  groupDayBlocks(day.sections ?? []).map(({ parent, children }, i) => ({
+    key: parent.id == null ? `block-${i}` : String(parent.id),
+    letter: blockLetter(i),
+    circuit: children.length > 0 || isCircuitBlock(parent.blockType),
+    instructions: parent.instructions,
+    section: {
+      name: parent.name,
+      blockType: parent.blockType,
+      supersetRounds: parent.supersetRounds,
+      restBetweenExercises: parent.restBetweenExercises,
+      restBetweenRounds: parent.restBetweenRounds,
+      exercises: [parent, ...children]
+        .flatMap(s => s.exercises ?? [])
+        .map(ex => ({
+          exerciseId: ex.exerciseId,
+          exercise: { id: ex.exerciseId, name: exerciseName(ex.exerciseId) },
+          setsRows: previewSetRows(ex),
+          coachingNotes: ex.coachingNotes,
+        })),
+    },
+  }))
@@ -0,0 +1,155 @@
+/**
+ * Builder History
+ *
+ * Helpers for undoing program builder operations that already went to the
+ * server: find the records an operation created, and turn deleted blocks
+ * back into create-block payloads so they can be re-created.
+ */
+
+import type { programService } from '@/api/program.service'
+import type {
+  ProgramStructure,
+  ProgramStructureDay,
+  ProgramStructureSection,
+} from '@/types/program'
+import { prescriptionRowsOf } from '@/utils/programStructure'
+
+export type CreateBlockBody = Parameters<
+  typeof programService.createBlockByDayId
+>[1]
+
+/** A top-level block (superset parent with its children, or a single block) */
+export interface BlockGroup {
+  parent: ProgramStructureSection
+  children: ProgramStructureSection[]
+}
+
+/**
+ * Top-level blocks of a day in order, superset children attached to their
+ * parent (by parentSectionId once saved, parentSectionIndex before)
+ */
+export const groupDayBlocks = (
+  sections: ProgramStructureSection[]
+): BlockGroup[] =>
+  sections.flatMap((section, index) =>
+    section.parentSectionId == null && section.parentSectionIndex == null
+      ? [
+          {
+            parent: section,
+            children: sections.filter(
+              s =>
+                (section.id != null && s.parentSectionId === section.id) ||
+                s.parentSectionIndex === index
+            ),
+          },
+        ]
+      : []
+  )
+
+/** Top-level block ids of a day, in order (only when every block is saved) */
+export const topLevelBlockIds = (
+  sections: ProgramStructureSection[]
+): number[] | null => {
+  const ids = groupDayBlocks(sections).map(g => g.parent.id)
+  return ids.every((id): id is number => id != null) ? ids : null
+}
+
+/**
+ * Create-block payload that re-creates a deleted block (and superset children)
+ *
+ * The endpoint takes load, RPE, tempo and rest per set only, so an
+ * exercise-level prescription goes in as set rows.
+ *
+ * @param orderIndex - Position among the day's top-level blocks
+ */
+export const toCreateBlockBody = (
+  { parent, children }: BlockGroup,
+  orderIndex: number
+): CreateBlockBody => {
+  const blockCategory = parent.blockCategory || undefined
+  if (parent.blockType === 'SUPERSET' || parent.sectionType === 'superset') {
+    return {
+      blockType: 'SUPERSET',
+      blockCategory,
+      orderIndex,
+      supersetRounds: parent.supersetRounds,
+      restBetweenExercises: parent.restBetweenExercises,
+      restBetweenRounds: parent.restBetweenRounds,
+      supersetNotes: parent.instructions,
+      exercises: children.flatMap((child, i) =>
+        (child.exercises ?? []).map(ex => ({
+          exerciseId: ex.exerciseId,
+          sets: ex.sets,
+          reps: ex.reps,
+          coachingNotes: ex.coachingNotes,
+          orderIndex: i,
+          prescriptionRows: prescriptionRowsOf(ex),
+        }))
+      ),
+    }
+  }
+  if (parent.blockType === 'CIRCUIT' || parent.sectionType === 'circuit') {
+    return {
+      blockType: 'CIRCUIT',
+      blockCategory,
+      orderIndex,
+      name: parent.name,
+      instructions: parent.instructions,
+      resultTrackingType: parent.resultTrackingType,
+      conditioningFormat: parent.conditioningFormat,
+      conditioningConfig: parent.conditioningConfig,
+      videoUrls: parent.videoUrls as CreateBlockBody['videoUrls'],
+    }
+  }
+  const ex = parent.exercises?.[0]
+  return {
+    blockType: 'EXERCISE',
+    blockCategory,
+    orderIndex,
+    exerciseId: ex?.exerciseId,
+    sets: ex?.sets,
+    reps: ex?.reps,
+    coachingNotes: ex?.coachingNotes,
+    prescriptionRows: ex && prescriptionRowsOf(ex),
+  }
+}
+
+/** Day fields the update-day endpoint accepts */
+export const toUpdateDayBody = (day: ProgramStructureDay) => ({
+  sessionNotes: day.sessionNotes,
+  isRestDay: day.isRestDay,
+  estimatedDurationMinutes: day.estimatedDurationMinutes,
+})
+
+/** Week and day ids present in a structure */
+export const collectStructureIds = (structure: ProgramStructure) => {
+  const weekIds = new Set<number>()
+  const dayIds = new Set<number>()
+  for (const week of structure.weeks) {
+    if (week.id != null) weekIds.add(week.id)
+    for (const day of week.days ?? []) {
+      if (day.id != null) dayIds.add(day.id)
+    }
+  }
+  return { weekIds, dayIds }
+}
+
+/** Ids in `after` that were not in `before` (records an operation created) */
+export const newIds = (before: Set<number>, after: Set<number>): number[] =>
+  [...after].filter(id => !before.has(id))
+
+/** Move `id` to `index` in a list of ids */
+export const moveIdTo = (ids: number[], id: number, index: number) => {
+  const rest = ids.filter(i => i !== id)
+  rest.splice(Math.min(index, rest.length), 0, id)
+  return rest
+}
+
+/** Where a saved day sits in the structure */
+export const findDayById = (structure: ProgramStructure, dayId: number) => {
+  for (const [weekIdx, week] of structure.weeks.entries()) {
+    const dayIdx = (week.days ?? []).findIndex(d => d.id === dayId)
+    if (dayIdx >= 0) return { weekIdx, dayIdx, week, day: week.days[dayIdx] }
+  }
+  return null
+}
@@ -0,0 +1,99 @@
+/**
+ * Circuit Flow
+ *
+ * Expands a SUPERSET / CIRCUIT block into the ordered steps the athlete walks
+ * through: A1 → A2 → rest → A1 … for the configured number of rounds.
+ */
+
+import { parseRestSeconds } from '@/utils/restParse'
+
+export interface CircuitExercise {
+  exerciseId: number
+  sectionExerciseId?: number
+  exercise?: { id: number; name: string }
+  setsRows?: unknown[]
+}
+
+export interface CircuitSection {
+  id?: number
+  name?: string
+  blockType?: string
+  supersetRounds?: number
+  restBetweenExercises?: string
+  restBetweenRounds?: string
+  exercises: CircuitExercise[]
+}
+
+export type CircuitStep =
+  | {
+      kind: 'exercise'
+      /** 1-based round */
+      round: number
+      /** Position of the exercise within the block (0-based) */
+      exerciseIndex: number
+    }
+  | {
+      kind: 'rest'
+      round: number
+      /** Rest after an exercise within a round, or after the round itself */
+      restType: 'exercise' | 'round'
+      seconds: number
+    }
+
+/** Block types that run as rounds instead of straight sets */
+export const isCircuitBlock = (blockType: string | undefined): boolean =>
+  blockType?.toUpperCase() === 'SUPERSET' ||
+  blockType?.toUpperCase() === 'CIRCUIT'
+
+/**
+ * Number of rounds for a block: supersetRounds, else the most set rows on any exercise
+ */
+export const getCircuitRounds = (section: CircuitSection): number => {
+  if (section.supersetRounds != null && section.supersetRounds > 0) {
+    return section.supersetRounds
+  }
+  const maxRows = Math.max(
+    0,
+    ...section.exercises.map(ex =>
+      Array.isArray(ex.setsRows) ? ex.setsRows.length : 0
+    )
+  )
+  return maxRows || 1
+}
+
+/**
+ * Build the step list for a block
+ *
+ * Zero-second rests are left out; there is no rest after the final round.
+ *
+ * @param section - Superset or circuit block with its exercises
+ */
+export const buildCircuitSteps = (section: CircuitSection): CircuitStep[] => {
+  const rounds = getCircuitRounds(section)
+  const restExercise = parseRestSeconds(section.restBetweenExercises) ?? 0
+  const restRound = parseRestSeconds(section.restBetweenRounds) ?? 0
+  const count = section.exercises.length
+  const steps: CircuitStep[] = []
+  for (let round = 1; round <= rounds; round++) {
+    for (let i = 0; i < count; i++) {
+      steps.push({ kind: 'exercise', round, exerciseIndex: i })
+      const lastInRound = i === count - 1
+      if (!lastInRound && restExercise > 0) {
+        steps.push({
+          kind: 'rest',
+          round,
+          restType: 'exercise',
+          seconds: restExercise,
+        })
+      } else if (lastInRound && round < rounds && restRound > 0) {
+        steps.push({
+          kind: 'rest',
+          round,
+          restType: 'round',
+          seconds: restRound,
+        })
+      }
+    }
+  }
+  return steps
+}
@@ -0,0 +1,108 @@
+/**
+ * Conditioning Result
+ *
+ * Picks the result shape for a conditioning block and formats stored results
+ * for session history and the coach view.
+ */
+
+import type { ConditioningResult, ConditioningResultKind } from '@/types/train'
+
+/** What the timer knew when it stopped; used to prefill the result form */
+export interface ConditioningTimerSummary {
+  elapsedSeconds: number
+  /** EMOM / Tabata / Custom Interval rounds started */
+  completedIntervals: number
+  totalIntervals?: number
+  /** AMRAP / For Time ran out the clock */
+  timeCapped: boolean
+}
+
+/**
+ * Result kind for a block
+ *
+ * The conditioning format wins (AMRAP → rounds + reps, For Time → time,
+ * EMOM / Custom Interval → intervals, Tabata → reps per round); otherwise the
+ * block's resultTrackingType decides.
+ *
+ * @returns The kind, or null when the block tracks nothing
+ */
+export const getConditioningResultKind = (
+  conditioningFormat: string | undefined,
+  resultTrackingType: string | undefined
+): ConditioningResultKind | null => {
+  switch (conditioningFormat?.toUpperCase()) {
+    case 'AMRAP':
+      return 'rounds_reps'
+    case 'FOR TIME':
+      return 'time'
+    case 'EMOM':
+    case 'CUSTOM INTERVAL':
+      return 'intervals'
+    case 'TABATA':
+      return 'per_round_reps'
+  }
+  switch (resultTrackingType) {
+    case 'Time':
+      return 'time'
+    case 'Rounds+Reps':
+      return 'rounds_reps'
+    case 'Calories':
+      return 'calories'
+    case 'Distance':
+      return 'distance'
+    default:
+      return conditioningFormat ? 'completion' : null
+  }
+}
+
+/** "3:45" / "1:02:10" / "225" (seconds) → seconds; null when unreadable */
+export const parseDuration = (value: string): number | null => {
+  const parts = value.trim().split(':')
+  if (parts.length === 0 || parts.length > 3) return null
+  if (!parts.every(p => /^\d+$/.test(p))) return null
+  return parts.reduce((total, p) => total * 60 + Number(p), 0)
+}
+
+/** Seconds → "m:ss" (or "h:mm:ss") */
+export const formatDuration = (seconds: number): string => {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = seconds % 60
+  const ss = String(s).padStart(2, '0')
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${ss}` : `${m}:${ss}`
+}
+
+/**
+ * One-line summary of a stored result ("7 rounds + 3 reps", "12:41 (capped)")
+ */
+export const formatConditioningResult = (
+  result: ConditioningResult
+): string => {
+  switch (result.kind) {
+    case 'rounds_reps':
+      return `${result.rounds} rounds + ${result.reps} reps`
+    case 'time':
+      return result.timeCapped
+        ? `Time capped at ${formatDuration(result.elapsedSeconds)}${
+            result.repsAtCap != null ? ` (${result.repsAtCap} reps)` : ''
+          }`
+        : formatDuration(result.elapsedSeconds)
+    case 'intervals':
+      return result.totalIntervals != null
+        ? `${result.completedIntervals}/${result.totalIntervals} intervals`
+        : `${result.completedIntervals} intervals`
+    case 'per_round_reps': {
+      const total = result.repsPerRound.reduce((a, b) => a + b, 0)
+      const lowest = result.repsPerRound.length
+        ? Math.min(...result.repsPerRound)
+        : 0
+      return `${result.repsPerRound.join(' / ')} (total ${total}, lowest ${lowest})`
+    }
+    case 'calories':
+      return `${result.calories} cal`
+    case 'distance':
+      return `${result.meters} m`
+    case 'completion':
+      return result.completed ? 'Completed' : 'Not completed'
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Conditioning Timer
+ *
+ * Derives what a conditioning timer shows (clock, round, work/rest) from the
+ * elapsed time alone, so the display never depends on how many ticks ran.
+ */
+
+import type { ConditioningConfig } from '@/types/program'
+
+export interface ConditioningTimerState {
+  /** Seconds on the clock */
+  displaySeconds: number
+  /** For Time counts up; everything else counts down */
+  countsUp: boolean
+  /** 1-based round / interval (1 for single-segment formats) */
+  round: number
+  totalRounds?: number
+  phase: 'work' | 'rest'
+  /** Seconds until the next phase change or the cap; null when open-ended */
+  segmentRemaining: number | null
+}
+
+const TABATA = { work: 20, rest: 10, rounds: 8 }
+
+const intervalSpec = (upper: string, config?: ConditioningConfig | null) =>
+  upper === 'TABATA'
+    ? {
+        work: TABATA.work,
+        rest: TABATA.rest,
+        rounds: config?.rounds ?? TABATA.rounds,
+      }
+    : {
+        work: config?.workSeconds ?? 30,
+        rest: config?.restSeconds ?? 15,
+        rounds: config?.rounds ?? 5,
+      }
+
+/**
+ * Total run time in seconds, or undefined when the timer runs until stopped
+ * (For Time without a cap, EMOM without a duration)
+ */
+export const getConditioningTimerLimit = (
+  format: string,
+  config?: ConditioningConfig | null,
+  durationSeconds?: number
+): number | undefined => {
+  const upper = format.toUpperCase()
+  switch (upper) {
+    case 'AMRAP':
+      return config?.timeCapSeconds ?? durationSeconds ?? 600
+    case 'FOR TIME':
+      return config?.timeCapSeconds ?? undefined
+    case 'EMOM':
+      return config?.durationSeconds ?? undefined
+    case 'TABATA':
+    case 'CUSTOM INTERVAL': {
+      const { work, rest, rounds } = intervalSpec(upper, config)
+      return rounds * (work + rest)
+    }
+    default:
+      return config?.timeCapSeconds ?? durationSeconds ?? 60
+  }
+}
+
+/**
+ * Timer state at `elapsed` seconds
+ * @param format - Conditioning format (AMRAP, EMOM, For Time, Tabata, Custom Interval)
+ * @param config - Block conditioningConfig
+ * @param durationSeconds - Legacy duration when config has none
+ * @param elapsed - Whole seconds since start (pauses excluded)
+ */
+export const getConditioningTimerState = (
+  format: string,
+  config: ConditioningConfig | null | undefined,
+  durationSeconds: number | undefined,
+  elapsed: number
+): ConditioningTimerState => {
+  const upper = format.toUpperCase()
+  const limit = getConditioningTimerLimit(format, config, durationSeconds)
+  const base = { round: 1, phase: 'work' as const, countsUp: false }
+
+  if (upper === 'FOR TIME') {
+    return {
+      ...base,
+      countsUp: true,
+      displaySeconds: elapsed,
+      segmentRemaining: limit != null ? Math.max(0, limit - elapsed) : null,
+    }
+  }
+
+  if (upper === 'EMOM') {
+    const len = config?.intervalLengthSeconds ?? 60
+    const totalRounds = limit != null ? Math.ceil(limit / len) : undefined
+    const rawRound = Math.floor(elapsed / len) + 1
+    const round =
+      totalRounds != null ? Math.min(rawRound, totalRounds) : rawRound
+    const remaining =
+      limit != null && elapsed >= limit ? 0 : len - (elapsed % len)
+    return {
+      ...base,
+      round,
+      totalRounds,
+      displaySeconds: remaining,
+      segmentRemaining: remaining,
+    }
+  }
+
+  if (upper === 'TABATA' || upper === 'CUSTOM INTERVAL') {
+    const { work, rest, rounds } = intervalSpec(upper, config)
+    const cycle = work + rest
+    const round = Math.min(Math.floor(elapsed / cycle) + 1, rounds)
+    const within = Math.min(elapsed - (round - 1) * cycle, cycle)
+    const isWork = within < work
+    const remaining = isWork ? work - within : cycle - within
+    return {
+      ...base,
+      round,
+      totalRounds: rounds,
+      phase: isWork ? 'work' : 'rest',
+      displaySeconds: remaining,
+      segmentRemaining: remaining,
+    }
+  }
+
+  const remaining = Math.max(0, (limit ?? 0) - elapsed)
+  return { ...base, displaySeconds: remaining, segmentRemaining: remaining }
+}
@@ -0,0 +1,143 @@
+/**
+ * Estimated 1RM
+ *
+ * Estimates a one-rep max from logged sets and proposes working max updates.
+ */
+
+import type { SetLog } from '@/types/train'
+import { LB_PER_KG } from '@/utils/units'
+
+export type E1rmMethod = 'epley' | 'brzycki' | 'rpe'
+
+export const E1RM_METHOD_LABELS: Record<E1rmMethod, string> = {
+  epley: 'Epley',
+  brzycki: 'Brzycki',
+  rpe: 'RPE table',
+}
+
+/** Sets above this rep count are too far from a single to estimate reliably */
+export const MAX_ESTIMATE_REPS = 12
+
+/**
+ * Percent of 1RM by reps (1–12) and RPE (6–10), per the RTS RPE chart.
+ * Row index = reps - 1; keys are RPE in 0.5 steps.
+ */
+const RPE_PERCENT_TABLE: Record<string, number[]> = {
+  '10': [100, 95.5, 92.2, 89.2, 86.3, 83.7, 81.1, 78.6, 76.2, 73.9, 70.7, 68],
+  '9.5': [97.8, 93.9, 90.7, 87.8, 85, 82.4, 79.9, 77.4, 75.1, 72.3, 69.4, 66.7],
+  '9': [95.5, 92.2, 89.2, 86.3, 83.7, 81.1, 78.6, 76.2, 73.9, 70.7, 68, 65.3],
+  '8.5': [93.9, 90.7, 87.8, 85, 82.4, 79.9, 77.4, 75.1, 72.3, 69.4, 66.7, 64],
+  '8': [92.2, 89.2, 86.3, 83.7, 81.1, 78.6, 76.2, 73.9, 70.7, 68, 65.3, 62.6],
+  '7.5': [90.7, 87.8, 85, 82.4, 79.9, 77.4, 75.1, 72.3, 69.4, 66.7, 64, 61.3],
+  '7': [89.2, 86.3, 83.7, 81.1, 78.6, 76.2, 73.9, 70.7, 68, 65.3, 62.6, 59.9],
+  '6.5': [87.8, 85, 82.4, 79.9, 77.4, 75.1, 72.3, 69.4, 66.7, 64, 61.3, 58.6],
+  '6': [86.3, 83.7, 81.1, 78.6, 76.2, 73.9, 70.7, 68, 65.3, 62.6, 59.9, 57.4],
+}
+
+export interface E1rmInput {
+  weight: number
+  reps: number
+  rpe?: number | null
+}
+
+export interface WorkingMaxSuggestion {
+  exerciseId: number
+  exerciseName?: string
+  unit: 'lb' | 'kg'
+  currentValue?: number
+  suggestedValue: number
+  method: E1rmMethod
+  /** The set the estimate came from */
+  basedOn: E1rmInput
+}
+
+/**
+ * Estimate a one-rep max for one set
+ *
+ * RPE table needs an RPE between 6 and 10; without one it falls back to Epley
+ * (which is also what a 10 RPE set means for reps in reserve).
+ *
+ * @returns Estimated 1RM, or null when the set cannot be used
+ */
+export const estimateOneRepMax = (
+  set: E1rmInput,
+  method: E1rmMethod = 'epley'
+): number | null => {
+  const { weight, reps } = set
+  if (!Number.isFinite(weight) || weight <= 0) return null
+  if (!Number.isInteger(reps) || reps < 1 || reps > MAX_ESTIMATE_REPS)
+    return null
+  if (reps === 1 && (set.rpe == null || set.rpe >= 10)) return weight
+
+  if (method === 'rpe' && set.rpe != null && set.rpe >= 6 && set.rpe <= 10) {
+    const rpeKey = String(Math.round(set.rpe * 2) / 2)
+    const percent = RPE_PERCENT_TABLE[rpeKey]?.[reps - 1]
+    if (percent) return weight / (percent / 100)
+  }
+  if (method === 'brzycki') {
+    return weight * (36 / (37 - reps))
+  }
+  return weight * (1 + reps / 30)
+}
+
+/**
+ * Round a working max down to a loadable increment (5 lb / 2.5 kg)
+ */
+export const roundWorkingMax = (value: number, unit: 'lb' | 'kg'): number => {
+  const step = unit === 'kg' ? 2.5 : 5
+  return Math.floor(value / step) * step
+}
+
+/**
+ * Propose new working maxes from one session's set logs
+ *
+ * Uses the best working-set estimate per exercise. An exercise is suggested
+ * when it has no working max yet or the estimate beats it by at least one
+ * rounding step. Warm-up sets are ignored, and so are sets of an alternate
+ * exercise: they are logged under the main exercise's key, e.g. a heavy
+ * leg press set must not raise the back squat's working max.
+ *
+ * @param setLogs - Set logs from the session
+ * @param currentMaxes - Current working max per exercise id
+ * @param method - Estimation formula
+ */
+export const suggestWorkingMaxes = (
+  setLogs: SetLog[],
+  currentMaxes: Record<number, { value: number; unit: 'lb' | 'kg' }>,
+  method: E1rmMethod = 'epley'
+): WorkingMaxSuggestion[] => {
+  const best = new Map<number, WorkingMaxSuggestion>()
+  setLogs.forEach(log => {
+    if (log.setType === 'warmup' || log.exerciseSource === 'alternate') return
+    if (log.reps == null) return
+    const exerciseId = Number(log.exerciseKey ?? log.exerciseId)
+    if (!Number.isFinite(exerciseId) || exerciseId <= 0) return
+    const current = currentMaxes[exerciseId]
+    const unit = current?.unit ?? (log.weightLb != null ? 'lb' : 'kg')
+    const weight =
+      unit === 'lb'
+        ? (log.weightLb ??
+          (log.weightKg != null ? log.weightKg * LB_PER_KG : undefined))
+        : (log.weightKg ??
+          (log.weightLb != null ? log.weightLb / LB_PER_KG : undefined))
+    if (weight == null) return
+    const basedOn = { weight, reps: log.reps, rpe: log.rpe }
+    const estimate = estimateOneRepMax(basedOn, method)
+    if (estimate == null) return
+    const suggestedValue = roundWorkingMax(estimate, unit)
+    const prev = best.get(exerciseId)
+    if (prev && prev.suggestedValue >= suggestedValue) return
+    best.set(exerciseId, {
+      exerciseId,
+      exerciseName: log.exerciseName,
+      unit,
+      currentValue: current?.value,
+      suggestedValue,
+      method,
+      basedOn,
+    })
+  })
+  return [...best.values()].filter(
+    s => s.currentValue == null || s.suggestedValue > s.currentValue
+  )
+}
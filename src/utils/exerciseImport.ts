@@ -0,0 +1,489 @@
+/**
+ * Exercise Import
+ *
+ * Reads a CSV of exercises (exported from Excel or Google Sheets) into
+ * create payloads: name, video URL, default parameters, points of
+ * performance, tags and the reference max exercise by name. Each row is
+ * checked before anything is created: unreadable values are errors, and
+ * names close to an existing exercise (or to an earlier row) are flagged as
+ * likely duplicates.
+ */
+
+import type { CreateExercisePayload } from '@/types/exercise'
+import {
+  DEFAULT_PARAMETER_OPTIONS,
+  PARAMETER_2_OPTIONS,
+} from '@/types/exercise'
+import {
+  exerciseNameSimilarity,
+  FUZZY_MATCH_THRESHOLD,
+  normalizeExerciseName,
+} from '@/utils/programPaste'
+
+export const POINTS_OF_PERFORMANCE_MAX_LENGTH = 10_000
+
+/**
+ * Lowest name similarity reported as a likely duplicate. Stricter than the
+ * paste matcher: "Pause Back Squat" is a variation of "Back Squat", not a copy.
+ */
+export const DUPLICATE_THRESHOLD = 0.85
+
+/** Rows created at a time */
+export const IMPORT_CHUNK_SIZE = 5
+
+export type ImportColumn =
+  | 'name'
+  | 'videoUrl'
+  | 'defaultParameter1'
+  | 'defaultParameter2'
+  | 'pointsOfPerformance'
+  | 'tags'
+  | 'referenceMax'
+
+/** Columns in template order, with the header written in the template */
+export const IMPORT_COLUMNS: Array<{ column: ImportColumn; header: string }> = [
+  { column: 'name', header: 'Name' },
+  { column: 'videoUrl', header: 'Video URL' },
+  { column: 'defaultParameter1', header: 'Parameter 1' },
+  { column: 'defaultParameter2', header: 'Parameter 2' },
+  { column: 'pointsOfPerformance', header: 'Points of Performance' },
+  { column: 'tags', header: 'Tags' },
+  { column: 'referenceMax', header: 'Reference Max' },
+]
+
+/** Header cells (lowercased, letters and digits only) per column */
+const HEADER_ALIASES: Record<string, ImportColumn> = {
+  name: 'name',
+  title: 'name',
+  exercise: 'name',
+  exercisename: 'name',
+  video: 'videoUrl',
+  videourl: 'videoUrl',
+  videolink: 'videoUrl',
+  parameter1: 'defaultParameter1',
+  param1: 'defaultParameter1',
+  defaultparameter1: 'defaultParameter1',
+  parameter2: 'defaultParameter2',
+  param2: 'defaultParameter2',
+  defaultparameter2: 'defaultParameter2',
+  pointsofperformance: 'pointsOfPerformance',
+  pop: 'pointsOfPerformance',
+  cues: 'pointsOfPerformance',
+  coachingcues: 'pointsOfPerformance',
+  tags: 'tags',
+  tag: 'tags',
+  referencemax: 'referenceMax',
+  referencemaxexercise: 'referenceMax',
+  refmax: 'referenceMax',
+}
+
+/** An existing exercise or one created earlier in the file */
+export interface ExerciseDuplicate {
+  name: string
+  /** Library exercise; unset for an earlier row of the file */
+  exerciseId?: number
+  /** Line of the earlier row */
+  line?: number
+  /** 0-1 name similarity */
+  score: number
+}
+
+export interface ExerciseImportRow {
+  /** 1-based line in the file (for messages) */
+  line: number
+  payload: CreateExercisePayload & { name: string }
+  /** Reference max exercise as written in the file */
+  referenceMaxName?: string
+  /** Reference max that is another row of the file (created first) */
+  referenceMaxRowLine?: number
+  /** Library match for the reference max, used if that row is not created */
+  referenceMaxFallback?: { id: number; name: string }
+  /** The row can't be created */
+  errors: string[]
+  /** The row is created, with a caveat */
+  warnings: string[]
+  duplicate: ExerciseDuplicate | null
+}
+
+export interface ParsedExerciseImport {
+  rows: ExerciseImportRow[]
+  /** Problems with the file itself (no header, no name column) */
+  errors: string[]
+}
+
+/** Dry-run totals */
+export interface ExerciseImportSummary {
+  ready: number
+  duplicates: number
+  invalid: number
+}
+
+const headerKey = (cell: string) => cell.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+/** Comma unless the header line has more semicolons or tabs (European Excel, pasted TSV) */
+const detectDelimiter = (text: string) => {
+  const header = text.slice(0, text.search(/\r?\n|$/))
+  const count = (ch: string) => header.split(ch).length - 1
+  return [';', '\t'].reduce(
+    (best, ch) => (count(ch) > count(best) ? ch : best),
+    ','
+  )
+}
+
+/**
+ * Split CSV text into rows of cells
+ *
+ * Handles quoted cells holding the delimiter, newlines or doubled quotes
+ * ("a ""quoted"" cue"), CRLF line ends and the byte-order mark Excel writes.
+ */
+export const parseCsv = (
+  text: string
+): Array<{ line: number; cells: string[] }> => {
+  const source = text.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(source)
+  const rows: Array<{ line: number; cells: string[] }> = []
+  let cells: string[] = []
+  let cell = ''
+  let quoted = false
+  let line = 1
+  let rowLine = 1
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i]
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        if (ch === '\n') line++
+        cell += ch
+      }
+    } else if (ch === '"' && cell.trim() === '') {
+      quoted = true
+      cell = ''
+    } else if (ch === delimiter) {
+      cells.push(cell)
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++
+      cells.push(cell)
+      rows.push({ line: rowLine, cells })
+      cells = []
+      cell = ''
+      line++
+      rowLine = line
+    } else {
+      cell += ch
+    }
+  }
+  cells.push(cell)
+  rows.push({ line: rowLine, cells })
+  return rows.filter(r => r.cells.some(c => c.trim() !== ''))
+}
+
+/** CSV with the template header and one example row */
+export const exerciseImportTemplate = (): string =>
+  [
+    IMPORT_COLUMNS.map(c => c.header).join(','),
+    'Pause Back Squat,https://www.youtube.com/watch?v=example,Weight (lb),Reps,"Pause 2s in the hole; stay tall",Squat;Lower Body,Back Squat',
+  ].join('\n')
+
+/**
+ * Default parameter from a cell: the stored value ("Weight_lb") or the label
+ * shown in the form ("Weight (lb)"), in any case
+ */
+const parseParameter = (
+  cell: string,
+  options: ReadonlyArray<{ value: string; label: string }>
+): string | null => {
+  const key = headerKey(cell)
+  if (cell.trim() === '-' || cell.trim() === '—') {
+    return options.some(o => o.value === '-') ? '-' : null
+  }
+  const option = options.find(
+    o => headerKey(o.value) === key || headerKey(o.label) === key
+  )
+  return option?.value ?? null
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+/** Points of performance as editor HTML: HTML is kept, plain lines become paragraphs */
+const toPointsHtml = (cell: string) => {
+  const text = cell.trim()
+  if (!text || /<[a-z][\s\S]*>/i.test(text)) return text
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => `<p>${escapeHtml(line)}</p>`)
+    .join('')
+}
+
+const parseTags = (cell: string) => [
+  ...new Set(
+    cell
+      .split(/[;|,]/)
+      .map(tag => tag.trim())
+      .filter(Boolean)
+  ),
+]
+
+/**
+ * Parse an exercise CSV. The first row must be a header; columns are found
+ * by name in any order and unknown columns are ignored.
+ */
+export const parseExerciseImport = (text: string): ParsedExerciseImport => {
+  const [header, ...data] = parseCsv(text)
+  if (!header) return { rows: [], errors: ['The file is empty'] }
+  const columns = new Map<ImportColumn, number>()
+  for (const [i, cell] of header.cells.entries()) {
+    const column = HEADER_ALIASES[headerKey(cell)]
+    if (column && !columns.has(column)) columns.set(column, i)
+  }
+  if (!columns.has('name')) {
+    return {
+      rows: [],
+      errors: [
+        'No "Name" column found. The first row must be a header (Name, Video URL, Parameter 1, …).',
+      ],
+    }
+  }
+  if (data.length === 0) {
+    return { rows: [], errors: ['The file has a header but no exercises'] }
+  }
+
+  const rows = data.map(({ line, cells }): ExerciseImportRow => {
+    const get = (column: ImportColumn) => {
+      const index = columns.get(column)
+      return index == null ? '' : (cells[index] ?? '').trim()
+    }
+    const errors: string[] = []
+    const warnings: string[] = []
+    const name = get('name')
+    if (!name) errors.push('Name is missing')
+
+    const videoUrl = get('videoUrl')
+    if (videoUrl && !/^https?:\/\//i.test(videoUrl)) {
+      errors.push('Video URL must start with http:// or https://')
+    }
+
+    const param1Cell = get('defaultParameter1')
+    const defaultParameter1 = param1Cell
+      ? parseParameter(param1Cell, DEFAULT_PARAMETER_OPTIONS)
+      : 'Reps'
+    if (defaultParameter1 == null) {
+      errors.push(`Unknown Parameter 1 "${param1Cell}"`)
+    }
+    const param2Cell = get('defaultParameter2')
+    const defaultParameter2 = param2Cell
+      ? parseParameter(param2Cell, PARAMETER_2_OPTIONS)
+      : '-'
+    if (defaultParameter2 == null) {
+      errors.push(`Unknown Parameter 2 "${param2Cell}"`)
+    }
+
+    const pointsOfPerformance = toPointsHtml(get('pointsOfPerformance'))
+    if (pointsOfPerformance.length > POINTS_OF_PERFORMANCE_MAX_LENGTH) {
+      errors.push(
+        `Points of performance are longer than ${POINTS_OF_PERFORMANCE_MAX_LENGTH.toLocaleString()} characters`
+      )
+    }
+
+    return {
+      line,
+      payload: {
+        name,
+        videoUrl: videoUrl || undefined,
+        defaultParameter1: defaultParameter1 ?? undefined,
+        defaultParameter2: defaultParameter2 ?? undefined,
+        pointsOfPerformance: pointsOfPerformance || undefined,
+        tags: parseTags(get('tags')),
+        isActive: true,
+      },
+      referenceMaxName: get('referenceMax') || undefined,
+      errors,
+      warnings,
+      duplicate: null,
+    }
+  })
+  return { rows, errors: [] }
+}
+
+/** Closest name among the candidates, when it is at least the threshold */
+const closestName = <T extends { name: string }>(
+  name: string,
+  candidates: T[],
+  threshold: number
+): { match: T; score: number } | null => {
+  let best: { match: T; score: number } | null = null
+  for (const candidate of candidates) {
+    const score = exerciseNameSimilarity(name, candidate.name)
+    if (score >= threshold && score > (best?.score ?? 0)) {
+      best = { match: candidate, score }
+    }
+    if (score === 1) break
+  }
+  return best
+}
+
+/**
+ * Dry run against the library: flag likely duplicates (of an existing
+ * exercise or of an earlier row) and resolve each reference max by name,
+ * to the library first, then to another row of the file
+ */
+export const checkExerciseImport = (
+  rows: ExerciseImportRow[],
+  existing: Array<{ id: number; name: string }>
+): ExerciseImportRow[] => {
+  const earlier: Array<{ name: string; line: number }> = []
+  const byName = new Map(
+    rows
+      .filter(row => row.payload.name && row.errors.length === 0)
+      .map(row => [normalizeExerciseName(row.payload.name), row])
+  )
+  return rows.map(row => {
+    const warnings = [...row.warnings]
+    const payload: ExerciseImportRow['payload'] = {
+      ...row.payload,
+      referenceMaxExerciseId: undefined,
+    }
+    let duplicate: ExerciseDuplicate | null = null
+    let referenceMaxRowLine: number | undefined
+    let referenceMaxFallback: ExerciseImportRow['referenceMaxFallback']
+    if (row.payload.name) {
+      const inLibrary = closestName(
+        row.payload.name,
+        existing,
+        DUPLICATE_THRESHOLD
+      )
+      const inFile = closestName(row.payload.name, earlier, DUPLICATE_THRESHOLD)
+      if (inLibrary && inLibrary.score >= (inFile?.score ?? 0)) {
+        duplicate = {
+          name: inLibrary.match.name,
+          exerciseId: inLibrary.match.id,
+          score: inLibrary.score,
+        }
+      } else if (inFile) {
+        duplicate = {
+          name: inFile.match.name,
+          line: inFile.match.line,
+          score: inFile.score,
+        }
+      }
+      earlier.push({ name: row.payload.name, line: row.line })
+    }
+
+    const refName = row.referenceMaxName
+    if (refName) {
+      const exact = existing.find(
+        e => normalizeExerciseName(e.name) === normalizeExerciseName(refName)
+      )
+      const fileRow = byName.get(normalizeExerciseName(refName))
+      const fuzzy = exact
+        ? null
+        : closestName(refName, existing, FUZZY_MATCH_THRESHOLD)
+      if (exact) {
+        payload.referenceMaxExerciseId = exact.id
+      } else if (fileRow && fileRow !== row) {
+        referenceMaxRowLine = fileRow.line
+        referenceMaxFallback = fuzzy?.match
+      } else if (fuzzy) {
+        payload.referenceMaxExerciseId = fuzzy.match.id
+        warnings.push(
+          `Reference max "${refName}" matched to "${fuzzy.match.name}"`
+        )
+      } else {
+        warnings.push(`Reference max "${refName}" not found; it is left empty`)
+      }
+    }
+    return {
+      ...row,
+      payload,
+      warnings,
+      duplicate,
+      referenceMaxRowLine,
+      referenceMaxFallback,
+    }
+  })
+}
+
+/**
+ * Rows with their reference max resolved against the rows being created
+ * (`creating`, by line): a row whose reference max is a row that is not
+ * created (a duplicate left out) points at another created row of that name,
+ * or falls back to its library match, or is left empty
+ */
+export const resolveImportReferences = (
+  rows: ExerciseImportRow[],
+  creating: Set<number>
+): ExerciseImportRow[] => {
+  // first created row per name: a file can hold the same name twice
+  const createdByName = new Map<string, number>()
+  for (const row of rows) {
+    const name = normalizeExerciseName(row.payload.name)
+    if (creating.has(row.line) && !createdByName.has(name)) {
+      createdByName.set(name, row.line)
+    }
+  }
+  return rows.map(row => {
+    const line = row.referenceMaxRowLine
+    if (line == null || creating.has(line)) return row
+    const other = createdByName.get(
+      normalizeExerciseName(row.referenceMaxName ?? '')
+    )
+    if (other != null && other !== row.line) {
+      return { ...row, referenceMaxRowLine: other }
+    }
+    const fallback = row.referenceMaxFallback
+    const skipped = `Reference max "${row.referenceMaxName}" on line ${line} is not created`
+    return {
+      ...row,
+      payload: { ...row.payload, referenceMaxExerciseId: fallback?.id },
+      referenceMaxRowLine: undefined,
+      warnings: [
+        ...row.warnings,
+        fallback
+          ? `${skipped}; matched to "${fallback.name}"`
+          : `${skipped}; it is left empty`,
+      ],
+    }
+  })
+}
+
+export const summarizeExerciseImport = (
+  rows: ExerciseImportRow[]
+): ExerciseImportSummary => ({
+  ready: rows.filter(row => row.errors.length === 0 && !row.duplicate).length,
+  duplicates: rows.filter(row => row.errors.length === 0 && row.duplicate)
+    .length,
+  invalid: rows.filter(row => row.errors.length > 0).length,
+})
+
+/**
+ * Batches for creation: a row whose reference max is another row of the
+ * import goes in a later batch than that row, so the new id is known
+ */
+export const importBatches = (
+  rows: ExerciseImportRow[],
+  size = IMPORT_CHUNK_SIZE
+): ExerciseImportRow[][] => {
+  const batches: ExerciseImportRow[][] = []
+  let remaining = rows
+  while (remaining.length > 0) {
+    const waiting = new Set(remaining.map(row => row.line))
+    const level = remaining.filter(
+      row =>
+        row.referenceMaxRowLine == null || !waiting.has(row.referenceMaxRowLine)
+    )
+    // rows referencing each other: create them without waiting
+    const next = level.length > 0 ? level : remaining
+    for (let i = 0; i < next.length; i += size) {
+      batches.push(next.slice(i, i + size))
+    }
+    remaining = remaining.filter(row => !next.includes(row))
+  }
+  return batches
+}
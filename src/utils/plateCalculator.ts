@@ -0,0 +1,260 @@
+/**
+ * Plate Calculator
+ *
+ * Breaks a barbell load into plates per side and builds warm-up ramps
+ * that only use loads the athlete can actually put on the bar.
+ */
+
+export type PlateUnit = 'lb' | 'kg'
+
+/** One plate size and how many of it are available per side */
+export interface PlateInventoryItem {
+  weight: number
+  countPerSide: number
+}
+
+export interface PlateSetup {
+  unit: PlateUnit
+  barWeight: number
+  plates: PlateInventoryItem[]
+}
+
+export interface PlateLoadResult {
+  /** Plates for one side, heaviest first */
+  perSide: number[]
+  /** Total load that the plates + bar produce */
+  achievedWeight: number
+  /** achievedWeight - target (0 when exact) */
+  difference: number
+  /** Target is lighter than the empty bar */
+  belowBar: boolean
+}
+
+export interface WarmupSet {
+  /** 1-based warm-up number */
+  index: number
+  /** Percent of working weight (0 = empty bar) */
+  percent: number
+  weight: number
+  reps: number
+  perSide: number[]
+}
+
+export type PlatePresetKey = 'standard' | 'change' | 'bumper'
+
+/** Plate sizes per unit and preset. Change plates add fractional plates; bumper-only omits iron change plates. */
+export const PLATE_PRESETS: Record<
+  PlateUnit,
+  Record<PlatePresetKey, { label: string; weights: number[] }>
+> = {
+  lb: {
+    standard: { label: 'Standard', weights: [45, 35, 25, 10, 5, 2.5] },
+    change: {
+      label: 'With change plates',
+      weights: [45, 35, 25, 10, 5, 2.5, 1.25, 0.5, 0.25],
+    },
+    bumper: { label: 'Bumpers only', weights: [45, 35, 25, 15, 10] },
+  },
+  kg: {
+    standard: { label: 'Standard', weights: [25, 20, 15, 10, 5, 2.5, 1.25] },
+    change: {
+      label: 'With change plates',
+      weights: [25, 20, 15, 10, 5, 2.5, 2, 1.5, 1.25, 1, 0.5, 0.25],
+    },
+    bumper: { label: 'Bumpers only', weights: [25, 20, 15, 10, 5] },
+  },
+}
+
+export const BAR_WEIGHTS: Record<PlateUnit, number[]> = {
+  lb: [45, 35, 33, 15],
+  kg: [20, 15, 10],
+}
+
+export const DEFAULT_WARMUP_PERCENTS = [40, 60, 80]
+
+/** Reps for a warm-up at the given percent of working weight */
+const warmupReps = (percent: number): number =>
+  percent === 0
+    ? 10
+    : percent < 50
+      ? 5
+      : percent < 70
+        ? 3
+        : percent < 85
+          ? 2
+          : 1
+
+/** Plates are compared in 1/4 units (smallest change plate is 0.25) */
+const UNITS_PER_WEIGHT = 4
+const toUnits = (w: number) => Math.round(w * UNITS_PER_WEIGHT)
+const fromUnits = (u: number) => u / UNITS_PER_WEIGHT
+
+/**
+ * Build a plate setup from a preset
+ * @param unit - lb or kg
+ * @param preset - Plate preset key
+ * @param countPerSide - How many of each plate are available per side
+ */
+export const createPlateSetup = (
+  unit: PlateUnit,
+  preset: PlatePresetKey = 'standard',
+  countPerSide = 8
+): PlateSetup => ({
+  unit,
+  barWeight: BAR_WEIGHTS[unit][0],
+  plates: PLATE_PRESETS[unit][preset].weights.map(weight => ({
+    weight,
+    countPerSide,
+  })),
+})
+
+/**
+ * Find the plates for one side that load exactly `sideUnits`, preferring heavier plates
+ * @returns Plate weights (in units) or null when no combination exists
+ */
+const findSidePlates = (
+  sideUnits: number,
+  plates: Array<{ units: number; count: number }>
+): number[] | null => {
+  const memo = new Map<string, number[] | null>()
+  const search = (i: number, remaining: number): number[] | null => {
+    if (remaining === 0) return []
+    if (i >= plates.length) return null
+    const key = `${i}:${remaining}`
+    const cached = memo.get(key)
+    if (cached !== undefined) return cached
+    const { units, count } = plates[i]
+    const maxUse = Math.min(count, Math.floor(remaining / units))
+    let found: number[] | null = null
+    for (let use = maxUse; use >= 0 && !found; use--) {
+      const rest = search(i + 1, remaining - use * units)
+      if (rest) found = [...Array<number>(use).fill(units), ...rest]
+    }
+    memo.set(key, found)
+    return found
+  }
+  return search(0, sideUnits)
+}
+
+/**
+ * Sums (in units) that one side of the bar can reach with the inventory
+ */
+const reachableSideLoads = (
+  plates: Array<{ units: number; count: number }>,
+  maxUnits: number
+): boolean[] => {
+  const reachable = Array<boolean>(maxUnits + 1).fill(false)
+  reachable[0] = true
+  plates.forEach(({ units, count }) => {
+    for (let c = 0; c < count; c++) {
+      for (let w = maxUnits; w >= units; w--) {
+        if (reachable[w - units]) reachable[w] = true
+      }
+    }
+  })
+  return reachable
+}
+
+/**
+ * Break a target load into plates per side
+ *
+ * When the target cannot be loaded exactly, the closest loadable weight is
+ * returned (the lighter one on a tie) and `difference` shows the gap.
+ *
+ * @param target - Total bar load (same unit as the setup)
+ * @param setup - Bar and plate inventory
+ * @returns Plates per side and the load they produce
+ */
+export const calculatePlates = (
+  target: number,
+  setup: PlateSetup
+): PlateLoadResult => {
+  const bar = setup.barWeight
+  if (!Number.isFinite(target) || target <= bar) {
+    return {
+      perSide: [],
+      achievedWeight: bar,
+      difference: bar - (Number.isFinite(target) ? target : 0),
+      belowBar: target < bar,
+    }
+  }
+  const plates = setup.plates
+    .filter(p => p.weight > 0 && p.countPerSide > 0)
+    .map(p => ({ units: toUnits(p.weight), count: p.countPerSide }))
+    .sort((a, b) => b.units - a.units)
+  const targetSide = toUnits((target - bar) / 2)
+  const maxSide = plates.reduce((sum, p) => sum + p.units * p.count, 0)
+  const reachable = reachableSideLoads(plates, Math.max(targetSide, 0) * 2)
+
+  let bestSide = 0
+  for (let delta = 0; delta <= targetSide; delta++) {
+    const below = targetSide - delta
+    const above = targetSide + delta
+    if (below >= 0 && reachable[below]) {
+      bestSide = below
+      break
+    }
+    if (above <= maxSide && reachable[above]) {
+      bestSide = above
+      break
+    }
+  }
+
+  const sidePlates = findSidePlates(bestSide, plates) ?? []
+  const achievedWeight = bar + 2 * fromUnits(bestSide)
+  return {
+    perSide: sidePlates.map(fromUnits),
+    achievedWeight,
+    difference: Math.round((achievedWeight - target) * 100) / 100,
+    belowBar: false,
+  }
+}
+
+/**
+ * Build a warm-up ramp up to the working weight
+ *
+ * Starts with the empty bar, then one set per percent, each rounded to a
+ * loadable weight. Steps that round to the bar or repeat a previous load are dropped.
+ *
+ * @param workingWeight - Working set load
+ * @param setup - Bar and plate inventory
+ * @param percents - Ramp percentages of working weight (e.g. [40, 60, 80])
+ */
+export const buildWarmupRamp = (
+  workingWeight: number,
+  setup: PlateSetup,
+  percents: number[] = DEFAULT_WARMUP_PERCENTS
+): WarmupSet[] => {
+  if (!Number.isFinite(workingWeight) || workingWeight <= setup.barWeight) {
+    return []
+  }
+  const steps: Array<Omit<WarmupSet, 'index'>> = [
+    { percent: 0, weight: setup.barWeight, reps: warmupReps(0), perSide: [] },
+  ]
+  const seen = new Set<number>([setup.barWeight])
+  ;[...percents]
+    .filter(p => p > 0 && p < 100)
+    .sort((a, b) => a - b)
+    .forEach(percent => {
+      const load = calculatePlates((workingWeight * percent) / 100, setup)
+      if (load.achievedWeight >= workingWeight || seen.has(load.achievedWeight))
+        return
+      seen.add(load.achievedWeight)
+      steps.push({
+        percent,
+        weight: load.achievedWeight,
+        reps: warmupReps(percent),
+        perSide: load.perSide,
+      })
+    })
+  return steps.map((step, i) => ({ ...step, index: i + 1 }))
+}
+
+/**
+ * Parse a comma-separated percent list ("40, 60, 80")
+ */
+export const parseWarmupPercents = (value: string): number[] =>
+  value
+    .split(/[,\s]+/)
+    .map(v => Number(v.replace('%', '')))
+    .filter(v => Number.isFinite(v) && v > 0 && v < 100)
@@ -0,0 +1,278 @@
+/**
+ * Program Bulk Edit
+ *
+ * Change many exercise prescriptions at once: pick exercises across weeks
+ * (one by one, by exercise or by block category), then set or adjust sets,
+ * reps, % load, RPE, tempo, rest and coaching notes on all of them. Numeric
+ * fields take a value ("8"), a step ("+1", "−2.5") or a relative change
+ * ("+5%"); per-set rows change along with the exercise.
+ */
+
+import type {
+  ProgramStructure,
+  ProgramStructureSection,
+  ProgramStructureSectionExercise,
+  ProgramStructureSetRow,
+} from '@/types/program'
+import { groupDayBlocks } from '@/utils/builderHistory'
+import { parseRestSeconds } from '@/utils/restParse'
+import { blockLetter, formatRestSeconds } from '@/utils/programPrint'
+import { UNCATEGORIZED } from '@/utils/programLoad'
+import { parentSection, roundHalf, withRowReps } from '@/utils/programStructure'
+
+/** One exercise prescription that can be selected for a bulk edit */
+export interface BulkEditEntry {
+  key: string
+  weekIdx: number
+  dayIdx: number
+  sectionIdx: number
+  exerciseIdx: number
+  exerciseId: number
+  weekLabel: string
+  dayLabel: string
+  /** "A", or "B2" for the second exercise of superset B */
+  blockLabel: string
+  /** Block category (superset children use their parent's) */
+  blockCategory: string
+  exercise: ProgramStructureSectionExercise
+}
+
+/** Change to a numeric field */
+export type BulkAdjustment =
+  | { kind: 'set'; value: number }
+  | { kind: 'add'; value: number }
+  | { kind: 'scale'; percent: number }
+
+/** Fields to change; unset fields are left alone */
+export interface BulkEdit {
+  sets?: BulkAdjustment
+  reps?: BulkAdjustment
+  weightPercent?: BulkAdjustment
+  rpe?: BulkAdjustment
+  /** In seconds */
+  rest?: BulkAdjustment
+  tempo?: string
+  coachingNotes?: string
+}
+
+export const bulkEditKey = (
+  weekIdx: number,
+  dayIdx: number,
+  sectionIdx: number,
+  exerciseIdx: number
+) => `${weekIdx}-${dayIdx}-${sectionIdx}-${exerciseIdx}`
+
+/** Block label of each section of a day: A, B, … and B1, B2 for superset children */
+const sectionLabels = (sections: ProgramStructureSection[]) => {
+  const labels = new Map<ProgramStructureSection, string>()
+  for (const [i, { parent, children }] of groupDayBlocks(sections).entries()) {
+    const letter = blockLetter(i)
+    labels.set(parent, letter)
+    for (const [c, child] of children.entries()) {
+      labels.set(child, `${letter}${c + 1}`)
+    }
+  }
+  return labels
+}
+
+/** Every exercise prescription of the program's training days, in order */
+export const listBulkEditEntries = (
+  structure: ProgramStructure
+): BulkEditEntry[] =>
+  structure.weeks.flatMap((week, weekIdx) =>
+    (week.days ?? []).flatMap((day, dayIdx) => {
+      if (day.isRestDay) return []
+      const sections = day.sections ?? []
+      const labels = sectionLabels(sections)
+      return sections.flatMap((section, sectionIdx) =>
+        (section.exercises ?? []).map((exercise, exerciseIdx) => ({
+          key: bulkEditKey(weekIdx, dayIdx, sectionIdx, exerciseIdx),
+          weekIdx,
+          dayIdx,
+          sectionIdx,
+          exerciseIdx,
+          exerciseId: exercise.exerciseId,
+          weekLabel: week.weekName || `Week ${weekIdx + 1}`,
+          dayLabel: day.dayName || `Day ${dayIdx + 1}`,
+          blockLabel: labels.get(section) ?? '',
+          blockCategory:
+            section.blockCategory ||
+            parentSection(sections, section)?.blockCategory ||
+            UNCATEGORIZED,
+          exercise,
+        }))
+      )
+    })
+  )
+
+/**
+ * "8" sets a value, "+1" / "-2.5" adds a step, "+5%" / "-10%" changes the
+ * value by a percentage; "75%" (no sign) sets 75
+ *
+ * @returns The adjustment, undefined for a blank field, null when unreadable
+ */
+export const parseBulkAdjustment = (
+  text: string
+): BulkAdjustment | null | undefined => {
+  const normalized = text.trim().replace('−', '-')
+  if (!normalized) return undefined
+  const match = /^([+-])?\s*(\d+(?:\.\d+)?)\s*(%)?$/.exec(normalized)
+  if (!match) return null
+  const [, sign, digits, percent] = match
+  const value = Number(digits) * (sign === '-' ? -1 : 1)
+  if (!sign) return { kind: 'set', value }
+  return percent ? { kind: 'scale', percent: value } : { kind: 'add', value }
+}
+
+/**
+ * Rest adjustment: "90", "2:00" or "1m30s" sets the rest, "+30" / "-15s"
+ * adds seconds, "+10%" changes it by a percentage
+ */
+export const parseRestAdjustment = (
+  text: string
+): BulkAdjustment | null | undefined => {
+  const normalized = text.trim().replace('−', '-')
+  if (!normalized) return undefined
+  const sign = /^[+-]/.test(normalized) ? normalized[0] : ''
+  const body = normalized.slice(sign.length).trim()
+  if (sign && body.endsWith('%')) return parseBulkAdjustment(normalized)
+  const seconds = parseRestSeconds(body)
+  if (seconds == null) return null
+  if (!sign) return { kind: 'set', value: seconds }
+  return { kind: 'add', value: sign === '-' ? -seconds : seconds }
+}
+
+/** True when the edit changes at least one field */
+export const hasBulkChanges = (edit: BulkEdit) =>
+  Object.values(edit).some(value => value !== undefined)
+
+const adjust = (
+  value: number | undefined,
+  adjustment: BulkAdjustment
+): number | undefined => {
+  if (adjustment.kind === 'set') return adjustment.value
+  if (value == null) return undefined
+  return adjustment.kind === 'add'
+    ? value + adjustment.value
+    : value * (1 + adjustment.percent / 100)
+}
+
+const LIMITS = {
+  sets: (n: number) => Math.max(1, Math.round(n)),
+  reps: (n: number) => Math.max(1, Math.round(n)),
+  weightPercent: (n: number) => Math.max(0, roundHalf(n)),
+  rpe: (n: number) => Math.min(10, Math.max(1, roundHalf(n))),
+  rest: (n: number) => Math.max(0, Math.round(n)),
+}
+
+const adjustWithin = (
+  value: number | undefined,
+  adjustment: BulkAdjustment | undefined,
+  limit: (n: number) => number
+) => {
+  if (!adjustment) return value
+  const next = adjust(value, adjustment)
+  return next == null ? value : limit(next)
+}
+
+const editRow = (
+  row: ProgramStructureSetRow,
+  edit: BulkEdit
+): ProgramStructureSetRow => {
+  let next = { ...row }
+  if (edit.reps?.kind === 'set') {
+    next.reps = LIMITS.reps(edit.reps.value)
+    next.repsDisplay = undefined
+  } else if (edit.reps && row.reps != null) {
+    next = withRowReps(row, adjustWithin(row.reps, edit.reps, LIMITS.reps))
+  }
+  if (edit.weightPercent?.kind === 'set') {
+    next.weightMode = 'percent'
+    next.weightValue = LIMITS.weightPercent(edit.weightPercent.value)
+    next.weightDisplay = undefined
+  } else if (row.weightMode === 'percent') {
+    next.weightValue = adjustWithin(
+      row.weightValue,
+      edit.weightPercent,
+      LIMITS.weightPercent
+    )
+  }
+  next.rpe = adjustWithin(row.rpe, edit.rpe, LIMITS.rpe)
+  next.restSeconds = adjustWithin(row.restSeconds, edit.rest, LIMITS.rest)
+  if (edit.tempo !== undefined) next.tempo = edit.tempo || undefined
+  return next
+}
+
+/** Set rows resized to `count`: extra sets copy the last one */
+const resizeRows = (rows: ProgramStructureSetRow[], count: number) =>
+  Array.from({ length: count }, (_, i) => ({
+    ...(rows[i] ?? rows.at(-1)),
+    setIndex: i,
+  }))
+
+/**
+ * One prescription with the edit applied. With per-set rows, the rows carry
+ * the change and exercise-level fields are only touched when already set.
+ */
+export const applyBulkEditToExercise = (
+  ex: ProgramStructureSectionExercise,
+  edit: BulkEdit
+): ProgramStructureSectionExercise => {
+  const rows = ex.setsRows ?? []
+  const hasRows = rows.length > 0
+  const next = { ...ex }
+  const field = (
+    name: 'sets' | 'reps' | 'weightPercent' | 'rpe',
+    limit: (n: number) => number
+  ) => {
+    if (hasRows && ex[name] == null) return
+    next[name] = adjustWithin(ex[name], edit[name], limit)
+  }
+  field('sets', LIMITS.sets)
+  field('reps', LIMITS.reps)
+  field('weightPercent', LIMITS.weightPercent)
+  field('rpe', LIMITS.rpe)
+  if (edit.rest && (!hasRows || ex.rest)) {
+    const seconds = adjustWithin(
+      parseRestSeconds(ex.rest),
+      edit.rest,
+      LIMITS.rest
+    )
+    if (seconds != null) next.rest = formatRestSeconds(seconds)
+  }
+  if (edit.tempo !== undefined && (!hasRows || ex.tempo)) {
+    next.tempo = edit.tempo || undefined
+  }
+  if (edit.coachingNotes !== undefined) {
+    next.coachingNotes = edit.coachingNotes || undefined
+  }
+  if (hasRows) {
+    const count =
+      adjustWithin(rows.length, edit.sets, LIMITS.sets) ?? rows.length
+    next.setsRows = resizeRows(rows, count).map(row => editRow(row, edit))
+    if (ex.sets != null) next.sets = count
+  }
+  return next
+}
+
+/** Structure with the edit applied to the selected prescriptions */
+export const applyBulkEdit = (
+  structure: ProgramStructure,
+  keys: ReadonlySet<string>,
+  edit: BulkEdit
+): ProgramStructure => ({
+  weeks: structure.weeks.map((week, w) => ({
+    ...week,
+    days: week.days.map((day, d) => ({
+      ...day,
+      sections: day.sections?.map((section, s) => ({
+        ...section,
+        exercises: (section.exercises ?? []).map((ex, e) =>
+          keys.has(bulkEditKey(w, d, s, e))
+            ? applyBulkEditToExercise(ex, edit)
+            : ex
+        ),
+      })),
+    })),
+  })),
+})
@@ -0,0 +1,461 @@
+/**
+ * Program Diff
+ *
+ * Structural comparison of two ProgramStructure versions: which weeks, days,
+ * blocks and exercise prescriptions were added, removed or changed. Records
+ * are matched by id when both sides have one, otherwise by position, and ids
+ * and embedded exercise details are ignored when comparing content.
+ */
+
+import type {
+  ProgramStructure,
+  ProgramStructureDay,
+  ProgramStructureSection,
+  ProgramStructureSectionExercise,
+  ProgramStructureSetRow,
+  ProgramStructureWeek,
+} from '@/types/program'
+
+export type ProgramChangeKind = 'added' | 'removed' | 'changed'
+export type ProgramChangeLevel = 'week' | 'day' | 'block' | 'exercise'
+
+/** One field of a change; `before` is empty for added records, `after` for removed ones */
+export interface ProgramChangeDetail {
+  label: string
+  before: string
+  after: string
+}
+
+export interface ProgramChange {
+  kind: ProgramChangeKind
+  level: ProgramChangeLevel
+  /** e.g. "Week 2 · Day 3 · Block 1 (Back Squat)" */
+  path: string
+  details: ProgramChangeDetail[]
+}
+
+type ExerciseNameLookup = (exerciseId: number) => string
+
+const defaultExerciseName: ExerciseNameLookup = id => `Exercise #${id}`
+
+/** Drop null / undefined / '' so "not set" compares equal however it is stored */
+const normalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(normalize)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v != null && v !== '')
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([k, v]) => [k, normalize(v)])
+    )
+  }
+  return value
+}
+
+/** Deep equality that ignores how "not set" is stored */
+export const isSameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(normalize(a ?? null)) === JSON.stringify(normalize(b ?? null))
+
+/**
+ * Pair up two lists of records: by id where both sides have one, then by
+ * position. Pairs follow `after` order; removed records are placed where
+ * they sat in `before`.
+ */
+export const matchRecords = <T extends { id?: number }>(
+  before: T[],
+  after: T[],
+  position: (item: T, index: number) => number
+): Array<[T | undefined, T | undefined]> => {
+  const matched = new Map<T, T>()
+  const used = new Set<T>()
+  for (const a of after) {
+    const b =
+      a.id == null ? undefined : before.find(x => x.id === a.id && !used.has(x))
+    if (b) {
+      matched.set(a, b)
+      used.add(b)
+    }
+  }
+  after.forEach((a, ai) => {
+    if (matched.has(a)) return
+    const b = before.find(
+      (x, bi) =>
+        !used.has(x) &&
+        (x.id == null || a.id == null) &&
+        position(x, bi) === position(a, ai)
+    )
+    if (b) {
+      matched.set(a, b)
+      used.add(b)
+    }
+  })
+  const pairs: Array<{ order: number; pair: [T | undefined, T | undefined] }> =
+    after.map((a, ai) => ({ order: ai, pair: [matched.get(a), a] }))
+  before.forEach((b, bi) => {
+    if (!used.has(b)) pairs.push({ order: bi - 0.5, pair: [b, undefined] })
+  })
+  return pairs.sort((x, y) => x.order - y.order).map(p => p.pair)
+}
+
+const show = (value: unknown): string => {
+  if (value == null || value === '') return '—'
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+/** One field that differs between two records */
+const fieldDetails = <T extends object>(
+  before: T,
+  after: T,
+  fields: Array<[keyof T, string]>
+): ProgramChangeDetail[] =>
+  fields.flatMap(([key, label]) =>
+    isSameValue(before[key], after[key])
+      ? []
+      : [{ label, before: show(before[key]), after: show(after[key]) }]
+  )
+
+/** Content of an added or removed record, on its side only */
+const recordDetail = (
+  kind: ProgramChangeKind,
+  label: string,
+  text: string
+): ProgramChangeDetail =>
+  kind === 'removed'
+    ? { label, before: text, after: '' }
+    : { label, before: '', after: text }
+
+/** "Sets: 3 → 4" (or just the text for an added / removed record) */
+export const formatChangeDetail = ({
+  label,
+  before,
+  after,
+}: ProgramChangeDetail) => {
+  const text = before && after ? `${before} → ${after}` : before || after
+  return label ? `${label}: ${text}` : text
+}
+
+/** "3×5 @ 75%, 1×3 @ 85%" (identical consecutive rows grouped) */
+export const formatSetRows = (rows: ProgramStructureSetRow[] = []): string => {
+  const describe = (row: ProgramStructureSetRow) => {
+    const reps = row.repsDisplay || (row.reps != null ? String(row.reps) : '?')
+    let load = ''
+    if (row.weightMode === 'percent' && row.weightValue != null) {
+      load = ` @ ${row.weightValue}%`
+    } else if (row.weightDisplay) {
+      load = ` @ ${row.weightDisplay}`
+    } else if (row.weightValue != null) {
+      load = ` @ ${row.weightValue}`
+    }
+    const rpe = row.rpe != null ? ` RPE ${row.rpe}` : ''
+    return `${reps}${load}${rpe}`
+  }
+  const groups: Array<{ text: string; count: number }> = []
+  for (const row of rows) {
+    const text = describe(row)
+    const last = groups.at(-1)
+    if (last?.text === text) last.count += 1
+    else groups.push({ text, count: 1 })
+  }
+  return groups.map(g => `${g.count}×${g.text}`).join(', ') || '—'
+}
+
+const EXERCISE_FIELDS: Array<[keyof ProgramStructureSectionExercise, string]> =
+  [
+    ['sets', 'Sets'],
+    ['reps', 'Reps'],
+    ['rpe', 'RPE'],
+    ['weightPercent', '% 1RM'],
+    ['tempo', 'Tempo'],
+    ['rest', 'Rest'],
+    ['coachingNotes', 'Notes'],
+  ]
+
+const BLOCK_FIELDS: Array<[keyof ProgramStructureSection, string]> = [
+  ['blockType', 'Type'],
+  ['blockCategory', 'Category'],
+  ['name', 'Name'],
+  ['instructions', 'Instructions'],
+  ['resultTrackingType', 'Result tracking'],
+  ['conditioningFormat', 'Format'],
+  ['conditioningConfig', 'Format settings'],
+  ['supersetRounds', 'Rounds'],
+  ['restBetweenExercises', 'Rest between exercises'],
+  ['restBetweenRounds', 'Rest between rounds'],
+  ['videoUrls', 'Videos'],
+]
+
+const DAY_FIELDS: Array<[keyof ProgramStructureDay, string]> = [
+  ['dayName', 'Name'],
+  ['isRestDay', 'Rest day'],
+  ['sessionNotes', 'Session notes'],
+  ['estimatedDurationMinutes', 'Duration (min)'],
+]
+
+const exerciseContent = ({
+  exerciseId,
+  sets,
+  reps,
+  rpe,
+  weightPercent,
+  tempo,
+  rest,
+  coachingNotes,
+  setsRows,
+}: ProgramStructureSectionExercise) => ({
+  exerciseId,
+  sets,
+  reps,
+  rpe,
+  weightPercent,
+  tempo,
+  rest,
+  coachingNotes,
+  setsRows: setsRows?.map(row => ({ ...row, setIndex: undefined })),
+})
+
+const blockContent = (block: ProgramStructureSection) => ({
+  ...Object.fromEntries(BLOCK_FIELDS.map(([key]) => [key, block[key]])),
+  isSupersetChild:
+    block.parentSectionId != null || block.parentSectionIndex != null,
+  exercises: (block.exercises ?? []).map(exerciseContent),
+})
+
+const dayContent = (day: ProgramStructureDay) => ({
+  ...Object.fromEntries(DAY_FIELDS.map(([key]) => [key, day[key]])),
+  dayIndex: day.dayIndex,
+  sections: (day.sections ?? []).map(blockContent),
+})
+
+/** Week content without ids (what a coach would call "the same week") */
+export const weekContent = (week: ProgramStructureWeek) => ({
+  weekName: week.weekName,
+  days: (week.days ?? []).map(dayContent),
+})
+
+/** True when two structures have the same content, ignoring ids */
+export const isSameStructure = (a: ProgramStructure, b: ProgramStructure) =>
+  isSameValue(
+    (a.weeks ?? []).map(weekContent),
+    (b.weeks ?? []).map(weekContent)
+  )
+
+const weekTitle = (week: ProgramStructureWeek, index: number) =>
+  `Week ${week.weekIndex ?? index + 1}`
+
+const blockTitle = (
+  block: ProgramStructureSection,
+  index: number,
+  exerciseName: ExerciseNameLookup
+) => {
+  const first = block.exercises?.[0]
+  const name =
+    block.name || (first ? exerciseName(first.exerciseId) : block.blockType)
+  return name ? `Block ${index + 1} (${name})` : `Block ${index + 1}`
+}
+
+const diffExercises = (
+  before: ProgramStructureSectionExercise[],
+  after: ProgramStructureSectionExercise[],
+  path: string,
+  exerciseName: ExerciseNameLookup
+): ProgramChange[] => {
+  const changes: ProgramChange[] = []
+  const length = Math.max(before.length, after.length)
+  for (let i = 0; i < length; i++) {
+    const b = before[i]
+    const a = after[i]
+    const name = exerciseName((a ?? b).exerciseId)
+    const exPath = `${path} · ${name}`
+    if (!b || !a) {
+      const kind = b ? 'removed' : 'added'
+      changes.push({
+        kind,
+        level: 'exercise',
+        path: exPath,
+        details: [recordDetail(kind, 'Sets', formatSetRows((a ?? b).setsRows))],
+      })
+      continue
+    }
+    if (isSameValue(exerciseContent(b), exerciseContent(a))) continue
+    const details = fieldDetails(b, a, EXERCISE_FIELDS)
+    if (b.exerciseId !== a.exerciseId) {
+      details.unshift({
+        label: 'Exercise',
+        before: exerciseName(b.exerciseId),
+        after: exerciseName(a.exerciseId),
+      })
+    }
+    if (
+      !isSameValue(exerciseContent(b).setsRows, exerciseContent(a).setsRows)
+    ) {
+      details.push({
+        label: 'Set rows',
+        before: formatSetRows(b.setsRows),
+        after: formatSetRows(a.setsRows),
+      })
+    }
+    changes.push({ kind: 'changed', level: 'exercise', path: exPath, details })
+  }
+  return changes
+}
+
+const diffBlocks = (
+  before: ProgramStructureSection[],
+  after: ProgramStructureSection[],
+  path: string,
+  exerciseName: ExerciseNameLookup
+): ProgramChange[] =>
+  matchRecords(before, after, (_, i) => i).flatMap(([b, a], i) => {
+    const blockPath = `${path} · ${blockTitle((a ?? b)!, i, exerciseName)}`
+    if (!b || !a) {
+      const kind = b ? 'removed' : 'added'
+      return [
+        {
+          kind,
+          level: 'block',
+          path: blockPath,
+          details: ((a ?? b)!.exercises ?? []).map(ex =>
+            recordDetail(
+              kind,
+              exerciseName(ex.exerciseId),
+              formatSetRows(ex.setsRows)
+            )
+          ),
+        } satisfies ProgramChange,
+      ]
+    }
+    if (isSameValue(blockContent(b), blockContent(a))) return []
+    const details = fieldDetails(b, a, BLOCK_FIELDS)
+    const exerciseChanges = diffExercises(
+      b.exercises ?? [],
+      a.exercises ?? [],
+      blockPath,
+      exerciseName
+    )
+    return details.length > 0 || exerciseChanges.length === 0
+      ? [
+          {
+            kind: 'changed' as const,
+            level: 'block' as const,
+            path: blockPath,
+            details,
+          },
+          ...exerciseChanges,
+        ]
+      : exerciseChanges
+  })
+
+const diffDays = (
+  before: ProgramStructureDay[],
+  after: ProgramStructureDay[],
+  path: string,
+  exerciseName: ExerciseNameLookup
+): ProgramChange[] =>
+  matchRecords(before, after, d => d.dayIndex).flatMap(([b, a]) => {
+    const day = (a ?? b)!
+    const dayPath = `${path} · ${day.dayName || `Day ${day.dayIndex}`}`
+    if (!b || !a) {
+      const kind = b ? 'removed' : 'added'
+      const blocks = day.sections?.length ?? 0
+      return [
+        {
+          kind,
+          level: 'day',
+          path: dayPath,
+          details: [
+            recordDetail(
+              kind,
+              '',
+              day.isRestDay
+                ? 'Rest day'
+                : `${blocks} block${blocks === 1 ? '' : 's'}`
+            ),
+          ],
+        } satisfies ProgramChange,
+      ]
+    }
+    if (isSameValue(dayContent(b), dayContent(a))) return []
+    const details = fieldDetails(b, a, DAY_FIELDS)
+    if (b.dayIndex !== a.dayIndex) {
+      details.push({
+        label: 'Position',
+        before: `Day ${b.dayIndex}`,
+        after: `Day ${a.dayIndex}`,
+      })
+    }
+    const blockChanges = diffBlocks(
+      b.sections ?? [],
+      a.sections ?? [],
+      dayPath,
+      exerciseName
+    )
+    return details.length > 0
+      ? [
+          {
+            kind: 'changed' as const,
+            level: 'day' as const,
+            path: dayPath,
+            details,
+          },
+          ...blockChanges,
+        ]
+      : blockChanges
+  })
+
+/**
+ * Everything that differs between two versions of a program structure,
+ * outermost first (a removed week is one change, not one per block)
+ *
+ * @param exerciseName - Resolves exercise ids to names for paths and details
+ */
+export const diffProgramStructures = (
+  before: ProgramStructure,
+  after: ProgramStructure,
+  exerciseName: ExerciseNameLookup = defaultExerciseName
+): ProgramChange[] =>
+  matchRecords(before.weeks ?? [], after.weeks ?? [], w => w.weekIndex).flatMap(
+    ([b, a], i) => {
+      const week = (a ?? b)!
+      const weekPath = weekTitle(week, i)
+      if (!b || !a) {
+        const kind = b ? 'removed' : 'added'
+        const days = week.days?.length ?? 0
+        return [
+          {
+            kind,
+            level: 'week',
+            path: weekPath,
+            details: [
+              recordDetail(kind, '', `${days} session${days === 1 ? '' : 's'}`),
+            ],
+          } satisfies ProgramChange,
+        ]
+      }
+      if (isSameValue(weekContent(b), weekContent(a))) return []
+      const dayChanges = diffDays(
+        b.days ?? [],
+        a.days ?? [],
+        weekPath,
+        exerciseName
+      )
+      return isSameValue(b.weekName, a.weekName)
+        ? dayChanges
+        : [
+            {
+              kind: 'changed' as const,
+              level: 'week' as const,
+              path: weekPath,
+              details: [
+                {
+                  label: 'Name',
+                  before: show(b.weekName),
+                  after: show(a.weekName),
+                },
+              ],
+            },
+            ...dayChanges,
+          ]
+    }
+  )
@@ -0,0 +1,293 @@
+/**
+ * Program Drafts
+ *
+ * Local (per-browser) copies of unsaved program builder work, and the
+ * three-way merge used when a save finds that someone else saved a newer
+ * version of the program in the meantime. Merging is per program field and
+ * per week: each side's version of a week is kept or dropped as a whole.
+ */
+
+import type { ProgramStructure, ProgramStructureWeek } from '@/types/program'
+import {
+  diffProgramStructures,
+  formatChangeDetail,
+  isSameStructure,
+  isSameValue,
+  matchRecords,
+  weekContent,
+  type ProgramChangeDetail,
+} from '@/utils/programDiff'
+
+const DRAFT_STORAGE_PREFIX = 'programDraft:'
+const DRAFT_VERSION = 1
+
+/** Program fields the builder edits (besides the structure) */
+export interface ProgramDraftFields {
+  name: string
+  description: string
+  category: string
+  subCategory: string
+  isActive: boolean
+  constraintCategory: string
+}
+
+/** One version of a program as the builder sees it */
+export interface ProgramSnapshot {
+  fields: ProgramDraftFields
+  structure: ProgramStructure
+}
+
+export interface ProgramDraft {
+  version: number
+  /** ISO time the draft was written */
+  savedAt: string
+  /** updatedAt of the server version the draft was based on */
+  baseUpdatedAt: string | null
+  /** That server version, so a restored draft can still be merged */
+  base: ProgramSnapshot | null
+  snapshot: ProgramSnapshot
+}
+
+/** Program as returned by the API (only the fields a snapshot needs) */
+interface ProgramLike {
+  name?: string | null
+  description?: string | null
+  category?: string | null
+  subCategory?: string | null
+  isActive?: boolean
+  constraintCategory?: string | null
+  programStructure?: ProgramStructure | null
+}
+
+const FIELD_LABELS: Record<keyof ProgramDraftFields, string> = {
+  name: 'Program name',
+  description: 'Description',
+  category: 'Category',
+  subCategory: 'Sub-category',
+  isActive: 'Active',
+  constraintCategory: 'Constraint category',
+}
+const FIELD_KEYS = Object.keys(FIELD_LABELS) as Array<keyof ProgramDraftFields>
+
+const describeValue = (value: unknown) => {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  return value === '' || value == null ? '(empty)' : String(value)
+}
+
+/**
+ * Storage key for a program's draft; new programs are keyed by cycle
+ */
+export const programDraftKey = (
+  programId: number | undefined,
+  cycleId: number | undefined
+) =>
+  `${DRAFT_STORAGE_PREFIX}${programId != null ? programId : `new-${cycleId ?? 0}`}`
+
+/** Snapshot of a program loaded from the API */
+export const programToSnapshot = (program: ProgramLike): ProgramSnapshot => ({
+  fields: {
+    name: program.name ?? '',
+    description: program.description ?? '',
+    category: program.category ?? '',
+    subCategory: program.subCategory ?? '',
+    isActive: program.isActive ?? true,
+    constraintCategory: program.constraintCategory ?? '',
+  },
+  structure: { weeks: program.programStructure?.weeks ?? [] },
+})
+
+/** True when two snapshots have the same content (ids ignored) */
+export const isSameSnapshot = (a: ProgramSnapshot, b: ProgramSnapshot) =>
+  isSameValue(a.fields, b.fields) && isSameStructure(a.structure, b.structure)
+
+/** Program fields (name, description…) that differ between two snapshots */
+export const diffSnapshotFields = (
+  before: ProgramSnapshot,
+  after: ProgramSnapshot
+): ProgramChangeDetail[] =>
+  FIELD_KEYS.flatMap(field =>
+    isSameValue(before.fields[field], after.fields[field])
+      ? []
+      : [
+          {
+            label: FIELD_LABELS[field],
+            before: describeValue(before.fields[field]),
+            after: describeValue(after.fields[field]),
+          },
+        ]
+  )
+
+/** True when a new-program snapshot has nothing worth restoring */
+export const isEmptySnapshot = ({ fields, structure }: ProgramSnapshot) =>
+  !fields.name.trim() &&
+  !fields.description.trim() &&
+  structure.weeks.every(w => (w.days ?? []).length === 0)
+
+export const loadProgramDraft = (key: string): ProgramDraft | null => {
+  try {
+    const raw = localStorage.getItem(key)
+    if (!raw) return null
+    const draft = JSON.parse(raw) as ProgramDraft
+    return draft?.version === DRAFT_VERSION && draft.snapshot ? draft : null
+  } catch {
+    return null
+  }
+}
+
+/** Write a draft; storage errors (quota, private mode) are ignored */
+export const saveProgramDraft = (
+  key: string,
+  draft: Omit<ProgramDraft, 'version' | 'savedAt'>
+) => {
+  try {
+    localStorage.setItem(
+      key,
+      JSON.stringify({
+        ...draft,
+        version: DRAFT_VERSION,
+        savedAt: new Date().toISOString(),
+      })
+    )
+  } catch {
+    // draft is best-effort
+  }
+}
+
+export const clearProgramDraft = (key: string) => {
+  try {
+    localStorage.removeItem(key)
+  } catch {
+    // ignore
+  }
+}
+
+export type MergeSource = 'mine' | 'theirs'
+
+/** One field or week where my version and theirs differ */
+export interface ProgramMergeItem {
+  key: string
+  label: string
+  /** Changed on my side since the common base */
+  mineChanged: boolean
+  /** Changed on their side since the common base */
+  theirsChanged: boolean
+  /** What my version has (field value or week changes vs base) */
+  mine: string[]
+  /** What their version has */
+  theirs: string[]
+  /** Pre-selected side: whoever changed it, mine when both did */
+  defaultSource: MergeSource
+}
+
+const weekPairs = (mine: ProgramStructure, theirs: ProgramStructure) =>
+  matchRecords(theirs.weeks ?? [], mine.weeks ?? [], w => w.weekIndex)
+
+/** Base version of a week: same id, else same week number */
+const findBaseWeek = (
+  base: ProgramStructure,
+  week: ProgramStructureWeek
+): ProgramStructureWeek | undefined =>
+  (week.id != null ? base.weeks.find(w => w.id === week.id) : undefined) ??
+  base.weeks.find(w => w.weekIndex === week.weekIndex)
+
+const isSameWeek = (
+  a: ProgramStructureWeek | undefined,
+  b: ProgramStructureWeek | undefined
+) =>
+  a == null || b == null
+    ? a == null && b == null
+    : isSameValue(weekContent(a), weekContent(b))
+
+/** "Added · Week 3 · Day 2" lines for one week, relative to the base */
+const describeWeek = (
+  base: ProgramStructureWeek | undefined,
+  week: ProgramStructureWeek | undefined,
+  exerciseName?: (exerciseId: number) => string
+): string[] => {
+  if (!week) return [base ? 'Week removed' : 'Not in this version']
+  const changes = diffProgramStructures(
+    { weeks: base ? [base] : [] },
+    { weeks: [week] },
+    exerciseName
+  )
+  if (changes.length === 0) return ['Unchanged']
+  return changes.map(
+    c =>
+      `${c.kind[0].toUpperCase()}${c.kind.slice(1)}: ${c.path}${c.details.length ? ` (${c.details.map(formatChangeDetail).join('; ')})` : ''}`
+  )
+}
+
+/**
+ * Fields and weeks that differ between my version and theirs, with who
+ * changed each one relative to the common base
+ */
+export const buildProgramMergeItems = (
+  base: ProgramSnapshot,
+  mine: ProgramSnapshot,
+  theirs: ProgramSnapshot,
+  exerciseName?: (exerciseId: number) => string
+): ProgramMergeItem[] => {
+  const fieldItems = FIELD_KEYS.flatMap(field => {
+    const m = mine.fields[field]
+    const t = theirs.fields[field]
+    if (isSameValue(m, t)) return []
+    const mineChanged = !isSameValue(base.fields[field], m)
+    const theirsChanged = !isSameValue(base.fields[field], t)
+    return [
+      {
+        key: `field:${field}`,
+        label: FIELD_LABELS[field],
+        mineChanged,
+        theirsChanged,
+        mine: [describeValue(m)],
+        theirs: [describeValue(t)],
+        defaultSource: theirsChanged && !mineChanged ? 'theirs' : 'mine',
+      } satisfies ProgramMergeItem,
+    ]
+  })
+  const weekItems = weekPairs(mine.structure, theirs.structure).flatMap(
+    ([t, m], i) => {
+      if (isSameWeek(m, t)) return []
+      const week = (m ?? t)!
+      const baseWeek = findBaseWeek(base.structure, week)
+      const mineChanged = !isSameWeek(baseWeek, m)
+      const theirsChanged = !isSameWeek(baseWeek, t)
+      return [
+        {
+          key: `week:${i}`,
+          label: week.weekName || `Week ${week.weekIndex}`,
+          mineChanged,
+          theirsChanged,
+          mine: describeWeek(baseWeek, m, exerciseName),
+          theirs: describeWeek(baseWeek, t, exerciseName),
+          defaultSource: theirsChanged && !mineChanged ? 'theirs' : 'mine',
+        } satisfies ProgramMergeItem,
+      ]
+    }
+  )
+  return [...fieldItems, ...weekItems]
+}
+
+/**
+ * Merged snapshot: for each item take the chosen side; everything that
+ * does not differ is the same on both sides. Weeks are renumbered in order.
+ */
+export const applyProgramMerge = (
+  mine: ProgramSnapshot,
+  theirs: ProgramSnapshot,
+  choices: Record<string, MergeSource>
+): ProgramSnapshot => {
+  const fields = Object.fromEntries(
+    FIELD_KEYS.map(field => [
+      field,
+      choices[`field:${field}`] === 'theirs'
+        ? theirs.fields[field]
+        : mine.fields[field],
+    ])
+  ) as unknown as ProgramDraftFields
+  const weeks = weekPairs(mine.structure, theirs.structure)
+    .map(([t, m], i) => (choices[`week:${i}`] === 'theirs' ? t : m))
+    .filter((w): w is ProgramStructureWeek => w != null)
+    .map((w, i) => ({ ...w, weekIndex: i + 1 }))
+  return { fields, structure: { weeks } }
+}
@@ -0,0 +1,304 @@
+/**
+ * Program Editor Store
+ *
+ * Holds the builder's program structure and a normalized view of it: weeks,
+ * days, blocks and exercises in flat maps keyed by id, with selectors for the
+ * calendar. The builder writes every edit through load() and reads the nested
+ * structure back (history, autosave and the API all use it); calendar rows
+ * and cells subscribe to their own entities, so one edit renders the builder
+ * and the changed row or cell in a single pass. Entities whose source object
+ * did not change keep their identity, so components that select them skip
+ * rendering when another week or day is edited.
+ */
+
+import type {
+  ProgramStructure,
+  ProgramStructureDay,
+  ProgramStructureSection,
+  ProgramStructureSectionExercise,
+  ProgramStructureWeek,
+} from '@/types/program'
+
+export type EditorWeek = Omit<ProgramStructureWeek, 'days'> & {
+  key: string
+  /** In calendar order: index = day column */
+  dayKeys: string[]
+}
+
+export type EditorDay = Omit<ProgramStructureDay, 'sections'> & {
+  key: string
+  blockKeys: string[]
+}
+
+export type EditorBlock = Omit<ProgramStructureSection, 'exercises'> & {
+  key: string
+  exerciseKeys: string[]
+}
+
+export type EditorExercise = ProgramStructureSectionExercise & { key: string }
+
+export interface NormalizedProgram {
+  weekKeys: string[]
+  weeks: Record<string, EditorWeek>
+  days: Record<string, EditorDay>
+  blocks: Record<string, EditorBlock>
+  exercises: Record<string, EditorExercise>
+}
+
+/**
+ * Entity key: the record id once saved, the position until then
+ * ("day:42", "day@3.1")
+ */
+const entityKey = (kind: string, id: number | undefined, path: number[]) =>
+  id == null ? `${kind}@${path.join('.')}` : `${kind}:${id}`
+
+/**
+ * Normalized entity per source object, reused while the source is unchanged
+ * and still sits at the same keys (unsaved records are keyed by position)
+ */
+const entityCache = new WeakMap<
+  object,
+  { key: string; childKeys: string[]; entity: unknown }
+>()
+
+const sameKeys = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((key, i) => key === b[i])
+
+const cached = <T>(
+  source: object,
+  key: string,
+  childKeys: string[],
+  build: () => T
+): T => {
+  const hit = entityCache.get(source)
+  if (hit?.key === key && sameKeys(hit.childKeys, childKeys))
+    return hit.entity as T
+  const entity = build()
+  entityCache.set(source, { key, childKeys, entity })
+  return entity
+}
+
+/** Flat maps of a program structure */
+export const normalizeProgram = (
+  structure: ProgramStructure
+): NormalizedProgram => {
+  const state: NormalizedProgram = {
+    weekKeys: [],
+    weeks: {},
+    days: {},
+    blocks: {},
+    exercises: {},
+  }
+  for (const [w, week] of structure.weeks.entries()) {
+    const dayKeys = (week.days ?? []).map((day, d) => {
+      const blockKeys = (day.sections ?? []).map((section, s) => {
+        const exerciseKeys = (section.exercises ?? []).map((ex, e) => {
+          const key = entityKey('exercise', undefined, [w, d, s, e])
+          state.exercises[key] = cached(ex, key, [], () => ({ ...ex, key }))
+          return key
+        })
+        const key = entityKey('block', section.id, [w, d, s])
+        state.blocks[key] = cached(section, key, exerciseKeys, () => {
+          // eslint-disable-next-line @typescript-eslint/no-unused-vars
+          const { exercises, ...rest } = section
+          return { ...rest, key, exerciseKeys }
+        })
+        return key
+      })
+      const key = entityKey('day', day.id, [w, d])
+      state.days[key] = cached(day, key, blockKeys, () => {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { sections, ...rest } = day
+        return { ...rest, key, blockKeys }
+      })
+      return key
+    })
+    const key = entityKey('week', week.id, [w])
+    state.weeks[key] = cached(week, key, dayKeys, () => {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { days, ...rest } = week
+      return { ...rest, key, dayKeys }
+    })
+    state.weekKeys.push(key)
+  }
+  return state
+}
+
+const stripKey = <T extends { key: string }>(entity: T): Omit<T, 'key'> => {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { key, ...rest } = entity
+  return rest
+}
+
+/** Nested structure back from the flat maps */
+export const denormalizeProgram = (
+  state: NormalizedProgram
+): ProgramStructure => ({
+  weeks: state.weekKeys.map(weekKey => {
+    const { dayKeys, ...week } = stripKey(state.weeks[weekKey])
+    return {
+      ...week,
+      days: dayKeys.map(dayKey => {
+        const { blockKeys, ...day } = stripKey(state.days[dayKey])
+        return {
+          ...day,
+          sections: blockKeys.map(blockKey => {
+            const { exerciseKeys, ...block } = stripKey(state.blocks[blockKey])
+            return {
+              ...block,
+              exercises: exerciseKeys.map(exerciseKey =>
+                stripKey(state.exercises[exerciseKey])
+              ),
+            }
+          }),
+        }
+      }),
+    }
+  }),
+})
+
+/**
+ * Same week fields and day keys. A week entity holds no day content, so one
+ * whose source was only copied for an edit inside a day can be reused.
+ */
+const sameWeek = (a: EditorWeek, b: EditorWeek) => {
+  const keys = Object.keys(a) as Array<keyof EditorWeek>
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every(k =>
+      k === 'dayKeys' ? sameKeys(a.dayKeys, b.dayKeys) : a[k] === b[k]
+    )
+  )
+}
+
+/** External store for useSyncExternalStore */
+export interface ProgramEditorStore {
+  getSnapshot: () => NormalizedProgram
+  /** The nested structure last loaded */
+  getStructure: () => ProgramStructure
+  subscribe: (listener: () => void) => () => void
+  /** Load a new version of the structure and notify subscribers */
+  load: (structure: ProgramStructure) => void
+}
+
+export const createProgramEditorStore = (
+  structure: ProgramStructure
+): ProgramEditorStore => {
+  let source = structure
+  let state = normalizeProgram(structure)
+  const listeners = new Set<() => void>()
+  return {
+    getSnapshot: () => state,
+    getStructure: () => source,
+    subscribe: listener => {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+    load: next => {
+      if (next === source) return
+      source = next
+      const prev = state
+      state = normalizeProgram(next)
+      if (sameKeys(prev.weekKeys, state.weekKeys))
+        state.weekKeys = prev.weekKeys
+      for (const key of state.weekKeys) {
+        const before = prev.weeks[key]
+        if (before && sameWeek(before, state.weeks[key]))
+          state.weeks[key] = before
+      }
+      for (const listener of listeners) listener()
+    },
+  }
+}
+
+/** Selection key of a calendar cell */
+export const calendarCellKey = (weekIdx: number, dayIdx: number) =>
+  `${weekIdx}-${dayIdx}`
+
+export const selectWeekKeys = (state: NormalizedProgram) => state.weekKeys
+
+export const selectWeek = (
+  state: NormalizedProgram,
+  weekKey: string
+): EditorWeek | undefined => state.weeks[weekKey]
+
+/** Day in a week's calendar column, if there is one */
+export const selectWeekDay = (
+  state: NormalizedProgram,
+  weekKey: string,
+  dayIdx: number
+): EditorDay | undefined => {
+  const dayKey = state.weeks[weekKey]?.dayKeys[dayIdx]
+  return dayKey == null ? undefined : state.days[dayKey]
+}
+
+/** "4×5", "4 sets" */
+const formatSetReps = (ex: { sets?: number; reps?: number }): string | null => {
+  if (ex.sets != null && ex.reps != null) return `${ex.sets}×${ex.reps}`
+  if (ex.sets != null) return `${ex.sets} sets`
+  return null
+}
+
+export interface CellSummary {
+  exerciseNames: string[]
+  setCounts: string[]
+  blockCategories: string[]
+}
+
+/** Calendar cell summary: first exercise names and set counts, block categories */
+export const getCellSummary = (
+  sections: Array<{
+    blockCategory?: string
+    exercises?: Array<{ exerciseId: number; sets?: number; reps?: number }>
+  }>,
+  getExerciseName: (id: number) => string
+): CellSummary => {
+  const exerciseNames = sections
+    .flatMap(sec =>
+      (sec.exercises ?? []).map(ex => getExerciseName(ex.exerciseId))
+    )
+    .slice(0, 3)
+  const setCounts = sections
+    .flatMap(sec =>
+      (sec.exercises ?? [])
+        .map(ex => formatSetReps({ sets: ex.sets, reps: ex.reps }))
+        .filter((x): x is string => x != null)
+    )
+    .slice(0, 3)
+  const blockCategories = [
+    ...new Set(sections.map(s => s.blockCategory).filter(Boolean)),
+  ] as string[]
+  return { exerciseNames, setCounts, blockCategories }
+}
+
+const summaryCache = new WeakMap<
+  EditorDay,
+  { exerciseName: (id: number) => string; summary: CellSummary }
+>()
+
+/**
+ * Calendar cell summary of a day. Cached per day entity and name lookup, so
+ * it is only recomputed when that day changes or exercise names load.
+ */
+export const selectDaySummary = (
+  state: NormalizedProgram,
+  day: EditorDay,
+  exerciseName: (id: number) => string
+): CellSummary => {
+  const hit = summaryCache.get(day)
+  if (hit?.exerciseName === exerciseName) return hit.summary
+  const summary = getCellSummary(
+    day.blockKeys.map(blockKey => {
+      const block = state.blocks[blockKey]
+      return {
+        blockCategory: block?.blockCategory,
+        exercises: (block?.exerciseKeys ?? []).map(
+          exerciseKey => state.exercises[exerciseKey]
+        ),
+      }
+    }),
+    exerciseName
+  )
+  summaryCache.set(day, { exerciseName, summary })
+  return summary
+}
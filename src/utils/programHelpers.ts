@@ -4,6 +4,8 @@
  * Utility functions for program management operations.
  */
 
+import type { ProgramCycleType } from '@/types/program'
+
 /**
  * Generate unique exercise ID
  * @returns A unique exercise identifier string
@@ -60,3 +62,65 @@ export const formatDay = (day: string, cycleName: string): string => {
   // For Red/Green cycles, return as-is (e.g., "day1", "day2")
   return day
 }
+
+/**
+ * Map cycle name to API cycle type
+ * @param cycleName - Cycle name from the cycles list (e.g. "Red", "Amber")
+ * @returns The cycle type; RED when the name is unknown
+ */
+export const getCycleTypeFromName = (
+  cycleName: string | undefined
+): ProgramCycleType => {
+  switch (cycleName) {
+    case 'Red':
+      return 'RED'
+    case 'Amber':
+      return 'AMBER'
+    case 'Green':
+      return 'GREEN'
+    case 'Sustainment':
+      return 'SUSTAINMENT'
+    case 'Custom':
+      return 'CUSTOM'
+    default:
+      return 'RED'
+  }
+}
+
+/**
+ * Save text as a file in the browser (program export, printable sheets)
+ * @param filename - Suggested file name
+ * @param content - File contents
+ * @param mimeType - Content type, e.g. application/json
+ */
+export const downloadTextFile = (
+  filename: string,
+  content: string,
+  mimeType: string
+): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  a.remove()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Display label for a week: auto-renumber "Week N" by position; keep
+ * user-renamed names (e.g. "Ws") as-is
+ * @param week - The week (only its name is read)
+ * @param weekIdx - Position of the week in the program
+ * @returns The label shown on the calendar
+ */
+export const getDisplayWeekName = (
+  week: { weekName?: string | null },
+  weekIdx: number
+): string => {
+  const name = week.weekName?.trim()
+  if (!name) return `Week ${weekIdx + 1}`
+  if (/^Week \d+$/.test(name)) return `Week ${weekIdx + 1}` // renumber after add/delete
+  return name // custom name, keep as-is
+}
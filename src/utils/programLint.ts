@@ -0,0 +1,278 @@
+/**
+ * Program Lint
+ *
+ * Rule-based checks over a program structure, run live in the builder and
+ * before publishing. Errors block publishing; warnings only need a
+ * confirmation.
+ */
+
+import { programService } from '@/api/program.service'
+import { exerciseService } from '@/api/exercise.service'
+import type {
+  ProgramStructure,
+  ProgramStructureSectionExercise,
+} from '@/types/program'
+import { isCircuitBlock } from '@/utils/circuitFlow'
+import { parentSectionIndex } from '@/utils/programStructure'
+
+export type ProgramLintSeverity = 'error' | 'warning'
+
+export type ProgramLintRule =
+  | 'empty-day'
+  | 'missing-reps'
+  | 'percent-without-reference-max'
+  | 'conditioning-config'
+  | 'volume-jump'
+
+/** Where an issue is in the structure (indexes into weeks / days / sections) */
+export interface ProgramLintTarget {
+  weekIdx: number
+  dayIdx?: number
+  /** Top-level block (superset parent for a superset exercise) */
+  sectionIdx?: number
+}
+
+export interface ProgramLintIssue {
+  key: string
+  rule: ProgramLintRule
+  severity: ProgramLintSeverity
+  message: string
+  /** "Week 2 · Day 3 · Back Squat" */
+  location: string
+  target: ProgramLintTarget
+}
+
+export interface ProgramLintOptions {
+  exerciseName?: (exerciseId: number) => string
+  /**
+   * Reference max of an exercise: null when it has none, undefined when the
+   * exercise is not known (the rule is skipped)
+   */
+  referenceMaxExerciseId?: (exerciseId: number) => number | null | undefined
+  /** Compare week-over-week volume (off for Amber session templates) */
+  checkVolumeJumps?: boolean
+}
+
+/** Week-over-week increase in total reps flagged as a jump */
+export const VOLUME_JUMP_THRESHOLD = 0.25
+
+/** Conditioning config fields each timed format needs */
+const REQUIRED_CONDITIONING_CONFIG: Record<
+  string,
+  Array<{ field: string; label: string }>
+> = {
+  AMRAP: [{ field: 'timeCapSeconds', label: 'time cap' }],
+  EMOM: [
+    { field: 'durationSeconds', label: 'duration' },
+    { field: 'intervalLengthSeconds', label: 'interval length' },
+  ],
+  Tabata: [{ field: 'rounds', label: 'rounds' }],
+  'Custom Interval': [
+    { field: 'rounds', label: 'rounds' },
+    { field: 'workSeconds', label: 'work time' },
+    { field: 'restSeconds', label: 'rest time' },
+  ],
+}
+
+const hasReps = (ex: ProgramStructureSectionExercise) =>
+  ex.setsRows?.length
+    ? ex.setsRows.every(row => row.reps != null || !!row.repsDisplay?.trim())
+    : ex.reps != null
+
+const usesPercent = (ex: ProgramStructureSectionExercise) =>
+  ex.weightPercent != null ||
+  (ex.setsRows ?? []).some(row => row.weightMode === 'percent')
+
+/** Total prescribed reps of one exercise (sets × reps or the sum of set rows) */
+const exerciseReps = (ex: ProgramStructureSectionExercise) =>
+  ex.setsRows?.length
+    ? ex.setsRows.reduce((sum, row) => sum + (row.reps ?? 0), 0)
+    : (ex.sets ?? 0) * (ex.reps ?? 0)
+
+/** Total prescribed reps per week */
+export const weeklyVolume = (structure: ProgramStructure): number[] =>
+  structure.weeks.map(week =>
+    (week.days ?? []).reduce(
+      (total, day) =>
+        total +
+        (day.sections ?? []).reduce(
+          (sum, section) =>
+            sum +
+            (section.exercises ?? []).reduce(
+              (n, ex) => n + exerciseReps(ex),
+              0
+            ),
+          0
+        ),
+      0
+    )
+  )
+
+/** All issues in a structure, in program order (volume jumps last) */
+export const lintProgramStructure = (
+  structure: ProgramStructure,
+  {
+    exerciseName = id => `Exercise #${id}`,
+    referenceMaxExerciseId,
+    checkVolumeJumps = true,
+  }: ProgramLintOptions = {}
+): ProgramLintIssue[] => {
+  const issues: ProgramLintIssue[] = []
+  const weekLabel = (weekIdx: number) =>
+    structure.weeks[weekIdx]?.weekName || `Week ${weekIdx + 1}`
+
+  for (const [weekIdx, week] of structure.weeks.entries()) {
+    for (const [dayIdx, day] of (week.days ?? []).entries()) {
+      const dayLabel = `${weekLabel(weekIdx)} · ${day.dayName || `Day ${dayIdx + 1}`}`
+      const sections = day.sections ?? []
+      if (!day.isRestDay && sections.length === 0) {
+        issues.push({
+          key: `empty-day:${weekIdx}:${dayIdx}`,
+          rule: 'empty-day',
+          severity: 'error',
+          message:
+            'Training day has no blocks. Add blocks or mark it as a rest day.',
+          location: dayLabel,
+          target: { weekIdx, dayIdx },
+        })
+      }
+      for (const [s, section] of sections.entries()) {
+        const target = {
+          weekIdx,
+          dayIdx,
+          sectionIdx: parentSectionIndex(sections, section) ?? s,
+        }
+        if (isCircuitBlock(section.blockType)) {
+          const missing = (
+            REQUIRED_CONDITIONING_CONFIG[section.conditioningFormat ?? ''] ?? []
+          ).filter(
+            ({ field }) =>
+              (section.conditioningConfig as Record<string, unknown>)?.[
+                field
+              ] == null
+          )
+          if (missing.length > 0) {
+            issues.push({
+              key: `conditioning-config:${weekIdx}:${dayIdx}:${s}`,
+              rule: 'conditioning-config',
+              severity: 'error',
+              message: `${section.conditioningFormat} block has no ${missing.map(m => m.label).join(', ')}.`,
+              location: `${dayLabel} · ${section.name || 'Circuit'}`,
+              target,
+            })
+          }
+          continue
+        }
+        for (const [e, ex] of (section.exercises ?? []).entries()) {
+          const location = `${dayLabel} · ${exerciseName(ex.exerciseId)}`
+          if (!hasReps(ex)) {
+            issues.push({
+              key: `missing-reps:${weekIdx}:${dayIdx}:${s}:${e}`,
+              rule: 'missing-reps',
+              severity: 'error',
+              message: ex.setsRows?.length
+                ? 'Some sets have no reps.'
+                : 'Exercise has no reps.',
+              location,
+              target,
+            })
+          }
+          if (
+            usesPercent(ex) &&
+            referenceMaxExerciseId?.(ex.exerciseId) === null
+          ) {
+            issues.push({
+              key: `percent-without-reference-max:${weekIdx}:${dayIdx}:${s}:${e}`,
+              rule: 'percent-without-reference-max',
+              severity: 'warning',
+              message:
+                'Load is a % of working max, but the exercise has no reference max exercise in the library.',
+              location,
+              target,
+            })
+          }
+        }
+      }
+    }
+  }
+
+  if (checkVolumeJumps) {
+    const volume = weeklyVolume(structure)
+    volume.forEach((reps, weekIdx) => {
+      const previous = volume[weekIdx - 1]
+      if (!previous || reps <= previous * (1 + VOLUME_JUMP_THRESHOLD)) return
+      issues.push({
+        key: `volume-jump:${weekIdx}`,
+        rule: 'volume-jump',
+        severity: 'warning',
+        message: `Total reps jump ${Math.round((reps / previous - 1) * 100)}% from the previous week (${previous} → ${reps}).`,
+        location: weekLabel(weekIdx),
+        target: { weekIdx },
+      })
+    })
+  }
+
+  return issues
+}
+
+export const lintErrors = (issues: ProgramLintIssue[]) =>
+  issues.filter(i => i.severity === 'error')
+
+export const lintWarnings = (issues: ProgramLintIssue[]) =>
+  issues.filter(i => i.severity === 'warning')
+
+/** "Week 2 · Day 3 · Back Squat: Exercise has no reps." lines, capped */
+export const formatLintIssues = (issues: ProgramLintIssue[], limit = 5) => {
+  const lines = issues.slice(0, limit).map(i => `${i.location}: ${i.message}`)
+  if (issues.length > limit) lines.push(`…and ${issues.length - limit} more`)
+  return lines.join('\n')
+}
+
+/**
+ * Publish gate: shows the errors (publishing is blocked) or asks to confirm
+ * the warnings. Returns true when publishing may go ahead.
+ */
+export const confirmLintForPublish = (
+  issues: ProgramLintIssue[],
+  showError: (message: string) => void
+) => {
+  const errors = lintErrors(issues)
+  if (errors.length > 0) {
+    const [first] = errors
+    showError(
+      `Fix ${errors.length} program check error${errors.length === 1 ? '' : 's'} before publishing (${first.location}: ${first.message})`
+    )
+    return false
+  }
+  const warnings = lintWarnings(issues)
+  return (
+    warnings.length === 0 ||
+    globalThis.confirm(
+      `This program has ${warnings.length} warning${warnings.length === 1 ? '' : 's'}:\n\n${formatLintIssues(warnings)}\n\nPublish anyway?`
+    )
+  )
+}
+
+/**
+ * Publish check for a saved program outside the builder (admin approval):
+ * loads the program and the exercise library, then lints the structure
+ */
+export const lintSavedProgram = async (
+  programId: number
+): Promise<ProgramLintIssue[]> => {
+  const [programRes, exercisesRes] = await Promise.all([
+    programService.getById(programId),
+    exerciseService.listForProgramBuilder(),
+  ])
+  const program = programRes.data?.data
+  const exercises = exercisesRes.data?.data?.rows ?? []
+  const byId = new Map(exercises.map(e => [e.id, e]))
+  return lintProgramStructure(
+    { weeks: program?.programStructure?.weeks ?? [] },
+    {
+      exerciseName: id => byId.get(id)?.name ?? `Exercise #${id}`,
+      referenceMaxExerciseId: id => byId.get(id)?.referenceMaxExerciseId,
+      checkVolumeJumps: program?.durationWeeks != null,
+    }
+  )
+}
@@ -0,0 +1,261 @@
+/**
+ * Program Load
+ *
+ * What a program prescribes, per day and per week: sets and reps by block
+ * category, estimated tonnage (% loads against one reference working max),
+ * average RPE and estimated session duration. Estimates only; nothing here
+ * knows an athlete's actual maxes.
+ */
+
+import type {
+  ProgramStructure,
+  ProgramStructureSection,
+  ProgramStructureSectionExercise,
+  ProgramStructureSetRow,
+} from '@/types/program'
+import { VOLUME_JUMP_THRESHOLD } from '@/utils/programLint'
+import { parentSection } from '@/utils/programStructure'
+import { parseRestSeconds } from '@/utils/restParse'
+import { convertWeight, type WeightUnit } from '@/utils/units'
+
+export const UNCATEGORIZED = 'Uncategorized'
+
+/** Work time assumed per set when estimating duration */
+export const SET_WORK_SECONDS = 40
+/** Rest assumed between sets when none is prescribed */
+const DEFAULT_REST_SECONDS = 90
+/** Duration assumed for a circuit with no timer config */
+const DEFAULT_CIRCUIT_SECONDS = 10 * 60
+/** Tonnage drop from the previous week that counts as a deload */
+export const DELOAD_DROP = 0.2
+
+export interface CategoryLoad {
+  sets: number
+  reps: number
+}
+
+export interface LoadTotals {
+  sets: number
+  reps: number
+  /** Estimated load moved (reps × load), in the working max unit */
+  tonnage: number
+  /** Average prescribed RPE over sets that have one */
+  averageRpe: number | null
+  /** Estimated minutes of work and rest */
+  estimatedMinutes: number
+  byCategory: Record<string, CategoryLoad>
+}
+
+export interface DayLoad extends LoadTotals {
+  dayIdx: number
+  label: string
+  isRestDay: boolean
+  /** Duration the coach entered for the session */
+  plannedMinutes: number | null
+}
+
+export interface WeekLoad extends LoadTotals {
+  weekIdx: number
+  label: string
+  days: DayLoad[]
+  /** Tonnage change from the previous week (0.1 = +10%); null for week 1 */
+  tonnageChange: number | null
+  /** Tonnage rises more than the lint volume threshold */
+  overload: boolean
+  /** Tonnage drops at least DELOAD_DROP */
+  deload: boolean
+}
+
+/** Running totals; RPE kept as a sum until the average is taken */
+interface Accumulator {
+  sets: number
+  reps: number
+  tonnage: number
+  rpeSum: number
+  rpeSets: number
+  seconds: number
+  byCategory: Record<string, CategoryLoad>
+}
+
+const emptyAccumulator = (): Accumulator => ({
+  sets: 0,
+  reps: 0,
+  tonnage: 0,
+  rpeSum: 0,
+  rpeSets: 0,
+  seconds: 0,
+  byCategory: {},
+})
+
+const addAccumulator = (into: Accumulator, from: Accumulator) => {
+  into.sets += from.sets
+  into.reps += from.reps
+  into.tonnage += from.tonnage
+  into.rpeSum += from.rpeSum
+  into.rpeSets += from.rpeSets
+  into.seconds += from.seconds
+  for (const [category, load] of Object.entries(from.byCategory)) {
+    const total = (into.byCategory[category] ??= { sets: 0, reps: 0 })
+    total.sets += load.sets
+    total.reps += load.reps
+  }
+}
+
+const toTotals = (acc: Accumulator): LoadTotals => ({
+  sets: acc.sets,
+  reps: acc.reps,
+  tonnage: Math.round(acc.tonnage),
+  averageRpe:
+    acc.rpeSets > 0 ? Math.round((acc.rpeSum / acc.rpeSets) * 10) / 10 : null,
+  estimatedMinutes: Math.round(acc.seconds / 60),
+  byCategory: acc.byCategory,
+})
+
+/** One set per row; without rows, `sets` copies of the exercise prescription */
+const exerciseRows = (
+  ex: ProgramStructureSectionExercise
+): ProgramStructureSetRow[] =>
+  ex.setsRows?.length
+    ? ex.setsRows
+    : Array.from({ length: ex.sets ?? 0 }, () => ({
+        reps: ex.reps,
+        rpe: ex.rpe,
+        ...(ex.weightPercent != null && {
+          weightMode: 'percent',
+          weightValue: ex.weightPercent,
+        }),
+      }))
+
+/** Load of one set in the working max unit (0 when it cannot be estimated) */
+const rowLoad = (
+  row: ProgramStructureSetRow,
+  workingMax: number,
+  unit: WeightUnit
+) => {
+  if (row.weightValue == null) return 0
+  if (row.weightMode === 'percent') return (workingMax * row.weightValue) / 100
+  if (row.weightMode === 'absolute_lb')
+    return convertWeight(row.weightValue, 'lb', unit)
+  return 0
+}
+
+/** Circuit length from its conditioning config */
+const circuitSeconds = (section: ProgramStructureSection) => {
+  const c = section.conditioningConfig ?? {}
+  if (c.timeCapSeconds) return c.timeCapSeconds
+  if (c.durationSeconds) return c.durationSeconds
+  if (c.rounds && (c.workSeconds || c.restSeconds))
+    return c.rounds * ((c.workSeconds ?? 0) + (c.restSeconds ?? 0))
+  return DEFAULT_CIRCUIT_SECONDS
+}
+
+const dayAccumulator = (
+  sections: ProgramStructureSection[],
+  workingMax: number,
+  unit: WeightUnit
+): Accumulator => {
+  const acc = emptyAccumulator()
+  for (const section of sections) {
+    const parent = parentSection(sections, section)
+    const category =
+      section.blockCategory || parent?.blockCategory || UNCATEGORIZED
+    if (section.blockType === 'CIRCUIT' || section.sectionType === 'circuit') {
+      acc.seconds += circuitSeconds(section)
+      continue
+    }
+    // Superset exercises rest between each other and share the round rest
+    const supersetSize = parent
+      ? sections.filter(s => parentSection(sections, s) === parent).length
+      : 0
+    const supersetRest = parent
+      ? (parseRestSeconds(parent.restBetweenExercises) ?? 0) +
+        (parseRestSeconds(parent.restBetweenRounds) ?? DEFAULT_REST_SECONDS) /
+          supersetSize
+      : null
+    for (const ex of section.exercises ?? []) {
+      const load = (acc.byCategory[category] ??= { sets: 0, reps: 0 })
+      for (const row of exerciseRows(ex)) {
+        const reps = row.reps ?? 0
+        acc.sets += 1
+        acc.reps += reps
+        load.sets += 1
+        load.reps += reps
+        acc.tonnage += reps * rowLoad(row, workingMax, unit)
+        const rpe = row.rpe ?? ex.rpe
+        if (rpe != null) {
+          acc.rpeSum += rpe
+          acc.rpeSets += 1
+        }
+        acc.seconds +=
+          SET_WORK_SECONDS +
+          (supersetRest ??
+            row.restSeconds ??
+            parseRestSeconds(ex.rest) ??
+            DEFAULT_REST_SECONDS)
+      }
+    }
+  }
+  return acc
+}
+
+/**
+ * Load per week and day
+ *
+ * @param workingMax - Reference working max that % loads are taken from
+ * @param unit - Unit of the working max; fixed lb loads are converted to it
+ */
+export const analyzeProgramLoad = (
+  structure: ProgramStructure,
+  workingMax: number,
+  unit: WeightUnit = 'lb'
+): WeekLoad[] => {
+  const weeks: WeekLoad[] = []
+  for (const [weekIdx, week] of structure.weeks.entries()) {
+    const weekAcc = emptyAccumulator()
+    const days = (week.days ?? []).map((day, dayIdx): DayLoad => {
+      const acc = day.isRestDay
+        ? emptyAccumulator()
+        : dayAccumulator(day.sections ?? [], workingMax, unit)
+      addAccumulator(weekAcc, acc)
+      return {
+        ...toTotals(acc),
+        dayIdx,
+        label: day.dayName || `Day ${dayIdx + 1}`,
+        isRestDay: day.isRestDay ?? false,
+        plannedMinutes: day.estimatedDurationMinutes ?? null,
+      }
+    })
+    const totals = toTotals(weekAcc)
+    const previous = weeks[weekIdx - 1]?.tonnage
+    const tonnageChange = previous ? totals.tonnage / previous - 1 : null
+    weeks.push({
+      ...totals,
+      weekIdx,
+      label: week.weekName || `Week ${weekIdx + 1}`,
+      days,
+      tonnageChange,
+      overload: tonnageChange != null && tonnageChange > VOLUME_JUMP_THRESHOLD,
+      deload: tonnageChange != null && tonnageChange <= -DELOAD_DROP,
+    })
+  }
+  return weeks
+}
+
+/** Block categories that appear anywhere in the program, in first-seen order */
+export const loadCategories = (weeks: WeekLoad[]): string[] => [
+  ...new Set(weeks.flatMap(w => Object.keys(w.byCategory))),
+]
+
+/**
+ * Longest run of weeks with prescribed load and no deload; long runs suggest
+ * a missing deload
+ */
+export const longestRunWithoutDeload = (weeks: WeekLoad[]) => {
+  let longest = 0
+  let run = 0
+  for (const week of weeks) {
+    run = week.deload || week.sets === 0 ? 0 : run + 1
+    longest = Math.max(longest, run)
+  }
+  return longest
+}
@@ -0,0 +1,466 @@
+/**
+ * Program Paste
+ *
+ * Turns a block copied from Excel / Google Sheets (tab-separated: Day, Block,
+ * Exercise, Sets, Reps, %/RPE, Tempo, Rest, Notes) into builder blocks.
+ * Exercise names are matched to the library by exact name first, then by a
+ * fuzzy score; anything below the threshold is left for the coach to map.
+ */
+
+import type {
+  ProgramStructureDay,
+  ProgramStructureSection,
+  ProgramStructureSetRow,
+} from '@/types/program'
+import type { ExerciseListForBuilderItem } from '@/types/exercise'
+import { parseRestSeconds } from '@/utils/restParse'
+
+export type PasteColumn =
+  | 'day'
+  | 'block'
+  | 'exercise'
+  | 'sets'
+  | 'reps'
+  | 'intensity'
+  | 'tempo'
+  | 'rest'
+  | 'notes'
+
+/** Column order when the paste has no header row */
+export const PASTE_COLUMNS: PasteColumn[] = [
+  'day',
+  'block',
+  'exercise',
+  'sets',
+  'reps',
+  'intensity',
+  'tempo',
+  'rest',
+  'notes',
+]
+
+/** Header cell (lowercase, no spaces) → column */
+const HEADER_ALIASES: Record<string, PasteColumn> = {
+  day: 'day',
+  session: 'day',
+  block: 'block',
+  group: 'block',
+  exercise: 'exercise',
+  movement: 'exercise',
+  sets: 'sets',
+  reps: 'reps',
+  '%/rpe': 'intensity',
+  '%': 'intensity',
+  rpe: 'intensity',
+  intensity: 'intensity',
+  load: 'intensity',
+  tempo: 'tempo',
+  rest: 'rest',
+  notes: 'notes',
+  coachingnotes: 'notes',
+  cues: 'notes',
+}
+
+const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun']
+
+/** Lowest fuzzy score that still auto-maps an exercise */
+export const FUZZY_MATCH_THRESHOLD = 0.75
+
+export interface PastedRow {
+  /** 1-based line in the pasted text (for messages) */
+  line: number
+  /** Day cell as pasted (carried down from the row above when blank) */
+  dayLabel: string
+  /** 1-based day in the week, when the Day cell could be read */
+  dayNumber: number | null
+  blockLabel: string
+  exerciseName: string
+  sets: number
+  reps?: number
+  repsDisplay?: string
+  weightPercent?: number
+  rpe?: number
+  tempo?: string
+  rest?: string
+  restSeconds?: number
+  notes?: string
+}
+
+export interface ParsedPaste {
+  rows: PastedRow[]
+  /** Lines that were skipped or only partly read */
+  warnings: string[]
+}
+
+export interface PastedExerciseMatch {
+  /** Normalized exercise name; rows with the same name share one mapping */
+  key: string
+  name: string
+  libraryId: number | null
+  matchedBy: 'exact' | 'fuzzy' | null
+  /** 0-1 similarity of the best library name */
+  score: number
+}
+
+export const normalizeExerciseName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+
+/**
+ * Split tab-separated text into rows of cells
+ *
+ * Handles the quoting spreadsheets add when a cell holds a tab, a newline or
+ * a quote ("a ""quoted"" note").
+ */
+const splitTsv = (text: string): Array<{ line: number; cells: string[] }> => {
+  const rows: Array<{ line: number; cells: string[] }> = []
+  let cells: string[] = []
+  let cell = ''
+  let quoted = false
+  let line = 1
+  let rowLine = 1
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        if (ch === '\n') line++
+        cell += ch
+      }
+    } else if (ch === '"' && cell === '') {
+      quoted = true
+    } else if (ch === '\t') {
+      cells.push(cell)
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      cells.push(cell)
+      rows.push({ line: rowLine, cells })
+      cells = []
+      cell = ''
+      line++
+      rowLine = line
+    } else {
+      cell += ch
+    }
+  }
+  cells.push(cell)
+  rows.push({ line: rowLine, cells })
+  return rows.filter(r => r.cells.some(c => c.trim() !== ''))
+}
+
+/** Column index per field, from a header row (null when the row is data) */
+const readHeader = (cells: string[]): Map<PasteColumn, number> | null => {
+  const columns = new Map<PasteColumn, number>()
+  cells.forEach((cell, i) => {
+    const column = HEADER_ALIASES[cell.toLowerCase().replace(/\s+/g, '')]
+    if (column && !columns.has(column)) columns.set(column, i)
+  })
+  return columns.has('exercise') ? columns : null
+}
+
+/** "Day 3", "D3", "3" → 3; "Mon", "Tuesday" → 1, 2; otherwise null */
+export const parseDayNumber = (label: string): number | null => {
+  const text = label.trim().toLowerCase()
+  if (!text) return null
+  const weekday = WEEKDAYS.findIndex(d => text.startsWith(d))
+  if (weekday >= 0) return weekday + 1
+  const match = /^(?:day|d)?\s*(\d+)$/.exec(text)
+  if (!match) return null
+  const day = Number(match[1])
+  return day >= 1 && day <= 7 ? day : null
+}
+
+/**
+ * "%/RPE" cell: "75%", "RPE 8", "@8", "75% @ 8", "8" (≤ 10 reads as RPE)
+ */
+export const parseIntensity = (
+  cell: string
+): { weightPercent?: number; rpe?: number } => {
+  const text = cell.trim().toLowerCase()
+  if (!text) return {}
+  const percent = /(\d+(?:\.\d+)?)\s*%/.exec(text)
+  const rpe =
+    /(?:rpe|@)\s*(\d+(?:\.\d+)?)/.exec(text) ??
+    (percent ? null : /^(\d+(?:\.\d+)?)$/.exec(text))
+  const rpeValue = rpe ? Number(rpe[1]) : undefined
+  if (!percent && rpeValue != null && rpeValue > 10) {
+    return { weightPercent: rpeValue }
+  }
+  return {
+    weightPercent: percent ? Number(percent[1]) : undefined,
+    rpe: rpeValue != null && rpeValue <= 10 ? rpeValue : undefined,
+  }
+}
+
+/**
+ * Parse pasted spreadsheet rows
+ *
+ * A header row (any cell reading "Exercise") sets the column order; without
+ * one the default order is assumed. Blank Day cells repeat the day above,
+ * as merged cells paste that way.
+ */
+export const parseSpreadsheetPaste = (text: string): ParsedPaste => {
+  const lines = splitTsv(text)
+  const warnings: string[] = []
+  const rows: PastedRow[] = []
+  let columns = new Map(PASTE_COLUMNS.map((c, i) => [c, i]))
+  const header = lines.length > 0 ? readHeader(lines[0].cells) : null
+  if (header) columns = header
+  let dayLabel = ''
+  for (const { line, cells } of header ? lines.slice(1) : lines) {
+    const get = (column: PasteColumn) => {
+      const index = columns.get(column)
+      return index == null ? '' : (cells[index] ?? '').trim()
+    }
+    dayLabel = get('day') || dayLabel
+    const exerciseName = get('exercise')
+    if (!exerciseName) {
+      if (!get('day')) warnings.push(`Line ${line}: no exercise, skipped`)
+      continue
+    }
+    const setsCell = get('sets')
+    const sets = Number.parseInt(setsCell, 10)
+    if (setsCell && !(sets > 0)) {
+      warnings.push(`Line ${line}: sets "${setsCell}" not a number, using 1`)
+    }
+    const repsCell = get('reps')
+    const restCell = get('rest')
+    const restSeconds = parseRestSeconds(restCell)
+    if (restCell && restSeconds == null) {
+      warnings.push(`Line ${line}: rest "${restCell}" kept as text only`)
+    }
+    rows.push({
+      line,
+      dayLabel,
+      dayNumber: parseDayNumber(dayLabel),
+      blockLabel: get('block'),
+      exerciseName,
+      sets: sets > 0 ? sets : 1,
+      reps: /^\d+$/.test(repsCell) ? Number(repsCell) : undefined,
+      repsDisplay: repsCell && !/^\d+$/.test(repsCell) ? repsCell : undefined,
+      ...parseIntensity(get('intensity')),
+      tempo: get('tempo') || undefined,
+      rest: restCell || undefined,
+      restSeconds,
+      notes: get('notes') || undefined,
+    })
+  }
+  return { rows, warnings }
+}
+
+const bigrams = (text: string) => {
+  const compact = text.replace(/ /g, '')
+  const grams: string[] = []
+  for (let i = 0; i < compact.length - 1; i++)
+    grams.push(compact.slice(i, i + 2))
+  return grams
+}
+
+/**
+ * Similarity of two exercise names, 0-1
+ *
+ * Dice coefficient over letter pairs, and 1 when the words are the same in
+ * any order ("Squat Back" = "Back Squat").
+ */
+export const exerciseNameSimilarity = (a: string, b: string): number => {
+  const left = normalizeExerciseName(a)
+  const right = normalizeExerciseName(b)
+  if (!left || !right) return 0
+  if (left === right) return 1
+  const sortedWords = (s: string) => s.split(' ').sort().join(' ')
+  if (sortedWords(left) === sortedWords(right)) return 1
+  const pairs = bigrams(right)
+  const remaining = [...pairs]
+  let shared = 0
+  const leftPairs = bigrams(left)
+  for (const pair of leftPairs) {
+    const index = remaining.indexOf(pair)
+    if (index >= 0) {
+      shared++
+      remaining.splice(index, 1)
+    }
+  }
+  const total = leftPairs.length + pairs.length
+  return total === 0 ? 0 : (2 * shared) / total
+}
+
+/**
+ * Match each distinct pasted exercise name to the library
+ */
+export const matchPastedExercises = (
+  rows: PastedRow[],
+  library: ExerciseListForBuilderItem[]
+): PastedExerciseMatch[] => {
+  const byKey = new Map<string, PastedExerciseMatch>()
+  for (const row of rows) {
+    const key = normalizeExerciseName(row.exerciseName)
+    if (byKey.has(key)) continue
+    let best: ExerciseListForBuilderItem | undefined
+    let score = 0
+    for (const exercise of library) {
+      const s = exerciseNameSimilarity(row.exerciseName, exercise.name)
+      if (s > score) {
+        best = exercise
+        score = s
+      }
+      if (s === 1) break
+    }
+    const matched = best != null && score >= FUZZY_MATCH_THRESHOLD
+    byKey.set(key, {
+      key,
+      name: row.exerciseName,
+      libraryId: matched ? best!.id : null,
+      matchedBy: matched ? (score === 1 ? 'exact' : 'fuzzy') : null,
+      score,
+    })
+  }
+  return [...byKey.values()]
+}
+
+/** One exercise prescription per pasted row, a set row per set */
+const toSectionExercise = (row: PastedRow, exerciseId: number) => {
+  const weightMode =
+    row.weightPercent != null
+      ? 'percent'
+      : row.rpe != null
+        ? 'rpe_only'
+        : undefined
+  const setsRows: ProgramStructureSetRow[] = Array.from(
+    { length: row.sets },
+    (_, setIndex) => ({
+      setIndex,
+      reps: row.reps,
+      repsDisplay: row.repsDisplay,
+      weightMode,
+      weightValue: row.weightPercent,
+      rpe: row.rpe,
+      tempo: row.tempo,
+      restSeconds: row.restSeconds,
+    })
+  )
+  return {
+    exerciseId,
+    sets: row.sets,
+    reps: row.reps,
+    rpe: row.rpe,
+    weightPercent: row.weightPercent,
+    tempo: row.tempo,
+    rest: row.rest,
+    coachingNotes: row.notes,
+    setsRows,
+  }
+}
+
+/** "A1", "a2" → "A" (superset letter); other labels are used as-is */
+const blockKey = (label: string) => {
+  const lettered = /^([a-z])\d*$/i.exec(label.trim())
+  return lettered ? lettered[1].toUpperCase() : label.trim()
+}
+
+/**
+ * Builder blocks for one day's rows
+ *
+ * Consecutive rows sharing a lettered block (A1, A2…) become a superset;
+ * every other row is its own exercise block, with a non-letter Block cell
+ * ("Prep", "Strength/Power") kept as the block category. Rows whose exercise
+ * is mapped to null are left out. parentSectionIndex values start at
+ * `offset` (the number of blocks already in the day).
+ */
+export const toPastedSections = (
+  rows: PastedRow[],
+  mapping: Record<string, number | null>,
+  offset = 0
+): ProgramStructureSection[] => {
+  const mapped = rows.flatMap(row => {
+    const id = mapping[normalizeExerciseName(row.exerciseName)]
+    return id == null ? [] : [{ row, id }]
+  })
+  const sections: ProgramStructureSection[] = []
+  let i = 0
+  while (i < mapped.length) {
+    const key = blockKey(mapped[i].row.blockLabel)
+    let end = i + 1
+    if (/^[A-Z]$/.test(key)) {
+      while (
+        end < mapped.length &&
+        blockKey(mapped[end].row.blockLabel) === key
+      ) {
+        end++
+      }
+    }
+    const group = mapped.slice(i, end)
+    if (group.length > 1) {
+      const parentIdx = offset + sections.length
+      sections.push({
+        sectionType: 'superset',
+        blockType: 'SUPERSET',
+        name: `Superset ${key}`,
+        supersetRounds: Math.max(...group.map(g => g.row.sets)),
+        exercises: [],
+      })
+      for (const { row, id } of group) {
+        sections.push({
+          sectionType: 'normal',
+          blockType: 'EXERCISE',
+          parentSectionIndex: parentIdx,
+          exercises: [toSectionExercise(row, id)],
+        })
+      }
+    } else {
+      const { row, id } = group[0]
+      const category = /^[A-Z]$/.test(key) ? undefined : key || undefined
+      sections.push({
+        sectionType: 'normal',
+        blockType: 'EXERCISE',
+        blockCategory: category,
+        exercises: [toSectionExercise(row, id)],
+      })
+    }
+    i = end
+  }
+  return sections
+}
+
+/**
+ * Append pasted rows to a day (rest days are turned back into training days)
+ */
+export const appendPastedRows = (
+  day: ProgramStructureDay,
+  rows: PastedRow[],
+  mapping: Record<string, number | null>
+): ProgramStructureDay => {
+  const existing = day.sections ?? []
+  const added = toPastedSections(rows, mapping, existing.length)
+  if (added.length === 0) return day
+  return { ...day, isRestDay: false, sections: [...existing, ...added] }
+}
+
+/** Rows grouped by day number (rows without a readable day are left out) */
+export const groupPastedRowsByDay = (
+  rows: PastedRow[]
+): Map<number, PastedRow[]> => {
+  const groups = new Map<number, PastedRow[]>()
+  for (const row of rows) {
+    if (row.dayNumber == null) continue
+    groups.set(row.dayNumber, [...(groups.get(row.dayNumber) ?? []), row])
+  }
+  return groups
+}
+
+/** "3×8 @ 75% · 31X1 · 90s" for the review table */
+export const formatPastedPrescription = (row: PastedRow): string => {
+  const reps = row.repsDisplay ?? row.reps
+  const parts = [reps != null ? `${row.sets}×${reps}` : `${row.sets} sets`]
+  if (row.weightPercent != null) parts[0] += ` @ ${row.weightPercent}%`
+  if (row.rpe != null) parts[0] += ` RPE ${row.rpe}`
+  if (row.tempo) parts.push(row.tempo)
+  if (row.rest) parts.push(row.rest)
+  return parts.join(' · ')
+}
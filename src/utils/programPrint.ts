@@ -0,0 +1,147 @@
+/**
+ * Program Print
+ *
+ * Data for printable program, week and session sheets: which sessions a print
+ * covers and the prescription of each set as printed text.
+ */
+
+import type {
+  ProgramStructure,
+  ProgramStructureDay,
+  ProgramStructureSection,
+  ProgramStructureSectionExercise,
+  ProgramStructureSetRow,
+} from '@/types/program'
+import type { UnitSystem } from '@/types/user'
+import { formatWeight } from '@/utils/units'
+
+/** What to print: the whole program, one week or one day */
+export type PrintScope =
+  | { kind: 'program' }
+  | { kind: 'week'; weekIdx: number }
+  | { kind: 'day'; weekIdx: number; dayIdx: number }
+
+/** One printed session (one page or more) */
+export interface PrintSession {
+  key: string
+  /** "Week 2" */
+  weekLabel: string
+  /** "Day 3" or the day name */
+  dayLabel: string
+  day: ProgramStructureDay
+}
+
+/** One printed set row; every field is display text ('' when not prescribed) */
+export interface PrintSetRow {
+  set: number
+  reps: string
+  load: string
+  rpe: string
+  tempo: string
+  rest: string
+}
+
+const weekLabelOf = (structure: ProgramStructure, weekIdx: number) =>
+  structure.weeks[weekIdx]?.weekName || `Week ${weekIdx + 1}`
+
+const dayLabelOf = (day: ProgramStructureDay, dayIdx: number) =>
+  day.dayName || `Day ${dayIdx + 1}`
+
+/**
+ * Sessions covered by a print scope, in program order. Rest days are left
+ * out of program and week prints.
+ */
+export const printSessions = (
+  structure: ProgramStructure,
+  scope: PrintScope
+): PrintSession[] => {
+  const sessions: PrintSession[] = []
+  for (const [weekIdx, week] of structure.weeks.entries()) {
+    if (scope.kind !== 'program' && scope.weekIdx !== weekIdx) continue
+    for (const [dayIdx, day] of (week.days ?? []).entries()) {
+      if (scope.kind === 'day' && scope.dayIdx !== dayIdx) continue
+      if (scope.kind !== 'day' && day.isRestDay) continue
+      sessions.push({
+        key: `${weekIdx}:${dayIdx}`,
+        weekLabel: weekLabelOf(structure, weekIdx),
+        dayLabel: dayLabelOf(day, dayIdx),
+        day,
+      })
+    }
+  }
+  return sessions
+}
+
+/** Rest in seconds as "45 s" or "1:30" */
+export const formatRestSeconds = (seconds?: number | null) => {
+  if (seconds == null) return ''
+  if (seconds < 60) return `${seconds} s`
+  const s = seconds % 60
+  return `${Math.floor(seconds / 60)}:${String(s).padStart(2, '0')}`
+}
+
+/** Printed load of one set row; fixed loads in the reader's unit */
+export const formatRowLoad = (
+  row: ProgramStructureSetRow,
+  unitSystem: UnitSystem
+) => {
+  if (row.weightMode === 'build_to_heavy')
+    return row.weightDisplay || 'Build to heavy'
+  if (row.weightMode === 'rpe_only') return ''
+  if (row.weightDisplay) return row.weightDisplay
+  if (row.weightValue == null) return ''
+  if (row.weightMode === 'percent') return `${row.weightValue}%`
+  if (row.weightMode === 'lwp') return `LWP+ ${row.weightValue}`
+  return formatWeight({ weightLb: row.weightValue }, unitSystem, true)
+}
+
+/**
+ * One row per prescribed set: the set rows when there are any, otherwise
+ * `sets` copies of the exercise prescription
+ */
+export const printSetRows = (
+  ex: ProgramStructureSectionExercise,
+  unitSystem: UnitSystem
+): PrintSetRow[] => {
+  if (ex.setsRows?.length) {
+    return ex.setsRows.map((row, i) => ({
+      set: i + 1,
+      reps: row.repsDisplay || (row.reps != null ? String(row.reps) : ''),
+      load: formatRowLoad(row, unitSystem),
+      rpe: row.rpe != null ? String(row.rpe) : '',
+      tempo: row.tempo || ex.tempo || '',
+      rest: formatRestSeconds(row.restSeconds) || ex.rest || '',
+    }))
+  }
+  return Array.from({ length: Math.max(1, ex.sets ?? 1) }, (_, i) => ({
+    set: i + 1,
+    reps: ex.reps != null ? String(ex.reps) : '',
+    load: ex.weightPercent != null ? `${ex.weightPercent}%` : '',
+    rpe: ex.rpe != null ? String(ex.rpe) : '',
+    tempo: ex.tempo ?? '',
+    rest: ex.rest ?? '',
+  }))
+}
+
+/** "AMRAP · 12 min cap" style summary of a circuit's format and timer */
+export const conditioningSummary = (section: ProgramStructureSection) => {
+  const c = section.conditioningConfig ?? {}
+  const minutes = (seconds: number) =>
+    seconds % 60 === 0 ? `${seconds / 60} min` : formatRestSeconds(seconds)
+  const parts = [
+    section.conditioningFormat,
+    c.timeCapSeconds != null && `${minutes(c.timeCapSeconds)} cap`,
+    c.durationSeconds != null && minutes(c.durationSeconds),
+    c.intervalLengthSeconds != null &&
+      `every ${minutes(c.intervalLengthSeconds)}`,
+    c.rounds != null && `${c.rounds} rounds`,
+    c.workSeconds != null && `${formatRestSeconds(c.workSeconds)} work`,
+    c.restSeconds != null && `${formatRestSeconds(c.restSeconds)} rest`,
+  ]
+  return parts.filter(Boolean).join(' · ')
+}
+
+/** Letter of the nth top-level block of a session (A, B, … Z, AA, …) */
+export const blockLetter = (index: number): string =>
+  (index >= 26 ? blockLetter(Math.floor(index / 26) - 1) : '') +
+  String.fromCodePoint(65 + (index % 26))
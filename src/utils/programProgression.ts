@@ -0,0 +1,313 @@
+/**
+ * Program Progression
+ *
+ * Generates the weeks that follow a template week by applying a progression
+ * scheme (linear, undulating, 3-up-1-down wave, RPE ramp, rep decrease) to
+ * each exercise's weightPercent, RPE, sets, reps and per-set rows. Circuit
+ * blocks are copied unchanged: saved circuits keep no per-exercise
+ * prescription that a copied week could be updated with.
+ */
+
+import type {
+  ProgramStructureSectionExercise,
+  ProgramStructureSetRow,
+  ProgramStructureWeek,
+} from '@/types/program'
+import { isCircuitBlock } from '@/utils/circuitFlow'
+import { formatSetRows } from '@/utils/programDiff'
+import {
+  prescriptionRowsOf,
+  roundHalf,
+  withRowReps,
+} from '@/utils/programStructure'
+import { withoutRecordIds } from '@/utils/programVersions'
+
+export type ProgressionScheme =
+  | 'linear'
+  | 'undulating'
+  | 'wave'
+  | 'rpe_ramp'
+  | 'rep_decrease'
+
+export const PROGRESSION_SCHEMES: Array<{
+  value: ProgressionScheme
+  label: string
+  description: string
+}> = [
+  {
+    value: 'linear',
+    label: 'Linear % increase',
+    description: 'Adds the % step to every percentage load each week.',
+  },
+  {
+    value: 'undulating',
+    label: 'Undulating',
+    description:
+      'Rotates medium, heavy (+% step, fewer reps) and light (−% step, more reps) weeks; the base rises by the % step each rotation.',
+  },
+  {
+    value: 'wave',
+    label: '3 up, 1 down (deload)',
+    description:
+      'Three weeks rising by the % step, then a deload week with less load and fewer sets; each wave starts one step higher.',
+  },
+  {
+    value: 'rpe_ramp',
+    label: 'RPE ramp',
+    description: 'Adds the RPE step to every RPE target each week (max 10).',
+  },
+  {
+    value: 'rep_decrease',
+    label: 'Rep decrease',
+    description:
+      'Removes the rep step each week while adding the % step to the load.',
+  },
+]
+
+export interface ProgressionOptions {
+  scheme: ProgressionScheme
+  /** Percentage points of working max per step */
+  percentStep: number
+  /** RPE added per week (RPE ramp) */
+  rpeStep: number
+  /** Reps removed per week (rep decrease) or swung (undulating) */
+  repStep: number
+  /** Percentage points dropped in a deload week (wave) */
+  deloadPercent: number
+}
+
+export const DEFAULT_PROGRESSION_OPTIONS: ProgressionOptions = {
+  scheme: 'linear',
+  percentStep: 2.5,
+  rpeStep: 0.5,
+  repStep: 1,
+  deloadPercent: 10,
+}
+
+/** Share of sets kept in a deload week */
+const DELOAD_SET_FACTOR = 0.6
+
+/** How one generated week differs from the template */
+export interface ProgressionStep {
+  percentDelta: number
+  rpeDelta: number
+  repsDelta: number
+  /** 1 keeps every set; less drops sets from the end */
+  setsFactor: number
+  deload: boolean
+}
+
+/**
+ * Change applied to the week `offset` weeks after the template (offset ≥ 1)
+ */
+export const getProgressionStep = (
+  { scheme, percentStep, rpeStep, repStep, deloadPercent }: ProgressionOptions,
+  offset: number
+): ProgressionStep => {
+  const step: ProgressionStep = {
+    percentDelta: 0,
+    rpeDelta: 0,
+    repsDelta: 0,
+    setsFactor: 1,
+    deload: false,
+  }
+  switch (scheme) {
+    case 'linear':
+      step.percentDelta = offset * percentStep
+      break
+    case 'undulating': {
+      const base = Math.floor(offset / 3) * percentStep
+      const position = offset % 3
+      step.percentDelta = base
+      if (position === 1) {
+        step.percentDelta = base + percentStep
+        step.repsDelta = -repStep
+      } else if (position === 2) {
+        step.percentDelta = base - percentStep
+        step.repsDelta = repStep
+      }
+      break
+    }
+    case 'wave': {
+      const wave = Math.floor(offset / 4)
+      const position = offset % 4
+      if (position === 3) {
+        step.percentDelta = wave * percentStep - deloadPercent
+        step.setsFactor = DELOAD_SET_FACTOR
+        step.deload = true
+      } else {
+        step.percentDelta = (wave + position) * percentStep
+      }
+      break
+    }
+    case 'rpe_ramp':
+      step.rpeDelta = offset * rpeStep
+      break
+    case 'rep_decrease':
+      step.repsDelta = -offset * repStep
+      step.percentDelta = offset * percentStep
+      break
+  }
+  return step
+}
+
+const clampRpe = (rpe: number) => Math.min(10, Math.max(1, roundHalf(rpe)))
+
+const progressReps = (reps: number, delta: number) => Math.max(1, reps + delta)
+
+const progressRow = (
+  row: ProgramStructureSetRow,
+  step: ProgressionStep
+): ProgramStructureSetRow => {
+  const next =
+    row.reps != null
+      ? withRowReps(row, progressReps(row.reps, step.repsDelta))
+      : { ...row }
+  if (row.weightMode === 'percent' && row.weightValue != null) {
+    next.weightValue = Math.max(
+      0,
+      roundHalf(row.weightValue + step.percentDelta)
+    )
+  }
+  if (row.rpe != null) next.rpe = clampRpe(row.rpe + step.rpeDelta)
+  return next
+}
+
+const keptSets = (count: number, factor: number) =>
+  factor >= 1 ? count : Math.max(1, Math.round(count * factor))
+
+/** One exercise prescription progressed by a step */
+export const progressExercise = (
+  ex: ProgramStructureSectionExercise,
+  step: ProgressionStep
+): ProgramStructureSectionExercise => {
+  const next = { ...ex }
+  if (ex.weightPercent != null) {
+    next.weightPercent = Math.max(
+      0,
+      roundHalf(ex.weightPercent + step.percentDelta)
+    )
+  }
+  if (ex.rpe != null) next.rpe = clampRpe(ex.rpe + step.rpeDelta)
+  if (ex.reps != null) next.reps = progressReps(ex.reps, step.repsDelta)
+  if (ex.sets != null) next.sets = keptSets(ex.sets, step.setsFactor)
+  if (ex.setsRows?.length) {
+    next.setsRows = ex.setsRows
+      .slice(0, keptSets(ex.setsRows.length, step.setsFactor))
+      .map((row, i) => ({ ...progressRow(row, step), setIndex: i }))
+    if (ex.sets != null) next.sets = next.setsRows.length
+  }
+  return next
+}
+
+/**
+ * Weeks following `template`, numbered from template.weekIndex + 1. Copies
+ * carry no ids so they can be written as new records.
+ */
+export const generateProgressionWeeks = (
+  template: ProgramStructureWeek,
+  count: number,
+  options: ProgressionOptions
+): ProgramStructureWeek[] => {
+  const [copy] = withoutRecordIds({ weeks: [template] }).weeks
+  return Array.from({ length: count }, (_, i) => {
+    const offset = i + 1
+    const step = getProgressionStep(options, offset)
+    const weekIndex = template.weekIndex + offset
+    return {
+      ...copy,
+      weekIndex,
+      weekName: `Week ${weekIndex}${step.deload ? ' (Deload)' : ''}`,
+      days: copy.days.map(day => ({
+        ...day,
+        sections: (day.sections ?? []).map(section =>
+          isCircuitBlock(section.blockType)
+            ? section
+            : {
+                ...section,
+                exercises: (section.exercises ?? []).map(ex =>
+                  progressExercise(ex, step)
+                ),
+              }
+        ),
+      })),
+    }
+  })
+}
+
+/** "3×5 @ 75%" style summary of one prescription */
+export const formatPrescription = (ex: ProgramStructureSectionExercise) => {
+  if (ex.setsRows?.length) return formatSetRows(ex.setsRows)
+  const volume =
+    ex.sets != null || ex.reps != null
+      ? `${ex.sets ?? '?'}×${ex.reps ?? '?'}`
+      : '—'
+  const load = ex.weightPercent != null ? ` @ ${ex.weightPercent}%` : ''
+  const rpe = ex.rpe != null ? ` RPE ${ex.rpe}` : ''
+  return `${volume}${load}${rpe}`
+}
+
+export interface ProgressionPreviewRow {
+  key: string
+  /** "Day 1 · Back Squat" */
+  label: string
+  /** Template first, then each generated week */
+  cells: string[]
+}
+
+/** One row per exercise in the template, one cell per week */
+export const buildProgressionPreview = (
+  template: ProgramStructureWeek,
+  weeks: ProgramStructureWeek[],
+  exerciseName: (exerciseId: number) => string
+): ProgressionPreviewRow[] =>
+  (template.days ?? []).flatMap((day, d) =>
+    (day.sections ?? []).flatMap((section, s) =>
+      (section.exercises ?? []).map((ex, e) => ({
+        key: `${d}-${s}-${e}`,
+        label: `${day.dayName || `Day ${day.dayIndex}`} · ${exerciseName(ex.exerciseId)}`,
+        cells: [
+          formatPrescription(ex),
+          ...weeks.map(week => {
+            const progressed = week.days[d]?.sections?.[s]?.exercises?.[e]
+            return progressed ? formatPrescription(progressed) : '—'
+          }),
+        ],
+      }))
+    )
+  )
+
+/** Prescription update for one saved block of a copied week */
+export interface ProgressedBlockUpdate {
+  blockId: number
+  sets?: number
+  reps?: number
+  prescriptionRows?: ProgramStructureSetRow[]
+}
+
+/**
+ * Block updates that turn `copy` (a saved duplicate of the template week) into
+ * `progressed`. Days pair by dayIndex, blocks by position. Exercise blocks and
+ * superset children hold one exercise each; circuits are not progressed.
+ */
+export const progressedBlockUpdates = (
+  copy: ProgramStructureWeek,
+  progressed: ProgramStructureWeek
+): ProgressedBlockUpdate[] =>
+  progressed.days.flatMap((day, d) => {
+    const target =
+      copy.days.find(c => c.dayIndex === day.dayIndex) ?? copy.days[d]
+    return (day.sections ?? []).flatMap((section, s) => {
+      const blockId = target?.sections?.[s]?.id
+      const [ex] = section.exercises ?? []
+      if (blockId == null || !ex || isCircuitBlock(section.blockType)) return []
+      return [
+        {
+          blockId,
+          sets: ex.sets,
+          reps: ex.reps,
+          prescriptionRows: prescriptionRowsOf(ex),
+        },
+      ]
+    })
+  })
@@ -0,0 +1,88 @@
+/**
+ * Program Structure
+ *
+ * Small helpers for reading and changing a program structure that the
+ * builder tools (progression, bulk edit, lint, load estimates) share.
+ */
+
+import type {
+  ProgramStructureSection,
+  ProgramStructureSectionExercise,
+  ProgramStructureSetRow,
+} from '@/types/program'
+import { parseRestSeconds } from '@/utils/restParse'
+
+/** Round to the nearest 0.5 (loads and RPE are prescribed in halves) */
+export const roundHalf = (value: number) => Math.round(value * 2) / 2
+
+/**
+ * Index of a section's superset parent: by parentSectionIndex before the
+ * block is saved, by parentSectionId after
+ *
+ * @returns The parent's index, or undefined for a top-level block
+ */
+export const parentSectionIndex = (
+  sections: ProgramStructureSection[],
+  section: ProgramStructureSection
+): number | undefined => {
+  if (section.parentSectionIndex != null) return section.parentSectionIndex
+  if (section.parentSectionId != null) {
+    const index = sections.findIndex(s => s.id === section.parentSectionId)
+    if (index >= 0) return index
+  }
+  return undefined
+}
+
+/** Superset parent of a child section */
+export const parentSection = (
+  sections: ProgramStructureSection[],
+  section: ProgramStructureSection
+): ProgramStructureSection | undefined => {
+  const index = parentSectionIndex(sections, section)
+  return index == null ? undefined : sections[index]
+}
+
+/**
+ * Set row with new reps. A plain number display follows the reps; "AMRAP",
+ * "5-8" and other free text are left alone.
+ */
+export const withRowReps = (
+  row: ProgramStructureSetRow,
+  reps: number | undefined
+): ProgramStructureSetRow => ({
+  ...row,
+  reps,
+  ...(reps != null &&
+    row.repsDisplay &&
+    /^\d+$/.test(row.repsDisplay.trim()) && { repsDisplay: String(reps) }),
+})
+
+/**
+ * Set rows carrying an exercise's prescription: its own rows, or `sets`
+ * copies of the exercise-level %, RPE, tempo and rest (blocks store those
+ * per set)
+ */
+export const prescriptionRowsOf = (
+  ex: ProgramStructureSectionExercise
+): ProgramStructureSetRow[] | undefined => {
+  if (ex.setsRows?.length) return ex.setsRows
+  const restSeconds = parseRestSeconds(ex.rest)
+  if (
+    ex.weightPercent == null &&
+    ex.rpe == null &&
+    !ex.tempo &&
+    restSeconds == null
+  )
+    return undefined
+  return Array.from({ length: Math.max(1, ex.sets ?? 1) }, (_, i) => ({
+    setIndex: i,
+    reps: ex.reps,
+    ...(ex.weightPercent != null && {
+      weightMode: 'percent',
+      weightValue: ex.weightPercent,
+    }),
+    rpe: ex.rpe,
+    tempo: ex.tempo || undefined,
+    restSeconds,
+  }))
+}
@@ -0,0 +1,229 @@
+/**
+ * Program Templates
+ *
+ * Weeks, days and blocks saved from the builder as reusable templates. They
+ * are stored as library sessions: the session content carries the template
+ * type and tags next to the structure. Sessions saved before templates
+ * existed (flat day content) read as day templates.
+ */
+
+import type {
+  ProgramStructure,
+  ProgramStructureDay,
+  ProgramStructureSection,
+  ProgramStructureWeek,
+} from '@/types/program'
+import { withoutRecordIds } from '@/utils/programVersions'
+
+export type ProgramTemplateType = 'week' | 'day' | 'block'
+
+export const PROGRAM_TEMPLATE_TYPE_LABELS: Record<ProgramTemplateType, string> =
+  {
+    week: 'Week',
+    day: 'Day',
+    block: 'Block',
+  }
+
+export type ProgramTemplate =
+  | { templateType: 'week'; tags: string[]; week: ProgramStructureWeek }
+  | { templateType: 'day'; tags: string[]; day: ProgramStructureDay }
+  | {
+      templateType: 'block'
+      tags: string[]
+      /** Top-level block first; superset children point at index 0 */
+      sections: ProgramStructureSection[]
+    }
+
+/** What in the builder a template is saved from */
+export type ProgramTemplateSource =
+  | { templateType: 'week'; weekIdx: number }
+  | { templateType: 'day'; weekIdx: number; dayIdx: number }
+  | {
+      templateType: 'block'
+      weekIdx: number
+      dayIdx: number
+      sectionIdx: number
+    }
+
+/** Comma-separated tags as a trimmed, de-duplicated list */
+export const parseTemplateTags = (text: string): string[] => [
+  ...new Set(
+    text
+      .split(',')
+      .map(tag => tag.trim())
+      .filter(Boolean)
+  ),
+]
+
+const stripWeek = (week: ProgramStructureWeek) =>
+  withoutRecordIds({ weeks: [week] }).weeks[0]
+
+const stripDay = (day: ProgramStructureDay) =>
+  stripWeek({ weekIndex: 1, days: [day] }).days[0]
+
+/** Top-level block and its superset children, ids removed */
+const blockSections = (
+  sections: ProgramStructureSection[],
+  sectionIdx: number
+): ProgramStructureSection[] => {
+  const stripped = stripDay({ dayIndex: 0, sections }).sections ?? []
+  const parent = stripped[sectionIdx]
+  if (!parent) return []
+  const children = stripped.filter(s => s.parentSectionIndex === sectionIdx)
+  return [parent, ...children.map(c => ({ ...c, parentSectionIndex: 0 }))]
+}
+
+/** Template of a week, day or block of the structure (null if it is gone) */
+export const buildProgramTemplate = (
+  structure: ProgramStructure,
+  source: ProgramTemplateSource,
+  tags: string[]
+): ProgramTemplate | null => {
+  const week = structure.weeks[source.weekIdx]
+  if (!week) return null
+  if (source.templateType === 'week') {
+    return { templateType: 'week', tags, week: stripWeek(week) }
+  }
+  const day = week.days?.[source.dayIdx]
+  if (!day) return null
+  if (source.templateType === 'day') {
+    return { templateType: 'day', tags, day: stripDay(day) }
+  }
+  const sections = blockSections(day.sections ?? [], source.sectionIdx)
+  return sections.length > 0 ? { templateType: 'block', tags, sections } : null
+}
+
+/** Suggested template name: the week / day / block name */
+export const templateDefaultName = (
+  structure: ProgramStructure,
+  source: ProgramTemplateSource,
+  exerciseName: (exerciseId: number) => string
+) => {
+  const week = structure.weeks[source.weekIdx]
+  if (source.templateType === 'week')
+    return week?.weekName || `Week ${source.weekIdx + 1}`
+  const day = week?.days?.[source.dayIdx]
+  if (source.templateType === 'day')
+    return day?.dayName || `Day ${source.dayIdx + 1}`
+  const section = day?.sections?.[source.sectionIdx]
+  const firstExercise = section?.exercises?.[0]
+  if (section?.name) return section.name
+  if (firstExercise) return exerciseName(firstExercise.exerciseId)
+  return 'Block'
+}
+
+/** Library session content for a template */
+export const toTemplateContent = (
+  template: ProgramTemplate
+): Record<string, unknown> => {
+  const { templateType, tags } = template
+  if (template.templateType === 'week') {
+    return {
+      templateType,
+      tags,
+      weekName: template.week.weekName,
+      days: template.week.days,
+    }
+  }
+  if (template.templateType === 'day') {
+    const { dayName, sessionNotes, isRestDay, estimatedDurationMinutes } =
+      template.day
+    return {
+      templateType,
+      tags,
+      dayName,
+      sessionNotes,
+      isRestDay,
+      estimatedDurationMinutes,
+      sections: template.day.sections ?? [],
+    }
+  }
+  return { templateType, tags, sections: template.sections }
+}
+
+/** Template from library session content (untyped content is a day) */
+export const parseTemplateContent = (
+  content: Record<string, unknown>
+): ProgramTemplate => {
+  const tags = Array.isArray(content.tags)
+    ? content.tags.filter((t): t is string => typeof t === 'string')
+    : []
+  const sections = (content.sections as ProgramStructureSection[]) ?? []
+  if (content.templateType === 'week') {
+    return {
+      templateType: 'week',
+      tags,
+      week: {
+        weekIndex: 1,
+        weekName: content.weekName as string | undefined,
+        days: (content.days as ProgramStructureDay[]) ?? [],
+      },
+    }
+  }
+  if (content.templateType === 'block') {
+    return { templateType: 'block', tags, sections }
+  }
+  const day = content as Partial<ProgramStructureDay>
+  return {
+    templateType: 'day',
+    tags,
+    day: {
+      dayIndex: 0,
+      dayName: day.dayName,
+      sessionNotes: day.sessionNotes,
+      isRestDay: day.isRestDay,
+      estimatedDurationMinutes: day.estimatedDurationMinutes,
+      sections,
+    },
+  }
+}
+
+/** Week ready to append as a new week (new records on save) */
+export const insertableWeek = (
+  week: ProgramStructureWeek,
+  weekIndex: number
+): ProgramStructureWeek => ({ ...stripWeek(week), weekIndex })
+
+/** Day ready to add at dayIndex (new records on save) */
+export const insertableDay = (
+  day: ProgramStructureDay,
+  dayIndex: number
+): ProgramStructureDay => ({ ...stripDay(day), dayIndex })
+
+/**
+ * Block sections ready to append after `offset` existing sections of a day:
+ * superset children point at their parent's new index
+ */
+export const insertableBlock = (
+  sections: ProgramStructureSection[],
+  offset: number
+): ProgramStructureSection[] =>
+  (stripDay({ dayIndex: 0, sections }).sections ?? []).map(section =>
+    section.parentSectionIndex == null
+      ? section
+      : { ...section, parentSectionIndex: section.parentSectionIndex + offset }
+  )
+
+/** Short description of what a template holds: "5 training days", "3 blocks" */
+export const templateSummary = (template: ProgramTemplate) => {
+  const plural = (n: number, word: string) =>
+    `${n} ${word}${n === 1 ? '' : 's'}`
+  if (template.templateType === 'week')
+    return plural(
+      template.week.days.filter(d => !d.isRestDay).length,
+      'training day'
+    )
+  if (template.templateType === 'day')
+    return template.day.isRestDay
+      ? 'Rest day'
+      : plural(
+          (template.day.sections ?? []).filter(
+            s => s.parentSectionIndex == null && s.parentSectionId == null
+          ).length,
+          'block'
+        )
+  return plural(
+    template.sections.flatMap(s => s.exercises ?? []).length,
+    'exercise'
+  )
+}
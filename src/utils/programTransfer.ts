@@ -0,0 +1,432 @@
+/**
+ * Program Transfer
+ *
+ * Versioned JSON export / import of a full program (weeks → days → blocks →
+ * exercises → set rows, conditioning config). Exercises are referenced by id
+ * and name so a file can be moved between environments and re-linked to the
+ * local exercise library on import.
+ */
+
+import { z } from 'zod'
+import type {
+  CreateProgramDTO,
+  ProgramCycleType,
+  ProgramStructure,
+  ProgramStructureSection,
+} from '@/types/program'
+import type { ExerciseListForBuilderItem } from '@/types/exercise'
+
+export const PROGRAM_EXPORT_FORMAT = 'mass-program'
+export const PROGRAM_EXPORT_VERSION = 1
+
+const optionalNumber = z.number().nullish()
+const optionalString = z.string().nullish()
+
+const setRowSchema = z.object({
+  setIndex: optionalNumber,
+  reps: optionalNumber,
+  repsDisplay: optionalString,
+  weightMode: optionalString,
+  weightValue: optionalNumber,
+  weightDisplay: optionalString,
+  rpe: optionalNumber,
+  tempo: optionalString,
+  restSeconds: optionalNumber,
+})
+
+const exerciseSchema = z.object({
+  exercise: z.object({
+    id: z.number().int().nullish(),
+    name: z.string().trim().min(1, 'Exercise name is required'),
+  }),
+  sets: optionalNumber,
+  reps: optionalNumber,
+  rpe: optionalNumber,
+  weightPercent: optionalNumber,
+  tempo: optionalString,
+  rest: optionalString,
+  coachingNotes: optionalString,
+  setsRows: z.array(setRowSchema).nullish(),
+})
+
+const blockSchema = z.object({
+  blockType: z.enum(['EXERCISE', 'CIRCUIT', 'SUPERSET']).nullish(),
+  sectionType: z
+    .enum(['normal', 'superset', 'circuit', 'AMRAP', 'EMOM'])
+    .nullish(),
+  blockCategory: optionalString,
+  name: optionalString,
+  instructions: optionalString,
+  resultTrackingType: optionalString,
+  videoUrls: z.array(z.string()).nullish(),
+  conditioningFormat: optionalString,
+  conditioningConfig: z
+    .object({
+      timeCapSeconds: optionalNumber,
+      durationSeconds: optionalNumber,
+      intervalLengthSeconds: optionalNumber,
+      rounds: optionalNumber,
+      workSeconds: optionalNumber,
+      restSeconds: optionalNumber,
+    })
+    .nullish(),
+  /** Superset child: index of the parent block within the same day */
+  parentBlockIndex: z.number().int().min(0).nullish(),
+  supersetRounds: optionalNumber,
+  restBetweenExercises: optionalString,
+  restBetweenRounds: optionalString,
+  exercises: z.array(exerciseSchema),
+})
+
+const daySchema = z.object({
+  dayIndex: z.number().int(),
+  dayName: optionalString,
+  isRestDay: z.boolean().nullish(),
+  sessionNotes: optionalString,
+  estimatedDurationMinutes: optionalNumber,
+  blocks: z.array(blockSchema),
+})
+
+const weekSchema = z.object({
+  weekIndex: z.number().int(),
+  weekName: optionalString,
+  days: z.array(daySchema),
+})
+
+export const programExportSchema = z.object({
+  format: z.literal(PROGRAM_EXPORT_FORMAT),
+  version: z.literal(PROGRAM_EXPORT_VERSION),
+  exportedAt: z.string(),
+  program: z.object({
+    name: z.string().trim().min(1, 'Program name is required'),
+    description: z.string().nullish(),
+    cycleType: z.enum(['RED', 'AMBER', 'GREEN', 'SUSTAINMENT', 'CUSTOM']),
+    category: optionalString,
+    subCategory: optionalString,
+    durationWeeks: optionalNumber,
+    constraintCategory: optionalString,
+  }),
+  weeks: z.array(weekSchema),
+})
+
+export type ProgramExportFile = z.infer<typeof programExportSchema>
+
+/** Program fields written to the file alongside the structure */
+export interface ProgramExportMeta {
+  name: string
+  description?: string | null
+  cycleType: ProgramCycleType
+  category?: string | null
+  subCategory?: string | null
+  durationWeeks?: number | null
+  constraintCategory?: string | null
+}
+
+/** Block ids only mean something in the source database; supersets keep their parent by position */
+const parentBlockIndex = (
+  section: ProgramStructureSection,
+  sections: ProgramStructureSection[]
+): number | undefined => {
+  if (section.parentSectionIndex != null) return section.parentSectionIndex
+  if (section.parentSectionId == null) return undefined
+  const index = sections.findIndex(s => s.id === section.parentSectionId)
+  return index >= 0 ? index : undefined
+}
+
+/**
+ * Build the export file for a program
+ *
+ * @param getExerciseName - Name for an exercise id when the structure has no nested exercise
+ */
+export const buildProgramExport = (
+  meta: ProgramExportMeta,
+  structure: ProgramStructure,
+  getExerciseName: (exerciseId: number) => string
+): ProgramExportFile => ({
+  format: PROGRAM_EXPORT_FORMAT,
+  version: PROGRAM_EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  program: {
+    name: meta.name,
+    description: meta.description ?? '',
+    cycleType: meta.cycleType,
+    category: meta.category ?? null,
+    subCategory: meta.subCategory ?? null,
+    durationWeeks: meta.durationWeeks ?? null,
+    constraintCategory: meta.constraintCategory ?? null,
+  },
+  weeks: (structure.weeks ?? []).map(week => ({
+    weekIndex: week.weekIndex,
+    weekName: week.weekName,
+    days: (week.days ?? []).map(day => {
+      const sections = day.sections ?? []
+      return {
+        dayIndex: day.dayIndex,
+        dayName: day.dayName,
+        isRestDay: day.isRestDay,
+        sessionNotes: day.sessionNotes,
+        estimatedDurationMinutes: day.estimatedDurationMinutes,
+        blocks: sections.map(section => ({
+          blockType: section.blockType,
+          sectionType: section.sectionType,
+          blockCategory: section.blockCategory,
+          name: section.name,
+          instructions: section.instructions,
+          resultTrackingType: section.resultTrackingType,
+          videoUrls: Array.isArray(section.videoUrls)
+            ? (section.videoUrls as unknown[]).filter(
+                (u): u is string => typeof u === 'string' && u !== ''
+              )
+            : undefined,
+          conditioningFormat: section.conditioningFormat,
+          conditioningConfig: section.conditioningConfig,
+          parentBlockIndex: parentBlockIndex(section, sections),
+          supersetRounds: section.supersetRounds,
+          restBetweenExercises: section.restBetweenExercises,
+          restBetweenRounds: section.restBetweenRounds,
+          exercises: (section.exercises ?? []).map(ex => ({
+            exercise: {
+              id: ex.exerciseId,
+              name: ex.exercise?.name ?? getExerciseName(ex.exerciseId),
+            },
+            sets: ex.sets,
+            reps: ex.reps,
+            rpe: ex.rpe,
+            weightPercent: ex.weightPercent,
+            tempo: ex.tempo,
+            rest: ex.rest,
+            coachingNotes: ex.coachingNotes,
+            setsRows: ex.setsRows,
+          })),
+        })),
+      }
+    }),
+  })),
+})
+
+/** "Lower Body Strength" → "lower-body-strength.program.json" */
+export const programExportFilename = (name: string): string =>
+  `${
+    name
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '') || 'program'
+  }.program.json`
+
+export type ParseProgramExportResult =
+  | { ok: true; file: ProgramExportFile }
+  | { ok: false; errors: string[] }
+
+/**
+ * Read and validate an export file
+ *
+ * @returns The file, or readable errors ("weeks.0.days.1.dayIndex: Invalid input")
+ */
+export const parseProgramExport = (text: string): ParseProgramExportResult => {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    return { ok: false, errors: ['The file is not valid JSON.'] }
+  }
+  const header = json as { format?: unknown; version?: unknown } | null
+  if (header?.format !== PROGRAM_EXPORT_FORMAT) {
+    return { ok: false, errors: ['The file is not a program export.'] }
+  }
+  if (
+    typeof header.version === 'number' &&
+    header.version > PROGRAM_EXPORT_VERSION
+  ) {
+    return {
+      ok: false,
+      errors: [
+        `The file uses export format v${header.version}; this app reads up to v${PROGRAM_EXPORT_VERSION}.`,
+      ],
+    }
+  }
+  const result = programExportSchema.safeParse(json)
+  if (result.success) return { ok: true, file: result.data }
+  return {
+    ok: false,
+    errors: result.error.issues
+      .slice(0, 20)
+      .map(issue =>
+        issue.path.length
+          ? `${issue.path.map(String).join('.')}: ${issue.message}`
+          : issue.message
+      ),
+  }
+}
+
+/** One distinct exercise referenced by the file and the library entry it maps to */
+export interface ImportedExerciseMatch {
+  /** Stable key for the file reference (id + name) */
+  key: string
+  sourceId?: number | null
+  name: string
+  /** How many prescriptions reference it */
+  uses: number
+  /** Library id, or null when unmatched (flagged) */
+  libraryId: number | null
+  matchedBy: 'id' | 'name' | null
+}
+
+export const exerciseRefKey = (ref: { id?: number | null; name: string }) =>
+  `${ref.id ?? ''}:${ref.name.trim().toLowerCase()}`
+
+const normalizeName = (name: string) =>
+  name.trim().toLowerCase().replace(/\s+/g, ' ')
+
+/**
+ * Match every exercise in the file to the library
+ *
+ * Same id and same name → id; otherwise an exact (case-insensitive) name
+ * match. An id alone is not trusted, since ids differ between environments.
+ */
+export const matchImportedExercises = (
+  file: ProgramExportFile,
+  library: ExerciseListForBuilderItem[]
+): ImportedExerciseMatch[] => {
+  const byKey = new Map<string, ImportedExerciseMatch>()
+  for (const week of file.weeks) {
+    for (const day of week.days) {
+      for (const block of day.blocks) {
+        for (const ex of block.exercises) {
+          const key = exerciseRefKey(ex.exercise)
+          const existing = byKey.get(key)
+          if (existing) {
+            existing.uses += 1
+            continue
+          }
+          const name = normalizeName(ex.exercise.name)
+          const byId = library.find(
+            e => e.id === ex.exercise.id && normalizeName(e.name) === name
+          )
+          const byName = byId
+            ? undefined
+            : library.find(e => normalizeName(e.name) === name)
+          byKey.set(key, {
+            key,
+            sourceId: ex.exercise.id,
+            name: ex.exercise.name,
+            uses: 1,
+            libraryId: byId?.id ?? byName?.id ?? null,
+            matchedBy: byId ? 'id' : byName ? 'name' : null,
+          })
+        }
+      }
+    }
+  }
+  return [...byKey.values()]
+}
+
+/**
+ * Program structure for the create payload
+ *
+ * @param mapping - Exercise ref key → library id; exercises mapped to null are left out
+ */
+export const toProgramStructure = (
+  file: ProgramExportFile,
+  mapping: Record<string, number | null>
+): ProgramStructure => ({
+  weeks: file.weeks.map(week => ({
+    weekIndex: week.weekIndex,
+    weekName: week.weekName ?? undefined,
+    days: week.days.map(day => ({
+      dayIndex: day.dayIndex,
+      dayName: day.dayName ?? undefined,
+      isRestDay: day.isRestDay ?? undefined,
+      sessionNotes: day.sessionNotes ?? undefined,
+      estimatedDurationMinutes: day.estimatedDurationMinutes ?? undefined,
+      sections: day.blocks.map(block => ({
+        blockType: block.blockType ?? undefined,
+        sectionType: block.sectionType ?? undefined,
+        blockCategory: block.blockCategory ?? undefined,
+        name: block.name ?? undefined,
+        instructions: block.instructions ?? undefined,
+        resultTrackingType: block.resultTrackingType ?? undefined,
+        videoUrls: block.videoUrls ?? undefined,
+        conditioningFormat: block.conditioningFormat ?? undefined,
+        conditioningConfig: block.conditioningConfig
+          ? withoutNulls(block.conditioningConfig)
+          : undefined,
+        parentSectionIndex: block.parentBlockIndex ?? undefined,
+        supersetRounds: block.supersetRounds ?? undefined,
+        restBetweenExercises: block.restBetweenExercises ?? undefined,
+        restBetweenRounds: block.restBetweenRounds ?? undefined,
+        exercises: block.exercises.flatMap(ex => {
+          const exerciseId = mapping[exerciseRefKey(ex.exercise)]
+          if (exerciseId == null) return []
+          return [
+            {
+              exerciseId,
+              sets: ex.sets ?? undefined,
+              reps: ex.reps ?? undefined,
+              rpe: ex.rpe ?? undefined,
+              weightPercent: ex.weightPercent ?? undefined,
+              tempo: ex.tempo ?? undefined,
+              rest: ex.rest ?? undefined,
+              coachingNotes: ex.coachingNotes ?? undefined,
+              setsRows: ex.setsRows?.map(withoutNulls),
+            },
+          ]
+        }),
+      })),
+    })),
+  })),
+})
+
+/** Drop null fields (the file allows null; the builder types use undefined) */
+function withoutNulls<T extends Record<string, unknown>>(
+  value: T
+): { [K in keyof T]: Exclude<T[K], null> } {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v != null)
+  ) as { [K in keyof T]: Exclude<T[K], null> }
+}
+
+/**
+ * Create payload for an imported program. The program is created as a draft.
+ *
+ * @param overrides - Name and cycle chosen on import (the target cycle wins over the file's)
+ */
+export const toCreateProgramDTO = (
+  file: ProgramExportFile,
+  mapping: Record<string, number | null>,
+  overrides: { name: string; cycleId?: number; cycleType?: ProgramCycleType }
+): CreateProgramDTO => {
+  const cycleType = overrides.cycleType ?? file.program.cycleType
+  const weeks = file.weeks.length
+  return {
+    program_name: overrides.name.trim(),
+    program_description: file.program.description ?? '',
+    cycleType,
+    cycleId: overrides.cycleId,
+    numberOfWeeks: cycleType === 'AMBER' ? 0 : Math.max(1, weeks),
+    category: file.program.category ?? null,
+    subCategory: file.program.subCategory ?? null,
+    isActive: true,
+    isPublished: false,
+    ...(cycleType === 'GREEN' && {
+      durationWeeks: file.program.durationWeeks ?? weeks,
+    }),
+    ...(cycleType === 'SUSTAINMENT' &&
+      file.program.constraintCategory && {
+        constraintCategory: file.program.constraintCategory,
+      }),
+    programStructure: toProgramStructure(file, mapping),
+  }
+}
+
+/** Preview counts: weeks, training days, blocks, prescriptions */
+export const summarizeProgramExport = (file: ProgramExportFile) => {
+  const days = file.weeks.flatMap(w => w.days)
+  const blocks = days.flatMap(d => d.blocks)
+  return {
+    weeks: file.weeks.length,
+    trainingDays: days.filter(d => !d.isRestDay && d.blocks.length > 0).length,
+    blocks: blocks.length,
+    exercises: blocks.reduce((n, b) => n + b.exercises.length, 0),
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Program Versions
+ *
+ * Helpers for the program version history: record a snapshot after a save or
+ * publish, and turn an earlier version back into a new (unpublished) program.
+ */
+
+import { programService } from '@/api/program.service'
+import type {
+  CreateProgramDTO,
+  ProgramCycleType,
+  ProgramStructure,
+  ProgramStructureSectionExercise,
+  ProgramVersion,
+  ProgramVersionReason,
+} from '@/types/program'
+
+export const PROGRAM_VERSION_REASON_LABELS: Record<
+  ProgramVersionReason,
+  string
+> = {
+  save: 'Saved',
+  publish: 'Published',
+  restore: 'Restored',
+}
+
+/**
+ * Snapshot the program as it is now saved. Best-effort: a failed snapshot
+ * never fails the save or publish it follows.
+ */
+export const recordProgramVersion = async (
+  programId: number,
+  reason: ProgramVersionReason,
+  note?: string
+) => {
+  try {
+    await programService.createVersion(programId, { reason, note })
+  } catch {
+    // history is best-effort
+  }
+}
+
+/** "Version 3 · Published" */
+export const formatVersionLabel = (version: ProgramVersion) =>
+  `Version ${version.versionNumber} · ${PROGRAM_VERSION_REASON_LABELS[version.reason] ?? version.reason}`
+
+/** Saved exercise rows also carry their own record id */
+interface SectionExerciseRecord {
+  sectionExerciseId?: number
+}
+
+/**
+ * Structure with week / day / block ids removed so it can be created as new
+ * records. Superset children point at their parent by index instead of id.
+ */
+export const withoutRecordIds = (
+  structure: ProgramStructure
+): ProgramStructure => ({
+  weeks: (structure.weeks ?? []).map(week => ({
+    ...week,
+    id: undefined,
+    days: (week.days ?? []).map(day => {
+      const sections = day.sections ?? []
+      return {
+        ...day,
+        id: undefined,
+        sections: sections.map(section => {
+          const parentIndex =
+            section.parentSectionId != null
+              ? sections.findIndex(s => s.id === section.parentSectionId)
+              : -1
+          return {
+            ...section,
+            id: undefined,
+            parentSectionId: undefined,
+            ...(parentIndex >= 0 && { parentSectionIndex: parentIndex }),
+            exercises: (section.exercises ?? []).map(
+              (
+                ex: ProgramStructureSectionExercise & SectionExerciseRecord
+              ) => ({
+                ...ex,
+                exercise: undefined,
+                sectionExerciseId: undefined,
+              })
+            ),
+          }
+        }),
+      }
+    }),
+  })),
+})
+
+/** Create payload for "restore as new draft": an unpublished copy of the version */
+export const versionToCreateProgramDTO = (
+  version: ProgramVersion,
+  target: { cycleType: ProgramCycleType; cycleId?: number }
+): CreateProgramDTO => {
+  const structure = withoutRecordIds(version.programStructure ?? { weeks: [] })
+  const weeks = structure.weeks.length
+  return {
+    program_name: `${version.name} (restored v${version.versionNumber})`,
+    program_description: version.description ?? '',
+    cycleType: target.cycleType,
+    cycleId: target.cycleId,
+    numberOfWeeks: target.cycleType === 'AMBER' ? 0 : Math.max(1, weeks),
+    category: version.category ?? null,
+    subCategory: version.subCategory ?? null,
+    isActive: true,
+    isPublished: false,
+    ...(target.cycleType === 'GREEN' && { durationWeeks: Math.max(1, weeks) }),
+    ...(target.cycleType === 'SUSTAINMENT' &&
+      version.constraintCategory && {
+        constraintCategory: version.constraintCategory,
+      }),
+    programStructure: structure,
+  }
+}
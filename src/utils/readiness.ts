@@ -0,0 +1,195 @@
+/**
+ * Readiness
+ *
+ * Turns the pre-session survey (sleep, stress, energy, soreness, mood; 1-5)
+ * into a readiness score and a recommended adjustment for today's session:
+ * lighter loads, fewer sets, or recovery work in place of conditioning.
+ */
+
+import type {
+  ReadinessAdjustment,
+  ReadinessAdjustmentLevel,
+  ReadinessEntry,
+  ReadinessValues,
+} from '@/types/train'
+import type { ResolvedSetPrescription } from '@/utils/setPrescription'
+
+export const DEFAULT_READINESS_VALUES: ReadinessValues = {
+  sleep: 3,
+  stress: 3,
+  energy: 3,
+  soreness: 3,
+  mood: 3,
+}
+
+/** Stress and soreness are rated 5 = worst; flipped so 5 is always good */
+const INVERTED: Array<keyof ReadinessValues> = ['stress', 'soreness']
+
+/** Survey questions in display order, with what 1 and 5 mean for each */
+export const READINESS_QUESTIONS: Array<{
+  key: keyof ReadinessValues
+  label: string
+  low: string
+  high: string
+}> = [
+  { key: 'sleep', label: 'Sleep', low: 'very poor', high: 'great' },
+  { key: 'stress', label: 'Stress', low: 'none', high: 'very high' },
+  { key: 'energy', label: 'Energy', low: 'exhausted', high: 'full' },
+  { key: 'soreness', label: 'Soreness', low: 'none', high: 'very sore' },
+  { key: 'mood', label: 'Mood', low: 'very low', high: 'great' },
+]
+
+/** Shown when an answer is 2 or worse */
+const POOR_LABELS: Record<keyof ReadinessValues, string> = {
+  sleep: 'Poor sleep',
+  stress: 'High stress',
+  energy: 'Low energy',
+  soreness: 'Very sore',
+  mood: 'Low mood',
+}
+
+/** What each level changes; score = lowest score that still gets the level */
+const LEVELS: Array<
+  Omit<ReadinessAdjustment, 'score' | 'reasons'> & { minScore: number }
+> = [
+  {
+    level: 'none',
+    minScore: 70,
+    loadReductionPercent: 0,
+    dropSets: 0,
+    conditioning: 'as_prescribed',
+  },
+  {
+    level: 'light',
+    minScore: 55,
+    loadReductionPercent: 5,
+    dropSets: 0,
+    conditioning: 'as_prescribed',
+  },
+  {
+    level: 'moderate',
+    minScore: 40,
+    loadReductionPercent: 10,
+    dropSets: 1,
+    conditioning: 'as_prescribed',
+  },
+  {
+    level: 'recovery',
+    minScore: 0,
+    loadReductionPercent: 10,
+    dropSets: 1,
+    conditioning: 'recovery',
+  },
+]
+
+export const READINESS_LEVEL_LABELS: Record<ReadinessAdjustmentLevel, string> =
+  {
+    none: 'Ready to train',
+    light: 'Slightly under-recovered',
+    moderate: 'Under-recovered',
+    recovery: 'Recovery day recommended',
+  }
+
+/** Answer on a 1 (bad) – 5 (good) scale */
+const normalized = (values: ReadinessValues, key: keyof ReadinessValues) => {
+  const value = Math.min(5, Math.max(1, values[key]))
+  return INVERTED.includes(key) ? 6 - value : value
+}
+
+/**
+ * Readiness score, 0-100 (all 5s on the normalized scale = 100)
+ */
+export const scoreReadiness = (values: ReadinessValues): number => {
+  const keys = Object.keys(POOR_LABELS) as Array<keyof ReadinessValues>
+  const avg =
+    keys.reduce((sum, key) => sum + normalized(values, key), 0) / keys.length
+  return Math.round(((avg - 1) / 4) * 100)
+}
+
+/**
+ * Recommended adjustment for the survey
+ *
+ * The score picks the level; a single answer at the worst end (e.g. 1 for
+ * sleep, 5 for soreness) pulls a "none" day down to "light".
+ */
+export const recommendReadinessAdjustment = (
+  values: ReadinessValues
+): ReadinessAdjustment => {
+  const score = scoreReadiness(values)
+  const keys = Object.keys(POOR_LABELS) as Array<keyof ReadinessValues>
+  const reasons = keys
+    .filter(key => normalized(values, key) <= 2)
+    .map(key => POOR_LABELS[key])
+  const redFlag = keys.some(key => normalized(values, key) === 1)
+  let index = LEVELS.findIndex(l => score >= l.minScore)
+  if (index === 0 && redFlag) index = 1
+  const { level, loadReductionPercent, dropSets, conditioning } = LEVELS[index]
+  return {
+    level,
+    score,
+    loadReductionPercent,
+    dropSets,
+    conditioning,
+    reasons,
+  }
+}
+
+/** One line per change: "Loads -10%", "One fewer set per exercise", … */
+export const describeReadinessAdjustment = (
+  adjustment: ReadinessAdjustment
+): string[] => {
+  const lines: string[] = []
+  if (adjustment.loadReductionPercent > 0) {
+    lines.push(`Loads -${adjustment.loadReductionPercent}%`)
+  }
+  if (adjustment.dropSets > 0) {
+    lines.push(
+      adjustment.dropSets === 1
+        ? 'One fewer set per exercise'
+        : `${adjustment.dropSets} fewer sets per exercise`
+    )
+  }
+  if (adjustment.conditioning === 'recovery') {
+    lines.push('Conditioning swapped for easy recovery work')
+  }
+  return lines
+}
+
+/** Whether the adjustment changes anything */
+export const hasReadinessChanges = (
+  adjustment: ReadinessAdjustment | null | undefined
+): adjustment is ReadinessAdjustment =>
+  adjustment != null && describeReadinessAdjustment(adjustment).length > 0
+
+/**
+ * Set count after dropping sets; never below one
+ */
+export const adjustedSetCount = (
+  sets: number,
+  adjustment: ReadinessAdjustment | null | undefined
+): number => Math.max(1, sets - (adjustment?.dropSets ?? 0))
+
+/**
+ * Drop trailing set rows per the adjustment (loads are reduced when the rows
+ * are resolved, via PrescriptionContext.loadReductionPercent)
+ */
+export const applyReadinessToSetRows = (
+  rows: ResolvedSetPrescription[],
+  adjustment: ReadinessAdjustment | null | undefined
+): ResolvedSetPrescription[] =>
+  rows.length === 0
+    ? rows
+    : rows.slice(0, adjustedSetCount(rows.length, adjustment))
+
+/**
+ * Session history / coach view: "Readiness 45/100 · Adjustment applied: Loads -10% · …"
+ */
+export const formatReadinessEntry = (entry: ReadinessEntry): string => {
+  const score = entry.score ?? entry.adjustment?.score
+  const head = score != null ? `Readiness ${score}/100` : 'Readiness logged'
+  if (!hasReadinessChanges(entry.adjustment)) return head
+  const changes = describeReadinessAdjustment(entry.adjustment).join(' · ')
+  return entry.adjustmentApplied
+    ? `${head} · Adjustment applied: ${changes}`
+    : `${head} · Adjustment declined (${changes})`
+}
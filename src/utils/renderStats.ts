@@ -0,0 +1,33 @@
+/**
+ * Render Stats
+ *
+ * Render counts per React Profiler id, for measuring how much of a large
+ * view re-renders on an edit. Counts are kept in development only (Profiler
+ * callbacks do not run in production builds). In the browser console:
+ *
+ *   __renderStats.reset()   // then make an edit
+ *   __renderStats.get()     // { CalendarWeekRow: 1, CalendarDayCell: 1, … }
+ *
+ * `npm run bench:calendar` checks the calendar's counts on a 20-week program.
+ */
+
+import type { ProfilerOnRenderCallback } from 'react'
+
+const counts = new Map<string, number>()
+
+/** Profiler onRender: count one render of the subtree with this id */
+export const recordRender: ProfilerOnRenderCallback = id => {
+  counts.set(id, (counts.get(id) ?? 0) + 1)
+}
+
+/** Renders per Profiler id since the last reset */
+export const getRenderStats = (): Record<string, number> =>
+  Object.fromEntries(counts)
+
+export const resetRenderStats = () => counts.clear()
+
+if (import.meta.env.DEV) {
+  Object.assign(globalThis, {
+    __renderStats: { get: getRenderStats, reset: resetRenderStats },
+  })
+}
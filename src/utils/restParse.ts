@@ -0,0 +1,28 @@
+/**
+ * Rest Parse
+ *
+ * Reads the rest a coach typed ("90", "90s", "2:00", "2 min", "1m30s",
+ * "1 min 30 s") into seconds. Shared by the paste importer, the workout
+ * players and the program load estimates so they all agree on a value.
+ */
+
+/**
+ * Parse a rest string into seconds
+ * @returns Seconds, or undefined when empty or unreadable
+ */
+export const parseRestSeconds = (
+  rest: string | null | undefined
+): number | undefined => {
+  const text = rest?.trim().toLowerCase()
+  if (!text) return undefined
+  const clock = /^(\d+):(\d{1,2})$/.exec(text)
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2])
+  const parts =
+    /^(?:(\d+(?:\.\d+)?)\s*m(?:in(?:ute)?)?s?)?\s*(?:(\d+)\s*s(?:ec(?:ond)?)?s?)?$/.exec(
+      text
+    )
+  if (parts && (parts[1] || parts[2])) {
+    return Math.round(Number(parts[1] ?? 0) * 60 + Number(parts[2] ?? 0))
+  }
+  return /^\d+$/.test(text) ? Number(text) : undefined
+}
@@ -0,0 +1,92 @@
+/**
+ * Session Summary
+ *
+ * Recomputes a session's volume and PR list from its set logs after a set is
+ * corrected or deleted, so a typo no longer shows as a PR.
+ */
+
+import type { SessionSummary, SessionSummaryPR, SetLog } from '@/types/train'
+import { estimateOneRepMax } from '@/utils/e1rm'
+import { LB_PER_KG } from '@/utils/units'
+
+/** Weight of a set in the requested unit, converting when only the other is logged */
+const weightIn = (log: SetLog, unit: string): number | undefined => {
+  if (unit === 'kg') {
+    return (
+      log.weightKg ??
+      (log.weightLb != null ? log.weightLb / LB_PER_KG : undefined)
+    )
+  }
+  return (
+    log.weightLb ??
+    (log.weightKg != null ? log.weightKg * LB_PER_KG : undefined)
+  )
+}
+
+const isWorkingSet = (log: SetLog) => log.setType !== 'warmup'
+
+/**
+ * Best value the logs still support for one PR, in the PR's unit
+ * (estimated_1rm → best e1RM, volume → total, reps → most reps, else heaviest set)
+ */
+const bestValueFor = (pr: SessionSummaryPR, logs: SetLog[]): number | null => {
+  const sets = logs.filter(
+    log =>
+      isWorkingSet(log) &&
+      (log.exerciseKey ?? log.exerciseId) === pr.exerciseKey
+  )
+  const values = sets.flatMap(log => {
+    const weight = weightIn(log, pr.unit)
+    switch (pr.type) {
+      case 'estimated_1rm': {
+        if (weight == null || log.reps == null) return []
+        const e1rm = estimateOneRepMax({ weight, reps: log.reps, rpe: log.rpe })
+        return e1rm != null ? [e1rm] : []
+      }
+      case 'reps':
+        return log.reps != null ? [log.reps] : []
+      case 'volume':
+        return weight != null && log.reps != null ? [weight * log.reps] : []
+      default:
+        return weight != null ? [weight] : []
+    }
+  })
+  if (values.length === 0) return null
+  return pr.type === 'volume'
+    ? values.reduce((a, b) => a + b, 0)
+    : Math.max(...values)
+}
+
+/** Total working-set volume in kg (reps × weight) */
+export const computeVolumeKg = (setLogs: SetLog[]): number => {
+  const total = setLogs.filter(isWorkingSet).reduce((sum, log) => {
+    const kg = weightIn(log, 'kg')
+    return kg != null && log.reps != null ? sum + kg * log.reps : sum
+  }, 0)
+  return Math.round(total)
+}
+
+/**
+ * Summary after set corrections
+ *
+ * Set count and volume come from the remaining working sets. A PR stays only
+ * while some set still beats its previous value; its new value becomes what
+ * the corrected sets support.
+ */
+export const recomputeSessionSummary = (
+  summary: SessionSummary,
+  setLogs: SetLog[]
+): SessionSummary => {
+  const prs = (summary.prs ?? []).flatMap(pr => {
+    const best = bestValueFor(pr, setLogs)
+    if (best == null || best <= pr.previousValue) return []
+    const newValue = Math.round(best * 10) / 10
+    return [{ ...pr, newValue }]
+  })
+  return {
+    ...summary,
+    totalSets: setLogs.filter(isWorkingSet).length,
+    volumeKg: computeVolumeKg(setLogs),
+    prs,
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Set Prescription
+ *
+ * Resolves builder set rows (ProgramStructureSetRow) into concrete per-set
+ * targets for the athlete: reps, load, RPE, tempo phases and rest.
+ */
+
+import type { ProgramStructureSetRow } from '@/types/program'
+import { convertWeight, roundToLoadable } from '@/utils/units'
+
+export type PrescriptionUnit = 'lb' | 'kg'
+
+/** Context used to turn relative loads (% of working max, LWP+) into a weight */
+export interface PrescriptionContext {
+  workingMax?: { value: number; unit: string } | null
+  lastLogged?: {
+    weightLb?: number | null
+    weightKg?: number | null
+  } | null
+  /** Unit for loads that carry none (percent with no working max unit) */
+  unit?: PrescriptionUnit
+  /** Athlete's unit: resolved loads are converted and rounded to it */
+  displayUnit?: PrescriptionUnit
+  /** Readiness: cut every resolved load by this percent (5 = -5%) */
+  loadReductionPercent?: number
+}
+
+export interface TempoPhase {
+  label: 'Down' | 'Pause' | 'Up' | 'Top'
+  seconds: number
+  /** "X" in the tempo string: move as fast as possible */
+  explosive: boolean
+}
+
+export interface ResolvedSetPrescription {
+  /** 1-based set number */
+  setNumber: number
+  /** Numeric reps when the row has them (used to prefill and detect edits) */
+  reps?: number
+  repsLabel: string
+  /** Concrete target load, when one can be resolved */
+  weight?: number
+  unit: PrescriptionUnit
+  weightLabel: string
+  rpe?: number
+  tempo?: string
+  tempoPhases: TempoPhase[] | null
+  restSeconds?: number
+}
+
+const TEMPO_PHASE_LABELS: TempoPhase['label'][] = ['Down', 'Pause', 'Up', 'Top']
+
+const normalizeUnit = (unit: string | undefined): PrescriptionUnit =>
+  unit?.toLowerCase() === 'kg' ? 'kg' : 'lb'
+
+/**
+ * Cut a load by a percent (readiness adjustment), rounded to a loadable weight
+ */
+export const applyLoadReduction = (
+  weight: number,
+  percent: number | undefined,
+  unit: PrescriptionUnit
+): number =>
+  percent ? roundToLoadable(weight * (1 - percent / 100), unit) : weight
+
+/**
+ * Parse a four-part tempo string (eccentric, bottom pause, concentric, top pause)
+ *
+ * Accepts digits and "X" for explosive, e.g. "31X1" or "3-1-X-1".
+ *
+ * @returns Tempo phases, or null when the string is not a valid tempo
+ */
+export const parseTempo = (tempo: string | undefined): TempoPhase[] | null => {
+  if (!tempo) return null
+  const parts = tempo
+    .trim()
+    .toUpperCase()
+    .replace(/[\s\-/:]/g, '')
+  if (!/^[0-9X]{4}$/.test(parts)) return null
+  return parts.split('').map((char, i) => ({
+    label: TEMPO_PHASE_LABELS[i],
+    seconds: char === 'X' ? 1 : Number(char),
+    explosive: char === 'X',
+  }))
+}
+
+/**
+ * Resolve one set row into a concrete target
+ *
+ * - percent: % of the working max, rounded to a loadable weight
+ * - absolute_lb: fixed load in lb
+ * - lwp: last working weight plus the row value
+ * - build_to_heavy / rpe_only: no fixed load, shown as text
+ *
+ * @param row - Builder set row
+ * @param index - Row position (used when the row has no setIndex)
+ * @param context - Working max and last logged set for relative loads
+ */
+export const resolveSetPrescription = (
+  row: ProgramStructureSetRow,
+  index: number,
+  context: PrescriptionContext = {}
+): ResolvedSetPrescription => {
+  const wmUnit = context.workingMax
+    ? normalizeUnit(context.workingMax.unit)
+    : undefined
+  let unit: PrescriptionUnit = wmUnit ?? context.unit ?? 'lb'
+  let weight: number | undefined
+  let weightLabel = row.weightDisplay ?? '—'
+  /** Shown in parentheses after a resolved load ("75%") */
+  let note = ''
+
+  switch (row.weightMode) {
+    case 'percent':
+      if (row.weightValue != null && context.workingMax) {
+        weight = roundToLoadable(
+          (context.workingMax.value * row.weightValue) / 100,
+          unit
+        )
+        note = `${row.weightValue}%`
+      } else if (row.weightValue != null) {
+        weightLabel = `${row.weightValue}% (set working max)`
+      }
+      break
+    case 'absolute_lb':
+      if (row.weightValue != null) {
+        unit = 'lb'
+        weight = row.weightValue
+      }
+      break
+    case 'lwp': {
+      const last = context.lastLogged
+      const lastWeight =
+        last?.weightLb != null
+          ? { value: last.weightLb, unit: 'lb' as const }
+          : last?.weightKg != null
+            ? { value: last.weightKg, unit: 'kg' as const }
+            : null
+      const plus = row.weightValue ?? 0
+      if (lastWeight) {
+        unit = lastWeight.unit
+        weight = lastWeight.value + plus
+        note = `last +${plus}`
+      } else {
+        weightLabel = `Last weight +${plus}`
+      }
+      break
+    }
+    case 'build_to_heavy':
+      weightLabel = row.weightDisplay ?? 'Build to heavy'
+      break
+    case 'rpe_only':
+      weightLabel = row.rpe != null ? `By feel (RPE ${row.rpe})` : 'By feel'
+      break
+    default:
+      if (row.weightValue != null) weight = row.weightValue
+  }
+
+  if (
+    weight != null &&
+    context.displayUnit != null &&
+    context.displayUnit !== unit
+  ) {
+    weight = roundToLoadable(
+      convertWeight(weight, unit, context.displayUnit),
+      context.displayUnit
+    )
+    unit = context.displayUnit
+  }
+  if (weight != null && context.loadReductionPercent) {
+    weight = applyLoadReduction(weight, context.loadReductionPercent, unit)
+    note = [note, `-${context.loadReductionPercent}% readiness`]
+      .filter(Boolean)
+      .join(', ')
+  }
+  if (weight != null) {
+    weightLabel = note ? `${weight} ${unit} (${note})` : `${weight} ${unit}`
+  }
+
+  return {
+    setNumber: row.setIndex != null ? row.setIndex + 1 : index + 1,
+    reps: row.reps,
+    repsLabel: row.repsDisplay ?? (row.reps != null ? String(row.reps) : '—'),
+    weight,
+    unit,
+    weightLabel,
+    rpe: row.rpe,
+    tempo: row.tempo,
+    tempoPhases: parseTempo(row.tempo),
+    restSeconds: row.restSeconds,
+  }
+}
+
+/**
+ * Resolve every set row of an exercise
+ * @param rows - setsRows from the day structure (unknown shape from the API)
+ * @param context - Working max and last logged set for relative loads
+ */
+export const resolveSetsRows = (
+  rows: unknown,
+  context: PrescriptionContext = {}
+): ResolvedSetPrescription[] =>
+  Array.isArray(rows)
+    ? (rows as ProgramStructureSetRow[]).map((row, i) =>
+        resolveSetPrescription(row, i, context)
+      )
+    : []
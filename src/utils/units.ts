@@ -0,0 +1,220 @@
+/**
+ * Units
+ *
+ * One place for lb/kg, oz/ml and mi/km conversion and formatting. The backend
+ * stores fixed units (weights as lb and/or kg, hydration in oz, bodyweight in
+ * kg, test distances in MILES/METERS); screens convert to and from the
+ * athlete's unit system here.
+ */
+
+import type { UnitSystem } from '@/types/user'
+
+export const LB_PER_KG = 2.20462
+export const ML_PER_OZ = 29.5735
+export const M_PER_MI = 1609.344
+export const M_PER_YD = 0.9144
+
+export type WeightUnit = 'lb' | 'kg'
+export type VolumeUnit = 'oz' | 'ml'
+export type DistanceUnit = 'mi' | 'km'
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'imperial'
+
+export const weightUnitFor = (system: UnitSystem): WeightUnit =>
+  system === 'metric' ? 'kg' : 'lb'
+
+export const volumeUnitFor = (system: UnitSystem): VolumeUnit =>
+  system === 'metric' ? 'ml' : 'oz'
+
+export const distanceUnitFor = (system: UnitSystem): DistanceUnit =>
+  system === 'metric' ? 'km' : 'mi'
+
+/** Round to `step` (0.1 → one decimal) */
+const roundTo = (value: number, step: number) => Math.round(value / step) * step
+
+/** Drop float noise (72.50000001 → 72.5) */
+const clean = (value: number) => Math.round(value * 100) / 100
+
+export const convertWeight = (
+  value: number,
+  from: WeightUnit,
+  to: WeightUnit
+): number => {
+  if (from === to) return value
+  return from === 'lb' ? value / LB_PER_KG : value * LB_PER_KG
+}
+
+/**
+ * Round a bar load to the nearest loadable increment (5 lb / 2.5 kg)
+ */
+export const roundToLoadable = (value: number, unit: WeightUnit): number =>
+  clean(roundTo(value, unit === 'kg' ? 2.5 : 5))
+
+/**
+ * A stored weight in the athlete's unit. Prefers the value already stored in
+ * that unit; converts the other one otherwise.
+ *
+ * @param loadable - Round to a loadable increment (bar weights) instead of 0.1
+ */
+export const displayWeight = (
+  weights: { weightLb?: number | null; weightKg?: number | null },
+  system: UnitSystem,
+  loadable = false
+): number | null => {
+  const unit = weightUnitFor(system)
+  const stored = unit === 'kg' ? weights.weightKg : weights.weightLb
+  const value =
+    stored ??
+    (unit === 'kg'
+      ? weights.weightLb != null
+        ? convertWeight(weights.weightLb, 'lb', 'kg')
+        : null
+      : weights.weightKg != null
+        ? convertWeight(weights.weightKg, 'kg', 'lb')
+        : null)
+  if (value == null) return null
+  if (stored != null) return clean(value)
+  return loadable ? roundToLoadable(value, unit) : clean(roundTo(value, 0.1))
+}
+
+/**
+ * Weight entered in the athlete's unit, as the field the API stores
+ */
+export const weightFields = (
+  value: number,
+  system: UnitSystem
+): { weightLb?: number; weightKg?: number } =>
+  system === 'metric' ? { weightKg: value } : { weightLb: value }
+
+/** "225 lb" / "102.5 kg" */
+export const formatWeight = (
+  weights: { weightLb?: number | null; weightKg?: number | null },
+  system: UnitSystem,
+  loadable = false
+): string => {
+  const value = displayWeight(weights, system, loadable)
+  return value == null ? '—' : `${value} ${weightUnitFor(system)}`
+}
+
+/** Training volume (stored in kg) as a whole number in the athlete's unit: "12400 lb" */
+export const formatTonnage = (volumeKg: number, system: UnitSystem) =>
+  `${Math.round(
+    system === 'metric' ? volumeKg : convertWeight(volumeKg, 'kg', 'lb')
+  )} ${weightUnitFor(system)}`
+
+/** Bodyweight (stored in kg) in the athlete's unit, one decimal */
+export const displayBodyweight = (valueKg: number, system: UnitSystem) =>
+  system === 'metric'
+    ? clean(roundTo(valueKg, 0.1))
+    : clean(roundTo(convertWeight(valueKg, 'kg', 'lb'), 0.1))
+
+/** Bodyweight entered in the athlete's unit → kg for the API */
+export const bodyweightToKg = (value: number, system: UnitSystem) =>
+  system === 'metric' ? value : clean(convertWeight(value, 'lb', 'kg'))
+
+/** Hydration (stored in oz): whole oz, or ml to the nearest 10 */
+export const displayVolume = (amountOz: number, system: UnitSystem) =>
+  system === 'metric' ? roundTo(amountOz * ML_PER_OZ, 10) : Math.round(amountOz)
+
+/** Hydration entered in the athlete's unit → oz for the API */
+export const volumeToOz = (value: number, system: UnitSystem) =>
+  system === 'metric' ? clean(value / ML_PER_OZ) : value
+
+/** "64 oz" / "1890 ml" */
+export const formatVolume = (amountOz: number, system: UnitSystem) =>
+  `${displayVolume(amountOz, system)} ${volumeUnitFor(system)}`
+
+/** Hydration buttons: 8 / 16 oz or 250 / 500 ml, as oz deltas */
+export const hydrationSteps = (
+  system: UnitSystem
+): Array<{ label: string; oz: number }> =>
+  system === 'metric'
+    ? [
+        { label: '250 ml', oz: volumeToOz(250, system) },
+        { label: '500 ml', oz: volumeToOz(500, system) },
+      ]
+    : [
+        { label: '8 oz', oz: 8 },
+        { label: '16 oz', oz: 16 },
+      ]
+
+export const CM_PER_IN = 2.54
+
+/** Height entered in the athlete's unit (in / cm) → cm */
+export const heightToCm = (value: number, system: UnitSystem) =>
+  system === 'metric' ? value : clean(value * CM_PER_IN)
+
+/** Test event display unit: MILES as mi / km, METERS as yd / m, LBS / KG as lb / kg */
+export type TestEventDisplayUnit = DistanceUnit | 'm' | 'yd' | WeightUnit
+
+/**
+ * Unit a test event score is entered and shown in. Times, reps and points
+ * are unit-free.
+ *
+ * @returns The display unit, or null when the event has no convertible unit
+ */
+export const testEventDisplayUnit = (
+  eventUnit: string | undefined,
+  system: UnitSystem
+): TestEventDisplayUnit | null => {
+  switch (eventUnit?.toUpperCase()) {
+    case 'MILES':
+      return distanceUnitFor(system)
+    case 'METERS':
+      return system === 'metric' ? 'm' : 'yd'
+    case 'LBS':
+    case 'KG':
+      return weightUnitFor(system)
+    default:
+      return null
+  }
+}
+
+/** Base quantity per unit: meters for distances, kg for weights */
+const BASE_PER: Record<TestEventDisplayUnit, number> = {
+  mi: M_PER_MI,
+  km: 1000,
+  yd: M_PER_YD,
+  m: 1,
+  lb: 1 / LB_PER_KG,
+  kg: 1,
+}
+
+const STORED_UNIT: Record<string, TestEventDisplayUnit> = {
+  MILES: 'mi',
+  METERS: 'm',
+  LBS: 'lb',
+  KG: 'kg',
+}
+
+/** Miles / km to 0.01, weights to 0.1, yards / meters whole */
+const roundTestScore = (value: number, unit: TestEventDisplayUnit) =>
+  unit === 'mi' || unit === 'km'
+    ? clean(roundTo(value, 0.01))
+    : unit === 'lb' || unit === 'kg'
+      ? clean(roundTo(value, 0.1))
+      : Math.round(value)
+
+/** Test event score entered in the display unit → the event's stored unit */
+export const testScoreToEventUnit = (
+  value: number,
+  eventUnit: string | undefined,
+  system: UnitSystem
+): number => {
+  const display = testEventDisplayUnit(eventUnit, system)
+  const stored = STORED_UNIT[eventUnit?.toUpperCase() ?? '']
+  if (display == null || stored == null || display === stored) return value
+  return roundTestScore((value * BASE_PER[display]) / BASE_PER[stored], stored)
+}
+
+/** Stored test event score → display unit */
+export const testScoreFromEventUnit = (
+  value: number,
+  eventUnit: string | undefined,
+  system: UnitSystem
+): number => {
+  const display = testEventDisplayUnit(eventUnit, system)
+  const stored = STORED_UNIT[eventUnit?.toUpperCase() ?? '']
+  if (display == null || stored == null || display === stored) return value
+  return roundTestScore((value * BASE_PER[stored]) / BASE_PER[display], display)
+}